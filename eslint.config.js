@@ -6,7 +6,16 @@ import globals from "globals";
 
 export default [
   {
-    ignores: ["node_modules/", "dist/", "coverage/", "*.min.js", "*.config.js", ".github/"],
+    ignores: [
+      "node_modules/",
+      "dist/",
+      "coverage/",
+      "*.min.js",
+      "*.config.js",
+      ".github/",
+      // Generated by npm run generate:proto
+      "src/cline/generated/",
+    ],
   },
   js.configs.recommended,
   {
@@ -5,8 +5,103 @@
 import { AgentSideConnection, ndJsonStream } from "@agentclientprotocol/sdk";
 import { nodeToWebReadable, nodeToWebWritable } from "./utils.js";
 import { ClineAcpAgent } from "./cline/cline-acp-agent.js";
+import { SpendingBudgets } from "./cline/types.js";
+import { ClineTlsOptions, parseClineAddress } from "./cline/grpc-client.js";
+
+/**
+ * Read spending budgets from CLINE_ACP_BUDGETS (JSON, see README)
+ */
+function readBudgets(): SpendingBudgets | undefined {
+  const json = process.env.CLINE_ACP_BUDGETS;
+  if (!json) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(json) as SpendingBudgets;
+  } catch {
+    // stdout carries the protocol, so report configuration problems on stderr
+    console.error("cline-acp: ignoring CLINE_ACP_BUDGETS, it is not valid JSON");
+    return undefined;
+  }
+}
+
+/**
+ * Read the Cline instance to connect to from --address or CLINE_ACP_ADDRESS
+ * tls:// addresses take their credentials from CLINE_ACP_TLS_CA, CLINE_ACP_TLS_CERT,
+ * CLINE_ACP_TLS_KEY and CLINE_ACP_TOKEN (see README)
+ */
+function readConnection(): { address?: string; tls?: ClineTlsOptions } {
+  const args = process.argv.slice(2);
+  const flagIndex = args.indexOf("--address");
+  const value =
+    (flagIndex >= 0 ? args[flagIndex + 1] : undefined) ??
+    args.find((arg) => arg.startsWith("--address="))?.slice("--address=".length) ??
+    process.env.CLINE_ACP_ADDRESS;
+  if (!value) {
+    return {};
+  }
+
+  // Falling back to local instances would quietly connect somewhere else
+  let parsed: { address: string; secure: boolean };
+  try {
+    parsed = parseClineAddress(value);
+  } catch (error) {
+    console.error(`cline-acp: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  if (!parsed.secure) {
+    if (process.env.CLINE_ACP_TOKEN) {
+      console.error(
+        "cline-acp: ignoring CLINE_ACP_TOKEN, tokens are only sent to tls:// addresses",
+      );
+    }
+    return { address: parsed.address };
+  }
+  return {
+    address: parsed.address,
+    tls: {
+      caFile: process.env.CLINE_ACP_TLS_CA || undefined,
+      certFile: process.env.CLINE_ACP_TLS_CERT || undefined,
+      keyFile: process.env.CLINE_ACP_TLS_KEY || undefined,
+      token: process.env.CLINE_ACP_TOKEN || undefined,
+    },
+  };
+}
+
+// How long to wait for the agent to stop its instances before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 10000;
+
+/**
+ * Shut the agent down when the client goes away or the process is told to stop
+ * Instances started for sessions keep running on their own, and the client's MCP servers
+ * in Cline's settings hold its secrets, so neither may outlive the agent
+ */
+function shutdownOnExit(getAgent: () => ClineAcpAgent | undefined): void {
+  let stopping = false;
+  const stop = async () => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    const shutdown = getAgent()
+      ?.shutdown()
+      .catch((error) => console.error("cline-acp: shutdown failed:", error));
+    await Promise.race([
+      shutdown,
+      new Promise((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS).unref()),
+    ]);
+    process.exit(0);
+  };
+
+  process.stdin.on("end", stop);
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
 
 export function runClineAcp() {
+  const connection = readConnection();
+
   const input = nodeToWebWritable(process.stdout);
   const output = nodeToWebReadable(process.stdin);
 
@@ -17,10 +112,24 @@ export function runClineAcp() {
     process.env.CLINE_ACP_DEBUG === "1" ||
     process.env.CLINE_ACP_DEBUG === "true";
 
+  let agent: ClineAcpAgent | undefined;
+  shutdownOnExit(() => agent);
+
   const stream = ndJsonStream(input, output);
   new AgentSideConnection((client) => {
-    const agent = new ClineAcpAgent({
+    agent = new ClineAcpAgent({
       verbose,
+      budgets: readBudgets(),
+      // Set CLINE_ACP_ADDRESS or pass --address to use one Cline instance for every session
+      address: connection.address,
+      rpc: connection.tls && { tls: connection.tls },
+      // Set CLINE_ACP_SAME_MODEL=1 to keep Plan and Act modes on the same model
+      sameModelForBothModes:
+        process.env.CLINE_ACP_SAME_MODEL === "1" || process.env.CLINE_ACP_SAME_MODEL === "true",
+      // Set CLINE_ACP_ALLOW_UNSUPPORTED=1 to use Cline versions older than the supported range
+      allowUnsupportedVersion:
+        process.env.CLINE_ACP_ALLOW_UNSUPPORTED === "1" ||
+        process.env.CLINE_ACP_ALLOW_UNSUPPORTED === "true",
       // autoStart and useExisting default to true
     });
     agent.setClient(client);
@@ -0,0 +1,150 @@
+/**
+ * "Always Allow" approval rules - derived from approved Cline asks and persisted per workspace
+ */
+
+import { ApprovalRule, ApprovalRuleKind, ClineMessage } from "./types.js";
+
+/**
+ * Map a Cline tool name to the approval rule kind that covers it
+ * Cline uses camelCase names in ask JSON (readFile, editedExistingFile, ...), while
+ * tool-use names are snake_case (read_file, write_to_file, ...) - accept both
+ */
+function toolApprovalKind(toolType: string): ApprovalRuleKind | null {
+  const kindMap: Record<string, ApprovalRuleKind> = {
+    read_file: "read",
+    readFile: "read",
+    list_files: "read",
+    listFilesTopLevel: "read",
+    listFilesRecursive: "read",
+    search_files: "read",
+    searchFiles: "read",
+    list_code_definition_names: "read",
+    listCodeDefinitionNames: "read",
+    write_to_file: "edit",
+    replace_in_file: "edit",
+    editedExistingFile: "edit",
+    newFileCreated: "edit",
+  };
+  return kindMap[toolType] ?? null;
+}
+
+// Operators and substitutions that let a command run more than its first program
+const SHELL_OPERATORS = /[;&|`<>\n]|\$\(/;
+
+/**
+ * Check if a command chains, pipes, redirects or substitutes other commands
+ * Such commands never match a rule, since a prefix says nothing about the rest
+ */
+export function isCompoundCommand(command: string): boolean {
+  return SHELL_OPERATORS.test(command);
+}
+
+/**
+ * Get the prefix an "Always Allow" on a command applies to
+ * Keeps the program and its subcommand (e.g. "npm test", "git status") so that allowing
+ * one invocation doesn't allow every use of the same program. Without a subcommand
+ * (e.g. "rm -rf build") the whole command is kept, flags included.
+ */
+export function getCommandPrefix(command: string): string {
+  const words = command.trim().split(/\s+/);
+  const subcommand = words[1];
+  if (subcommand && /^[A-Za-z][\w:-]*$/.test(subcommand)) {
+    return `${words[0]} ${subcommand}`;
+  }
+  return words.join(" ");
+}
+
+/**
+ * Build the rule an "Always Allow" answer to this ask should create
+ * Returns null for asks that can't be turned into a rule (e.g. unknown tools, or
+ * commands chained with shell operators)
+ */
+export function approvalRuleForMessage(
+  msg: ClineMessage,
+): Pick<ApprovalRule, "kind" | "commandPrefix" | "outsideWorkspace"> | null {
+  const askType = String(msg.ask || "").toLowerCase();
+
+  switch (askType) {
+    case "command": {
+      const command = (msg.text || "").trim();
+      if (!command || isCompoundCommand(command)) {
+        return null;
+      }
+      return { kind: "execute", commandPrefix: getCommandPrefix(command) };
+    }
+    case "tool": {
+      try {
+        const data = JSON.parse(msg.text || "{}");
+        const kind = toolApprovalKind(String(data.tool || ""));
+        if (!kind) {
+          return null;
+        }
+        // Like Cline's edit_files and edit_files_externally, allowing files in the
+        // workspace doesn't allow files outside it
+        return data.operationIsLocatedInWorkspace === false
+          ? { kind, outsideWorkspace: true }
+          : { kind };
+      } catch {
+        return null;
+      }
+    }
+    case "browser_action_launch":
+      return { kind: "browser" };
+    case "use_mcp_server":
+      return { kind: "mcp" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find a stored rule that allows this ask without prompting the user
+ */
+export function findMatchingApprovalRule(
+  rules: ApprovalRule[],
+  msg: ClineMessage,
+): ApprovalRule | undefined {
+  const candidate = approvalRuleForMessage(msg);
+  if (!candidate) {
+    return undefined;
+  }
+
+  const command = (msg.text || "").trim();
+  return rules.find((rule) => {
+    if (rule.kind !== candidate.kind) {
+      return false;
+    }
+    if (Boolean(rule.outsideWorkspace) !== Boolean(candidate.outsideWorkspace)) {
+      return false;
+    }
+    if (rule.kind !== "execute" || !rule.commandPrefix) {
+      return true;
+    }
+    // Match whole words so "npm test" doesn't allow "npm testing-something-else"
+    return command === rule.commandPrefix || command.startsWith(`${rule.commandPrefix} `);
+  });
+}
+
+/**
+ * Human-readable description of a rule
+ */
+export function describeApprovalRule(
+  rule: Pick<ApprovalRule, "kind" | "commandPrefix" | "outsideWorkspace">,
+): string {
+  if (rule.kind === "execute" && rule.commandPrefix) {
+    return `commands starting with \`${rule.commandPrefix}\``;
+  }
+  if (rule.outsideWorkspace) {
+    return rule.kind === "edit"
+      ? "editing files outside the workspace"
+      : "reading files outside the workspace";
+  }
+  const descriptions: Record<ApprovalRuleKind, string> = {
+    read: "reading files",
+    edit: "editing files",
+    execute: "all commands",
+    browser: "browser use",
+    mcp: "MCP tools",
+  };
+  return descriptions[rule.kind];
+}
@@ -0,0 +1,115 @@
+/**
+ * ACP authentication - stores the credentials a client supplies in Cline's settings
+ *
+ * ACP's authenticate request only names a method, so the secret is passed in its _meta:
+ *   { methodId: "anthropic-api-key", _meta: { apiKey: "sk-ant-..." } }
+ *   { methodId: "openai-compatible", _meta: { baseUrl: "http://...", apiKey: "..." } }
+ */
+
+import { AuthMethod, RequestError } from "@agentclientprotocol/sdk";
+import { getModeModel, getProvider, hasCredentials } from "./providers.js";
+
+interface ClineAuthMethod extends AuthMethod {
+  // Provider the credentials are for
+  provider: string;
+  // ModelsApiConfiguration field the API key is stored in
+  keyField: string;
+  // ModelsApiConfiguration field the base URL is stored in, for methods that need one
+  baseUrlField?: string;
+}
+
+const AUTH_METHODS: ClineAuthMethod[] = [
+  {
+    id: "cline-api-key",
+    name: "Cline Account",
+    description: "Use a Cline account API key (pass it in _meta.apiKey)",
+    provider: "cline",
+    keyField: "clineApiKey",
+  },
+  {
+    id: "anthropic-api-key",
+    name: "Anthropic API Key",
+    description: "Use an Anthropic API key (pass it in _meta.apiKey)",
+    provider: "anthropic",
+    keyField: "apiKey",
+  },
+  {
+    id: "openrouter-api-key",
+    name: "OpenRouter API Key",
+    description: "Use an OpenRouter API key (pass it in _meta.apiKey)",
+    provider: "openrouter",
+    keyField: "openRouterApiKey",
+  },
+  {
+    id: "openai-compatible",
+    name: "Custom Base URL",
+    description:
+      "Use an OpenAI-compatible server (pass _meta.baseUrl, and _meta.apiKey if it needs one)",
+    provider: "openai",
+    keyField: "openAiApiKey",
+    baseUrlField: "openAiBaseUrl",
+  },
+];
+
+/**
+ * Get the auth methods to advertise, with the active provider's first
+ */
+export function getAuthMethods(activeProvider?: string): AuthMethod[] {
+  const active = activeProvider ? getProvider(activeProvider)?.id : undefined;
+  return [...AUTH_METHODS]
+    .sort((a, b) => Number(b.provider === active) - Number(a.provider === active))
+    .map(({ id, name, description }) => ({ id, name, description }));
+}
+
+/**
+ * Build the apiConfiguration fields an authenticate request sets
+ * Throws invalidParams if the method is unknown or the secret is missing
+ */
+export function buildAuthConfig(
+  methodId: string,
+  meta: Record<string, unknown> | undefined,
+): { provider: string; config: Record<string, unknown> } {
+  const method = AUTH_METHODS.find((candidate) => candidate.id === methodId);
+  if (!method) {
+    throw RequestError.invalidParams({ methodId }, `Unknown auth method: ${methodId}`);
+  }
+
+  const apiKey = typeof meta?.apiKey === "string" ? meta.apiKey.trim() : "";
+  const baseUrl = typeof meta?.baseUrl === "string" ? meta.baseUrl.trim() : "";
+
+  if (method.baseUrlField) {
+    if (!baseUrl) {
+      throw RequestError.invalidParams({ methodId }, `${method.name} needs _meta.baseUrl`);
+    }
+  } else if (!apiKey) {
+    throw RequestError.invalidParams({ methodId }, `${method.name} needs _meta.apiKey`);
+  }
+
+  const config: Record<string, unknown> = {};
+  if (apiKey) {
+    config[method.keyField] = apiKey;
+  }
+  if (method.baseUrlField) {
+    config[method.baseUrlField] = baseUrl;
+  }
+  return { provider: method.provider, config };
+}
+
+/**
+ * Find a mode whose provider has no credentials configured
+ * Modes without an explicit provider are left to Cline's own defaults
+ */
+export function findUnauthenticatedMode(
+  apiConfig: Record<string, unknown>,
+): { mode: "plan" | "act"; provider: string } | undefined {
+  for (const mode of ["plan", "act"] as const) {
+    if (!apiConfig[`${mode}ModeApiProvider`]) {
+      continue;
+    }
+    const { provider } = getModeModel(apiConfig, mode);
+    if (!hasCredentials(provider, apiConfig)) {
+      return { mode, provider };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,66 @@
+/**
+ * Spending budgets - soft limits warn, hard limits stop the task until the user agrees to go on
+ */
+
+import { BudgetLimit, BudgetScope, BudgetUsage, SpendingBudgets } from "./types.js";
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: "Session",
+  daily: "Daily",
+};
+
+/**
+ * Get the local calendar date daily budgets are counted against (YYYY-MM-DD)
+ */
+export function getBudgetDay(now: Date = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Check whether usage has reached a limit
+ */
+export function isOverLimit(usage: BudgetUsage, limit: BudgetLimit | undefined): boolean {
+  if (!limit) {
+    return false;
+  }
+  return (
+    (limit.costUsd !== undefined && usage.costUsd >= limit.costUsd) ||
+    (limit.tokens !== undefined && usage.tokens >= limit.tokens)
+  );
+}
+
+/**
+ * Find the budgets whose soft and hard limits have been reached
+ */
+export function checkBudgets(
+  budgets: SpendingBudgets,
+  usage: Record<BudgetScope, BudgetUsage>,
+): { soft: BudgetScope[]; hard: BudgetScope[] } {
+  const scopes: BudgetScope[] = ["session", "daily"];
+  return {
+    soft: scopes.filter((scope) => isOverLimit(usage[scope], budgets[scope]?.soft)),
+    hard: scopes.filter((scope) => isOverLimit(usage[scope], budgets[scope]?.hard)),
+  };
+}
+
+/**
+ * Describe spend against a limit, e.g. "Daily spending: $5.12 of $5.00"
+ */
+export function describeBudget(
+  scope: BudgetScope,
+  usage: BudgetUsage,
+  limit: BudgetLimit | undefined,
+): string {
+  const parts: string[] = [];
+  if (limit?.costUsd !== undefined) {
+    parts.push(`$${usage.costUsd.toFixed(2)} of $${limit.costUsd.toFixed(2)}`);
+  }
+  if (limit?.tokens !== undefined) {
+    parts.push(
+      `${usage.tokens.toLocaleString("en-US")} of ${limit.tokens.toLocaleString("en-US")} tokens`,
+    );
+  }
+  return `${SCOPE_LABELS[scope]} spending: ${parts.join(", ")}`;
+}
@@ -9,47 +9,125 @@ import { fileURLToPath } from "url";
 import {
   Agent,
   AgentSideConnection,
+  AuthenticateRequest,
+  AuthenticateResponse,
   CancelNotification,
   InitializeRequest,
   InitializeResponse,
+  LoadSessionRequest,
+  LoadSessionResponse,
   NewSessionRequest,
   NewSessionResponse,
+  PermissionOption,
   PromptRequest,
+  RequestError,
   PromptResponse,
+  SessionNotification,
   SetSessionModeRequest,
   SetSessionModeResponse,
   SetSessionModelRequest,
   SetSessionModelResponse,
+  SessionModeState,
+  SessionModelState,
 } from "@agentclientprotocol/sdk";
 import {
   ClineClient,
-  ClineInstance,
   ClineSession,
   PlanActMode,
   AskResponseType,
   StateUpdate,
+  ProcessInfo,
   ClineMessage,
+  ClineUsage,
+  BudgetScope,
+  BudgetUsage,
+  SpendingBudgets,
 } from "./types.js";
 import {
+  acpMcpServersToCline,
   acpPromptToCline,
+  addUsage,
+  buildFileEditDiff,
+  clineCommandAskToAcpToolCall,
   clineMessageToAcpNotification,
+  clineMcpResponseToAcpToolCallUpdate,
+  clineMessagesToAcpHistory,
+  clinePartialToAcpNotification,
   clineTaskProgressToAcpPlan,
   clineSayToolToAcpToolCall,
   clineSayToolToAcpToolCallInProgress,
   createCurrentModeUpdate,
+  createTerminalToolCallUpdate,
   createToolCallUpdate,
+  emptyUsage,
   extractCostInfo,
+  extractCurrentModelId,
   extractMessagesFromState,
   extractMode,
   extractWorkspaceRoot,
+  extractWorkspaceRoots,
+  formatUsageSummary,
+  fromProtoMessage,
+  getAskOptions,
+  getChunkText,
   getLatestTaskProgress,
+  getTurnStopReason,
+  isCommandOutput,
+  isFileEditTool,
+  isMcpServerResponse,
+  isRequestLimitAsk,
+  isResumeAsk,
+  isSessionMcpServerName,
   isTaskComplete,
+  isUnknownAsk,
+  isWorkspaceRoot,
   isWaitingForUserInput,
   needsApproval,
   parseToolInfo,
+  toIncrementalChunk,
+  withFileEditDiff,
 } from "./conversion.js";
-import { ClineProcessManager } from "./process-manager.js";
-import { createClineClient } from "./grpc-client.js";
+import { ClineProcessManager, StartInstanceOptions } from "./process-manager.js";
+import { ClineInstancePool } from "./instance-pool.js";
+import { ClineHealthMonitor, isInstanceAlive } from "./health-monitor.js";
+import {
+  ClineClientOptions,
+  ClineUnavailableError,
+  closeClineChannel,
+  createClineClient,
+} from "./grpc-client.js";
+import { ClineCompatibility, checkClineVersion } from "./compat.js";
+import { CommandTerminalMirror } from "./terminal-mirror.js";
+import {
+  ApprovalRuleStore,
+  ClineMcpSettingsFile,
+  ClineSessionStore,
+  DailyUsageStore,
+} from "./storage.js";
+import { checkBudgets, describeBudget, getBudgetDay } from "./budget.js";
+import { ModelCatalog, formatModelName } from "./model-catalog.js";
+import { buildAuthConfig, findUnauthenticatedMode, getAuthMethods } from "./auth.js";
+import {
+  buildModeModelConfig,
+  getConfiguredProviders,
+  getCurrentModelOptionId,
+  getModeModel,
+  getProvider,
+  hasCredentials,
+  parseModelOptionId,
+  toModelOptionId,
+} from "./providers.js";
+import {
+  SlashCommand,
+  SlashCommandResult,
+  parseSlashCommand,
+  toAvailableCommands,
+} from "./slash-commands.js";
+import {
+  approvalRuleForMessage,
+  describeApprovalRule,
+  findMatchingApprovalRule,
+} from "./approval-rules.js";
 
 export interface ClineAcpAgentOptions {
   clinePath?: string;
@@ -60,6 +138,39 @@ export interface ClineAcpAgentOptions {
   autoStart?: boolean;
   // If true, use existing Cline instance if available (default: true)
   useExisting?: boolean;
+  // Connect to the Cline instance at this gRPC address (host:port or unix:/path/to/socket)
+  // instead of starting instances, one session at a time; TLS is set with rpc.tls
+  address?: string;
+  // Directory for persisted agent data such as session mappings and approval rules
+  // (default: ~/.cline-acp)
+  dataDir?: string;
+  // If true, refuse sessions whose cwd isn't one of Cline's workspace roots instead of
+  // warning (default: false)
+  requireMatchingWorkspace?: boolean;
+  // Stop a session's Cline instance after this long without activity; the instance is
+  // restarted on the next prompt (default: 15 minutes, 0 disables)
+  idleTimeoutMs?: number;
+  // Cline MCP settings file that ACP-provided MCP servers are written to
+  // (default: $CLINE_DIR/data/settings/cline_mcp_settings.json)
+  mcpSettingsPath?: string;
+  // How often each session's Cline instance is checked, so crashed instances can be
+  // restarted (default: 15 seconds, 0 disables)
+  healthCheckIntervalMs?: number;
+  // If true, end each turn that made API requests with a one-line cost summary (default: true)
+  usageSummary?: boolean;
+  // Per-session and per-day spending limits (default: none)
+  budgets?: SpendingBudgets;
+  // If true, picking a model sets it for both Plan and Act modes instead of only the
+  // current one (default: false)
+  sameModelForBothModes?: boolean;
+  // Deadlines, retries and TLS for calls to Cline (default: 30 second deadlines,
+  // read-only calls retried twice, plaintext)
+  rpc?: ClineClientOptions;
+  // If true, use Cline versions older than the supported range with a warning instead of
+  // refusing them (default: false)
+  allowUnsupportedVersion?: boolean;
+  // For testing: provide a model catalog (e.g. with a fake HTTP client)
+  modelCatalog?: ModelCatalog;
 }
 
 // Log file path for verbose logging - in project's logs directory
@@ -73,14 +184,39 @@ export class ClineAcpAgent implements Agent {
   private client!: AgentSideConnection;
   private clientCapabilities: InitializeRequest["clientCapabilities"] = {};
   private sessions: Record<string, ClineSession> = {};
+  // Shared client, used when one is injected (tests); otherwise sessions use the pool
   private clineClient: ClineClient | null = null;
-  private clineInstance: ClineInstance | null = null;
   private processManager: ClineProcessManager | null = null;
+  private instancePool: ClineInstancePool | null = null;
+  private healthMonitor: ClineHealthMonitor | null = null;
+  // Instance restarts in progress, so a crash noticed twice is only recovered once
+  private recoveries = new Map<string, Promise<ClineClient | null>>();
+  // Version check results, made once per client
+  private compatibility = new WeakMap<ClineClient, ClineCompatibility>();
   private options: ClineAcpAgentOptions;
   private logStream: fs.WriteStream | null = null;
+  private sessionStore: ClineSessionStore;
+  private approvalRuleStore: ApprovalRuleStore;
+  private mcpSettings: ClineMcpSettingsFile;
+  // Names of the MCP servers each session added to Cline's settings
+  private sessionMcpServers: Record<string, string[]> = {};
+  // Credentials from authenticate(), written into each Cline instance as it starts
+  private credentials: { provider: string; config: Record<string, unknown> } | null = null;
+  private dailyUsage: DailyUsageStore;
+  private modelCatalog: ModelCatalog;
+  // Client terminals mirroring each session's running command
+  private commandTerminals: Record<string, { mirror: CommandTerminalMirror; toolCallId: string }> =
+    {};
+  private slashCommands: SlashCommand[];
 
   constructor(options: ClineAcpAgentOptions = {}) {
     this.options = options;
+    this.slashCommands = this.createSlashCommands();
+    this.sessionStore = new ClineSessionStore(options.dataDir);
+    this.approvalRuleStore = new ApprovalRuleStore(options.dataDir);
+    this.mcpSettings = new ClineMcpSettingsFile(options.mcpSettingsPath, options.dataDir);
+    this.dailyUsage = new DailyUsageStore(options.dataDir);
+    this.modelCatalog = options.modelCatalog ?? new ModelCatalog();
     // Use injected client for testing
     if (options.clineClient) {
       this.clineClient = options.clineClient;
@@ -101,13 +237,29 @@ export class ClineAcpAgent implements Agent {
     this.client = client;
   }
 
-  async authenticate(): Promise<void> {
-    // Cline authentication is handled externally via the Cline CLI
-    // The API key is configured in Cline's settings
+  async authenticate(params: AuthenticateRequest): Promise<AuthenticateResponse | void> {
+    this.credentials = buildAuthConfig(params.methodId, params._meta);
+    this.log("authenticate: storing credentials", {
+      methodId: params.methodId,
+      fields: Object.keys(this.credentials.config),
+    });
+
+    // Pooled instances get the credentials as they start; a shared client gets them now
+    if (this.clineClient) {
+      await this.applyCredentials(this.clineClient);
+    }
+    return {};
   }
 
   async initialize(request: InitializeRequest): Promise<InitializeResponse> {
     this.clientCapabilities = request.clientCapabilities;
+    this.removeStaleMcpServers();
+
+    // An explicit address gives one shared client, like an injected one
+    if (this.options.address && !this.clineClient) {
+      this.log(`Connecting to Cline at ${this.options.address}`);
+      this.clineClient = await createClineClient(this.options.address, this.options.rpc);
+    }
 
     // Connect to Cline if no client is injected (default behavior)
     const autoStart = this.options.autoStart ?? true;
@@ -118,13 +270,24 @@ export class ClineAcpAgent implements Agent {
         useExisting: this.options.useExisting ?? true,
       });
 
-      this.clineInstance = await this.processManager.startInstance();
-      this.clineClient = await createClineClient(this.clineInstance.address);
+      // Instances are started per session, in the session's cwd
+      this.setInstancePool(
+        new ClineInstancePool(this.processManager, {
+          idleTimeoutMs: this.options.idleTimeoutMs,
+          clientOptions: this.options.rpc,
+        }),
+      );
+      this.healthMonitor?.start();
     }
 
     return {
       protocolVersion: 1,
       agentCapabilities: {
+        loadSession: true,
+        mcpCapabilities: {
+          http: true,
+          sse: true,
+        },
         promptCapabilities: {
           image: true,
           embeddedContext: true,
@@ -134,52 +297,507 @@ export class ClineAcpAgent implements Agent {
         name: "cline-acp",
         version: "0.1.0",
       },
-      authMethods: [
-        {
-          id: "cline-api-key",
-          name: "API Key",
-          description: "Configure your API key for the AI provider",
-        },
-      ],
+      authMethods: getAuthMethods(await this.getActiveProvider()),
     };
   }
 
-  async newSession(_params: NewSessionRequest): Promise<NewSessionResponse> {
+  /**
+   * Get the provider of Cline's current mode, if a Cline instance is running yet
+   * Pooled instances only start with a session, so this is only known with a shared client
+   */
+  private async getActiveProvider(): Promise<string | undefined> {
+    if (!this.clineClient) {
+      return undefined;
+    }
+    try {
+      const state = await this.clineClient.State.getLatestState();
+      const stateData = JSON.parse(state.stateJson || "{}");
+      return getModeModel(
+        stateData.apiConfiguration || {},
+        stateData.mode === "act" ? "act" : "plan",
+      ).provider;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write the credentials from authenticate() into a Cline instance's settings
+   * Modes whose provider has no credentials are switched to the authenticated provider
+   */
+  private async applyCredentials(clineClient: ClineClient): Promise<void> {
+    if (!this.credentials) {
+      return;
+    }
+    const { provider, config } = this.credentials;
+    const state = await clineClient.State.getLatestState();
+    const apiConfig = JSON.parse(state.stateJson || "{}").apiConfiguration || {};
+
+    const apiConfiguration: Record<string, unknown> = { ...config };
+    for (const mode of ["plan", "act"] as const) {
+      const modeProvider = (apiConfig[`${mode}ModeApiProvider`] as string) || "";
+      if (!modeProvider || !hasCredentials(modeProvider, apiConfig)) {
+        apiConfiguration[`${mode}ModeApiProvider`] = provider.toUpperCase();
+      }
+    }
+    await clineClient.State.updateSettings({ apiConfiguration });
+  }
+
+  /**
+   * Fail fast with auth_required if Cline can't make API requests, rather than letting
+   * the first turn end in api_req_failed
+   */
+  private async requireSessionCredentials(
+    sessionId: string,
+    clineClient: ClineClient | null,
+  ): Promise<void> {
+    if (!clineClient) {
+      return;
+    }
+    await this.applyCredentials(clineClient);
+
+    const state = await clineClient.State.getLatestState();
+    const apiConfig = JSON.parse(state.stateJson || "{}").apiConfiguration || {};
+    const missing = findUnauthenticatedMode(apiConfig);
+    if (missing) {
+      await this.instancePool?.release(sessionId);
+      const name = getProvider(missing.provider)?.name ?? missing.provider;
+      throw RequestError.authRequired(
+        missing,
+        `No credentials configured for ${name} (used in ${missing.mode} mode)`,
+      );
+    }
+  }
+
+  async newSession(params: NewSessionRequest): Promise<NewSessionResponse> {
     const sessionId = uuidv7();
+    this.takeOverAddressInstance(sessionId);
+    const clineClient = await this.acquireClient(sessionId, params.cwd);
+    const versionWarning = await this.checkVersion(sessionId, clineClient);
+    await this.requireSessionCredentials(sessionId, clineClient);
 
     // Cancel any existing task so Cline picks up updated model configuration
-    // Cline caches its API handler, so we need to force a reset between sessions
-    if (this.clineClient) {
+    // Cline caches its API handler, so we need to force a reset between sessions.
+    // A client shared with another live session is left alone so its task keeps running.
+    if (clineClient && !this.isClientInUse(clineClient)) {
       try {
-        await this.clineClient.Task.cancelTask({});
+        await clineClient.Task.cancelTask({});
         this.log("newSession: cancelled existing task");
       } catch {
         // No task to cancel, that's fine
       }
     }
 
+    const workspaceWarning = await this.bindWorkspace(sessionId, clineClient, params.cwd);
+    this.applyMcpServers(sessionId, params.mcpServers);
+
+    // Don't create a task yet - wait for the first prompt
+    // Creating an empty task causes Cline to respond with "task is empty" message
+    this.sessions[sessionId] = this.createSession(sessionId, params.cwd);
+    this.sessions[sessionId].workspaceWarning = workspaceWarning;
+    this.sessions[sessionId].versionWarning = versionWarning;
+
+    const { models, modes } = await this.getSessionModelsAndModes(clineClient);
+
+    // Advertise commands once the client knows about the session
+    setTimeout(() => {
+      void this.sendAvailableCommands(sessionId).catch((error) =>
+        this.log("newSession: failed to send available commands", error),
+      );
+    }, 0);
+
+    return {
+      sessionId,
+      models,
+      modes,
+    };
+  }
+
+  async loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse> {
+    const { sessionId } = params;
+
+    // Sessions created by this agent are mapped to their Cline task on disk.
+    // Fall back to treating the session ID as a Cline task ID directly.
+    const taskId = this.sessionStore.get(sessionId)?.taskId ?? sessionId;
+    this.log("loadSession: resuming task", { sessionId, taskId });
+    this.takeOverAddressInstance(sessionId);
+
+    const clineClient = await this.acquireClient(sessionId, params.cwd);
+    const versionWarning = await this.checkVersion(sessionId, clineClient);
+    await this.requireSessionCredentials(sessionId, clineClient);
+    const workspaceWarning = await this.bindWorkspace(sessionId, clineClient, params.cwd);
+    this.applyMcpServers(sessionId, params.mcpServers);
+    const session = this.createSession(sessionId, params.cwd, taskId);
+    session.workspaceWarning = workspaceWarning;
+    session.versionWarning = versionWarning;
+
+    if (clineClient) {
+      try {
+        await clineClient.Task.showTaskWithId({ value: taskId });
+      } catch (error) {
+        await this.instancePool?.release(sessionId);
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Session not found: ${sessionId} (${message})`);
+      }
+
+      // Replay the stored conversation so the client sees the full transcript
+      const state = await clineClient.State.getLatestState();
+      const stateJson = state.stateJson || "{}";
+      const messages = extractMessagesFromState(stateJson);
+      const workspaceRoot = extractWorkspaceRoot(stateJson) ?? params.cwd;
+      session.mode = extractMode(stateJson);
+
+      const history = clineMessagesToAcpHistory(messages, sessionId, workspaceRoot);
+      this.log("loadSession: replaying history", {
+        messageCount: messages.length,
+        notificationCount: history.length,
+      });
+      for (const notification of history) {
+        await this.client.sessionUpdate(notification);
+      }
+    }
+
+    this.sessions[sessionId] = session;
+    await this.sendAvailableCommands(sessionId);
+
+    const { models, modes } = await this.getSessionModelsAndModes(clineClient);
+    return { models, modes };
+  }
+
+  /**
+   * An instance given with --address runs one task at a time, so it serves one session:
+   * a new session replaces an idle one, and is refused while another session's turn runs
+   */
+  private takeOverAddressInstance(sessionId: string): void {
+    if (!this.options.address) {
+      return;
+    }
+
+    const others = Object.values(this.sessions).filter((session) => session.id !== sessionId);
+    const busy = others.find((session) => session.turnInProgress);
+    if (busy) {
+      throw RequestError.invalidRequest(
+        { sessionId: busy.id },
+        `The Cline instance at ${this.options.address} is busy with another session`,
+      );
+    }
+    for (const session of others) {
+      this.log("takeOverAddressInstance: ending previous session", { sessionId: session.id });
+      this.removeMcpServers(session.id);
+      delete this.sessions[session.id];
+    }
+  }
+
+  /**
+   * Get the Cline client a session talks to
+   * Pooled sessions use their own instance; otherwise the shared client is used
+   */
+  private getClient(sessionId: string): ClineClient | null {
+    if (this.instancePool) {
+      return this.instancePool.get(sessionId) ?? null;
+    }
+    return this.clineClient;
+  }
+
+  /**
+   * Get a session's client, starting an instance rooted in cwd if the session needs one
+   */
+  private async acquireClient(sessionId: string, cwd: string): Promise<ClineClient | null> {
+    if (this.instancePool) {
+      return this.instancePool.acquire(sessionId, cwd, this.startOptions(sessionId));
+    }
+    return this.clineClient;
+  }
+
+  /**
+   * Options for starting a session's instance: report each step to the client as a
+   * cline/startupProgress notification, and give up if the client disconnects
+   */
+  private startOptions(sessionId: string): StartInstanceOptions {
+    return {
+      signal: this.client?.signal,
+      onProgress: (message) => {
+        this.log("startup:", { sessionId, message });
+        void this.client
+          ?.extNotification("cline/startupProgress", { sessionId, message })
+          .catch(() => {
+            // The client doesn't handle extension notifications
+          });
+      },
+    };
+  }
+
+  /**
+   * Check whether a live session is already using a client
+   */
+  private isClientInUse(clineClient: ClineClient): boolean {
+    return Object.keys(this.sessions).some((id) => this.getClient(id) === clineClient);
+  }
+
+  /**
+   * Get a session's client for a prompt, restarting its instance if it was reaped while idle
+   * The session's task is reopened on the new instance so the conversation continues
+   */
+  private async resumeClient(session: ClineSession): Promise<ClineClient | null> {
+    if (!this.instancePool || this.instancePool.get(session.id)) {
+      return this.getClient(session.id);
+    }
+
+    this.log("resumeClient: restarting instance for idle session", { sessionId: session.id });
+    const clineClient = await this.instancePool.acquire(
+      session.id,
+      session.cwd,
+      this.startOptions(session.id),
+    );
+    await this.checkVersion(session.id, clineClient);
+    await this.applyCredentials(clineClient);
+    if (session.isTaskCreated) {
+      await clineClient.Task.showTaskWithId({ value: session.taskId });
+    }
+    await clineClient.State.togglePlanActModeProto({
+      metadata: {},
+      mode: session.mode === "act" ? PlanActMode.ACT : PlanActMode.PLAN,
+    });
+    return clineClient;
+  }
+
+  /**
+   * Restart a session's crashed instance and reopen its task
+   * Returns the new client, or null if the restart failed (the next prompt starts a
+   * fresh instance) or the session is gone
+   */
+  private recoverInstance(sessionId: string): Promise<ClineClient | null> {
+    let recovery = this.recoveries.get(sessionId);
+    if (!recovery) {
+      recovery = this.restartInstance(sessionId).finally(() => this.recoveries.delete(sessionId));
+      this.recoveries.set(sessionId, recovery);
+    }
+    return recovery;
+  }
+
+  private async restartInstance(sessionId: string): Promise<ClineClient | null> {
+    const session = this.sessions[sessionId];
+    if (!this.instancePool) {
+      return null;
+    }
+    if (!session) {
+      await this.instancePool.release(sessionId);
+      return null;
+    }
+
+    this.log("recoverInstance: Cline instance died, restarting", { sessionId });
+    await this.sendAgentMessage(sessionId, "\n\n⚠️ Cline stopped responding. Restarting it...\n\n");
+
+    try {
+      const clineClient = await this.instancePool.restart(sessionId, this.startOptions(sessionId));
+      if (!clineClient) {
+        return null;
+      }
+      await this.checkVersion(sessionId, clineClient);
+      await this.applyCredentials(clineClient);
+      if (session.isTaskCreated) {
+        await clineClient.Task.showTaskWithId({ value: session.taskId });
+      }
+      await clineClient.State.togglePlanActModeProto({
+        metadata: {},
+        mode: session.mode === "act" ? PlanActMode.ACT : PlanActMode.PLAN,
+      });
+      await this.sendAgentMessage(
+        sessionId,
+        session.isTaskCreated
+          ? "Cline was restarted and the task reopened from its history.\n\n"
+          : "Cline was restarted.\n\n",
+      );
+      return clineClient;
+    } catch (error) {
+      this.log("recoverInstance: restart failed", error);
+      await this.instancePool.release(sessionId);
+      const message = error instanceof Error ? error.message : String(error);
+      await this.sendAgentMessage(
+        sessionId,
+        `Couldn't restart Cline (${message}). It will be started again with your next message.\n\n`,
+      );
+      return null;
+    }
+  }
+
+  private async sendAgentMessage(sessionId: string, text: string): Promise<void> {
+    await this.client.sessionUpdate({
+      sessionId,
+      update: {
+        sessionUpdate: "agent_message_chunk",
+        content: { type: "text", text },
+      },
+    });
+  }
+
+  /**
+   * Check the version of the Cline a session connected to, once per client
+   * Refuses unsupported versions (releasing the session's instance) and returns a
+   * warning to show the user for untested ones
+   */
+  private async checkVersion(
+    sessionId: string,
+    clineClient: ClineClient | null,
+  ): Promise<string | undefined> {
+    if (!clineClient) {
+      return undefined;
+    }
+
+    let compatibility = this.compatibility.get(clineClient);
+    if (!compatibility) {
+      let info: ProcessInfo;
+      try {
+        info = await clineClient.State.getProcessInfo();
+      } catch (error) {
+        // Nothing to check - calls that matter will report the problem themselves
+        this.log("checkVersion: failed to get process info", error);
+        return undefined;
+      }
+      try {
+        compatibility = checkClineVersion(info, this.options.allowUnsupportedVersion);
+      } catch (error) {
+        await this.instancePool?.release(sessionId);
+        throw error;
+      }
+      this.log("checkVersion: connected to Cline", {
+        version: compatibility.version ?? "unknown",
+        uptimeMs: info.uptimeMs,
+      });
+      this.compatibility.set(clineClient, compatibility);
+    }
+    return compatibility.warning;
+  }
+
+  /**
+   * Make sure Cline is operating in the client's working directory
+   * Pooled instances are started in cwd; for a shared instance this refuses
+   * (requireMatchingWorkspace) or returns a warning to show the user.
+   */
+  private async bindWorkspace(
+    sessionId: string,
+    clineClient: ClineClient | null,
+    cwd: string,
+  ): Promise<string | undefined> {
+    if (!clineClient) {
+      return undefined;
+    }
+
+    const workspaceRoots = await this.getWorkspaceRoots(clineClient);
+    // Instances that haven't reported a workspace yet can't be checked
+    if (workspaceRoots.length === 0 || isWorkspaceRoot(workspaceRoots, cwd)) {
+      return undefined;
+    }
+
+    const message = `Cline is working in ${workspaceRoots.join(", ")}, not ${cwd}`;
+    if (this.options.requireMatchingWorkspace) {
+      await this.instancePool?.release(sessionId);
+      throw RequestError.invalidParams({ cwd, workspaceRoots }, message);
+    }
+    this.log("bindWorkspace: workspace mismatch", { cwd, workspaceRoots });
+    return message;
+  }
+
+  /**
+   * Add the client's MCP servers to Cline's MCP settings, named for the session
+   * Cline watches the settings file and connects to new servers on its own
+   */
+  private applyMcpServers(sessionId: string, mcpServers: NewSessionRequest["mcpServers"]): void {
+    if (!mcpServers || mcpServers.length === 0) {
+      return;
+    }
+
+    try {
+      const servers = acpMcpServersToCline(mcpServers, sessionId);
+      const changed = this.mcpSettings.upsert(servers);
+      this.sessionMcpServers[sessionId] = Object.keys(servers);
+      this.log("applyMcpServers:", { servers: Object.keys(servers), changed });
+    } catch (error) {
+      // The session still works without the client's MCP servers
+      this.log("applyMcpServers: failed to update Cline MCP settings", error);
+    }
+  }
+
+  /**
+   * Take out session MCP servers left in Cline's MCP settings by an agent that exited
+   * without shutting down, so Cline stops starting them
+   */
+  private removeStaleMcpServers(): void {
+    try {
+      const removed = this.mcpSettings.removeStale(isSessionMcpServerName);
+      if (removed.length > 0) {
+        this.log("removeStaleMcpServers: removed servers left by another agent", { removed });
+      }
+    } catch (error) {
+      this.log("removeStaleMcpServers: failed to update Cline MCP settings", error);
+    }
+  }
+
+  /**
+   * Take a session's MCP servers back out of Cline's MCP settings
+   * They hold the client's secrets, so they shouldn't outlive the agent
+   */
+  private removeMcpServers(sessionId: string): void {
+    const names = this.sessionMcpServers[sessionId];
+    if (!names) {
+      return;
+    }
+    delete this.sessionMcpServers[sessionId];
+
+    try {
+      this.mcpSettings.remove(names);
+    } catch (error) {
+      this.log("removeMcpServers: failed to update Cline MCP settings", error);
+    }
+  }
+
+  private async getWorkspaceRoots(clineClient: ClineClient): Promise<string[]> {
+    try {
+      const state = await clineClient.State.getLatestState();
+      return extractWorkspaceRoots(state.stateJson || "{}");
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Create the in-memory state for a session
+   * Passing a taskId marks the session as backed by an existing Cline task
+   */
+  private createSession(sessionId: string, cwd: string, taskId?: string): ClineSession {
     // Create empty streams for testing - in production these come from gRPC
     const stateStream = this.createEmptyStream<StateUpdate>();
     const partialStream = this.createEmptyStream<ClineMessage>();
 
-    // Don't create a task yet - wait for the first prompt
-    // Creating an empty task causes Cline to respond with "task is empty" message
-    this.sessions[sessionId] = {
+    return {
       id: sessionId,
-      taskId: sessionId, // Will be updated when first prompt is received
+      taskId: taskId ?? sessionId, // Will be updated when first prompt is received
       stateStream,
       partialStream,
       cancelled: false,
       mode: "plan",
-      isTaskCreated: false, // Track whether we've sent the first message
+      cwd,
+      isTaskCreated: taskId !== undefined, // Track whether we've sent the first message
       // Initialize cost tracking
       totalCost: 0,
       totalTokensIn: 0,
       totalTokensOut: 0,
       totalCacheWrites: 0,
       totalCacheReads: 0,
+      turnUsage: emptyUsage(),
+      usageByModel: {},
+      budgetWarned: {},
+      budgetOverridden: {},
     };
+  }
 
+  /**
+   * Build the model and mode state reported to the client for a new or loaded session
+   */
+  private async getSessionModelsAndModes(clineClient: ClineClient | null): Promise<{
+    models: SessionModelState;
+    modes: SessionModeState;
+  }> {
     // Define available modes (matching Cline's actual modes)
     const availableModes = [
       {
@@ -200,60 +818,49 @@ export class ClineAcpAgent implements Agent {
     let currentProvider = "";
     const availableModels: Array<{ modelId: string; name: string }> = [];
 
-    if (this.clineClient) {
+    if (clineClient) {
       try {
         // First get state to determine the provider
-        const state = await this.clineClient.State.getLatestState();
+        const state = await clineClient.State.getLatestState();
         const stateData = JSON.parse(state.stateJson || "{}");
         const apiConfig = stateData.apiConfiguration || {};
 
         // Get current mode from state (Cline uses "plan" or "act")
         currentMode = stateData.mode === "act" ? "act" : "plan";
 
-        // Get the current provider (lowercase string like "cline", "anthropic", "openai", etc.)
-        currentProvider = (apiConfig.planModeApiProvider || "").toLowerCase();
-
-        // Get the current model from plan mode (which is what's displayed)
-        const planModelId =
-          apiConfig.planModeOpenRouterModelId ||
-          apiConfig.planModeApiModelId ||
-          apiConfig.apiModelId;
-        currentModelId = planModelId || "cline";
-
-        // Fetch models based on the current provider
-        // Only CLINE and OPENROUTER providers use the OpenRouter models API
-        if (currentProvider === "cline" || currentProvider === "openrouter" || !currentProvider) {
-          const modelsResponse = await this.clineClient.Models.refreshOpenRouterModels().catch(
-            () => null,
-          );
-
-          if (modelsResponse?.models && Object.keys(modelsResponse.models).length > 0) {
-            // Sort models by name for consistent display
-            const modelEntries = Object.entries(modelsResponse.models);
-            modelEntries.sort((a, b) => {
-              const nameA = a[1].name || a[0];
-              const nameB = b[1].name || b[0];
-              return nameA.localeCompare(nameB);
+        // Plan and act can use different providers and models - report the current mode's
+        const current = getModeModel(apiConfig, currentMode as "plan" | "act");
+        currentProvider = current.provider;
+        currentModelId = current.modelId
+          ? toModelOptionId(currentProvider, current.modelId)
+          : "cline";
+
+        // List models from the current provider and every other provider with credentials
+        // (live where possible, cached, static as a last resort)
+        const providers = getConfiguredProviders(apiConfig);
+        const currentInfo = getProvider(currentProvider);
+        if (currentInfo && !providers.includes(currentInfo)) {
+          providers.unshift(currentInfo);
+        }
+        const listings = await Promise.all(
+          providers.map((provider) =>
+            this.modelCatalog.listModels(clineClient, provider.id, apiConfig),
+          ),
+        );
+        providers.forEach((provider, index) => {
+          for (const model of listings[index]) {
+            availableModels.push({
+              modelId: toModelOptionId(provider.id, model.modelId),
+              name: `${provider.name}: ${model.name}`,
             });
-
-            for (const [modelId, modelInfo] of modelEntries) {
-              availableModels.push({
-                modelId,
-                name: modelInfo.name || this.formatModelName(modelId),
-              });
-            }
           }
-        } else {
-          // For other providers, use provider-specific model lists
-          const providerModels = this.getModelsForProvider(currentProvider);
-          availableModels.push(...providerModels);
-        }
+        });
 
-        // If no models found, add at least the current model
-        if (availableModels.length === 0 && currentModelId && currentModelId !== "cline") {
-          availableModels.push({
+        // Always offer the current model, even if its provider has no listing
+        if (current.modelId && !availableModels.some((model) => model.modelId === currentModelId)) {
+          availableModels.unshift({
             modelId: currentModelId,
-            name: this.formatModelName(currentModelId),
+            name: `${currentInfo?.name ?? currentProvider}: ${formatModelName(current.modelId)}`,
           });
         }
       } catch {
@@ -269,7 +876,6 @@ export class ClineAcpAgent implements Agent {
     }
 
     return {
-      sessionId,
       models: {
         availableModels,
         currentModelId,
@@ -281,70 +887,6 @@ export class ClineAcpAgent implements Agent {
     };
   }
 
-  /**
-   * Format model ID into a readable name
-   */
-  private formatModelName(modelId: string): string {
-    // Handle provider/model format (e.g., "anthropic/claude-sonnet-4")
-    const parts = modelId.split("/");
-    const name = parts[parts.length - 1];
-
-    // Convert kebab-case to Title Case
-    return name
-      .split("-")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(" ");
-  }
-
-  /**
-   * Get available models for a specific provider
-   * These are fallback lists for providers that don't use the OpenRouter API
-   */
-  private getModelsForProvider(provider: string): Array<{ modelId: string; name: string }> {
-    const providerModels: Record<string, Array<{ modelId: string; name: string }>> = {
-      anthropic: [
-        { modelId: "claude-sonnet-4-20250514", name: "Claude Sonnet 4" },
-        { modelId: "claude-3-5-sonnet-20241022", name: "Claude 3.5 Sonnet" },
-        { modelId: "claude-3-5-haiku-20241022", name: "Claude 3.5 Haiku" },
-        { modelId: "claude-3-opus-20240229", name: "Claude 3 Opus" },
-      ],
-      openai: [
-        { modelId: "gpt-4o", name: "GPT-4o" },
-        { modelId: "gpt-4o-mini", name: "GPT-4o Mini" },
-        { modelId: "gpt-4-turbo", name: "GPT-4 Turbo" },
-        { modelId: "o1-preview", name: "O1 Preview" },
-        { modelId: "o1-mini", name: "O1 Mini" },
-      ],
-      openai_native: [
-        { modelId: "gpt-4o", name: "GPT-4o" },
-        { modelId: "gpt-4o-mini", name: "GPT-4o Mini" },
-        { modelId: "gpt-4-turbo", name: "GPT-4 Turbo" },
-        { modelId: "o1-preview", name: "O1 Preview" },
-        { modelId: "o1-mini", name: "O1 Mini" },
-      ],
-      gemini: [
-        { modelId: "gemini-2.0-flash-exp", name: "Gemini 2.0 Flash" },
-        { modelId: "gemini-1.5-pro", name: "Gemini 1.5 Pro" },
-        { modelId: "gemini-1.5-flash", name: "Gemini 1.5 Flash" },
-      ],
-      xai: [
-        { modelId: "grok-beta", name: "Grok Beta" },
-        { modelId: "grok-2-1212", name: "Grok 2" },
-      ],
-      deepseek: [
-        { modelId: "deepseek-chat", name: "DeepSeek Chat" },
-        { modelId: "deepseek-reasoner", name: "DeepSeek Reasoner" },
-      ],
-      mistral: [
-        { modelId: "mistral-large-latest", name: "Mistral Large" },
-        { modelId: "mistral-small-latest", name: "Mistral Small" },
-        { modelId: "codestral-latest", name: "Codestral" },
-      ],
-    };
-
-    return providerModels[provider] || [];
-  }
-
   async prompt(params: PromptRequest): Promise<PromptResponse> {
     const session = this.sessions[params.sessionId];
     if (!session) {
@@ -354,6 +896,35 @@ export class ClineAcpAgent implements Agent {
     // Reset cancelled flag in case this session was previously cancelled
     // This allows follow-up prompts after a cancel
     session.cancelled = false;
+    session.budgetStopped = false;
+    session.turnUsage = emptyUsage();
+
+    for (const warning of [session.versionWarning, session.workspaceWarning]) {
+      if (warning) {
+        await this.sendAgentMessage(params.sessionId, `⚠️ ${warning}\n\n`);
+      }
+    }
+    session.versionWarning = undefined;
+    session.workspaceWarning = undefined;
+
+    // Agent slash commands either answer directly or rewrite the prompt sent to Cline
+    const commandResult = await this.runSlashCommand(params);
+    if (commandResult && "reply" in commandResult) {
+      await this.client.sessionUpdate({
+        sessionId: params.sessionId,
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: { type: "text", text: commandResult.reply },
+        },
+      });
+      return { stopReason: "end_turn" };
+    }
+    if (commandResult) {
+      params = {
+        ...params,
+        prompt: [{ type: "text", text: commandResult.prompt }, ...params.prompt.slice(1)],
+      };
+    }
 
     // Convert ACP prompt to Cline format (pass debug function for detailed logging)
     const clinePrompt = acpPromptToCline(params, (msg, data) => this.log(msg, data));
@@ -365,13 +936,23 @@ export class ClineAcpAgent implements Agent {
       files: clinePrompt.files,
     });
 
+    // Don't start more work past a hard spending limit without the user's go-ahead
+    if (!(await this.confirmBudgetsBeforeTurn(params.sessionId))) {
+      return {
+        stopReason: "end_turn",
+        _meta: { budgetExceeded: true, budget: this.getBudgetUsage(session) },
+      };
+    }
+
     // Send to Cline
-    if (this.clineClient) {
+    let stopReason: PromptResponse["stopReason"] = "end_turn";
+    const clineClient = await this.resumeClient(session);
+    if (clineClient) {
       // Get existing message timestamps BEFORE sending the prompt
       // This ensures we only process NEW messages in processStreamingResponses
       const existingTimestamps = new Set<number>();
       if (session.isTaskCreated) {
-        const currentState = await this.clineClient.State.getLatestState();
+        const currentState = await clineClient.State.getLatestState();
         const existingMessages = extractMessagesFromState(currentState.stateJson || "{}");
         for (const msg of existingMessages) {
           if (msg.ts) {
@@ -382,16 +963,18 @@ export class ClineAcpAgent implements Agent {
 
       if (!session.isTaskCreated) {
         // First message - create a new task
-        const taskId = await this.clineClient.Task.newTask({
+        const { value: taskId } = await clineClient.Task.newTask({
           text: clinePrompt.text,
           images: clinePrompt.images,
           files: clinePrompt.files,
         });
         session.taskId = taskId;
         session.isTaskCreated = true;
+        // Remember the task so the session can be reloaded later
+        this.sessionStore.set(params.sessionId, { taskId });
       } else {
         // Subsequent messages - respond to existing task
-        await this.clineClient.Task.askResponse({
+        await clineClient.Task.askResponse({
           responseType: AskResponseType.MESSAGE_RESPONSE,
           text: clinePrompt.text,
           images: clinePrompt.images || [],
@@ -413,19 +996,53 @@ export class ClineAcpAgent implements Agent {
 
       // Process streaming responses, skipping any existing messages
       // Also pass the user's input text so we can skip the echoed message
-      await this.processStreamingResponses(params.sessionId, existingTimestamps, userText);
+      // The session's instance isn't reaped while the turn is running
+      this.instancePool?.setBusy(params.sessionId, true);
+      session.turnInProgress = true;
+      try {
+        stopReason = await this.processStreamingResponses(
+          params.sessionId,
+          existingTimestamps,
+          userText,
+        );
+      } finally {
+        this.instancePool?.setBusy(params.sessionId, false);
+        session.turnInProgress = false;
+      }
     }
 
-    // Send at least one update to the client
+    // Close the turn with a usage summary when it made any API requests
+    const sessionUsage = this.getSessionUsage(session);
+    const showSummary = (this.options.usageSummary ?? true) && session.turnUsage.requests > 0;
     await this.client.sessionUpdate({
       sessionId: params.sessionId,
       update: {
         sessionUpdate: "agent_message_chunk",
-        content: { type: "text", text: "" },
+        content: {
+          type: "text",
+          text: showSummary ? `\n\n${formatUsageSummary(session.turnUsage, sessionUsage)}` : "",
+        },
       },
     });
 
-    return { stopReason: "end_turn" };
+    // A cancel that arrived while the task was being sent still ends the turn as cancelled
+    if (session.cancelled) {
+      stopReason = "cancelled";
+    }
+    return {
+      stopReason,
+      _meta: {
+        usage: {
+          turn: session.turnUsage,
+          session: sessionUsage,
+          byModel: session.usageByModel,
+        },
+        // A turn stopped at a spending limit ends normally, flagged in _meta
+        ...(session.budgetStopped
+          ? { budgetExceeded: true, budget: this.getBudgetUsage(session) }
+          : {}),
+      },
+    };
   }
 
   async cancel(params: CancelNotification): Promise<void> {
@@ -437,165 +1054,391 @@ export class ClineAcpAgent implements Agent {
     this.log("cancel: cancelling session", { sessionId: params.sessionId });
     session.cancelled = true;
 
-    if (this.clineClient) {
-      await this.clineClient.Task.cancelTask({});
+    // cancelTask below stops the command too, so just tear down the terminal
+    const terminal = this.commandTerminals[params.sessionId];
+    if (terminal) {
+      delete this.commandTerminals[params.sessionId];
+      await terminal.mirror.kill().catch(() => {});
+    }
+
+    const clineClient = this.getClient(params.sessionId);
+    if (clineClient) {
+      await clineClient.Task.cancelTask({});
       this.log("cancel: cancelTask sent to Cline");
     }
   }
 
   async setSessionModel(params: SetSessionModelRequest): Promise<SetSessionModelResponse | void> {
-    if (this.clineClient) {
-      // Get current state to preserve the existing provider
-      const state = await this.clineClient.State.getLatestState();
+    // Restart the session's instance if it was reaped, so the pick isn't lost
+    const session = this.sessions[params.sessionId];
+    const clineClient = session ? await this.resumeClient(session) : null;
+    if (clineClient) {
+      this.instancePool?.touch(params.sessionId);
+
+      // Get current state to preserve the existing providers
+      const state = await clineClient.State.getLatestState();
       const stateData = JSON.parse(state.stateJson || "{}");
       const currentConfig = stateData.apiConfiguration || {};
 
-      // Get the configured providers (preserve original case for setting, lowercase for comparison)
-      const planProviderRaw = currentConfig.planModeApiProvider || "";
-      const actProviderRaw = currentConfig.actModeApiProvider || "";
-      const planProviderLower = planProviderRaw.toLowerCase();
+      // Only the active mode's model changes, unless both modes are kept on the same model
+      const currentMode: "plan" | "act" = stateData.mode === "act" ? "act" : "plan";
+      const modes: Array<"plan" | "act"> = this.options.sameModelForBothModes
+        ? ["plan", "act"]
+        : [currentMode];
+
+      // "provider:model" ids switch the provider too; bare model ids keep each mode's provider
+      const { provider: selectedProvider, modelId } = parseModelOptionId(params.modelId);
+      const providers = {
+        plan: selectedProvider ?? ((currentConfig.planModeApiProvider || "") as string),
+        act: selectedProvider ?? ((currentConfig.actModeApiProvider || "") as string),
+      };
+
+      this.log("setSessionModel: selected model", { providers, modes, modelId });
+
+      // Providers like CLINE/OpenRouter (and an empty provider, which defaults to CLINE) need
+      // the model info as well as the id, so look it up in the provider's listing
+      const apiConfig: Record<string, unknown> = {};
+      for (const mode of modes) {
+        let modelInfo: Record<string, unknown> | null = null;
+        if (getProvider(providers[mode])?.modelInfoField) {
+          modelInfo = await this.modelCatalog.getModelInfo(clineClient, providers[mode], modelId);
+          this.log("setSessionModel: model info", {
+            provider: providers[mode],
+            modelId,
+            modelInfo,
+          });
+        }
+        Object.assign(apiConfig, buildModeModelConfig(mode, providers[mode], modelId, modelInfo));
+      }
+
+      this.log("setSessionModel: updating settings", { apiConfig });
 
-      this.log("setSessionModel: current providers", {
-        planProviderRaw,
-        actProviderRaw,
-        modelId: params.modelId,
+      await clineClient.State.updateSettings({
+        apiConfiguration: apiConfig,
       });
+    }
+  }
 
-      // For CLINE/OpenRouter providers (or when provider is empty - default to CLINE behavior),
-      // we MUST fetch the model info. The Cline handler requires BOTH modelId AND modelInfo.
-      // The model list comes from OpenRouter, so if provider is empty, assume CLINE/OpenRouter.
-      let modelInfo: Record<string, unknown> | null = null;
-      const isClineOrOpenRouter =
-        planProviderLower === "cline" || planProviderLower === "openrouter" || !planProviderLower;
-
-      if (isClineOrOpenRouter) {
-        const modelsResponse = await this.clineClient.Models.refreshOpenRouterModels();
-        if (modelsResponse?.models && modelsResponse.models[params.modelId]) {
-          modelInfo = modelsResponse.models[params.modelId] as unknown as Record<string, unknown>;
-          this.log("setSessionModel: fetched model info for", {
-            modelId: params.modelId,
-            modelInfo,
+  async setSessionMode(params: SetSessionModeRequest): Promise<SetSessionModeResponse> {
+    const session = this.sessions[params.sessionId];
+    if (!session) {
+      throw new Error(`Session not found: ${params.sessionId}`);
+    }
+
+    const clineClient = await this.resumeClient(session);
+    if (clineClient) {
+      switch (params.modeId) {
+        case "plan":
+          await clineClient.State.togglePlanActModeProto({
+            metadata: {},
+            mode: PlanActMode.PLAN,
           });
-        } else {
-          this.log("setSessionModel: model not found in available models", {
-            modelId: params.modelId,
-            availableCount: Object.keys(modelsResponse?.models || {}).length,
+          break;
+
+        case "act":
+          await clineClient.State.togglePlanActModeProto({
+            metadata: {},
+            mode: PlanActMode.ACT,
           });
-        }
+          break;
+
+        default:
+          // Unknown mode - ignore
+          break;
       }
+    }
+
+    session.mode = params.modeId as ClineSession["mode"];
 
-      // Build the API configuration based on the provider
-      // Different providers use different model ID fields
-      const apiConfig = this.buildModelConfig(
-        planProviderRaw,
-        actProviderRaw,
-        params.modelId,
-        modelInfo,
+    // Each mode has its own model, so report the one the new mode uses
+    if (clineClient && (params.modeId === "plan" || params.modeId === "act")) {
+      const state = await clineClient.State.getLatestState();
+      await this.client.sessionUpdate(
+        createCurrentModeUpdate(
+          params.sessionId,
+          params.modeId,
+          getCurrentModelOptionId(state.stateJson || "{}"),
+        ),
       );
+    }
+    return {};
+  }
 
-      this.log("setSessionModel: updating settings", { apiConfig });
+  // Internal methods
 
-      await this.clineClient.State.updateSettings({
-        apiConfiguration: apiConfig,
+  /**
+   * Spend counted against each budget scope
+   */
+  private getBudgetUsage(session: ClineSession): Record<BudgetScope, BudgetUsage> {
+    return {
+      session: {
+        costUsd: session.totalCost,
+        tokens: session.totalTokensIn + session.totalTokensOut,
+      },
+      daily: this.dailyUsage.get(getBudgetDay()),
+    };
+  }
+
+  /**
+   * Check spending after new API requests: warn once per session for each soft limit, and
+   * cancel the task at a hard limit until the user agrees to continue
+   *
+   * @returns "continue" if nothing was stopped, "resume" if the task was cancelled and the
+   *          user chose to go on, "stop" if the user chose to stop
+   */
+  private async enforceBudgets(sessionId: string): Promise<"continue" | "resume" | "stop"> {
+    const session = this.sessions[sessionId];
+    const budgets = this.options.budgets;
+    if (!session || !budgets) {
+      return "continue";
+    }
+
+    const usage = this.getBudgetUsage(session);
+    const { soft, hard } = checkBudgets(budgets, usage);
+
+    for (const scope of soft) {
+      if (session.budgetWarned[scope] || hard.includes(scope)) continue;
+      session.budgetWarned[scope] = true;
+      await this.client.sessionUpdate({
+        sessionId,
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: {
+            type: "text",
+            text: `\n\n⚠️ ${describeBudget(scope, usage[scope], budgets[scope]?.soft)}\n\n`,
+          },
+        },
       });
     }
+
+    const exceeded = hard.filter((scope) => !session.budgetOverridden[scope]);
+    if (exceeded.length === 0) {
+      return "continue";
+    }
+
+    // Stop spending first, then ask
+    this.log("enforceBudgets: hard limit reached, cancelling task", { exceeded, usage });
+    await this.getClient(sessionId)?.Task.cancelTask({});
+    return (await this.confirmOverBudget(sessionId, exceeded, usage)) ? "resume" : "stop";
   }
 
   /**
-   * Build the API configuration for setting a model based on the provider
-   * Different providers store model IDs in different fields
+   * Ask before starting a turn when a hard limit was already reached (e.g. by another session)
+   *
+   * @returns false if the user chose not to continue
    */
-  private buildModelConfig(
-    planProvider: string,
-    actProvider: string,
-    modelId: string,
-    modelInfo: Record<string, unknown> | null = null,
-  ): Record<string, unknown> {
-    const planProviderLower = planProvider.toLowerCase();
-    const actProviderLower = actProvider.toLowerCase();
+  private async confirmBudgetsBeforeTurn(sessionId: string): Promise<boolean> {
+    const session = this.sessions[sessionId];
+    const budgets = this.options.budgets;
+    if (!session || !budgets) {
+      return true;
+    }
 
-    // Cline expects uppercase provider enum values (e.g., "CLINE", not "cline")
-    // If provider is empty, default to CLINE since model list comes from OpenRouter
-    const planProviderUpper = planProvider ? planProvider.toUpperCase() : "CLINE";
-    const actProviderUpper = actProvider ? actProvider.toUpperCase() : "CLINE";
+    const usage = this.getBudgetUsage(session);
+    const exceeded = checkBudgets(budgets, usage).hard.filter(
+      (scope) => !session.budgetOverridden[scope],
+    );
+    return exceeded.length === 0 || this.confirmOverBudget(sessionId, exceeded, usage);
+  }
 
-    const config: Record<string, unknown> = {
-      // Provider must be uppercase to match Cline's ApiProvider enum
-      planModeApiProvider: planProviderUpper,
-      actModeApiProvider: actProviderUpper,
-      // Always set the generic model ID field
-      planModeApiModelId: modelId,
-      actModeApiModelId: modelId,
-    };
+  /**
+   * Ask the user whether to keep going past hard spending limits
+   * Continuing lifts those limits for the rest of the session
+   */
+  private async confirmOverBudget(
+    sessionId: string,
+    exceeded: BudgetScope[],
+    usage: Record<BudgetScope, BudgetUsage>,
+  ): Promise<boolean> {
+    const session = this.sessions[sessionId];
+    const title = exceeded
+      .map((scope) => describeBudget(scope, usage[scope], this.options.budgets?.[scope]?.hard))
+      .join("; ");
 
-    // Set provider-specific model ID fields based on plan provider
-    // Empty provider defaults to CLINE behavior (OpenRouter model fields)
-    if (planProviderLower === "cline" || planProviderLower === "openrouter" || !planProviderLower) {
-      config.planModeOpenRouterModelId = modelId;
-      // CRITICAL: Also set the model info - Cline handler requires BOTH modelId AND modelInfo
-      if (modelInfo) {
-        config.planModeOpenRouterModelInfo = modelInfo;
-      }
-    } else if (planProviderLower === "openai" || planProviderLower === "openai_native") {
-      config.planModeOpenAiModelId = modelId;
-    } else if (planProviderLower === "ollama") {
-      config.planModeOllamaModelId = modelId;
-    } else if (planProviderLower === "groq") {
-      config.planModeGroqModelId = modelId;
-    }
-
-    // Set provider-specific model ID fields based on act provider
-    // Empty provider defaults to CLINE behavior (OpenRouter model fields)
-    if (actProviderLower === "cline" || actProviderLower === "openrouter" || !actProviderLower) {
-      config.actModeOpenRouterModelId = modelId;
-      if (modelInfo) {
-        config.actModeOpenRouterModelInfo = modelInfo;
+    const response = await this.client.requestPermission({
+      options: [
+        { kind: "allow_once", name: "Continue anyway", optionId: "continue" },
+        { kind: "reject_once", name: "Stop", optionId: "stop" },
+      ],
+      sessionId,
+      toolCall: {
+        toolCallId: `budget-${Date.now()}`,
+        title: `Spending limit reached. ${title}`,
+      },
+    });
+
+    const outcome = response.outcome;
+    const proceed = outcome?.outcome === "selected" && outcome.optionId === "continue";
+    this.log("confirmOverBudget: got response from ACP client", { exceeded, proceed });
+    if (proceed && session) {
+      for (const scope of exceeded) {
+        session.budgetOverridden[scope] = true;
       }
-    } else if (actProviderLower === "openai" || actProviderLower === "openai_native") {
-      config.actModeOpenAiModelId = modelId;
-    } else if (actProviderLower === "ollama") {
-      config.actModeOllamaModelId = modelId;
-    } else if (actProviderLower === "groq") {
-      config.actModeGroqModelId = modelId;
     }
+    if (!proceed) {
+      await this.client.sessionUpdate({
+        sessionId,
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: { type: "text", text: `\n\n🛑 Stopped at the spending limit. ${title}\n\n` },
+        },
+      });
+    }
+    return proceed;
+  }
 
-    return config;
+  /**
+   * Total usage for a session across all of its turns
+   */
+  private getSessionUsage(session: ClineSession): ClineUsage {
+    return {
+      cost: session.totalCost,
+      tokensIn: session.totalTokensIn,
+      tokensOut: session.totalTokensOut,
+      cacheWrites: session.totalCacheWrites,
+      cacheReads: session.totalCacheReads,
+      requests: Object.values(session.usageByModel).reduce((sum, u) => sum + u.requests, 0),
+    };
   }
 
-  async setSessionMode(params: SetSessionModeRequest): Promise<SetSessionModeResponse> {
-    const session = this.sessions[params.sessionId];
-    if (!session) {
-      throw new Error(`Session not found: ${params.sessionId}`);
+  /**
+   * Run the slash command a prompt starts with, if it's one of ours
+   * Returns null for ordinary prompts and for commands Cline handles itself
+   */
+  private async runSlashCommand(params: PromptRequest): Promise<SlashCommandResult | null> {
+    const first = params.prompt[0];
+    const parsed = first?.type === "text" ? parseSlashCommand(first.text) : null;
+    const command = parsed && this.slashCommands.find((c) => c.name === parsed.name);
+    if (!parsed || !command) {
+      return null;
     }
 
-    if (this.clineClient) {
-      switch (params.modeId) {
-        case "plan":
-          await this.clineClient.State.togglePlanActModeProto({
-            metadata: {},
-            mode: PlanActMode.PLAN,
+    this.log("prompt: running slash command", parsed);
+    return command.run(params.sessionId, parsed.args);
+  }
+
+  private async sendAvailableCommands(sessionId: string): Promise<void> {
+    await this.client.sessionUpdate({
+      sessionId,
+      update: {
+        sessionUpdate: "available_commands_update",
+        availableCommands: toAvailableCommands(this.slashCommands),
+      },
+    });
+  }
+
+  /**
+   * The slash commands this agent offers
+   */
+  private createSlashCommands(): SlashCommand[] {
+    const switchMode = async (
+      sessionId: string,
+      mode: "plan" | "act",
+      args: string,
+    ): Promise<SlashCommandResult> => {
+      await this.setSessionMode({ sessionId, modeId: mode });
+      return args ? { prompt: args } : { reply: `Switched to ${mode} mode.` };
+    };
+
+    return [
+      {
+        name: "new",
+        description: "Start a new Cline task in this session",
+        hint: "task description (optional)",
+        run: async (sessionId, args) => {
+          const session = this.sessions[sessionId];
+          const clineClient = session ? await this.resumeClient(session) : null;
+          await clineClient?.Task.clearTask({});
+          if (session) {
+            session.isTaskCreated = false;
+            session.taskId = sessionId;
+            this.sessionStore.delete(sessionId);
+          }
+          return args ? { prompt: args } : { reply: "Started a new task." };
+        },
+      },
+      {
+        name: "plan",
+        description: "Switch to plan mode",
+        hint: "message (optional)",
+        run: (sessionId, args) => switchMode(sessionId, "plan", args),
+      },
+      {
+        name: "act",
+        description: "Switch to act mode",
+        hint: "message (optional)",
+        run: (sessionId, args) => switchMode(sessionId, "act", args),
+      },
+      {
+        name: "cost",
+        description: "Show this session's token usage and cost",
+        run: async (sessionId) => {
+          const session = this.sessions[sessionId];
+          if (!session) {
+            return { reply: "No usage yet." };
+          }
+          return {
+            reply: [
+              `**Cost:** $${session.totalCost.toFixed(4)}`,
+              `**Tokens:** ${session.totalTokensIn.toLocaleString("en-US")} in, ` +
+                `${session.totalTokensOut.toLocaleString("en-US")} out`,
+              `**Cache:** ${session.totalCacheWrites.toLocaleString("en-US")} written, ` +
+                `${session.totalCacheReads.toLocaleString("en-US")} read`,
+              ...Object.entries(session.usageByModel).map(
+                ([modelId, usage]) =>
+                  `- \`${modelId}\`: $${usage.cost.toFixed(4)} over ${usage.requests} requests`,
+              ),
+            ].join("\n"),
+          };
+        },
+      },
+      {
+        name: "history",
+        description: "List recent Cline tasks in this workspace",
+        run: async (sessionId) => {
+          const session = this.sessions[sessionId];
+          const clineClient = session ? await this.resumeClient(session) : null;
+          if (!clineClient) {
+            return { reply: "Cline is not running." };
+          }
+          const history = await clineClient.Task.getTaskHistory({
+            currentWorkspaceOnly: true,
+            sortBy: "newest",
           });
-          break;
-
-        case "act":
-          await this.clineClient.State.togglePlanActModeProto({
-            metadata: {},
-            mode: PlanActMode.ACT,
+          if (history.tasks.length === 0) {
+            return { reply: "No tasks yet." };
+          }
+          const lines = history.tasks.slice(0, 10).map((task) => {
+            const summary = task.task.split("\n")[0].slice(0, 80);
+            return `- ${new Date(task.ts).toLocaleString("en-US")} · ${summary} (\`${task.id}\`)`;
           });
-          break;
-
-        default:
-          // Unknown mode - ignore
-          break;
-      }
-    }
-
-    session.mode = params.modeId as ClineSession["mode"];
-    return {};
+          return { reply: `**Recent tasks**\n\n${lines.join("\n")}` };
+        },
+      },
+      {
+        name: "condense",
+        description: "Summarize the conversation so far to free up context",
+        hint: "what to focus on (optional)",
+        run: async (sessionId, args) => {
+          if (!this.sessions[sessionId]?.isTaskCreated) {
+            return { reply: "There is no conversation to condense yet." };
+          }
+          // Cline's own command for condensing the context window
+          return { prompt: args ? `/smol ${args}` : "/smol" };
+        },
+      },
+      {
+        name: "cancel-command",
+        description: "Stop the command Cline is running in the background",
+        run: async (sessionId) => {
+          await this.getClient(sessionId)?.Task.cancelBackgroundCommand({});
+          await this.finishCommandTerminal(sessionId);
+          return { reply: "Stopped the running command." };
+        },
+      },
+    ];
   }
 
-  // Internal methods
-
   private log(message: string, ...args: unknown[]): void {
     if (this.options.verbose && this.logStream) {
       const timestamp = new Date().toISOString();
@@ -608,15 +1451,17 @@ export class ClineAcpAgent implements Agent {
     sessionId: string,
     existingTimestamps: Set<number> = new Set(),
     userInputText: string = "",
-  ): Promise<void> {
+    resumeTask: boolean = false,
+  ): Promise<PromptResponse["stopReason"]> {
     const session = this.sessions[sessionId];
-    if (!session || session.cancelled || !this.clineClient) {
+    const clineClient = this.getClient(sessionId);
+    if (!session || session.cancelled || !clineClient) {
       this.log("processStreamingResponses: early exit", {
         session: !!session,
         cancelled: session?.cancelled,
-        clineClient: !!this.clineClient,
+        clineClient: !!clineClient,
       });
-      return;
+      return session?.cancelled ? "cancelled" : "end_turn";
     }
 
     this.log("processStreamingResponses: starting", {
@@ -625,7 +1470,7 @@ export class ClineAcpAgent implements Agent {
     });
 
     // Subscribe to state updates - this gives us complete messages
-    const stateStream = this.clineClient.State.subscribeToState();
+    const stateStream = clineClient.State.subscribeToState();
 
     // Track which message timestamps we've already sent
     // We use timestamps (not indices) because messages can transition from partial to complete
@@ -650,7 +1495,35 @@ export class ClineAcpAgent implements Agent {
     // api_req_started messages initially have no cost, then get updated with cost when request completes
     const processedCostTimestamps = new Set<number>();
 
+    // Text already streamed to the client, keyed by message timestamp
+    // Shared with the partial message stream so each message's text is only sent once:
+    // whichever stream sees new text first sends just the part the client doesn't have yet
+    const streamedText = new Map<number, string>();
+    // Ends the partial message stream once the state stream is done
+    const partialStreamAbort = new AbortController();
+
+    // Why the turn ended, reported back to the client in the prompt response
+    let stopReason: PromptResponse["stopReason"] = "end_turn";
+
+    // Budgets are checked after each state update that adds spending
+    let spentSinceBudgetCheck = false;
+    // Answer Cline's next resume ask: set when the user goes past a spending limit, or
+    // when the task was reopened after an instance crash
+    let resumeAfterBudget = resumeTask;
+
+    // Stream token-level updates alongside the state stream.
+    // Not awaited: the partial stream has no natural end, it's cancelled once the state
+    // stream is done.
+    void this.processPartialMessages(
+      sessionId,
+      existingTimestamps,
+      userInputText,
+      streamedText,
+      partialStreamAbort.signal,
+    );
+
     let stateUpdateCount = 0;
+    let streamError: unknown = null;
 
     try {
       for await (const state of stateStream) {
@@ -661,7 +1534,7 @@ export class ClineAcpAgent implements Agent {
         }
 
         const messages = extractMessagesFromState(state.stateJson || "{}");
-        const workspaceRoot = extractWorkspaceRoot(state.stateJson || "{}");
+        const workspaceRoot = extractWorkspaceRoot(state.stateJson || "{}") ?? session.cwd;
         this.log(`State update #${stateUpdateCount}:`, {
           messageCount: messages.length,
           workspaceRoot,
@@ -671,24 +1544,44 @@ export class ClineAcpAgent implements Agent {
         const newMode = extractMode(state.stateJson || "{}");
         if (currentMode !== null && newMode !== currentMode) {
           this.log("Mode changed:", { from: currentMode, to: newMode });
-          await this.client.sessionUpdate(createCurrentModeUpdate(sessionId, newMode));
+          await this.client.sessionUpdate(
+            createCurrentModeUpdate(
+              sessionId,
+              newMode,
+              getCurrentModelOptionId(state.stateJson || "{}"),
+            ),
+          );
         }
         currentMode = newMode;
 
         // Extract and accumulate cost data from api_req_started messages
         // These messages are updated with cost data after the API request completes
+        // Requests from earlier turns were already counted when those turns ran
         for (const msg of messages) {
-          if (msg.ts && !processedCostTimestamps.has(msg.ts)) {
+          if (msg.ts && !processedCostTimestamps.has(msg.ts) && !existingTimestamps.has(msg.ts)) {
             const costInfo = extractCostInfo(msg);
             if (costInfo) {
               // This message has cost data and we haven't processed it yet
               processedCostTimestamps.add(msg.ts);
+              const modelId =
+                costInfo.modelId ?? extractCurrentModelId(state.stateJson || "{}") ?? "unknown";
+              addUsage(session.turnUsage, costInfo);
+              session.usageByModel[modelId] = addUsage(
+                session.usageByModel[modelId] ?? emptyUsage(),
+                costInfo,
+              );
+              this.dailyUsage.add(getBudgetDay(), {
+                costUsd: costInfo.cost,
+                tokens: costInfo.tokensIn + costInfo.tokensOut,
+              });
+              spentSinceBudgetCheck = true;
               session.totalCost += costInfo.cost;
               session.totalTokensIn += costInfo.tokensIn;
               session.totalTokensOut += costInfo.tokensOut;
               session.totalCacheWrites += costInfo.cacheWrites;
               session.totalCacheReads += costInfo.cacheReads;
               this.log("Cost accumulated:", {
+                modelId,
                 requestCost: costInfo.cost,
                 tokensIn: costInfo.tokensIn,
                 tokensOut: costInfo.tokensOut,
@@ -773,6 +1666,11 @@ export class ClineAcpAgent implements Agent {
             sentMessageTimestamps.add(msg.ts);
           }
 
+          // Command runs and their output go to the client's terminal when it has one
+          if (await this.handleCommandTerminal(sessionId, msg)) {
+            continue;
+          }
+
           // Check if this is a tool message that was previously emitted as in_progress
           // If so, emit a full tool_call with completed status (not just tool_call_update)
           // because we now have the complete path and can include proper locations
@@ -784,8 +1682,14 @@ export class ClineAcpAgent implements Agent {
           ) {
             // This tool was already emitted as in_progress, now emit the completed version
             // with proper locations (the path is now complete since msg is no longer partial)
-            const completedNotification = clineSayToolToAcpToolCall(msg, sessionId, workspaceRoot);
+            let completedNotification = clineSayToolToAcpToolCall(msg, sessionId, workspaceRoot);
             if (completedNotification) {
+              completedNotification = await this.addFileEditDiff(
+                sessionId,
+                msg,
+                completedNotification,
+                workspaceRoot,
+              );
               this.log(
                 "Emitting completed tool_call (was in_progress):",
                 JSON.stringify(completedNotification.update, null, 2),
@@ -796,11 +1700,36 @@ export class ClineAcpAgent implements Agent {
             continue;
           }
 
+          // MCP results complete the tool call opened by their use_mcp_server request
+          if (isMcpServerResponse(msg)) {
+            const update = clineMcpResponseToAcpToolCallUpdate(messages, i, sessionId);
+            if (update) {
+              await this.client.sessionUpdate(update);
+            }
+            continue;
+          }
+
           // Pass the original message index to properly skip user's echoed input (index 0)
-          const notification = clineMessageToAcpNotification(msg, sessionId, i, workspaceRoot);
+          let notification = clineMessageToAcpNotification(msg, sessionId, i, workspaceRoot);
+
+          // If the partial stream already sent part of this message, only send the rest
+          if (notification && msg.ts) {
+            const fullText = getChunkText(notification);
+            notification = toIncrementalChunk(notification, streamedText.get(msg.ts) ?? "");
+            if (fullText !== null) {
+              streamedText.set(msg.ts, fullText);
+            }
+          }
+
           if (notification) {
             // Log tool_call notifications for debugging file navigation
             if (notification.update.sessionUpdate === "tool_call") {
+              notification = await this.addFileEditDiff(
+                sessionId,
+                msg,
+                notification,
+                workspaceRoot,
+              );
               this.log(
                 "Emitting tool_call notification:",
                 JSON.stringify(notification.update, null, 2),
@@ -828,6 +1757,32 @@ export class ClineAcpAgent implements Agent {
           });
         }
 
+        // Stop the task when a hard spending limit is reached (warn on soft limits)
+        if (spentSinceBudgetCheck) {
+          spentSinceBudgetCheck = false;
+          const budgetAction = await this.enforceBudgets(sessionId);
+          if (budgetAction === "stop") {
+            session.budgetStopped = true;
+            break;
+          }
+          if (budgetAction === "resume") {
+            resumeAfterBudget = true;
+            continue;
+          }
+        }
+
+        // Resume the task we cancelled (spending limit) or reopened (crash recovery)
+        if (
+          resumeAfterBudget &&
+          lastMessageIsNew &&
+          !lastMessage.partial &&
+          isResumeAsk(lastMessage)
+        ) {
+          resumeAfterBudget = false;
+          await clineClient.Task.askResponse({ responseType: AskResponseType.YES_BUTTON_CLICKED });
+          continue;
+        }
+
         // Check if task needs approval (only for new messages we haven't already handled)
         // We track handled timestamps because state updates may arrive before Cline processes our response
         if (lastMessageIsNew && needsApproval(messages)) {
@@ -835,8 +1790,12 @@ export class ClineAcpAgent implements Agent {
           if (approvalTs && !handledApprovalTimestamps.has(approvalTs)) {
             this.log("Requesting approval for tool call", { ts: approvalTs });
             handledApprovalTimestamps.add(approvalTs);
-            await this.handleApprovalRequest(sessionId, messages);
-            this.log("Approval request completed");
+            const proceed = await this.handleApprovalRequest(sessionId, messages);
+            this.log("Approval request completed", { proceed });
+            if (!proceed) {
+              stopReason = getTurnStopReason(messages);
+              break;
+            }
           } else {
             this.log("Skipping duplicate approval request", { ts: approvalTs });
           }
@@ -853,7 +1812,22 @@ export class ClineAcpAgent implements Agent {
           lastAskType: String(lastMessage?.ask || "").toLowerCase(),
         });
         if (lastMessageIsNew && waitingForInput) {
-          this.log("Breaking: Cline is waiting for user input");
+          // Offer Cline's suggested answers as choices; picking one keeps the turn going
+          const askTs = lastMessage.ts;
+          if (askTs && !handledApprovalTimestamps.has(askTs) && getAskOptions(lastMessage).length) {
+            handledApprovalTimestamps.add(askTs);
+            if (await this.handleAskOptions(sessionId, lastMessage)) {
+              continue;
+            }
+          }
+          stopReason = getTurnStopReason(messages);
+          this.log("Breaking: Cline is waiting for user input", { stopReason });
+          break;
+        }
+
+        // Don't wait on asks we can't answer - let the user decide what to do next
+        if (lastMessageIsNew && isUnknownAsk(messages)) {
+          this.log("Breaking: unknown ask type", { ask: lastMessage.ask });
           break;
         }
 
@@ -867,13 +1841,261 @@ export class ClineAcpAgent implements Agent {
     } catch (error) {
       // Stream ended or error occurred
       this.log("State stream ended with error:", error);
+      streamError = error;
+    }
+    await this.finishCommandTerminal(sessionId);
+    partialStreamAbort.abort();
+
+    // The stream breaks when the instance dies - restart it and carry on with the task
+    if (streamError && !session.cancelled && this.instancePool) {
+      let currentClient = this.getClient(sessionId);
+      // UNAVAILABLE means the instance is gone; other errors need a check to tell
+      if (
+        currentClient === clineClient &&
+        (streamError instanceof ClineUnavailableError || !(await isInstanceAlive(clineClient)))
+      ) {
+        currentClient = await this.recoverInstance(sessionId);
+      }
+      if (currentClient && currentClient !== clineClient && session.isTaskCreated) {
+        const seen = new Set([
+          ...existingTimestamps,
+          ...sentMessageTimestamps,
+          ...processedCostTimestamps,
+        ]);
+        return this.processStreamingResponses(sessionId, seen, userInputText, true);
+      }
+    }
+
+    if (session.cancelled) {
+      stopReason = "cancelled";
+    }
+    this.log("processStreamingResponses: finished", { stopReason });
+    return stopReason;
+  }
+
+  /**
+   * Route a command run through the client's terminal
+   * Returns true if the message was consumed: an auto-approved command was started in a
+   * terminal, or command output was written to the active one. Any other message means
+   * the running command has finished.
+   */
+  private async handleCommandTerminal(sessionId: string, msg: ClineMessage): Promise<boolean> {
+    if (!this.clientCapabilities?.terminal) {
+      return false;
+    }
+
+    const terminal = this.commandTerminals[sessionId];
+    if (isCommandOutput(msg)) {
+      if (!terminal) {
+        return false;
+      }
+      terminal.mirror.append(msg.text || "");
+      return true;
+    }
+
+    await this.finishCommandTerminal(sessionId);
+
+    // Auto-approved commands are announced with say "command"
+    const msgType = String(msg.type || "").toLowerCase();
+    const sayType = String(msg.say || "").toLowerCase();
+    if (msgType === "say" && sayType === "command" && msg.ts) {
+      await this.client.sessionUpdate(clineCommandAskToAcpToolCall(msg, sessionId, "in_progress"));
+      await this.startCommandTerminal(sessionId, String(msg.ts));
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Create a client terminal for a command tool call and attach it to the tool call
+   */
+  private async startCommandTerminal(sessionId: string, toolCallId: string): Promise<void> {
+    const session = this.sessions[sessionId];
+    if (!session || !this.clientCapabilities?.terminal) {
+      return;
+    }
+
+    await this.finishCommandTerminal(sessionId);
+    try {
+      const mirror = await CommandTerminalMirror.start(this.client, sessionId, session.cwd, () => {
+        void this.handleCommandTerminalStopped(sessionId, toolCallId);
+      });
+      this.commandTerminals[sessionId] = { mirror, toolCallId };
+      await this.client.sessionUpdate(
+        createTerminalToolCallUpdate(sessionId, toolCallId, mirror.terminalId),
+      );
+      this.log("startCommandTerminal: mirroring command", {
+        toolCallId,
+        terminal: mirror.terminalId,
+      });
+    } catch (error) {
+      // Output still arrives as message text without a terminal
+      this.log("startCommandTerminal: failed to create terminal", error);
+    }
+  }
+
+  /**
+   * Mark the active command as finished and complete its tool call
+   */
+  private async finishCommandTerminal(sessionId: string): Promise<void> {
+    const terminal = this.commandTerminals[sessionId];
+    if (!terminal || terminal.mirror.isFinished()) {
+      return;
+    }
+
+    // Left in place while the output drains so cancel() can still stop the wait
+    try {
+      await terminal.mirror.finish();
+    } catch (error) {
+      this.log("finishCommandTerminal: failed to release terminal", error);
+    }
+    if (this.commandTerminals[sessionId] === terminal) {
+      delete this.commandTerminals[sessionId];
+    }
+    await this.client.sessionUpdate(
+      createToolCallUpdate(sessionId, terminal.toolCallId, "completed"),
+    );
+  }
+
+  /**
+   * The user stopped the command's terminal from the editor - stop the command in Cline too
+   */
+  private async handleCommandTerminalStopped(sessionId: string, toolCallId: string): Promise<void> {
+    if (this.commandTerminals[sessionId]?.toolCallId !== toolCallId) {
+      return;
+    }
+
+    delete this.commandTerminals[sessionId];
+    this.log("handleCommandTerminalStopped: cancelling background command", { toolCallId });
+    try {
+      await this.getClient(sessionId)?.Task.cancelBackgroundCommand({});
+    } catch (error) {
+      this.log("handleCommandTerminalStopped: cancelBackgroundCommand failed", error);
+    }
+    await this.client.sessionUpdate(createToolCallUpdate(sessionId, toolCallId, "failed"));
+  }
+
+  /**
+   * Give a file edit tool call a real before/after diff instead of Cline's raw
+   * SEARCH/REPLACE text. Falls back to the notification as-is if the edit can't be
+   * reconstructed.
+   */
+  private async addFileEditDiff(
+    sessionId: string,
+    msg: ClineMessage,
+    notification: SessionNotification,
+    workspaceRoot?: string,
+  ): Promise<SessionNotification> {
+    const toolInfo = parseToolInfo(msg, workspaceRoot);
+    if (!toolInfo.path || !isFileEditTool(toolInfo.type)) {
+      return notification;
+    }
+
+    const currentText = await this.readFileForDiff(sessionId, toolInfo.path);
+    const diff = buildFileEditDiff(toolInfo, currentText);
+    if (!diff) {
+      this.log("addFileEditDiff: could not reconstruct edit, using raw diff", {
+        path: toolInfo.path,
+      });
+      return notification;
+    }
+    return withFileEditDiff(notification, diff);
+  }
+
+  /**
+   * Read a file's current content, preferring the client's buffer (which may have unsaved
+   * changes) over the file on disk. Returns null if the file doesn't exist.
+   */
+  private async readFileForDiff(sessionId: string, filePath: string): Promise<string | null> {
+    if (this.clientCapabilities?.fs?.readTextFile) {
+      try {
+        const response = await this.client.readTextFile({ sessionId, path: filePath });
+        return response.content;
+      } catch (error) {
+        this.log("readFileForDiff: client read failed, falling back to disk", error);
+      }
+    }
+
+    try {
+      return await fs.promises.readFile(filePath, "utf-8");
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Forward partial message updates from UiService.subscribeToPartialMessage as
+   * incremental agent_message_chunk/agent_thought_chunk notifications
+   */
+  private async processPartialMessages(
+    sessionId: string,
+    existingTimestamps: Set<number>,
+    userInputText: string,
+    streamedText: Map<number, string>,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const session = this.sessions[sessionId];
+    const clineClient = this.getClient(sessionId);
+    if (!session || !clineClient) {
+      return;
+    }
+
+    const partialStream = clineClient.Ui.subscribeToPartialMessage({}, { signal });
+
+    try {
+      for await (const msg of partialStream) {
+        if (signal.aborted || session.cancelled) {
+          break;
+        }
+
+        // Skip messages from before this prompt and the echoed user input
+        if (!msg.ts || existingTimestamps.has(msg.ts) || msg.text === userInputText) {
+          continue;
+        }
+
+        const notification = clinePartialToAcpNotification(fromProtoMessage(msg), sessionId);
+        const fullText = notification ? getChunkText(notification) : null;
+        if (!notification || fullText === null) {
+          continue;
+        }
+
+        const delta = toIncrementalChunk(notification, streamedText.get(msg.ts) ?? "");
+        if (delta) {
+          streamedText.set(msg.ts, fullText);
+          await this.client.sessionUpdate(delta);
+        }
+      }
+    } catch (error) {
+      // The state stream still delivers complete messages, so this is not fatal
+      this.log("Partial message stream ended with error:", error);
     }
-    this.log("processStreamingResponses: finished");
   }
 
-  private async handleApprovalRequest(sessionId: string, messages: ClineMessage[]): Promise<void> {
+  private async handleApprovalRequest(
+    sessionId: string,
+    messages: ClineMessage[],
+  ): Promise<boolean> {
     const lastMessage = messages[messages.length - 1];
+    if (isRequestLimitAsk(lastMessage)) {
+      return this.handleRequestLimit(sessionId, lastMessage);
+    }
+
     const toolInfo = parseToolInfo(lastMessage);
+    const session = this.sessions[sessionId];
+    const clineClient = this.getClient(sessionId);
+
+    // Skip the prompt if an "Always Allow" rule for this workspace covers the request
+    const matchingRule = session
+      ? findMatchingApprovalRule(this.approvalRuleStore.list(session.cwd), lastMessage)
+      : undefined;
+    if (matchingRule && clineClient) {
+      this.log("handleApprovalRequest: auto-approved by rule", { rule: matchingRule });
+      await clineClient.Task.askResponse({
+        responseType: AskResponseType.YES_BUTTON_CLICKED,
+      });
+      return true;
+    }
 
     this.log("handleApprovalRequest: requesting permission", {
       tool: toolInfo.type,
@@ -881,12 +2103,16 @@ export class ClineAcpAgent implements Agent {
     });
 
     // Request permission from ACP client
+    // "Always Allow" is only offered when the request can become a rule
+    const options: PermissionOption[] = [
+      { kind: "allow_once", name: "Allow", optionId: "allow" },
+      { kind: "reject_once", name: "Reject", optionId: "reject" },
+    ];
+    if (approvalRuleForMessage(lastMessage)) {
+      options.unshift({ kind: "allow_always", name: "Always Allow", optionId: "allow_always" });
+    }
     const response = await this.client.requestPermission({
-      options: [
-        { kind: "allow_always", name: "Always Allow", optionId: "allow_always" },
-        { kind: "allow_once", name: "Allow", optionId: "allow" },
-        { kind: "reject_once", name: "Reject", optionId: "reject" },
-      ],
+      options,
       sessionId,
       toolCall: {
         toolCallId: String(lastMessage.ts),
@@ -898,20 +2124,28 @@ export class ClineAcpAgent implements Agent {
     this.log("handleApprovalRequest: got response from ACP client", { outcome: response.outcome });
 
     // Send response to Cline
-    if (this.clineClient) {
+    if (clineClient) {
       const outcome = response.outcome;
       if (
         outcome?.outcome === "selected" &&
         (outcome.optionId === "allow" || outcome.optionId === "allow_always")
       ) {
         this.log("handleApprovalRequest: sending YES to Cline");
-        await this.clineClient.Task.askResponse({
+        await clineClient.Task.askResponse({
           responseType: AskResponseType.YES_BUTTON_CLICKED,
         });
         this.log("handleApprovalRequest: YES sent successfully");
+
+        if (String(lastMessage.ask || "").toLowerCase() === "command") {
+          await this.startCommandTerminal(sessionId, String(lastMessage.ts));
+        }
+
+        if (outcome.optionId === "allow_always" && session) {
+          await this.addApprovalRule(session.cwd, lastMessage);
+        }
       } else {
         this.log("handleApprovalRequest: sending NO to Cline");
-        await this.clineClient.Task.askResponse({
+        await clineClient.Task.askResponse({
           responseType: AskResponseType.NO_BUTTON_CLICKED,
         });
         this.log("handleApprovalRequest: NO sent successfully");
@@ -922,6 +2156,173 @@ export class ClineAcpAgent implements Agent {
         await this.client.sessionUpdate(createToolCallUpdate(sessionId, toolCallId, "failed"));
       }
     }
+    return true;
+  }
+
+  /**
+   * Let the user answer a followup question or plan response by picking one of
+   * Cline's suggested options. The choice is sent back as the user's reply
+   *
+   * @returns true if an option was chosen, false if the user wants to reply in chat
+   */
+  private async handleAskOptions(sessionId: string, msg: ClineMessage): Promise<boolean> {
+    const clineClient = this.getClient(sessionId);
+    const options = getAskOptions(msg);
+    if (!clineClient) {
+      return false;
+    }
+
+    const response = await this.client.requestPermission({
+      options: [
+        ...options.map((option, index) => ({
+          kind: "allow_once" as const,
+          name: option,
+          optionId: `option-${index}`,
+        })),
+        { kind: "reject_once", name: "Reply in chat", optionId: "reply" },
+      ],
+      sessionId,
+      toolCall: {
+        toolCallId: String(msg.ts),
+        // The question or plan itself was already streamed as message text
+        title:
+          String(msg.ask || "").toLowerCase() === "plan_mode_respond"
+            ? "How would you like to proceed with the plan?"
+            : "Choose an answer",
+      },
+    });
+
+    this.log("handleAskOptions: got response from ACP client", { outcome: response.outcome });
+
+    const outcome = response.outcome;
+    const index = outcome?.outcome === "selected" ? Number(outcome.optionId.split("-")[1]) : NaN;
+    const choice = options[index];
+    if (choice === undefined) {
+      return false;
+    }
+
+    await clineClient.Task.askResponse({
+      responseType: AskResponseType.MESSAGE_RESPONSE,
+      text: choice,
+      images: [],
+    });
+    return true;
+  }
+
+  /**
+   * Ask the user whether Cline should keep going after hitting a request limit
+   * Cline carries on whatever the answer, so stopping cancels the task instead
+   *
+   * @returns false if the user chose to stop
+   */
+  private async handleRequestLimit(sessionId: string, msg: ClineMessage): Promise<boolean> {
+    const clineClient = this.getClient(sessionId);
+    const toolCallId = String(msg.ts);
+
+    const response = await this.client.requestPermission({
+      options: [
+        { kind: "allow_once", name: "Continue anyway", optionId: "continue" },
+        { kind: "reject_once", name: "Stop", optionId: "stop" },
+      ],
+      sessionId,
+      toolCall: {
+        toolCallId,
+        title: msg.text || "Cline has stopped and is asking whether to continue.",
+      },
+    });
+
+    this.log("handleRequestLimit: got response from ACP client", { outcome: response.outcome });
+
+    const outcome = response.outcome;
+    if (outcome?.outcome === "selected" && outcome.optionId === "continue") {
+      await clineClient?.Task.askResponse({
+        responseType: AskResponseType.YES_BUTTON_CLICKED,
+      });
+      await this.client.sessionUpdate(createToolCallUpdate(sessionId, toolCallId, "completed"));
+      return true;
+    }
+
+    await clineClient?.Task.cancelTask({});
+    await this.client.sessionUpdate(createToolCallUpdate(sessionId, toolCallId, "failed"));
+    return false;
+  }
+
+  /**
+   * Remember an "Always Allow" answer as a rule for the workspace
+   */
+  private async addApprovalRule(workspace: string, msg: ClineMessage): Promise<void> {
+    const candidate = approvalRuleForMessage(msg);
+    if (!candidate) {
+      this.log("addApprovalRule: no rule for this request, treating as allow once");
+      return;
+    }
+
+    const rules = this.approvalRuleStore.list(workspace);
+    const exists = rules.some(
+      (rule) =>
+        rule.kind === candidate.kind &&
+        rule.commandPrefix === candidate.commandPrefix &&
+        Boolean(rule.outsideWorkspace) === Boolean(candidate.outsideWorkspace),
+    );
+    if (!exists) {
+      const rule = { ...candidate, id: uuidv7(), createdAt: Date.now() };
+      this.approvalRuleStore.add(workspace, rule);
+      this.log("addApprovalRule: added rule", { workspace, rule });
+    }
+  }
+
+  /**
+   * Extension methods for managing "Always Allow" rules
+   * - cline/listApprovalRules { sessionId | cwd } -> { workspace, rules }
+   * - cline/revokeApprovalRule { sessionId | cwd, ruleId } -> { revoked }
+   */
+  async extMethod(
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    switch (method) {
+      case "cline/listApprovalRules": {
+        const workspace = this.resolveWorkspace(params);
+        const rules = this.approvalRuleStore.list(workspace).map((rule) => ({
+          ...rule,
+          description: describeApprovalRule(rule),
+        }));
+        return { workspace, rules };
+      }
+
+      case "cline/revokeApprovalRule": {
+        const workspace = this.resolveWorkspace(params);
+        if (typeof params.ruleId !== "string") {
+          throw RequestError.invalidParams(params, "ruleId is required");
+        }
+
+        const removed = this.approvalRuleStore.remove(workspace, params.ruleId);
+        if (removed) {
+          this.log("revokeApprovalRule: removed rule", { workspace, rule: removed });
+        }
+        return { revoked: removed !== undefined };
+      }
+
+      default:
+        throw RequestError.methodNotFound(method);
+    }
+  }
+
+  /**
+   * Get the workspace an extension method call refers to, from a sessionId or cwd param
+   */
+  private resolveWorkspace(params: Record<string, unknown>): string {
+    if (typeof params.sessionId === "string") {
+      const session = this.sessions[params.sessionId];
+      if (!session) {
+        throw new Error(`Session not found: ${params.sessionId}`);
+      }
+      return session.cwd;
+    }
+    if (typeof params.cwd === "string") {
+      return params.cwd;
+    }
+    throw RequestError.invalidParams(params, "sessionId or cwd is required");
   }
 
   private createEmptyStream<T>(): AsyncIterable<T> {
@@ -941,12 +2342,23 @@ export class ClineAcpAgent implements Agent {
       this.logStream.end();
       this.logStream = null;
     }
+    this.healthMonitor?.stop();
+    this.healthMonitor = null;
+    for (const sessionId of Object.keys(this.sessionMcpServers)) {
+      this.removeMcpServers(sessionId);
+    }
+    if (this.instancePool) {
+      await this.instancePool.releaseAll();
+      this.instancePool = null;
+    }
     if (this.processManager) {
-      await this.processManager.stopInstance();
+      await this.processManager.stopAllInstances();
       this.processManager = null;
     }
+    if (this.options.address) {
+      closeClineChannel(this.options.address);
+    }
     this.clineClient = null;
-    this.clineInstance = null;
   }
 
   // Testing helpers
@@ -966,4 +2378,17 @@ export class ClineAcpAgent implements Agent {
   setClineClient(client: ClineClient): void {
     this.clineClient = client;
   }
+
+  // Allow setting the instance pool (for testing)
+  setInstancePool(pool: ClineInstancePool): void {
+    this.healthMonitor?.stop();
+    this.instancePool = pool;
+    this.healthMonitor = new ClineHealthMonitor(pool, (id) => this.recoverInstance(id), {
+      intervalMs: this.options.healthCheckIntervalMs,
+    });
+  }
+
+  getHealthMonitor(): ClineHealthMonitor | null {
+    return this.healthMonitor;
+  }
 }
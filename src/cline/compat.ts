@@ -0,0 +1,104 @@
+/**
+ * Cline version compatibility - checks the version of cline-core when the agent
+ * connects
+ *
+ * Message shapes drift between Cline releases: say types are renamed (the proto
+ * gives colliding ones a _SAY suffix) and ask types are added or dropped
+ * (auto_approval_max_req_reached). The conversion code accepts every shape known in
+ * the supported range whatever the version, so there are no per-version message
+ * adapters: versions outside the range are refused or flagged instead. Add adapters
+ * here once a release changes a shape in a way that can't be read both ways.
+ */
+
+import { ProcessInfo } from "./types.js";
+
+// Versions this agent is tested with: older ones are refused, newer major versions
+// are used with a warning
+export const SUPPORTED_CLINE_VERSIONS = { min: "3.0.0", below: "4.0.0" };
+
+/**
+ * The outcome of checking a Cline instance's version
+ */
+export interface ClineCompatibility {
+  // Unset when Cline doesn't report its version
+  version?: string;
+  // Shown to the user when the version is outside the tested range or unknown
+  warning?: string;
+}
+
+export class ClineVersionError extends Error {
+  readonly version: string;
+
+  constructor(version: string, message: string) {
+    super(message);
+    this.name = "ClineVersionError";
+    this.version = version;
+  }
+}
+
+/**
+ * Parse major.minor.patch from a version string, ignoring any v prefix and suffix
+ * (e.g. "3.37.0-nightly.1")
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * Compare two parseable versions: negative if a is older, positive if newer, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const [left, right] = [parseVersion(a), parseVersion(b)];
+  if (!left || !right) {
+    throw new Error(`Can't compare versions ${a} and ${b}`);
+  }
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) {
+      return left[i] - right[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check a Cline instance's version against the supported range
+ * Throws ClineVersionError for versions older than the range unless allowUnsupported
+ * is set, in which case they get a warning. Versions newer than the range, and ones
+ * Cline doesn't report (the field is optional) or that can't be parsed, get a warning.
+ */
+export function checkClineVersion(
+  info: ProcessInfo,
+  allowUnsupported: boolean = false,
+): ClineCompatibility {
+  const version = info.version?.trim();
+  const { min, below } = SUPPORTED_CLINE_VERSIONS;
+
+  if (!version || !parseVersion(version)) {
+    return {
+      version: version || undefined,
+      warning:
+        `Couldn't determine the Cline version (reported: ${version || "none"}), so ` +
+        `cline-acp can't tell whether it is one it supports (${min} up to ${below})`,
+    };
+  }
+
+  if (compareVersions(version, min) < 0) {
+    const message =
+      `Cline ${version} is older than ${min}, the oldest version cline-acp supports. ` +
+      "Update it with: npm install -g cline";
+    if (!allowUnsupported) {
+      throw new ClineVersionError(version, message);
+    }
+    return { version, warning: message };
+  }
+  if (compareVersions(version, below) >= 0) {
+    return {
+      version,
+      warning:
+        `Cline ${version} is newer than the versions cline-acp is tested with ` +
+        `(${min} up to ${below}), so some messages may not display correctly`,
+    };
+  }
+  return { version };
+}
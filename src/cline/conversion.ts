@@ -4,16 +4,21 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { PromptRequest, SessionNotification } from "@agentclientprotocol/sdk";
+import { McpServer, PromptRequest, SessionNotification } from "@agentclientprotocol/sdk";
 import {
   ClineMessage,
   ClinePrompt,
   ClineToolInfo,
   ClineCostInfo,
+  ClineMessageModelInfo,
+  ClineUsage,
+  ClineMcpServerConfig,
   ClineMessageType,
   ClineSay,
   ClineAsk,
+  ClineProtoMessage,
 } from "./types.js";
+import { getModeModel } from "./providers.js";
 
 /**
  * Convert ACP prompt to Cline format
@@ -47,8 +52,7 @@ export function acpPromptToCline(
 
       if ("data" in chunk && chunk.data && chunk.data.length > 0) {
         // Use base64 data directly to create data URL
-        const mimeType =
-          "mimeType" in chunk ? (chunk.mimeType as string) : "image/png";
+        const mimeType = "mimeType" in chunk ? (chunk.mimeType as string) : "image/png";
         imageDataUrl = `data:${mimeType};base64,${chunk.data}`;
         debug?.("created data URL from base64", {
           mimeType,
@@ -167,6 +171,17 @@ export function clineMessageToAcpNotification(
       return clineSayToolToAcpToolCall(msg, sessionId, workspaceRoot);
     }
 
+    // Auto-approved MCP request - stays in progress until its mcp_server_response arrives
+    if (sayType === "use_mcp_server") {
+      return clineMcpRequestToAcpToolCall(msg, sessionId, "in_progress");
+    }
+
+    // MCP results are sent as tool_call_update by clineMcpResponseToAcpToolCallUpdate,
+    // which needs the surrounding messages to find the request
+    if (sayType === "mcp_server_request_started" || sayType === "mcp_server_response") {
+      return null;
+    }
+
     // Skip the first say:text message - it's always the user's echoed input
     if (sayType === "text" && messageIndex === 0) {
       return null;
@@ -256,11 +271,21 @@ export function clineMessageToAcpNotification(
       return clineToolAskToAcpToolCall(msg, sessionId, workspaceRoot);
     }
 
+    // MCP tool/resource permission request
+    if (askType === "use_mcp_server") {
+      return clineMcpRequestToAcpToolCall(msg, sessionId, "pending");
+    }
+
     // Command execution permission request (raw command text)
     if (askType === "command") {
       return clineCommandAskToAcpToolCall(msg, sessionId);
     }
 
+    // Request limit reached - the user decides whether Cline keeps going
+    if (isRequestLimitAsk(msg)) {
+      return clineLimitAskToAcpToolCall(msg, sessionId);
+    }
+
     // Task completed - don't emit notification, just let stream end
     if (askType === "completion_result") {
       return null;
@@ -299,6 +324,87 @@ export function clineMessageToAcpNotification(
   return null;
 }
 
+/**
+ * Convert a stored Cline conversation into ACP notifications for session/load
+ * Unlike live streaming, the user's own messages are replayed as user_message_chunk
+ * so the client can rebuild the full transcript
+ *
+ * @param messages - The task's clineMessages, in order
+ * @param sessionId - The ACP session ID
+ * @param workspaceRoot - Optional workspace root to resolve relative paths
+ */
+export function clineMessagesToAcpHistory(
+  messages: ClineMessage[],
+  sessionId: string,
+  workspaceRoot?: string,
+): SessionNotification[] {
+  const notifications: SessionNotification[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+    if (msg.partial) {
+      continue;
+    }
+
+    const msgType = String(msg.type || "").toLowerCase();
+    const sayType = String(msg.say || "").toLowerCase();
+
+    // The initial task text and later user_feedback messages are what the user typed
+    const isUserText =
+      msgType === "say" &&
+      ((sayType === "text" && i === 0) || sayType === "task" || sayType === "user_feedback");
+    if (isUserText) {
+      if (msg.text) {
+        notifications.push({
+          sessionId,
+          update: {
+            sessionUpdate: "user_message_chunk",
+            content: { type: "text", text: msg.text },
+          },
+        });
+      }
+      continue;
+    }
+
+    // Progress checklists are replayed once, as the final plan, below
+    if (msgType === "say" && sayType === "task_progress") {
+      continue;
+    }
+
+    if (isMcpServerResponse(msg)) {
+      const update = clineMcpResponseToAcpToolCallUpdate(messages, i, sessionId);
+      if (update) {
+        notifications.push(update);
+      }
+      continue;
+    }
+
+    const notification = clineMessageToAcpNotification(msg, sessionId, i, workspaceRoot);
+    if (!notification) {
+      continue;
+    }
+
+    // Approval requests in history have already been answered
+    if (
+      notification.update.sessionUpdate === "tool_call" &&
+      notification.update.status === "pending"
+    ) {
+      notification.update.status = "completed";
+    }
+    notifications.push(notification);
+  }
+
+  const latestTaskProgress = getLatestTaskProgress(messages);
+  if (latestTaskProgress) {
+    const plan = clineTaskProgressToAcpPlan(latestTaskProgress, sessionId);
+    if (plan) {
+      notifications.push(plan);
+    }
+  }
+
+  return notifications;
+}
+
 /**
  * Check if text looks like raw JSON tool data that should be filtered out
  * This catches Cline's internal tool formats that shouldn't be shown to users
@@ -418,14 +524,80 @@ function extractTextFromMessage(msg: ClineMessage): string {
   return msg.text || "";
 }
 
+/**
+ * Get the suggested answers Cline offered with a followup question or plan response
+ * Returns an empty list once an option has been selected, or when there are none
+ */
+export function getAskOptions(msg: ClineMessage): string[] {
+  let structured: { options?: unknown; selected?: string } | undefined =
+    msg.askQuestion ?? msg.planModeResponse;
+
+  if (!structured && msg.text) {
+    try {
+      const parsed = JSON.parse(msg.text);
+      if (typeof parsed === "object" && parsed !== null) {
+        structured = parsed;
+      }
+    } catch {
+      // Plain text asks have no options
+    }
+  }
+
+  if (!structured || structured.selected || !Array.isArray(structured.options)) {
+    return [];
+  }
+  return structured.options.filter(
+    (option): option is string => typeof option === "string" && option.trim() !== "",
+  );
+}
+
 /**
  * Normalize enum values for comparison (proto uses SCREAMING_CASE, we use lowercase)
+ * Proto say values that collide with ask values carry a "_SAY" suffix (e.g. TOOL_SAY)
  */
 function normalizeEnumValue(value: string | undefined): string {
   if (!value) return "";
-  return value.toLowerCase().replace(/_/g, "_");
+  return value.toLowerCase().replace(/_say$/, "");
 }
 
+/**
+ * Convert a ClineMessage from the gRPC partial message stream to the state JSON form
+ * Unset proto enums read as their first value (FOLLOWUP, TASK), so only the field
+ * matching the message type is kept
+ */
+export function fromProtoMessage(msg: ClineProtoMessage): ClineMessage {
+  const type = normalizeEnumValue(msg.type) as ClineMessageType;
+  return {
+    ts: msg.ts,
+    type,
+    ask: type === ClineMessageType.ASK ? (normalizeEnumValue(msg.ask) as ClineAsk) : undefined,
+    say: type === ClineMessageType.SAY ? (normalizeEnumValue(msg.say) as ClineSay) : undefined,
+    text: msg.text,
+    reasoning: msg.reasoning,
+    partial: msg.partial,
+    images: msg.images,
+    planModeResponse: msg.planModeResponse ?? undefined,
+    askQuestion: msg.askQuestion ?? undefined,
+    modelInfo: msg.modelInfo ?? undefined,
+  };
+}
+
+// Internal say types that are never streamed to the client as text
+const PARTIAL_SKIPPED_SAYS = new Set<ClineSay>([
+  ClineSay.API_REQ_STARTED,
+  ClineSay.API_REQ_FINISHED,
+  ClineSay.API_REQ_RETRIED,
+  ClineSay.DELETED_API_REQS,
+  ClineSay.TASK_PROGRESS,
+  ClineSay.CHECKPOINT_CREATED,
+  ClineSay.USER_FEEDBACK,
+  ClineSay.MCP_SERVER_REQUEST_STARTED,
+  ClineSay.MCP_SERVER_RESPONSE,
+  ClineSay.MCP_NOTIFICATION,
+  ClineSay.USE_MCP_SERVER,
+  ClineSay.LOAD_MCP_DOCUMENTATION,
+]);
+
 /**
  * Convert Cline partial message to ACP notification
  */
@@ -433,16 +605,18 @@ export function clinePartialToAcpNotification(
   msg: ClineMessage,
   sessionId: string,
 ): SessionNotification | null {
-  const msgType = normalizeEnumValue(msg.type as unknown as string);
-  const sayCat = normalizeEnumValue(msg.say as unknown as string);
-
-  if (msgType === "say" || msg.type === ClineMessageType.SAY) {
+  if (msg.type === ClineMessageType.SAY) {
     // Skip tool messages in partial stream - they're handled separately
-    if (sayCat === "tool" || msg.say === ClineSay.TOOL) {
+    if (msg.say === ClineSay.TOOL) {
+      return null;
+    }
+
+    // Skip API request bookkeeping and other internal messages
+    if (msg.say && PARTIAL_SKIPPED_SAYS.has(msg.say)) {
       return null;
     }
 
-    if (sayCat === "reasoning" || msg.say === ClineSay.REASONING) {
+    if (msg.say === ClineSay.REASONING) {
       const text = extractTextFromMessage(msg);
       // Skip if reasoning looks like tool JSON
       if (text && looksLikeToolJson(text)) {
@@ -479,10 +653,9 @@ export function clinePartialToAcpNotification(
   }
 
   // Handle ASK messages (for plan mode responses, followups, etc.)
-  if (msgType === "ask" || msg.type === ClineMessageType.ASK) {
-    const askCat = normalizeEnumValue(msg.ask as unknown as string);
+  if (msg.type === ClineMessageType.ASK) {
     // Skip tool/command asks in partial stream - handled by permission flow
-    if (askCat === "tool" || askCat === "command") {
+    if (msg.ask === ClineAsk.TOOL || msg.ask === ClineAsk.COMMAND) {
       return null;
     }
 
@@ -505,6 +678,59 @@ export function clinePartialToAcpNotification(
   return null;
 }
 
+/**
+ * Get the text of an agent_message_chunk or agent_thought_chunk notification
+ * Returns null for any other kind of update
+ */
+export function getChunkText(notification: SessionNotification): string | null {
+  const update = notification.update;
+  if (
+    (update.sessionUpdate === "agent_message_chunk" ||
+      update.sessionUpdate === "agent_thought_chunk") &&
+    update.content.type === "text"
+  ) {
+    return update.content.text;
+  }
+  return null;
+}
+
+/**
+ * Reduce a text chunk notification to the part that hasn't been sent yet
+ * Cline sends the full text so far with every update, while ACP expects incremental chunks
+ *
+ * @param notification - Notification carrying the full text of the message so far
+ * @param sentText - Text already sent to the client for this message
+ * @returns The notification with only the new suffix, the notification unchanged if it isn't
+ *          a text chunk, or null if there is nothing new (or the text was rewritten, since
+ *          already-sent chunks can't be taken back)
+ */
+export function toIncrementalChunk(
+  notification: SessionNotification,
+  sentText: string,
+): SessionNotification | null {
+  const update = notification.update;
+  if (
+    (update.sessionUpdate !== "agent_message_chunk" &&
+      update.sessionUpdate !== "agent_thought_chunk") ||
+    update.content.type !== "text"
+  ) {
+    return notification;
+  }
+
+  const text = update.content.text;
+  if (!text.startsWith(sentText) || text.length === sentText.length) {
+    return null;
+  }
+
+  return {
+    ...notification,
+    update: {
+      ...update,
+      content: { ...update.content, text: text.slice(sentText.length) },
+    },
+  };
+}
+
 /**
  * Parse tool info from Cline message
  * @param msg - The Cline message to parse
@@ -513,6 +739,12 @@ export function clinePartialToAcpNotification(
 export function parseToolInfo(msg: ClineMessage, workspaceRoot?: string): ClineToolInfo {
   try {
     const data = JSON.parse(msg.text || "{}");
+
+    // MCP requests (use_mcp_server) name the server instead of a tool
+    if (typeof data.serverName === "string" && !data.tool) {
+      return parseMcpToolInfo(data);
+    }
+
     const toolType = data.tool || "unknown";
 
     // Generate title based on tool type
@@ -527,8 +759,11 @@ export function parseToolInfo(msg: ClineMessage, workspaceRoot?: string): ClineT
     // - path: relative path (e.g., "src/foo.ts") or workspace folder name (e.g., "claude-code-acp")
     // - content: absolute path (e.g., "/Users/.../src/foo.ts") - only sometimes
     // Try content first, then resolve relative path using workspace root
+    // File writes carry the whole new file in content, which may itself start with "/"
+    // (a // or /* comment), so their path only ever comes from path
+    const isFileWrite = FILE_WRITE_TOOLS.has(toolType);
     let filePath = data.path;
-    if (typeof data.content === "string" && data.content.startsWith("/")) {
+    if (!isFileWrite && typeof data.content === "string" && data.content.startsWith("/")) {
       // content field has absolute path
       filePath = data.content;
     } else if (filePath && workspaceRoot && !filePath.startsWith("/")) {
@@ -556,7 +791,7 @@ export function parseToolInfo(msg: ClineMessage, workspaceRoot?: string): ClineT
     // Extract content if present (for file reads, command output, etc.)
     // Note: content may be file contents or path depending on context
     let content: string | undefined;
-    if (typeof data.content === "string" && !data.content.startsWith("/")) {
+    if (typeof data.content === "string" && (isFileWrite || !data.content.startsWith("/"))) {
       // If content doesn't look like a path, it's actual content
       content = data.content;
     }
@@ -585,6 +820,38 @@ export function parseToolInfo(msg: ClineMessage, workspaceRoot?: string): ClineT
   }
 }
 
+/**
+ * Parse a use_mcp_server request: {"type":"use_mcp_tool","serverName","toolName","arguments"}
+ * or {"type":"access_mcp_resource","serverName","uri"}
+ */
+function parseMcpToolInfo(data: Record<string, unknown>): ClineToolInfo {
+  const serverName = displayMcpServerName(String(data.serverName));
+
+  if (data.type === "access_mcp_resource") {
+    return {
+      type: "access_mcp_resource",
+      title: `${serverName}: ${data.uri || "resource"}`,
+      input: { serverName, uri: data.uri },
+    };
+  }
+
+  // Arguments arrive as a JSON string - show them as an object when possible
+  let args: unknown = data.arguments;
+  if (typeof args === "string") {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      // Keep the raw string
+    }
+  }
+
+  return {
+    type: "use_mcp_tool",
+    title: `${serverName}: ${data.toolName || "tool"}`,
+    input: { serverName, toolName: data.toolName, arguments: args },
+  };
+}
+
 /**
  * Define the ToolCallContent types for ACP
  * Matches the ACP SDK ToolCallContent schema
@@ -621,6 +888,187 @@ function buildToolCallContent(toolInfo: ClineToolInfo): ToolCallContent[] {
   return result;
 }
 
+/**
+ * A SEARCH/REPLACE block from a Cline replace_in_file diff
+ */
+interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+}
+
+/**
+ * Parse Cline's SEARCH/REPLACE diff format into blocks
+ * Accepts both the current markers (------- SEARCH / +++++++ REPLACE) and the legacy
+ * ones (<<<<<<< SEARCH / >>>>>>> REPLACE). Returns null if the diff is malformed.
+ */
+export function parseSearchReplaceBlocks(diff: string): SearchReplaceBlock[] | null {
+  const blocks: SearchReplaceBlock[] = [];
+  let section: "none" | "search" | "replace" = "none";
+  let searchLines: string[] = [];
+  let replaceLines: string[] = [];
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (/^(-{3,}|<{3,}) SEARCH>?$/.test(line)) {
+      if (section !== "none") return null;
+      section = "search";
+      searchLines = [];
+      replaceLines = [];
+    } else if (/^={3,}$/.test(line) && section === "search") {
+      section = "replace";
+    } else if (/^(\+{3,}|>{3,}) REPLACE>?$/.test(line)) {
+      if (section !== "replace") return null;
+      blocks.push({ search: searchLines.join("\n"), replace: replaceLines.join("\n") });
+      section = "none";
+    } else if (section === "search") {
+      searchLines.push(line);
+    } else if (section === "replace") {
+      replaceLines.push(line);
+    }
+  }
+
+  // An unterminated block or a diff with no blocks isn't something we can apply
+  if (section !== "none" || blocks.length === 0) {
+    return null;
+  }
+  return blocks;
+}
+
+/**
+ * Apply a SEARCH/REPLACE diff to file content
+ * With reverse set, the REPLACE sections are searched for and swapped back, which recovers
+ * the original content from a file the edit has already been applied to.
+ * Returns null if the diff is malformed or any block doesn't match.
+ */
+export function applySearchReplaceDiff(
+  content: string,
+  diff: string,
+  reverse: boolean = false,
+): string | null {
+  const blocks = parseSearchReplaceBlocks(diff);
+  if (!blocks) {
+    return null;
+  }
+
+  let result = content;
+  let position = 0;
+  for (const block of blocks) {
+    const search = reverse ? block.replace : block.search;
+    const replace = reverse ? block.search : block.replace;
+
+    // An empty search section means "replace the whole (empty) file"
+    if (search === "") {
+      if (result !== "") return null;
+      result = replace;
+      position = replace.length;
+      continue;
+    }
+
+    // Blocks are expected in file order, but tolerate out-of-order ones
+    let index = result.indexOf(search, position);
+    if (index === -1) {
+      index = result.indexOf(search);
+    }
+    if (index === -1) {
+      return null;
+    }
+
+    result = result.slice(0, index) + replace + result.slice(index + search.length);
+    position = index + replace.length;
+  }
+
+  return result;
+}
+
+// Tool names Cline uses for file edits, in ask/say JSON (camelCase) and tool-use (snake_case) form
+const FILE_EDIT_TOOLS = new Set([
+  "editedExistingFile",
+  "newFileCreated",
+  "replace_in_file",
+  "write_to_file",
+]);
+
+// File edit tools whose content is the complete new file rather than a diff or path
+const FILE_WRITE_TOOLS = new Set(["newFileCreated", "write_to_file"]);
+
+/**
+ * Check if a tool call edits a file, so it can show a before/after diff
+ */
+export function isFileEditTool(toolType: string): boolean {
+  return FILE_EDIT_TOOLS.has(toolType);
+}
+
+/**
+ * Build a before/after diff for a file edit tool call
+ *
+ * @param toolInfo - Parsed tool info (replace_in_file has a diff, write_to_file has content)
+ * @param currentText - The file's current content, or null if it doesn't exist
+ * @returns The diff, or null if the edit can't be reconstructed
+ */
+export function buildFileEditDiff(
+  toolInfo: ClineToolInfo,
+  currentText: string | null,
+): { path: string; oldText: string | null; newText: string } | null {
+  if (!toolInfo.path || !FILE_EDIT_TOOLS.has(toolInfo.type)) {
+    return null;
+  }
+
+  if (toolInfo.diff) {
+    if (currentText === null) {
+      return null;
+    }
+    // Before approval the file still has the original content...
+    const edited = applySearchReplaceDiff(currentText, toolInfo.diff);
+    if (edited !== null) {
+      return { path: toolInfo.path, oldText: currentText, newText: edited };
+    }
+    // ...but auto-approved edits have already been written
+    const original = applySearchReplaceDiff(currentText, toolInfo.diff, true);
+    if (original !== null) {
+      return { path: toolInfo.path, oldText: original, newText: currentText };
+    }
+    return null;
+  }
+
+  if (toolInfo.content !== undefined) {
+    // If the file already has the new content, the original is gone
+    if (currentText === toolInfo.content) {
+      return null;
+    }
+    return { path: toolInfo.path, oldText: currentText, newText: toolInfo.content };
+  }
+
+  return null;
+}
+
+/**
+ * Replace a tool call's raw diff/content with a proper before/after diff
+ * Returns the notification unchanged if it isn't a tool_call
+ */
+export function withFileEditDiff(
+  notification: SessionNotification,
+  diff: { path: string; oldText: string | null; newText: string },
+): SessionNotification {
+  const update = notification.update;
+  if (update.sessionUpdate !== "tool_call") {
+    return notification;
+  }
+
+  // Drop the raw diff and the full new file text - both are covered by the diff
+  const content = (update.content || []).filter(
+    (item) =>
+      item.type !== "diff" &&
+      !(item.type === "content" && "text" in item.content && item.content.text === diff.newText),
+  );
+
+  return {
+    ...notification,
+    update: {
+      ...update,
+      content: [{ type: "diff", ...diff }, ...content],
+    },
+  };
+}
+
 /**
  * Map Cline tool types to ACP ToolKind
  */
@@ -639,6 +1087,8 @@ function mapToolKind(
     list_files: "search",
     browser_action: "fetch",
     ask_followup_question: "other",
+    use_mcp_tool: "other",
+    access_mcp_resource: "read",
   };
 
   return kindMap[toolType] || "other";
@@ -685,10 +1135,12 @@ export function clineToolAskToAcpToolCall(
 /**
  * Convert Cline command ask to ACP tool call notification (pending approval)
  * Command asks have raw command text, not JSON like tool asks
+ * Auto-approved commands (say "command") are reported as already in progress
  */
 export function clineCommandAskToAcpToolCall(
   msg: ClineMessage,
   sessionId: string,
+  status: "pending" | "in_progress" = "pending",
 ): SessionNotification {
   const command = msg.text || "command";
 
@@ -697,7 +1149,7 @@ export function clineCommandAskToAcpToolCall(
     update: {
       sessionUpdate: "tool_call",
       toolCallId: String(msg.ts),
-      status: "pending",
+      status,
       title: command,
       kind: "execute",
       rawInput: { command },
@@ -707,6 +1159,200 @@ export function clineCommandAskToAcpToolCall(
   };
 }
 
+/**
+ * Check if a message is Cline asking whether to continue past a request limit
+ */
+export function isRequestLimitAsk(msg: ClineMessage): boolean {
+  const askType = String(msg.ask || "").toLowerCase();
+  return askType === "mistake_limit_reached" || askType === "auto_approval_max_req_reached";
+}
+
+/**
+ * Check if a message is Cline asking to resume a task after it was cancelled or reopened
+ */
+export function isResumeAsk(msg: ClineMessage): boolean {
+  const askType = String(msg.ask || "").toLowerCase();
+  return askType === "resume_task" || askType === "resume_completed_task";
+}
+
+/**
+ * Convert a request limit ask to an ACP tool call (pending the user's decision)
+ * The ask text explains why Cline stopped, so it's shown as the tool call's content
+ */
+export function clineLimitAskToAcpToolCall(
+  msg: ClineMessage,
+  sessionId: string,
+): SessionNotification {
+  const askType = String(msg.ask || "").toLowerCase();
+  const title =
+    askType === "mistake_limit_reached" ? "Mistake limit reached" : "Auto-approval limit reached";
+  const reason = msg.text || "Cline has stopped and is asking whether to continue.";
+
+  return {
+    sessionId,
+    update: {
+      sessionUpdate: "tool_call",
+      toolCallId: String(msg.ts),
+      status: "pending",
+      title,
+      kind: "other",
+      rawInput: { reason },
+      content: [{ type: "content", content: { type: "text", text: reason } }],
+      locations: [],
+    },
+  };
+}
+
+/**
+ * Convert a Cline use_mcp_server ask/say to an ACP tool call naming the server and tool
+ */
+export function clineMcpRequestToAcpToolCall(
+  msg: ClineMessage,
+  sessionId: string,
+  status: "pending" | "in_progress",
+): SessionNotification {
+  const toolInfo = parseToolInfo(msg);
+
+  return {
+    sessionId,
+    update: {
+      sessionUpdate: "tool_call",
+      toolCallId: String(msg.ts),
+      status,
+      title: toolInfo.type === "unknown" ? "MCP request" : toolInfo.title,
+      kind: mapToolKind(toolInfo.type),
+      rawInput: toolInfo.input,
+      content: [],
+      locations: [],
+    },
+  };
+}
+
+/**
+ * Convert a Cline mcp_server_response say to a tool_call_update completing its request
+ * The response doesn't reference the request, so the closest preceding use_mcp_server
+ * message is used as the tool call
+ *
+ * @param messages - The task's clineMessages
+ * @param index - Index of the mcp_server_response message
+ * @param sessionId - The ACP session ID
+ */
+export function clineMcpResponseToAcpToolCallUpdate(
+  messages: ClineMessage[],
+  index: number,
+  sessionId: string,
+): SessionNotification | null {
+  for (let i = index - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.ask === ClineAsk.USE_MCP_SERVER || msg.say === ClineSay.USE_MCP_SERVER) {
+      const text = messages[index].text || "";
+      return {
+        sessionId,
+        update: {
+          sessionUpdate: "tool_call_update",
+          toolCallId: String(msg.ts),
+          status: "completed",
+          content: text ? [{ type: "content", content: { type: "text", text } }] : [],
+          rawOutput: { response: text },
+        },
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Attach a client terminal to a command tool call
+ */
+export function createTerminalToolCallUpdate(
+  sessionId: string,
+  toolCallId: string,
+  terminalId: string,
+): SessionNotification {
+  return {
+    sessionId,
+    update: {
+      sessionUpdate: "tool_call_update",
+      toolCallId,
+      status: "in_progress",
+      content: [{ type: "terminal", terminalId }],
+    },
+  };
+}
+
+/**
+ * Check if a message carries command output (say or ask "command_output")
+ */
+export function isCommandOutput(msg: ClineMessage): boolean {
+  return msg.say === ClineSay.COMMAND_OUTPUT || msg.ask === ClineAsk.COMMAND_OUTPUT;
+}
+
+/**
+ * Check if a message is an MCP server response
+ */
+export function isMcpServerResponse(msg: ClineMessage): boolean {
+  return msg.type === ClineMessageType.SAY && msg.say === ClineSay.MCP_SERVER_RESPONSE;
+}
+
+// Suffix given to the names of a session's MCP servers in Cline's settings
+const SESSION_SUFFIX = /-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Name a session's MCP server so it can't collide with the user's own servers or
+ * another session's
+ */
+export function sessionMcpServerName(name: string, sessionId: string): string {
+  return `${name}-${sessionId}`;
+}
+
+/**
+ * Check if an MCP server name was given by sessionMcpServerName
+ */
+export function isSessionMcpServerName(name: string): boolean {
+  return SESSION_SUFFIX.test(name);
+}
+
+/**
+ * Strip the session suffix from an MCP server name for display
+ */
+export function displayMcpServerName(name: string): string {
+  return name.replace(SESSION_SUFFIX, "");
+}
+
+/**
+ * Translate ACP MCP server definitions into Cline's mcpServers settings format
+ * Cline calls streamable HTTP servers "streamableHttp". With a sessionId, servers are
+ * named with sessionMcpServerName.
+ */
+export function acpMcpServersToCline(
+  servers: McpServer[],
+  sessionId?: string,
+): Record<string, ClineMcpServerConfig> {
+  const result: Record<string, ClineMcpServerConfig> = {};
+
+  for (const server of servers) {
+    const name = sessionId ? sessionMcpServerName(server.name, sessionId) : server.name;
+    if ("type" in server && (server.type === "http" || server.type === "sse")) {
+      const headers = Object.fromEntries(server.headers.map((h) => [h.name, h.value]));
+      result[name] = {
+        type: server.type === "http" ? "streamableHttp" : "sse",
+        url: server.url,
+        ...(server.headers.length > 0 ? { headers } : {}),
+      };
+    } else {
+      const env = Object.fromEntries(server.env.map((e) => [e.name, e.value]));
+      result[name] = {
+        type: "stdio",
+        command: server.command,
+        args: server.args,
+        ...(server.env.length > 0 ? { env } : {}),
+      };
+    }
+  }
+
+  return result;
+}
+
 /**
  * Convert Cline SAY TOOL message to ACP tool call notification (completed/auto-approved)
  * This enables the "follow" feature so editors can track what files the agent is working on
@@ -962,6 +1608,29 @@ export function isWaitingForUserInput(
   return false;
 }
 
+/**
+ * Why a prompt turn ended, derived from the ask Cline stopped on
+ * Cancellation is tracked by the agent, so it's never returned here
+ */
+export function getTurnStopReason(
+  messages: ClineMessage[],
+): "end_turn" | "refusal" | "max_turn_requests" {
+  const lastMessage = messages[messages.length - 1];
+  if (!lastMessage || String(lastMessage.type || "").toLowerCase() !== "ask") {
+    return "end_turn";
+  }
+
+  switch (String(lastMessage.ask || "").toLowerCase()) {
+    case "api_req_failed":
+      return "refusal";
+    case "mistake_limit_reached":
+    case "auto_approval_max_req_reached":
+      return "max_turn_requests";
+    default:
+      return "end_turn";
+  }
+}
+
 /**
  * Check if approval is needed based on messages
  *
@@ -987,11 +1656,44 @@ export function needsApproval(messages: ClineMessage[]): boolean {
     ClineAsk.COMMAND,
     ClineAsk.BROWSER_ACTION_LAUNCH,
     ClineAsk.USE_MCP_SERVER,
+    ClineAsk.MISTAKE_LIMIT_REACHED,
+    ClineAsk.AUTO_APPROVAL_MAX_REQ_REACHED,
   ];
 
   return approvalTypes.includes(lastMessage.ask as ClineAsk);
 }
 
+// Ask types the agent knows how to answer
+const HANDLED_ASKS: string[] = [
+  ClineAsk.FOLLOWUP,
+  ClineAsk.PLAN_MODE_RESPOND,
+  ClineAsk.TOOL,
+  ClineAsk.COMMAND,
+  ClineAsk.COMMAND_OUTPUT,
+  ClineAsk.COMPLETION_RESULT,
+  ClineAsk.API_REQ_FAILED,
+  ClineAsk.BROWSER_ACTION_LAUNCH,
+  ClineAsk.USE_MCP_SERVER,
+  ClineAsk.RESUME_TASK,
+  ClineAsk.RESUME_COMPLETED_TASK,
+  ClineAsk.MISTAKE_LIMIT_REACHED,
+  ClineAsk.AUTO_APPROVAL_MAX_REQ_REACHED,
+];
+
+/**
+ * Check if Cline stopped on an ask this agent doesn't know how to answer
+ * Newer Cline versions may add ask types; ending the turn hands the decision to the
+ * user instead of waiting on a response that will never come
+ */
+export function isUnknownAsk(messages: ClineMessage[]): boolean {
+  const lastMessage = messages[messages.length - 1];
+  if (!lastMessage || lastMessage.partial) return false;
+  if (String(lastMessage.type || "").toLowerCase() !== "ask") return false;
+
+  const askType = String(lastMessage.ask || "").toLowerCase();
+  return !HANDLED_ASKS.includes(askType);
+}
+
 /**
  * Extract messages from Cline state JSON
  */
@@ -1017,12 +1719,34 @@ export function extractMessagesFromState(stateJson: string): ClineMessage[] {
       askQuestion: msg.askQuestion as
         | { question: string; options: string[]; selected?: string }
         | undefined,
+      modelInfo: msg.modelInfo as ClineMessageModelInfo | undefined,
     }));
   } catch {
     return [];
   }
 }
 
+/**
+ * Extract all workspace root paths from Cline state JSON
+ */
+export function extractWorkspaceRoots(stateJson: string): string[] {
+  try {
+    const state = JSON.parse(stateJson);
+    const workspaceRoots = state.workspaceRoots as Array<{ path: string }> | undefined;
+    return (workspaceRoots || []).map((root) => root.path).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check whether a directory is one of Cline's workspace roots
+ */
+export function isWorkspaceRoot(workspaceRoots: string[], cwd: string): boolean {
+  const target = path.resolve(cwd);
+  return workspaceRoots.some((root) => path.resolve(root) === target);
+}
+
 /**
  * Extract the primary workspace root path from Cline state JSON
  * This is used to resolve relative file paths to absolute paths for the "follow" feature
@@ -1060,16 +1784,20 @@ export function extractMode(stateJson: string): "plan" | "act" {
 
 /**
  * Create a current_mode_update notification
+ * Plan and act modes can use different models, so the new mode's model is sent along
+ * in _meta.currentModelId (ACP has no separate model update)
  */
 export function createCurrentModeUpdate(
   sessionId: string,
   modeId: "plan" | "act",
+  currentModelId?: string,
 ): SessionNotification {
   return {
     sessionId,
     update: {
       sessionUpdate: "current_mode_update",
       currentModeId: modeId,
+      ...(currentModelId ? { _meta: { currentModelId } } : {}),
     },
   };
 }
@@ -1103,8 +1831,55 @@ export function extractCostInfo(msg: ClineMessage): ClineCostInfo | null {
       cacheWrites: data.cacheWrites || 0,
       cacheReads: data.cacheReads || 0,
       cost: data.cost || 0,
+      modelId: msg.modelInfo?.modelId || undefined,
     };
   } catch {
     return null;
   }
 }
+
+/**
+ * Create an empty usage total
+ */
+export function emptyUsage(): ClineUsage {
+  return { cost: 0, tokensIn: 0, tokensOut: 0, cacheWrites: 0, cacheReads: 0, requests: 0 };
+}
+
+/**
+ * Add one API request's cost data to a usage total
+ */
+export function addUsage(usage: ClineUsage, costInfo: ClineCostInfo): ClineUsage {
+  usage.cost += costInfo.cost;
+  usage.tokensIn += costInfo.tokensIn;
+  usage.tokensOut += costInfo.tokensOut;
+  usage.cacheWrites += costInfo.cacheWrites;
+  usage.cacheReads += costInfo.cacheReads;
+  usage.requests += 1;
+  return usage;
+}
+
+/**
+ * Get the model Cline is currently configured to use for its current mode
+ * Used to attribute costs when the api_req_started message doesn't name its model
+ */
+export function extractCurrentModelId(stateJson: string): string | undefined {
+  try {
+    const state = JSON.parse(stateJson);
+    return getModeModel(state.apiConfiguration || {}, state.mode === "act" ? "act" : "plan")
+      .modelId;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format a one-line usage summary for the end of a turn
+ */
+export function formatUsageSummary(turn: ClineUsage, session: ClineUsage): string {
+  const tokens = (count: number) => count.toLocaleString("en-US");
+  return (
+    `**Usage:** $${turn.cost.toFixed(4)} this turn ` +
+    `(${tokens(turn.tokensIn)} in / ${tokens(turn.tokensOut)} out) · ` +
+    `$${session.cost.toFixed(4)} this session`
+  );
+}
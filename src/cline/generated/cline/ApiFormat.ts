@@ -0,0 +1,23 @@
+// Original file: proto/cline/models.proto
+
+export const ApiFormat = {
+  ANTHROPIC_CHAT: "ANTHROPIC_CHAT",
+  GEMINI_CHAT: "GEMINI_CHAT",
+  OPENAI_CHAT: "OPENAI_CHAT",
+  R1_CHAT: "R1_CHAT",
+  OPENAI_RESPONSES: "OPENAI_RESPONSES",
+} as const;
+
+export type ApiFormat =
+  | "ANTHROPIC_CHAT"
+  | 0
+  | "GEMINI_CHAT"
+  | 1
+  | "OPENAI_CHAT"
+  | 2
+  | "R1_CHAT"
+  | 3
+  | "OPENAI_RESPONSES"
+  | 4;
+
+export type ApiFormat__Output = (typeof ApiFormat)[keyof typeof ApiFormat];
@@ -0,0 +1,128 @@
+// Original file: proto/cline/models.proto
+
+export const ApiProvider = {
+  ANTHROPIC: "ANTHROPIC",
+  OPENROUTER: "OPENROUTER",
+  BEDROCK: "BEDROCK",
+  VERTEX: "VERTEX",
+  OPENAI: "OPENAI",
+  OLLAMA: "OLLAMA",
+  LMSTUDIO: "LMSTUDIO",
+  GEMINI: "GEMINI",
+  OPENAI_NATIVE: "OPENAI_NATIVE",
+  REQUESTY: "REQUESTY",
+  TOGETHER: "TOGETHER",
+  DEEPSEEK: "DEEPSEEK",
+  QWEN: "QWEN",
+  DOUBAO: "DOUBAO",
+  MISTRAL: "MISTRAL",
+  VSCODE_LM: "VSCODE_LM",
+  CLINE: "CLINE",
+  LITELLM: "LITELLM",
+  NEBIUS: "NEBIUS",
+  FIREWORKS: "FIREWORKS",
+  ASKSAGE: "ASKSAGE",
+  XAI: "XAI",
+  SAMBANOVA: "SAMBANOVA",
+  CEREBRAS: "CEREBRAS",
+  GROQ: "GROQ",
+  SAPAICORE: "SAPAICORE",
+  CLAUDE_CODE: "CLAUDE_CODE",
+  MOONSHOT: "MOONSHOT",
+  HUGGINGFACE: "HUGGINGFACE",
+  HUAWEI_CLOUD_MAAS: "HUAWEI_CLOUD_MAAS",
+  BASETEN: "BASETEN",
+  ZAI: "ZAI",
+  VERCEL_AI_GATEWAY: "VERCEL_AI_GATEWAY",
+  QWEN_CODE: "QWEN_CODE",
+  DIFY: "DIFY",
+  OCA: "OCA",
+  MINIMAX: "MINIMAX",
+  HICAP: "HICAP",
+  AIHUBMIX: "AIHUBMIX",
+  NOUSRESEARCH: "NOUSRESEARCH",
+} as const;
+
+export type ApiProvider =
+  | "ANTHROPIC"
+  | 0
+  | "OPENROUTER"
+  | 1
+  | "BEDROCK"
+  | 2
+  | "VERTEX"
+  | 3
+  | "OPENAI"
+  | 4
+  | "OLLAMA"
+  | 5
+  | "LMSTUDIO"
+  | 6
+  | "GEMINI"
+  | 7
+  | "OPENAI_NATIVE"
+  | 8
+  | "REQUESTY"
+  | 9
+  | "TOGETHER"
+  | 10
+  | "DEEPSEEK"
+  | 11
+  | "QWEN"
+  | 12
+  | "DOUBAO"
+  | 13
+  | "MISTRAL"
+  | 14
+  | "VSCODE_LM"
+  | 15
+  | "CLINE"
+  | 16
+  | "LITELLM"
+  | 17
+  | "NEBIUS"
+  | 18
+  | "FIREWORKS"
+  | 19
+  | "ASKSAGE"
+  | 20
+  | "XAI"
+  | 21
+  | "SAMBANOVA"
+  | 22
+  | "CEREBRAS"
+  | 23
+  | "GROQ"
+  | 24
+  | "SAPAICORE"
+  | 25
+  | "CLAUDE_CODE"
+  | 26
+  | "MOONSHOT"
+  | 27
+  | "HUGGINGFACE"
+  | 28
+  | "HUAWEI_CLOUD_MAAS"
+  | 29
+  | "BASETEN"
+  | 30
+  | "ZAI"
+  | 31
+  | "VERCEL_AI_GATEWAY"
+  | 32
+  | "QWEN_CODE"
+  | 33
+  | "DIFY"
+  | 34
+  | "OCA"
+  | 35
+  | "MINIMAX"
+  | 36
+  | "HICAP"
+  | 37
+  | "AIHUBMIX"
+  | 38
+  | "NOUSRESEARCH"
+  | 39;
+
+export type ApiProvider__Output = (typeof ApiProvider)[keyof typeof ApiProvider];
@@ -0,0 +1,15 @@
+// Original file: proto/cline/ui.proto
+
+export interface ApiReqRetryStatus {
+  attempt?: number;
+  maxAttempts?: number;
+  delaySec?: number;
+  errorSnippet?: string;
+}
+
+export interface ApiReqRetryStatus__Output {
+  attempt: number;
+  maxAttempts: number;
+  delaySec: number;
+  errorSnippet: string;
+}
@@ -0,0 +1,20 @@
+// Original file: proto/cline/task.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+
+export interface AskResponseRequest {
+  metadata?: _cline_Metadata | null;
+  responseType?: string;
+  text?: string;
+  images?: string[];
+}
+
+export interface AskResponseRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  responseType: string;
+  text: string;
+  images: string[];
+}
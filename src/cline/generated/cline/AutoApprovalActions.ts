@@ -0,0 +1,39 @@
+// Original file: proto/cline/state.proto
+
+export interface AutoApprovalActions {
+  readFiles?: boolean;
+  readFilesExternally?: boolean;
+  editFiles?: boolean;
+  editFilesExternally?: boolean;
+  executeSafeCommands?: boolean;
+  executeAllCommands?: boolean;
+  useBrowser?: boolean;
+  useMcp?: boolean;
+  _readFiles?: "readFiles";
+  _readFilesExternally?: "readFilesExternally";
+  _editFiles?: "editFiles";
+  _editFilesExternally?: "editFilesExternally";
+  _executeSafeCommands?: "executeSafeCommands";
+  _executeAllCommands?: "executeAllCommands";
+  _useBrowser?: "useBrowser";
+  _useMcp?: "useMcp";
+}
+
+export interface AutoApprovalActions__Output {
+  readFiles?: boolean;
+  readFilesExternally?: boolean;
+  editFiles?: boolean;
+  editFilesExternally?: boolean;
+  executeSafeCommands?: boolean;
+  executeAllCommands?: boolean;
+  useBrowser?: boolean;
+  useMcp?: boolean;
+  _readFiles?: "readFiles";
+  _readFilesExternally?: "readFilesExternally";
+  _editFiles?: "editFiles";
+  _editFilesExternally?: "editFilesExternally";
+  _executeSafeCommands?: "executeSafeCommands";
+  _executeAllCommands?: "executeAllCommands";
+  _useBrowser?: "useBrowser";
+  _useMcp?: "useMcp";
+}
@@ -0,0 +1,20 @@
+// Original file: proto/cline/state.proto
+
+import type {
+  AutoApprovalActions as _cline_AutoApprovalActions,
+  AutoApprovalActions__Output as _cline_AutoApprovalActions__Output,
+} from "../cline/AutoApprovalActions.js";
+
+export interface AutoApprovalSettings {
+  version?: number;
+  actions?: _cline_AutoApprovalActions | null;
+  enableNotifications?: boolean;
+  _enableNotifications?: "enableNotifications";
+}
+
+export interface AutoApprovalSettings__Output {
+  version: number;
+  actions: _cline_AutoApprovalActions__Output | null;
+  enableNotifications?: boolean;
+  _enableNotifications?: "enableNotifications";
+}
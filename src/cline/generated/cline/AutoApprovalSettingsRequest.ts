@@ -0,0 +1,24 @@
+// Original file: proto/cline/state.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+import type {
+  AutoApprovalActions as _cline_AutoApprovalActions,
+  AutoApprovalActions__Output as _cline_AutoApprovalActions__Output,
+} from "../cline/AutoApprovalActions.js";
+
+export interface AutoApprovalSettingsRequest {
+  metadata?: _cline_Metadata | null;
+  version?: number;
+  actions?: _cline_AutoApprovalActions | null;
+  enableNotifications?: boolean;
+}
+
+export interface AutoApprovalSettingsRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  version: number;
+  actions: _cline_AutoApprovalActions__Output | null;
+  enableNotifications: boolean;
+}
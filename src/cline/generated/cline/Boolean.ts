@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface Boolean {
+  value?: boolean;
+}
+
+export interface Boolean__Output {
+  value: boolean;
+}
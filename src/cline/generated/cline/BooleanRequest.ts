@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface BooleanRequest {
+  value?: boolean;
+}
+
+export interface BooleanRequest__Output {
+  value: boolean;
+}
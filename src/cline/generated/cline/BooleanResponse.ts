@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface BooleanResponse {
+  value?: boolean;
+}
+
+export interface BooleanResponse__Output {
+  value: boolean;
+}
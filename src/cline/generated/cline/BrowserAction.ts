@@ -0,0 +1,26 @@
+// Original file: proto/cline/ui.proto
+
+export const BrowserAction = {
+  LAUNCH: "LAUNCH",
+  CLICK: "CLICK",
+  TYPE: "TYPE",
+  SCROLL_DOWN: "SCROLL_DOWN",
+  SCROLL_UP: "SCROLL_UP",
+  CLOSE: "CLOSE",
+} as const;
+
+export type BrowserAction =
+  | "LAUNCH"
+  | 0
+  | "CLICK"
+  | 1
+  | "TYPE"
+  | 2
+  | "SCROLL_DOWN"
+  | 3
+  | "SCROLL_UP"
+  | 4
+  | "CLOSE"
+  | 5;
+
+export type BrowserAction__Output = (typeof BrowserAction)[keyof typeof BrowserAction];
@@ -0,0 +1,15 @@
+// Original file: proto/cline/ui.proto
+
+export interface BrowserActionResult {
+  screenshot?: string;
+  logs?: string;
+  currentUrl?: string;
+  currentMousePosition?: string;
+}
+
+export interface BrowserActionResult__Output {
+  screenshot: string;
+  logs: string;
+  currentUrl: string;
+  currentMousePosition: string;
+}
@@ -0,0 +1,15 @@
+// Original file: proto/cline/browser.proto
+
+export interface BrowserConnection {
+  success?: boolean;
+  message?: string;
+  endpoint?: string;
+  _endpoint?: "endpoint";
+}
+
+export interface BrowserConnection__Output {
+  success: boolean;
+  message: string;
+  endpoint?: string;
+  _endpoint?: "endpoint";
+}
@@ -0,0 +1,15 @@
+// Original file: proto/cline/browser.proto
+
+export interface BrowserConnectionInfo {
+  isConnected?: boolean;
+  isRemote?: boolean;
+  host?: string;
+  _host?: "host";
+}
+
+export interface BrowserConnectionInfo__Output {
+  isConnected: boolean;
+  isRemote: boolean;
+  host?: string;
+  _host?: "host";
+}
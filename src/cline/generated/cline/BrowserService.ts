@@ -0,0 +1,186 @@
+// Original file: proto/cline/browser.proto
+
+import type * as grpc from "@grpc/grpc-js";
+import type { MethodDefinition } from "@grpc/proto-loader";
+import type {
+  BrowserConnection as _cline_BrowserConnection,
+  BrowserConnection__Output as _cline_BrowserConnection__Output,
+} from "../cline/BrowserConnection.js";
+import type {
+  BrowserConnectionInfo as _cline_BrowserConnectionInfo,
+  BrowserConnectionInfo__Output as _cline_BrowserConnectionInfo__Output,
+} from "../cline/BrowserConnectionInfo.js";
+import type {
+  ChromePath as _cline_ChromePath,
+  ChromePath__Output as _cline_ChromePath__Output,
+} from "../cline/ChromePath.js";
+import type {
+  EmptyRequest as _cline_EmptyRequest,
+  EmptyRequest__Output as _cline_EmptyRequest__Output,
+} from "../cline/EmptyRequest.js";
+import type {
+  String as _cline_String,
+  String__Output as _cline_String__Output,
+} from "../cline/String.js";
+import type {
+  StringRequest as _cline_StringRequest,
+  StringRequest__Output as _cline_StringRequest__Output,
+} from "../cline/StringRequest.js";
+
+export interface BrowserServiceClient extends grpc.Client {
+  discoverBrowser(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+  discoverBrowser(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+  discoverBrowser(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+  discoverBrowser(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+
+  getBrowserConnectionInfo(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_BrowserConnectionInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  getBrowserConnectionInfo(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_BrowserConnectionInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  getBrowserConnectionInfo(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_BrowserConnectionInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  getBrowserConnectionInfo(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_BrowserConnectionInfo__Output>,
+  ): grpc.ClientUnaryCall;
+
+  getDetectedChromePath(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_ChromePath__Output>,
+  ): grpc.ClientUnaryCall;
+  getDetectedChromePath(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_ChromePath__Output>,
+  ): grpc.ClientUnaryCall;
+  getDetectedChromePath(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_ChromePath__Output>,
+  ): grpc.ClientUnaryCall;
+  getDetectedChromePath(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_ChromePath__Output>,
+  ): grpc.ClientUnaryCall;
+
+  relaunchChromeDebugMode(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  relaunchChromeDebugMode(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  relaunchChromeDebugMode(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  relaunchChromeDebugMode(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+
+  testBrowserConnection(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+  testBrowserConnection(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+  testBrowserConnection(
+    argument: _cline_StringRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+  testBrowserConnection(
+    argument: _cline_StringRequest,
+    callback: grpc.requestCallback<_cline_BrowserConnection__Output>,
+  ): grpc.ClientUnaryCall;
+}
+
+export interface BrowserServiceHandlers extends grpc.UntypedServiceImplementation {
+  discoverBrowser: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_BrowserConnection>;
+
+  getBrowserConnectionInfo: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_BrowserConnectionInfo
+  >;
+
+  getDetectedChromePath: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_ChromePath>;
+
+  relaunchChromeDebugMode: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_String>;
+
+  testBrowserConnection: grpc.handleUnaryCall<
+    _cline_StringRequest__Output,
+    _cline_BrowserConnection
+  >;
+}
+
+export interface BrowserServiceDefinition extends grpc.ServiceDefinition {
+  discoverBrowser: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_BrowserConnection,
+    _cline_EmptyRequest__Output,
+    _cline_BrowserConnection__Output
+  >;
+  getBrowserConnectionInfo: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_BrowserConnectionInfo,
+    _cline_EmptyRequest__Output,
+    _cline_BrowserConnectionInfo__Output
+  >;
+  getDetectedChromePath: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_ChromePath,
+    _cline_EmptyRequest__Output,
+    _cline_ChromePath__Output
+  >;
+  relaunchChromeDebugMode: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_String,
+    _cline_EmptyRequest__Output,
+    _cline_String__Output
+  >;
+  testBrowserConnection: MethodDefinition<
+    _cline_StringRequest,
+    _cline_BrowserConnection,
+    _cline_StringRequest__Output,
+    _cline_BrowserConnection__Output
+  >;
+}
@@ -0,0 +1,34 @@
+// Original file: proto/cline/browser.proto
+
+import type {
+  Viewport as _cline_Viewport,
+  Viewport__Output as _cline_Viewport__Output,
+} from "../cline/Viewport.js";
+
+export interface BrowserSettings {
+  viewport?: _cline_Viewport | null;
+  remoteBrowserHost?: string;
+  remoteBrowserEnabled?: boolean;
+  chromeExecutablePath?: string;
+  disableToolUse?: boolean;
+  customArgs?: string;
+  _remoteBrowserHost?: "remoteBrowserHost";
+  _remoteBrowserEnabled?: "remoteBrowserEnabled";
+  _chromeExecutablePath?: "chromeExecutablePath";
+  _disableToolUse?: "disableToolUse";
+  _customArgs?: "customArgs";
+}
+
+export interface BrowserSettings__Output {
+  viewport: _cline_Viewport__Output | null;
+  remoteBrowserHost?: string;
+  remoteBrowserEnabled?: boolean;
+  chromeExecutablePath?: string;
+  disableToolUse?: boolean;
+  customArgs?: string;
+  _remoteBrowserHost?: "remoteBrowserHost";
+  _remoteBrowserEnabled?: "remoteBrowserEnabled";
+  _chromeExecutablePath?: "chromeExecutablePath";
+  _disableToolUse?: "disableToolUse";
+  _customArgs?: "customArgs";
+}
@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface Bytes {
+  value?: Buffer | Uint8Array | string;
+}
+
+export interface Bytes__Output {
+  value: Buffer;
+}
@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface BytesRequest {
+  value?: Buffer | Uint8Array | string;
+}
+
+export interface BytesRequest__Output {
+  value: Buffer;
+}
@@ -0,0 +1,15 @@
+// Original file: proto/cline/state.proto
+
+export interface ChatContent {
+  message?: string;
+  images?: string[];
+  files?: string[];
+  _message?: "message";
+}
+
+export interface ChatContent__Output {
+  message?: string;
+  images: string[];
+  files: string[];
+  _message?: "message";
+}
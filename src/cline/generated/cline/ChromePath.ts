@@ -0,0 +1,11 @@
+// Original file: proto/cline/browser.proto
+
+export interface ChromePath {
+  path?: string;
+  isBundled?: boolean;
+}
+
+export interface ChromePath__Output {
+  path: string;
+  isBundled: boolean;
+}
@@ -0,0 +1,18 @@
+// Original file: proto/cline/ui.proto
+
+export const ClineApiReqCancelReason = {
+  STREAMING_FAILED: "STREAMING_FAILED",
+  USER_CANCELLED: "USER_CANCELLED",
+  RETRIES_EXHAUSTED: "RETRIES_EXHAUSTED",
+} as const;
+
+export type ClineApiReqCancelReason =
+  | "STREAMING_FAILED"
+  | 0
+  | "USER_CANCELLED"
+  | 1
+  | "RETRIES_EXHAUSTED"
+  | 2;
+
+export type ClineApiReqCancelReason__Output =
+  (typeof ClineApiReqCancelReason)[keyof typeof ClineApiReqCancelReason];
@@ -0,0 +1,34 @@
+// Original file: proto/cline/ui.proto
+
+import type {
+  ClineApiReqCancelReason as _cline_ClineApiReqCancelReason,
+  ClineApiReqCancelReason__Output as _cline_ClineApiReqCancelReason__Output,
+} from "../cline/ClineApiReqCancelReason.js";
+import type {
+  ApiReqRetryStatus as _cline_ApiReqRetryStatus,
+  ApiReqRetryStatus__Output as _cline_ApiReqRetryStatus__Output,
+} from "../cline/ApiReqRetryStatus.js";
+
+export interface ClineApiReqInfo {
+  request?: string;
+  tokensIn?: number;
+  tokensOut?: number;
+  cacheWrites?: number;
+  cacheReads?: number;
+  cost?: number | string;
+  cancelReason?: _cline_ClineApiReqCancelReason;
+  streamingFailedMessage?: string;
+  retryStatus?: _cline_ApiReqRetryStatus | null;
+}
+
+export interface ClineApiReqInfo__Output {
+  request: string;
+  tokensIn: number;
+  tokensOut: number;
+  cacheWrites: number;
+  cacheReads: number;
+  cost: number;
+  cancelReason: _cline_ClineApiReqCancelReason__Output;
+  streamingFailedMessage: string;
+  retryStatus: _cline_ApiReqRetryStatus__Output | null;
+}
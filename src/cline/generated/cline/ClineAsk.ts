@@ -0,0 +1,59 @@
+// Original file: proto/cline/ui.proto
+
+export const ClineAsk = {
+  FOLLOWUP: "FOLLOWUP",
+  PLAN_MODE_RESPOND: "PLAN_MODE_RESPOND",
+  COMMAND: "COMMAND",
+  COMMAND_OUTPUT: "COMMAND_OUTPUT",
+  COMPLETION_RESULT: "COMPLETION_RESULT",
+  TOOL: "TOOL",
+  API_REQ_FAILED: "API_REQ_FAILED",
+  RESUME_TASK: "RESUME_TASK",
+  RESUME_COMPLETED_TASK: "RESUME_COMPLETED_TASK",
+  MISTAKE_LIMIT_REACHED: "MISTAKE_LIMIT_REACHED",
+  BROWSER_ACTION_LAUNCH: "BROWSER_ACTION_LAUNCH",
+  USE_MCP_SERVER: "USE_MCP_SERVER",
+  NEW_TASK: "NEW_TASK",
+  CONDENSE: "CONDENSE",
+  REPORT_BUG: "REPORT_BUG",
+  SUMMARIZE_TASK: "SUMMARIZE_TASK",
+  ACT_MODE_RESPOND: "ACT_MODE_RESPOND",
+} as const;
+
+export type ClineAsk =
+  | "FOLLOWUP"
+  | 0
+  | "PLAN_MODE_RESPOND"
+  | 1
+  | "COMMAND"
+  | 2
+  | "COMMAND_OUTPUT"
+  | 3
+  | "COMPLETION_RESULT"
+  | 4
+  | "TOOL"
+  | 5
+  | "API_REQ_FAILED"
+  | 6
+  | "RESUME_TASK"
+  | 7
+  | "RESUME_COMPLETED_TASK"
+  | 8
+  | "MISTAKE_LIMIT_REACHED"
+  | 9
+  | "BROWSER_ACTION_LAUNCH"
+  | 10
+  | "USE_MCP_SERVER"
+  | 11
+  | "NEW_TASK"
+  | 12
+  | "CONDENSE"
+  | 13
+  | "REPORT_BUG"
+  | 14
+  | "SUMMARIZE_TASK"
+  | 15
+  | "ACT_MODE_RESPOND"
+  | 16;
+
+export type ClineAsk__Output = (typeof ClineAsk)[keyof typeof ClineAsk];
@@ -0,0 +1,9 @@
+// Original file: proto/cline/ui.proto
+
+export interface ClineAskNewTask {
+  context?: string;
+}
+
+export interface ClineAskNewTask__Output {
+  context: string;
+}
@@ -0,0 +1,13 @@
+// Original file: proto/cline/ui.proto
+
+export interface ClineAskQuestion {
+  question?: string;
+  options?: string[];
+  selected?: string;
+}
+
+export interface ClineAskQuestion__Output {
+  question: string;
+  options: string[];
+  selected: string;
+}
@@ -0,0 +1,22 @@
+// Original file: proto/cline/ui.proto
+
+import type {
+  McpServerRequestType as _cline_McpServerRequestType,
+  McpServerRequestType__Output as _cline_McpServerRequestType__Output,
+} from "../cline/McpServerRequestType.js";
+
+export interface ClineAskUseMcpServer {
+  serverName?: string;
+  type?: _cline_McpServerRequestType;
+  toolName?: string;
+  arguments?: string;
+  uri?: string;
+}
+
+export interface ClineAskUseMcpServer__Output {
+  serverName: string;
+  type: _cline_McpServerRequestType__Output;
+  toolName: string;
+  arguments: string;
+  uri: string;
+}
@@ -0,0 +1,107 @@
+// Original file: proto/cline/ui.proto
+
+import type {
+  ClineMessageType as _cline_ClineMessageType,
+  ClineMessageType__Output as _cline_ClineMessageType__Output,
+} from "../cline/ClineMessageType.js";
+import type {
+  ClineAsk as _cline_ClineAsk,
+  ClineAsk__Output as _cline_ClineAsk__Output,
+} from "../cline/ClineAsk.js";
+import type {
+  ClineSay as _cline_ClineSay,
+  ClineSay__Output as _cline_ClineSay__Output,
+} from "../cline/ClineSay.js";
+import type {
+  ConversationHistoryDeletedRange as _cline_ConversationHistoryDeletedRange,
+  ConversationHistoryDeletedRange__Output as _cline_ConversationHistoryDeletedRange__Output,
+} from "../cline/ConversationHistoryDeletedRange.js";
+import type {
+  ClineSayTool as _cline_ClineSayTool,
+  ClineSayTool__Output as _cline_ClineSayTool__Output,
+} from "../cline/ClineSayTool.js";
+import type {
+  ClineSayBrowserAction as _cline_ClineSayBrowserAction,
+  ClineSayBrowserAction__Output as _cline_ClineSayBrowserAction__Output,
+} from "../cline/ClineSayBrowserAction.js";
+import type {
+  BrowserActionResult as _cline_BrowserActionResult,
+  BrowserActionResult__Output as _cline_BrowserActionResult__Output,
+} from "../cline/BrowserActionResult.js";
+import type {
+  ClineAskUseMcpServer as _cline_ClineAskUseMcpServer,
+  ClineAskUseMcpServer__Output as _cline_ClineAskUseMcpServer__Output,
+} from "../cline/ClineAskUseMcpServer.js";
+import type {
+  ClinePlanModeResponse as _cline_ClinePlanModeResponse,
+  ClinePlanModeResponse__Output as _cline_ClinePlanModeResponse__Output,
+} from "../cline/ClinePlanModeResponse.js";
+import type {
+  ClineAskQuestion as _cline_ClineAskQuestion,
+  ClineAskQuestion__Output as _cline_ClineAskQuestion__Output,
+} from "../cline/ClineAskQuestion.js";
+import type {
+  ClineAskNewTask as _cline_ClineAskNewTask,
+  ClineAskNewTask__Output as _cline_ClineAskNewTask__Output,
+} from "../cline/ClineAskNewTask.js";
+import type {
+  ClineApiReqInfo as _cline_ClineApiReqInfo,
+  ClineApiReqInfo__Output as _cline_ClineApiReqInfo__Output,
+} from "../cline/ClineApiReqInfo.js";
+import type {
+  ClineModelInfo as _cline_ClineModelInfo,
+  ClineModelInfo__Output as _cline_ClineModelInfo__Output,
+} from "../cline/ClineModelInfo.js";
+import type { Long } from "@grpc/proto-loader";
+
+export interface ClineMessage {
+  ts?: number | string | Long;
+  type?: _cline_ClineMessageType;
+  ask?: _cline_ClineAsk;
+  say?: _cline_ClineSay;
+  text?: string;
+  reasoning?: string;
+  images?: string[];
+  files?: string[];
+  partial?: boolean;
+  lastCheckpointHash?: string;
+  isCheckpointCheckedOut?: boolean;
+  isOperationOutsideWorkspace?: boolean;
+  conversationHistoryIndex?: number;
+  conversationHistoryDeletedRange?: _cline_ConversationHistoryDeletedRange | null;
+  sayTool?: _cline_ClineSayTool | null;
+  sayBrowserAction?: _cline_ClineSayBrowserAction | null;
+  browserActionResult?: _cline_BrowserActionResult | null;
+  askUseMcpServer?: _cline_ClineAskUseMcpServer | null;
+  planModeResponse?: _cline_ClinePlanModeResponse | null;
+  askQuestion?: _cline_ClineAskQuestion | null;
+  askNewTask?: _cline_ClineAskNewTask | null;
+  apiReqInfo?: _cline_ClineApiReqInfo | null;
+  modelInfo?: _cline_ClineModelInfo | null;
+}
+
+export interface ClineMessage__Output {
+  ts: number;
+  type: _cline_ClineMessageType__Output;
+  ask: _cline_ClineAsk__Output;
+  say: _cline_ClineSay__Output;
+  text: string;
+  reasoning: string;
+  images: string[];
+  files: string[];
+  partial: boolean;
+  lastCheckpointHash: string;
+  isCheckpointCheckedOut: boolean;
+  isOperationOutsideWorkspace: boolean;
+  conversationHistoryIndex: number;
+  conversationHistoryDeletedRange: _cline_ConversationHistoryDeletedRange__Output | null;
+  sayTool: _cline_ClineSayTool__Output | null;
+  sayBrowserAction: _cline_ClineSayBrowserAction__Output | null;
+  browserActionResult: _cline_BrowserActionResult__Output | null;
+  askUseMcpServer: _cline_ClineAskUseMcpServer__Output | null;
+  planModeResponse: _cline_ClinePlanModeResponse__Output | null;
+  askQuestion: _cline_ClineAskQuestion__Output | null;
+  askNewTask: _cline_ClineAskNewTask__Output | null;
+  apiReqInfo: _cline_ClineApiReqInfo__Output | null;
+  modelInfo: _cline_ClineModelInfo__Output | null;
+}
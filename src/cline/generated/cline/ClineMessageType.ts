@@ -0,0 +1,10 @@
+// Original file: proto/cline/ui.proto
+
+export const ClineMessageType = {
+  ASK: "ASK",
+  SAY: "SAY",
+} as const;
+
+export type ClineMessageType = "ASK" | 0 | "SAY" | 1;
+
+export type ClineMessageType__Output = (typeof ClineMessageType)[keyof typeof ClineMessageType];
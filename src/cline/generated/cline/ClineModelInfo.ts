@@ -0,0 +1,11 @@
+// Original file: proto/cline/ui.proto
+
+export interface ClineModelInfo {
+  providerId?: string;
+  modelId?: string;
+}
+
+export interface ClineModelInfo__Output {
+  providerId: string;
+  modelId: string;
+}
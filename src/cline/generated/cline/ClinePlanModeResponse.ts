@@ -0,0 +1,13 @@
+// Original file: proto/cline/ui.proto
+
+export interface ClinePlanModeResponse {
+  response?: string;
+  options?: string[];
+  selected?: string;
+}
+
+export interface ClinePlanModeResponse__Output {
+  response: string;
+  options: string[];
+  selected: string;
+}
@@ -0,0 +1,95 @@
+// Original file: proto/cline/ui.proto
+
+export const ClineSay = {
+  TASK: "TASK",
+  ERROR: "ERROR",
+  API_REQ_STARTED: "API_REQ_STARTED",
+  API_REQ_FINISHED: "API_REQ_FINISHED",
+  TEXT: "TEXT",
+  REASONING: "REASONING",
+  COMPLETION_RESULT_SAY: "COMPLETION_RESULT_SAY",
+  USER_FEEDBACK: "USER_FEEDBACK",
+  USER_FEEDBACK_DIFF: "USER_FEEDBACK_DIFF",
+  API_REQ_RETRIED: "API_REQ_RETRIED",
+  COMMAND_SAY: "COMMAND_SAY",
+  COMMAND_OUTPUT_SAY: "COMMAND_OUTPUT_SAY",
+  TOOL_SAY: "TOOL_SAY",
+  SHELL_INTEGRATION_WARNING: "SHELL_INTEGRATION_WARNING",
+  BROWSER_ACTION_LAUNCH_SAY: "BROWSER_ACTION_LAUNCH_SAY",
+  BROWSER_ACTION: "BROWSER_ACTION",
+  BROWSER_ACTION_RESULT: "BROWSER_ACTION_RESULT",
+  MCP_SERVER_REQUEST_STARTED: "MCP_SERVER_REQUEST_STARTED",
+  MCP_SERVER_RESPONSE: "MCP_SERVER_RESPONSE",
+  MCP_NOTIFICATION: "MCP_NOTIFICATION",
+  USE_MCP_SERVER_SAY: "USE_MCP_SERVER_SAY",
+  DIFF_ERROR: "DIFF_ERROR",
+  DELETED_API_REQS: "DELETED_API_REQS",
+  CLINEIGNORE_ERROR: "CLINEIGNORE_ERROR",
+  CHECKPOINT_CREATED: "CHECKPOINT_CREATED",
+  LOAD_MCP_DOCUMENTATION: "LOAD_MCP_DOCUMENTATION",
+  INFO: "INFO",
+  TASK_PROGRESS: "TASK_PROGRESS",
+  ERROR_RETRY: "ERROR_RETRY",
+} as const;
+
+export type ClineSay =
+  | "TASK"
+  | 0
+  | "ERROR"
+  | 1
+  | "API_REQ_STARTED"
+  | 2
+  | "API_REQ_FINISHED"
+  | 3
+  | "TEXT"
+  | 4
+  | "REASONING"
+  | 5
+  | "COMPLETION_RESULT_SAY"
+  | 6
+  | "USER_FEEDBACK"
+  | 7
+  | "USER_FEEDBACK_DIFF"
+  | 8
+  | "API_REQ_RETRIED"
+  | 9
+  | "COMMAND_SAY"
+  | 10
+  | "COMMAND_OUTPUT_SAY"
+  | 11
+  | "TOOL_SAY"
+  | 12
+  | "SHELL_INTEGRATION_WARNING"
+  | 13
+  | "BROWSER_ACTION_LAUNCH_SAY"
+  | 14
+  | "BROWSER_ACTION"
+  | 15
+  | "BROWSER_ACTION_RESULT"
+  | 16
+  | "MCP_SERVER_REQUEST_STARTED"
+  | 17
+  | "MCP_SERVER_RESPONSE"
+  | 18
+  | "MCP_NOTIFICATION"
+  | 19
+  | "USE_MCP_SERVER_SAY"
+  | 20
+  | "DIFF_ERROR"
+  | 21
+  | "DELETED_API_REQS"
+  | 22
+  | "CLINEIGNORE_ERROR"
+  | 23
+  | "CHECKPOINT_CREATED"
+  | 24
+  | "LOAD_MCP_DOCUMENTATION"
+  | 25
+  | "INFO"
+  | 26
+  | "TASK_PROGRESS"
+  | 27
+  | "ERROR_RETRY"
+  | 28;
+
+export type ClineSay__Output = (typeof ClineSay)[keyof typeof ClineSay];
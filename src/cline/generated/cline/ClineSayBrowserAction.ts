@@ -0,0 +1,18 @@
+// Original file: proto/cline/ui.proto
+
+import type {
+  BrowserAction as _cline_BrowserAction,
+  BrowserAction__Output as _cline_BrowserAction__Output,
+} from "../cline/BrowserAction.js";
+
+export interface ClineSayBrowserAction {
+  action?: _cline_BrowserAction;
+  coordinate?: string;
+  text?: string;
+}
+
+export interface ClineSayBrowserAction__Output {
+  action: _cline_BrowserAction__Output;
+  coordinate: string;
+  text: string;
+}
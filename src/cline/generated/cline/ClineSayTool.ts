@@ -0,0 +1,26 @@
+// Original file: proto/cline/ui.proto
+
+import type {
+  ClineSayToolType as _cline_ClineSayToolType,
+  ClineSayToolType__Output as _cline_ClineSayToolType__Output,
+} from "../cline/ClineSayToolType.js";
+
+export interface ClineSayTool {
+  tool?: _cline_ClineSayToolType;
+  path?: string;
+  diff?: string;
+  content?: string;
+  regex?: string;
+  filePattern?: string;
+  operationIsLocatedInWorkspace?: boolean;
+}
+
+export interface ClineSayTool__Output {
+  tool: _cline_ClineSayToolType__Output;
+  path: string;
+  diff: string;
+  content: string;
+  regex: string;
+  filePattern: string;
+  operationIsLocatedInWorkspace: boolean;
+}
@@ -0,0 +1,35 @@
+// Original file: proto/cline/ui.proto
+
+export const ClineSayToolType = {
+  EDITED_EXISTING_FILE: "EDITED_EXISTING_FILE",
+  NEW_FILE_CREATED: "NEW_FILE_CREATED",
+  READ_FILE: "READ_FILE",
+  LIST_FILES_TOP_LEVEL: "LIST_FILES_TOP_LEVEL",
+  LIST_FILES_RECURSIVE: "LIST_FILES_RECURSIVE",
+  LIST_CODE_DEFINITION_NAMES: "LIST_CODE_DEFINITION_NAMES",
+  SEARCH_FILES: "SEARCH_FILES",
+  WEB_FETCH: "WEB_FETCH",
+  FILE_DELETED: "FILE_DELETED",
+} as const;
+
+export type ClineSayToolType =
+  | "EDITED_EXISTING_FILE"
+  | 0
+  | "NEW_FILE_CREATED"
+  | 1
+  | "READ_FILE"
+  | 2
+  | "LIST_FILES_TOP_LEVEL"
+  | 3
+  | "LIST_FILES_RECURSIVE"
+  | 4
+  | "LIST_CODE_DEFINITION_NAMES"
+  | 5
+  | "SEARCH_FILES"
+  | 6
+  | "WEB_FETCH"
+  | 7
+  | "FILE_DELETED"
+  | 8;
+
+export type ClineSayToolType__Output = (typeof ClineSayToolType)[keyof typeof ClineSayToolType];
@@ -0,0 +1,11 @@
+// Original file: proto/cline/ui.proto
+
+export interface ConversationHistoryDeletedRange {
+  startIndex?: number;
+  endIndex?: number;
+}
+
+export interface ConversationHistoryDeletedRange__Output {
+  startIndex: number;
+  endIndex: number;
+}
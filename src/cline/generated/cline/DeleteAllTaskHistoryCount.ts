@@ -0,0 +1,9 @@
+// Original file: proto/cline/task.proto
+
+export interface DeleteAllTaskHistoryCount {
+  tasksDeleted?: number;
+}
+
+export interface DeleteAllTaskHistoryCount__Output {
+  tasksDeleted: number;
+}
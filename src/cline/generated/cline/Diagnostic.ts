@@ -0,0 +1,26 @@
+// Original file: proto/cline/common.proto
+
+import type {
+  DiagnosticRange as _cline_DiagnosticRange,
+  DiagnosticRange__Output as _cline_DiagnosticRange__Output,
+} from "../cline/DiagnosticRange.js";
+import type {
+  DiagnosticSeverity as _cline_DiagnosticSeverity,
+  DiagnosticSeverity__Output as _cline_DiagnosticSeverity__Output,
+} from "../cline/DiagnosticSeverity.js";
+
+export interface Diagnostic {
+  message?: string;
+  range?: _cline_DiagnosticRange | null;
+  severity?: _cline_DiagnosticSeverity;
+  source?: string;
+  _source?: "source";
+}
+
+export interface Diagnostic__Output {
+  message: string;
+  range: _cline_DiagnosticRange__Output | null;
+  severity: _cline_DiagnosticSeverity__Output;
+  source?: string;
+  _source?: "source";
+}
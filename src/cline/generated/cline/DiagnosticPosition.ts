@@ -0,0 +1,11 @@
+// Original file: proto/cline/common.proto
+
+export interface DiagnosticPosition {
+  line?: number;
+  character?: number;
+}
+
+export interface DiagnosticPosition__Output {
+  line: number;
+  character: number;
+}
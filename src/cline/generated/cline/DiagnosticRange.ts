@@ -0,0 +1,16 @@
+// Original file: proto/cline/common.proto
+
+import type {
+  DiagnosticPosition as _cline_DiagnosticPosition,
+  DiagnosticPosition__Output as _cline_DiagnosticPosition__Output,
+} from "../cline/DiagnosticPosition.js";
+
+export interface DiagnosticRange {
+  start?: _cline_DiagnosticPosition | null;
+  end?: _cline_DiagnosticPosition | null;
+}
+
+export interface DiagnosticRange__Output {
+  start: _cline_DiagnosticPosition__Output | null;
+  end: _cline_DiagnosticPosition__Output | null;
+}
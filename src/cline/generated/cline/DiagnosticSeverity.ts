@@ -0,0 +1,21 @@
+// Original file: proto/cline/common.proto
+
+export const DiagnosticSeverity = {
+  DIAGNOSTIC_ERROR: "DIAGNOSTIC_ERROR",
+  DIAGNOSTIC_WARNING: "DIAGNOSTIC_WARNING",
+  DIAGNOSTIC_INFORMATION: "DIAGNOSTIC_INFORMATION",
+  DIAGNOSTIC_HINT: "DIAGNOSTIC_HINT",
+} as const;
+
+export type DiagnosticSeverity =
+  | "DIAGNOSTIC_ERROR"
+  | 0
+  | "DIAGNOSTIC_WARNING"
+  | 1
+  | "DIAGNOSTIC_INFORMATION"
+  | 2
+  | "DIAGNOSTIC_HINT"
+  | 3;
+
+export type DiagnosticSeverity__Output =
+  (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity];
@@ -0,0 +1,5 @@
+// Original file: proto/cline/common.proto
+
+export interface Empty {}
+
+export interface Empty__Output {}
@@ -0,0 +1,5 @@
+// Original file: proto/cline/common.proto
+
+export interface EmptyRequest {}
+
+export interface EmptyRequest__Output {}
@@ -0,0 +1,18 @@
+// Original file: proto/cline/task.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+
+export interface ExecuteQuickWinRequest {
+  metadata?: _cline_Metadata | null;
+  command?: string;
+  title?: string;
+}
+
+export interface ExecuteQuickWinRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  command: string;
+  title: string;
+}
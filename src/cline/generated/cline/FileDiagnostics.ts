@@ -0,0 +1,16 @@
+// Original file: proto/cline/common.proto
+
+import type {
+  Diagnostic as _cline_Diagnostic,
+  Diagnostic__Output as _cline_Diagnostic__Output,
+} from "../cline/Diagnostic.js";
+
+export interface FileDiagnostics {
+  filePath?: string;
+  diagnostics?: _cline_Diagnostic[];
+}
+
+export interface FileDiagnostics__Output {
+  filePath: string;
+  diagnostics: _cline_Diagnostic__Output[];
+}
@@ -0,0 +1,22 @@
+// Original file: proto/cline/task.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+
+export interface GetTaskHistoryRequest {
+  metadata?: _cline_Metadata | null;
+  favoritesOnly?: boolean;
+  searchQuery?: string;
+  sortBy?: string;
+  currentWorkspaceOnly?: boolean;
+}
+
+export interface GetTaskHistoryRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  favoritesOnly: boolean;
+  searchQuery: string;
+  sortBy: string;
+  currentWorkspaceOnly: boolean;
+}
@@ -0,0 +1,11 @@
+// Original file: proto/cline/common.proto
+
+import type { Long } from "@grpc/proto-loader";
+
+export interface Int64 {
+  value?: number | string | Long;
+}
+
+export interface Int64__Output {
+  value: number;
+}
@@ -0,0 +1,11 @@
+// Original file: proto/cline/common.proto
+
+export interface KeyValuePair {
+  key?: string;
+  value?: string;
+}
+
+export interface KeyValuePair__Output {
+  key: string;
+  value: string;
+}
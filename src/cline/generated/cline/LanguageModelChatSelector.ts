@@ -0,0 +1,23 @@
+// Original file: proto/cline/models.proto
+
+export interface LanguageModelChatSelector {
+  vendor?: string;
+  family?: string;
+  version?: string;
+  id?: string;
+  _vendor?: "vendor";
+  _family?: "family";
+  _version?: "version";
+  _id?: "id";
+}
+
+export interface LanguageModelChatSelector__Output {
+  vendor?: string;
+  family?: string;
+  version?: string;
+  id?: string;
+  _vendor?: "vendor";
+  _family?: "family";
+  _version?: "version";
+  _id?: "id";
+}
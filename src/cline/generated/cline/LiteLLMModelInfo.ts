@@ -0,0 +1,73 @@
+// Original file: proto/cline/models.proto
+
+import type {
+  ThinkingConfig as _cline_ThinkingConfig,
+  ThinkingConfig__Output as _cline_ThinkingConfig__Output,
+} from "../cline/ThinkingConfig.js";
+import type {
+  ModelTier as _cline_ModelTier,
+  ModelTier__Output as _cline_ModelTier__Output,
+} from "../cline/ModelTier.js";
+import type {
+  ApiFormat as _cline_ApiFormat,
+  ApiFormat__Output as _cline_ApiFormat__Output,
+} from "../cline/ApiFormat.js";
+import type { Long } from "@grpc/proto-loader";
+
+export interface LiteLLMModelInfo {
+  maxTokens?: number | string | Long;
+  contextWindow?: number | string | Long;
+  supportsImages?: boolean;
+  supportsPromptCache?: boolean;
+  inputPrice?: number | string;
+  outputPrice?: number | string;
+  thinkingConfig?: _cline_ThinkingConfig | null;
+  supportsGlobalEndpoint?: boolean;
+  cacheWritesPrice?: number | string;
+  cacheReadsPrice?: number | string;
+  description?: string;
+  tiers?: _cline_ModelTier[];
+  temperature?: number | string;
+  apiFormat?: _cline_ApiFormat;
+  _maxTokens?: "maxTokens";
+  _contextWindow?: "contextWindow";
+  _supportsImages?: "supportsImages";
+  _inputPrice?: "inputPrice";
+  _outputPrice?: "outputPrice";
+  _thinkingConfig?: "thinkingConfig";
+  _supportsGlobalEndpoint?: "supportsGlobalEndpoint";
+  _cacheWritesPrice?: "cacheWritesPrice";
+  _cacheReadsPrice?: "cacheReadsPrice";
+  _description?: "description";
+  _temperature?: "temperature";
+  _apiFormat?: "apiFormat";
+}
+
+export interface LiteLLMModelInfo__Output {
+  maxTokens?: number;
+  contextWindow?: number;
+  supportsImages?: boolean;
+  supportsPromptCache: boolean;
+  inputPrice?: number;
+  outputPrice?: number;
+  thinkingConfig?: _cline_ThinkingConfig__Output | null;
+  supportsGlobalEndpoint?: boolean;
+  cacheWritesPrice?: number;
+  cacheReadsPrice?: number;
+  description?: string;
+  tiers: _cline_ModelTier__Output[];
+  temperature?: number;
+  apiFormat?: _cline_ApiFormat__Output;
+  _maxTokens?: "maxTokens";
+  _contextWindow?: "contextWindow";
+  _supportsImages?: "supportsImages";
+  _inputPrice?: "inputPrice";
+  _outputPrice?: "outputPrice";
+  _thinkingConfig?: "thinkingConfig";
+  _supportsGlobalEndpoint?: "supportsGlobalEndpoint";
+  _cacheWritesPrice?: "cacheWritesPrice";
+  _cacheReadsPrice?: "cacheReadsPrice";
+  _description?: "description";
+  _temperature?: "temperature";
+  _apiFormat?: "apiFormat";
+}
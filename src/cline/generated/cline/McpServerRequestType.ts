@@ -0,0 +1,11 @@
+// Original file: proto/cline/ui.proto
+
+export const McpServerRequestType = {
+  USE_MCP_TOOL: "USE_MCP_TOOL",
+  ACCESS_MCP_RESOURCE: "ACCESS_MCP_RESOURCE",
+} as const;
+
+export type McpServerRequestType = "USE_MCP_TOOL" | 0 | "ACCESS_MCP_RESOURCE" | 1;
+
+export type McpServerRequestType__Output =
+  (typeof McpServerRequestType)[keyof typeof McpServerRequestType];
@@ -0,0 +1,5 @@
+// Original file: proto/cline/common.proto
+
+export interface Metadata {}
+
+export interface Metadata__Output {}
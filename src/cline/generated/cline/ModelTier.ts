@@ -0,0 +1,27 @@
+// Original file: proto/cline/models.proto
+
+import type { Long } from "@grpc/proto-loader";
+
+export interface ModelTier {
+  contextWindow?: number | string | Long;
+  inputPrice?: number | string;
+  outputPrice?: number | string;
+  cacheWritesPrice?: number | string;
+  cacheReadsPrice?: number | string;
+  _inputPrice?: "inputPrice";
+  _outputPrice?: "outputPrice";
+  _cacheWritesPrice?: "cacheWritesPrice";
+  _cacheReadsPrice?: "cacheReadsPrice";
+}
+
+export interface ModelTier__Output {
+  contextWindow: number;
+  inputPrice?: number;
+  outputPrice?: number;
+  cacheWritesPrice?: number;
+  cacheReadsPrice?: number;
+  _inputPrice?: "inputPrice";
+  _outputPrice?: "outputPrice";
+  _cacheWritesPrice?: "cacheWritesPrice";
+  _cacheReadsPrice?: "cacheReadsPrice";
+}
@@ -0,0 +1,683 @@
+// Original file: proto/cline/models.proto
+
+import type {
+  ApiProvider as _cline_ApiProvider,
+  ApiProvider__Output as _cline_ApiProvider__Output,
+} from "../cline/ApiProvider.js";
+import type {
+  LanguageModelChatSelector as _cline_LanguageModelChatSelector,
+  LanguageModelChatSelector__Output as _cline_LanguageModelChatSelector__Output,
+} from "../cline/LanguageModelChatSelector.js";
+import type {
+  OpenRouterModelInfo as _cline_OpenRouterModelInfo,
+  OpenRouterModelInfo__Output as _cline_OpenRouterModelInfo__Output,
+} from "../cline/OpenRouterModelInfo.js";
+import type {
+  OpenAiCompatibleModelInfo as _cline_OpenAiCompatibleModelInfo,
+  OpenAiCompatibleModelInfo__Output as _cline_OpenAiCompatibleModelInfo__Output,
+} from "../cline/OpenAiCompatibleModelInfo.js";
+import type {
+  LiteLLMModelInfo as _cline_LiteLLMModelInfo,
+  LiteLLMModelInfo__Output as _cline_LiteLLMModelInfo__Output,
+} from "../cline/LiteLLMModelInfo.js";
+import type {
+  OcaModelInfo as _cline_OcaModelInfo,
+  OcaModelInfo__Output as _cline_OcaModelInfo__Output,
+} from "../cline/OcaModelInfo.js";
+import type { Long } from "@grpc/proto-loader";
+
+export interface ModelsApiConfiguration {
+  apiKey?: string;
+  clineApiKey?: string;
+  ulid?: string;
+  liteLlmBaseUrl?: string;
+  liteLlmApiKey?: string;
+  liteLlmUsePromptCache?: boolean;
+  openAiHeaders?: { [key: string]: string };
+  anthropicBaseUrl?: string;
+  openRouterApiKey?: string;
+  openRouterProviderSorting?: string;
+  awsAccessKey?: string;
+  awsSecretKey?: string;
+  awsSessionToken?: string;
+  awsRegion?: string;
+  awsUseCrossRegionInference?: boolean;
+  awsBedrockUsePromptCache?: boolean;
+  awsUseProfile?: boolean;
+  awsProfile?: string;
+  awsBedrockEndpoint?: string;
+  claudeCodePath?: string;
+  vertexProjectId?: string;
+  vertexRegion?: string;
+  openAiBaseUrl?: string;
+  openAiApiKey?: string;
+  ollamaBaseUrl?: string;
+  ollamaApiOptionsCtxNum?: string;
+  lmStudioBaseUrl?: string;
+  geminiApiKey?: string;
+  geminiBaseUrl?: string;
+  openAiNativeApiKey?: string;
+  deepSeekApiKey?: string;
+  requestyApiKey?: string;
+  requestyBaseUrl?: string;
+  togetherApiKey?: string;
+  fireworksApiKey?: string;
+  fireworksModelMaxCompletionTokens?: number | string | Long;
+  fireworksModelMaxTokens?: number | string | Long;
+  qwenApiKey?: string;
+  doubaoApiKey?: string;
+  mistralApiKey?: string;
+  azureApiVersion?: string;
+  qwenApiLine?: string;
+  nebiusApiKey?: string;
+  asksageApiUrl?: string;
+  asksageApiKey?: string;
+  xaiApiKey?: string;
+  sambanovaApiKey?: string;
+  cerebrasApiKey?: string;
+  requestTimeoutMs?: number | string | Long;
+  sapAiCoreClientId?: string;
+  sapAiCoreClientSecret?: string;
+  sapAiResourceGroup?: string;
+  sapAiCoreTokenUrl?: string;
+  sapAiCoreBaseUrl?: string;
+  sapAiCoreUseOrchestrationMode?: boolean;
+  moonshotApiKey?: string;
+  moonshotApiLine?: string;
+  awsAuthentication?: string;
+  awsBedrockApiKey?: string;
+  clineAccountId?: string;
+  groqApiKey?: string;
+  huggingFaceApiKey?: string;
+  huaweiCloudMaasApiKey?: string;
+  basetenApiKey?: string;
+  ollamaApiKey?: string;
+  zaiApiKey?: string;
+  zaiApiLine?: string;
+  lmStudioMaxTokens?: string;
+  vercelAiGatewayApiKey?: string;
+  qwenCodeOauthPath?: string;
+  difyApiKey?: string;
+  difyBaseUrl?: string;
+  ocaBaseUrl?: string;
+  ocaApiKey?: string;
+  ocaRefreshToken?: string;
+  ocaMode?: string;
+  awsUseGlobalInference?: boolean;
+  minimaxApiKey?: string;
+  minimaxApiLine?: string;
+  hicapModelId?: string;
+  hicapApiKey?: string;
+  aihubmixApiKey?: string;
+  aihubmixBaseUrl?: string;
+  aihubmixAppCode?: string;
+  nousResearchApiKey?: string;
+  planModeApiProvider?: _cline_ApiProvider;
+  planModeApiModelId?: string;
+  planModeThinkingBudgetTokens?: number | string | Long;
+  planModeReasoningEffort?: string;
+  planModeVsCodeLmModelSelector?: _cline_LanguageModelChatSelector | null;
+  planModeAwsBedrockCustomSelected?: boolean;
+  planModeAwsBedrockCustomModelBaseId?: string;
+  planModeOpenRouterModelId?: string;
+  planModeOpenRouterModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeOpenAiModelId?: string;
+  planModeOpenAiModelInfo?: _cline_OpenAiCompatibleModelInfo | null;
+  planModeOllamaModelId?: string;
+  planModeLmStudioModelId?: string;
+  planModeLiteLlmModelId?: string;
+  planModeLiteLlmModelInfo?: _cline_LiteLLMModelInfo | null;
+  planModeRequestyModelId?: string;
+  planModeRequestyModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeTogetherModelId?: string;
+  planModeFireworksModelId?: string;
+  planModeSapAiCoreModelId?: string;
+  planModeSapAiCoreDeploymentId?: string;
+  planModeGroqModelId?: string;
+  planModeGroqModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeHuggingFaceModelId?: string;
+  planModeHuggingFaceModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeHuaweiCloudMaasModelId?: string;
+  planModeHuaweiCloudMaasModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeBasetenModelId?: string;
+  planModeBasetenModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeVercelAiGatewayModelId?: string;
+  planModeVercelAiGatewayModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeOcaModelId?: string;
+  planModeOcaModelInfo?: _cline_OcaModelInfo | null;
+  planModeHicapModelId?: string;
+  planModeHicapModelInfo?: _cline_OpenRouterModelInfo | null;
+  planModeAihubmixModelId?: string;
+  planModeAihubmixModelInfo?: _cline_OpenAiCompatibleModelInfo | null;
+  planModeNousResearchModelId?: string;
+  geminiPlanModeThinkingLevel?: string;
+  actModeApiProvider?: _cline_ApiProvider;
+  actModeApiModelId?: string;
+  actModeThinkingBudgetTokens?: number | string | Long;
+  actModeReasoningEffort?: string;
+  actModeVsCodeLmModelSelector?: _cline_LanguageModelChatSelector | null;
+  actModeAwsBedrockCustomSelected?: boolean;
+  actModeAwsBedrockCustomModelBaseId?: string;
+  actModeOpenRouterModelId?: string;
+  actModeOpenRouterModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeOpenAiModelId?: string;
+  actModeOpenAiModelInfo?: _cline_OpenAiCompatibleModelInfo | null;
+  actModeOllamaModelId?: string;
+  actModeLmStudioModelId?: string;
+  actModeLiteLlmModelId?: string;
+  actModeLiteLlmModelInfo?: _cline_LiteLLMModelInfo | null;
+  actModeRequestyModelId?: string;
+  actModeRequestyModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeTogetherModelId?: string;
+  actModeFireworksModelId?: string;
+  actModeSapAiCoreModelId?: string;
+  actModeSapAiCoreDeploymentId?: string;
+  actModeGroqModelId?: string;
+  actModeGroqModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeHuggingFaceModelId?: string;
+  actModeHuggingFaceModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeHuaweiCloudMaasModelId?: string;
+  actModeHuaweiCloudMaasModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeBasetenModelId?: string;
+  actModeBasetenModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeVercelAiGatewayModelId?: string;
+  actModeVercelAiGatewayModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeOcaModelId?: string;
+  actModeOcaModelInfo?: _cline_OcaModelInfo | null;
+  actModeHicapModelId?: string;
+  actModeHicapModelInfo?: _cline_OpenRouterModelInfo | null;
+  actModeAihubmixModelId?: string;
+  actModeAihubmixModelInfo?: _cline_OpenAiCompatibleModelInfo | null;
+  actModeNousResearchModelId?: string;
+  geminiActModeThinkingLevel?: string;
+  _apiKey?: "apiKey";
+  _clineApiKey?: "clineApiKey";
+  _ulid?: "ulid";
+  _liteLlmBaseUrl?: "liteLlmBaseUrl";
+  _liteLlmApiKey?: "liteLlmApiKey";
+  _liteLlmUsePromptCache?: "liteLlmUsePromptCache";
+  _anthropicBaseUrl?: "anthropicBaseUrl";
+  _openRouterApiKey?: "openRouterApiKey";
+  _openRouterProviderSorting?: "openRouterProviderSorting";
+  _awsAccessKey?: "awsAccessKey";
+  _awsSecretKey?: "awsSecretKey";
+  _awsSessionToken?: "awsSessionToken";
+  _awsRegion?: "awsRegion";
+  _awsUseCrossRegionInference?: "awsUseCrossRegionInference";
+  _awsBedrockUsePromptCache?: "awsBedrockUsePromptCache";
+  _awsUseProfile?: "awsUseProfile";
+  _awsProfile?: "awsProfile";
+  _awsBedrockEndpoint?: "awsBedrockEndpoint";
+  _claudeCodePath?: "claudeCodePath";
+  _vertexProjectId?: "vertexProjectId";
+  _vertexRegion?: "vertexRegion";
+  _openAiBaseUrl?: "openAiBaseUrl";
+  _openAiApiKey?: "openAiApiKey";
+  _ollamaBaseUrl?: "ollamaBaseUrl";
+  _ollamaApiOptionsCtxNum?: "ollamaApiOptionsCtxNum";
+  _lmStudioBaseUrl?: "lmStudioBaseUrl";
+  _geminiApiKey?: "geminiApiKey";
+  _geminiBaseUrl?: "geminiBaseUrl";
+  _openAiNativeApiKey?: "openAiNativeApiKey";
+  _deepSeekApiKey?: "deepSeekApiKey";
+  _requestyApiKey?: "requestyApiKey";
+  _requestyBaseUrl?: "requestyBaseUrl";
+  _togetherApiKey?: "togetherApiKey";
+  _fireworksApiKey?: "fireworksApiKey";
+  _fireworksModelMaxCompletionTokens?: "fireworksModelMaxCompletionTokens";
+  _fireworksModelMaxTokens?: "fireworksModelMaxTokens";
+  _qwenApiKey?: "qwenApiKey";
+  _doubaoApiKey?: "doubaoApiKey";
+  _mistralApiKey?: "mistralApiKey";
+  _azureApiVersion?: "azureApiVersion";
+  _qwenApiLine?: "qwenApiLine";
+  _nebiusApiKey?: "nebiusApiKey";
+  _asksageApiUrl?: "asksageApiUrl";
+  _asksageApiKey?: "asksageApiKey";
+  _xaiApiKey?: "xaiApiKey";
+  _sambanovaApiKey?: "sambanovaApiKey";
+  _cerebrasApiKey?: "cerebrasApiKey";
+  _requestTimeoutMs?: "requestTimeoutMs";
+  _sapAiCoreClientId?: "sapAiCoreClientId";
+  _sapAiCoreClientSecret?: "sapAiCoreClientSecret";
+  _sapAiResourceGroup?: "sapAiResourceGroup";
+  _sapAiCoreTokenUrl?: "sapAiCoreTokenUrl";
+  _sapAiCoreBaseUrl?: "sapAiCoreBaseUrl";
+  _sapAiCoreUseOrchestrationMode?: "sapAiCoreUseOrchestrationMode";
+  _moonshotApiKey?: "moonshotApiKey";
+  _moonshotApiLine?: "moonshotApiLine";
+  _awsAuthentication?: "awsAuthentication";
+  _awsBedrockApiKey?: "awsBedrockApiKey";
+  _clineAccountId?: "clineAccountId";
+  _groqApiKey?: "groqApiKey";
+  _huggingFaceApiKey?: "huggingFaceApiKey";
+  _huaweiCloudMaasApiKey?: "huaweiCloudMaasApiKey";
+  _basetenApiKey?: "basetenApiKey";
+  _ollamaApiKey?: "ollamaApiKey";
+  _zaiApiKey?: "zaiApiKey";
+  _zaiApiLine?: "zaiApiLine";
+  _lmStudioMaxTokens?: "lmStudioMaxTokens";
+  _vercelAiGatewayApiKey?: "vercelAiGatewayApiKey";
+  _qwenCodeOauthPath?: "qwenCodeOauthPath";
+  _difyApiKey?: "difyApiKey";
+  _difyBaseUrl?: "difyBaseUrl";
+  _ocaBaseUrl?: "ocaBaseUrl";
+  _ocaApiKey?: "ocaApiKey";
+  _ocaRefreshToken?: "ocaRefreshToken";
+  _ocaMode?: "ocaMode";
+  _awsUseGlobalInference?: "awsUseGlobalInference";
+  _minimaxApiKey?: "minimaxApiKey";
+  _minimaxApiLine?: "minimaxApiLine";
+  _hicapModelId?: "hicapModelId";
+  _hicapApiKey?: "hicapApiKey";
+  _aihubmixApiKey?: "aihubmixApiKey";
+  _aihubmixBaseUrl?: "aihubmixBaseUrl";
+  _aihubmixAppCode?: "aihubmixAppCode";
+  _nousResearchApiKey?: "nousResearchApiKey";
+  _planModeApiProvider?: "planModeApiProvider";
+  _planModeApiModelId?: "planModeApiModelId";
+  _planModeThinkingBudgetTokens?: "planModeThinkingBudgetTokens";
+  _planModeReasoningEffort?: "planModeReasoningEffort";
+  _planModeVsCodeLmModelSelector?: "planModeVsCodeLmModelSelector";
+  _planModeAwsBedrockCustomSelected?: "planModeAwsBedrockCustomSelected";
+  _planModeAwsBedrockCustomModelBaseId?: "planModeAwsBedrockCustomModelBaseId";
+  _planModeOpenRouterModelId?: "planModeOpenRouterModelId";
+  _planModeOpenRouterModelInfo?: "planModeOpenRouterModelInfo";
+  _planModeOpenAiModelId?: "planModeOpenAiModelId";
+  _planModeOpenAiModelInfo?: "planModeOpenAiModelInfo";
+  _planModeOllamaModelId?: "planModeOllamaModelId";
+  _planModeLmStudioModelId?: "planModeLmStudioModelId";
+  _planModeLiteLlmModelId?: "planModeLiteLlmModelId";
+  _planModeLiteLlmModelInfo?: "planModeLiteLlmModelInfo";
+  _planModeRequestyModelId?: "planModeRequestyModelId";
+  _planModeRequestyModelInfo?: "planModeRequestyModelInfo";
+  _planModeTogetherModelId?: "planModeTogetherModelId";
+  _planModeFireworksModelId?: "planModeFireworksModelId";
+  _planModeSapAiCoreModelId?: "planModeSapAiCoreModelId";
+  _planModeSapAiCoreDeploymentId?: "planModeSapAiCoreDeploymentId";
+  _planModeGroqModelId?: "planModeGroqModelId";
+  _planModeGroqModelInfo?: "planModeGroqModelInfo";
+  _planModeHuggingFaceModelId?: "planModeHuggingFaceModelId";
+  _planModeHuggingFaceModelInfo?: "planModeHuggingFaceModelInfo";
+  _planModeHuaweiCloudMaasModelId?: "planModeHuaweiCloudMaasModelId";
+  _planModeHuaweiCloudMaasModelInfo?: "planModeHuaweiCloudMaasModelInfo";
+  _planModeBasetenModelId?: "planModeBasetenModelId";
+  _planModeBasetenModelInfo?: "planModeBasetenModelInfo";
+  _planModeVercelAiGatewayModelId?: "planModeVercelAiGatewayModelId";
+  _planModeVercelAiGatewayModelInfo?: "planModeVercelAiGatewayModelInfo";
+  _planModeOcaModelId?: "planModeOcaModelId";
+  _planModeOcaModelInfo?: "planModeOcaModelInfo";
+  _planModeHicapModelId?: "planModeHicapModelId";
+  _planModeHicapModelInfo?: "planModeHicapModelInfo";
+  _planModeAihubmixModelId?: "planModeAihubmixModelId";
+  _planModeAihubmixModelInfo?: "planModeAihubmixModelInfo";
+  _planModeNousResearchModelId?: "planModeNousResearchModelId";
+  _geminiPlanModeThinkingLevel?: "geminiPlanModeThinkingLevel";
+  _actModeApiProvider?: "actModeApiProvider";
+  _actModeApiModelId?: "actModeApiModelId";
+  _actModeThinkingBudgetTokens?: "actModeThinkingBudgetTokens";
+  _actModeReasoningEffort?: "actModeReasoningEffort";
+  _actModeVsCodeLmModelSelector?: "actModeVsCodeLmModelSelector";
+  _actModeAwsBedrockCustomSelected?: "actModeAwsBedrockCustomSelected";
+  _actModeAwsBedrockCustomModelBaseId?: "actModeAwsBedrockCustomModelBaseId";
+  _actModeOpenRouterModelId?: "actModeOpenRouterModelId";
+  _actModeOpenRouterModelInfo?: "actModeOpenRouterModelInfo";
+  _actModeOpenAiModelId?: "actModeOpenAiModelId";
+  _actModeOpenAiModelInfo?: "actModeOpenAiModelInfo";
+  _actModeOllamaModelId?: "actModeOllamaModelId";
+  _actModeLmStudioModelId?: "actModeLmStudioModelId";
+  _actModeLiteLlmModelId?: "actModeLiteLlmModelId";
+  _actModeLiteLlmModelInfo?: "actModeLiteLlmModelInfo";
+  _actModeRequestyModelId?: "actModeRequestyModelId";
+  _actModeRequestyModelInfo?: "actModeRequestyModelInfo";
+  _actModeTogetherModelId?: "actModeTogetherModelId";
+  _actModeFireworksModelId?: "actModeFireworksModelId";
+  _actModeSapAiCoreModelId?: "actModeSapAiCoreModelId";
+  _actModeSapAiCoreDeploymentId?: "actModeSapAiCoreDeploymentId";
+  _actModeGroqModelId?: "actModeGroqModelId";
+  _actModeGroqModelInfo?: "actModeGroqModelInfo";
+  _actModeHuggingFaceModelId?: "actModeHuggingFaceModelId";
+  _actModeHuggingFaceModelInfo?: "actModeHuggingFaceModelInfo";
+  _actModeHuaweiCloudMaasModelId?: "actModeHuaweiCloudMaasModelId";
+  _actModeHuaweiCloudMaasModelInfo?: "actModeHuaweiCloudMaasModelInfo";
+  _actModeBasetenModelId?: "actModeBasetenModelId";
+  _actModeBasetenModelInfo?: "actModeBasetenModelInfo";
+  _actModeVercelAiGatewayModelId?: "actModeVercelAiGatewayModelId";
+  _actModeVercelAiGatewayModelInfo?: "actModeVercelAiGatewayModelInfo";
+  _actModeOcaModelId?: "actModeOcaModelId";
+  _actModeOcaModelInfo?: "actModeOcaModelInfo";
+  _actModeHicapModelId?: "actModeHicapModelId";
+  _actModeHicapModelInfo?: "actModeHicapModelInfo";
+  _actModeAihubmixModelId?: "actModeAihubmixModelId";
+  _actModeAihubmixModelInfo?: "actModeAihubmixModelInfo";
+  _actModeNousResearchModelId?: "actModeNousResearchModelId";
+  _geminiActModeThinkingLevel?: "geminiActModeThinkingLevel";
+}
+
+export interface ModelsApiConfiguration__Output {
+  apiKey?: string;
+  clineApiKey?: string;
+  ulid?: string;
+  liteLlmBaseUrl?: string;
+  liteLlmApiKey?: string;
+  liteLlmUsePromptCache?: boolean;
+  openAiHeaders: { [key: string]: string };
+  anthropicBaseUrl?: string;
+  openRouterApiKey?: string;
+  openRouterProviderSorting?: string;
+  awsAccessKey?: string;
+  awsSecretKey?: string;
+  awsSessionToken?: string;
+  awsRegion?: string;
+  awsUseCrossRegionInference?: boolean;
+  awsBedrockUsePromptCache?: boolean;
+  awsUseProfile?: boolean;
+  awsProfile?: string;
+  awsBedrockEndpoint?: string;
+  claudeCodePath?: string;
+  vertexProjectId?: string;
+  vertexRegion?: string;
+  openAiBaseUrl?: string;
+  openAiApiKey?: string;
+  ollamaBaseUrl?: string;
+  ollamaApiOptionsCtxNum?: string;
+  lmStudioBaseUrl?: string;
+  geminiApiKey?: string;
+  geminiBaseUrl?: string;
+  openAiNativeApiKey?: string;
+  deepSeekApiKey?: string;
+  requestyApiKey?: string;
+  requestyBaseUrl?: string;
+  togetherApiKey?: string;
+  fireworksApiKey?: string;
+  fireworksModelMaxCompletionTokens?: number;
+  fireworksModelMaxTokens?: number;
+  qwenApiKey?: string;
+  doubaoApiKey?: string;
+  mistralApiKey?: string;
+  azureApiVersion?: string;
+  qwenApiLine?: string;
+  nebiusApiKey?: string;
+  asksageApiUrl?: string;
+  asksageApiKey?: string;
+  xaiApiKey?: string;
+  sambanovaApiKey?: string;
+  cerebrasApiKey?: string;
+  requestTimeoutMs?: number;
+  sapAiCoreClientId?: string;
+  sapAiCoreClientSecret?: string;
+  sapAiResourceGroup?: string;
+  sapAiCoreTokenUrl?: string;
+  sapAiCoreBaseUrl?: string;
+  sapAiCoreUseOrchestrationMode?: boolean;
+  moonshotApiKey?: string;
+  moonshotApiLine?: string;
+  awsAuthentication?: string;
+  awsBedrockApiKey?: string;
+  clineAccountId?: string;
+  groqApiKey?: string;
+  huggingFaceApiKey?: string;
+  huaweiCloudMaasApiKey?: string;
+  basetenApiKey?: string;
+  ollamaApiKey?: string;
+  zaiApiKey?: string;
+  zaiApiLine?: string;
+  lmStudioMaxTokens?: string;
+  vercelAiGatewayApiKey?: string;
+  qwenCodeOauthPath?: string;
+  difyApiKey?: string;
+  difyBaseUrl?: string;
+  ocaBaseUrl?: string;
+  ocaApiKey?: string;
+  ocaRefreshToken?: string;
+  ocaMode?: string;
+  awsUseGlobalInference?: boolean;
+  minimaxApiKey?: string;
+  minimaxApiLine?: string;
+  hicapModelId?: string;
+  hicapApiKey?: string;
+  aihubmixApiKey?: string;
+  aihubmixBaseUrl?: string;
+  aihubmixAppCode?: string;
+  nousResearchApiKey?: string;
+  planModeApiProvider?: _cline_ApiProvider__Output;
+  planModeApiModelId?: string;
+  planModeThinkingBudgetTokens?: number;
+  planModeReasoningEffort?: string;
+  planModeVsCodeLmModelSelector?: _cline_LanguageModelChatSelector__Output | null;
+  planModeAwsBedrockCustomSelected?: boolean;
+  planModeAwsBedrockCustomModelBaseId?: string;
+  planModeOpenRouterModelId?: string;
+  planModeOpenRouterModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeOpenAiModelId?: string;
+  planModeOpenAiModelInfo?: _cline_OpenAiCompatibleModelInfo__Output | null;
+  planModeOllamaModelId?: string;
+  planModeLmStudioModelId?: string;
+  planModeLiteLlmModelId?: string;
+  planModeLiteLlmModelInfo?: _cline_LiteLLMModelInfo__Output | null;
+  planModeRequestyModelId?: string;
+  planModeRequestyModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeTogetherModelId?: string;
+  planModeFireworksModelId?: string;
+  planModeSapAiCoreModelId?: string;
+  planModeSapAiCoreDeploymentId?: string;
+  planModeGroqModelId?: string;
+  planModeGroqModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeHuggingFaceModelId?: string;
+  planModeHuggingFaceModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeHuaweiCloudMaasModelId?: string;
+  planModeHuaweiCloudMaasModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeBasetenModelId?: string;
+  planModeBasetenModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeVercelAiGatewayModelId?: string;
+  planModeVercelAiGatewayModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeOcaModelId?: string;
+  planModeOcaModelInfo?: _cline_OcaModelInfo__Output | null;
+  planModeHicapModelId?: string;
+  planModeHicapModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  planModeAihubmixModelId?: string;
+  planModeAihubmixModelInfo?: _cline_OpenAiCompatibleModelInfo__Output | null;
+  planModeNousResearchModelId?: string;
+  geminiPlanModeThinkingLevel?: string;
+  actModeApiProvider?: _cline_ApiProvider__Output;
+  actModeApiModelId?: string;
+  actModeThinkingBudgetTokens?: number;
+  actModeReasoningEffort?: string;
+  actModeVsCodeLmModelSelector?: _cline_LanguageModelChatSelector__Output | null;
+  actModeAwsBedrockCustomSelected?: boolean;
+  actModeAwsBedrockCustomModelBaseId?: string;
+  actModeOpenRouterModelId?: string;
+  actModeOpenRouterModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeOpenAiModelId?: string;
+  actModeOpenAiModelInfo?: _cline_OpenAiCompatibleModelInfo__Output | null;
+  actModeOllamaModelId?: string;
+  actModeLmStudioModelId?: string;
+  actModeLiteLlmModelId?: string;
+  actModeLiteLlmModelInfo?: _cline_LiteLLMModelInfo__Output | null;
+  actModeRequestyModelId?: string;
+  actModeRequestyModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeTogetherModelId?: string;
+  actModeFireworksModelId?: string;
+  actModeSapAiCoreModelId?: string;
+  actModeSapAiCoreDeploymentId?: string;
+  actModeGroqModelId?: string;
+  actModeGroqModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeHuggingFaceModelId?: string;
+  actModeHuggingFaceModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeHuaweiCloudMaasModelId?: string;
+  actModeHuaweiCloudMaasModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeBasetenModelId?: string;
+  actModeBasetenModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeVercelAiGatewayModelId?: string;
+  actModeVercelAiGatewayModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeOcaModelId?: string;
+  actModeOcaModelInfo?: _cline_OcaModelInfo__Output | null;
+  actModeHicapModelId?: string;
+  actModeHicapModelInfo?: _cline_OpenRouterModelInfo__Output | null;
+  actModeAihubmixModelId?: string;
+  actModeAihubmixModelInfo?: _cline_OpenAiCompatibleModelInfo__Output | null;
+  actModeNousResearchModelId?: string;
+  geminiActModeThinkingLevel?: string;
+  _apiKey?: "apiKey";
+  _clineApiKey?: "clineApiKey";
+  _ulid?: "ulid";
+  _liteLlmBaseUrl?: "liteLlmBaseUrl";
+  _liteLlmApiKey?: "liteLlmApiKey";
+  _liteLlmUsePromptCache?: "liteLlmUsePromptCache";
+  _anthropicBaseUrl?: "anthropicBaseUrl";
+  _openRouterApiKey?: "openRouterApiKey";
+  _openRouterProviderSorting?: "openRouterProviderSorting";
+  _awsAccessKey?: "awsAccessKey";
+  _awsSecretKey?: "awsSecretKey";
+  _awsSessionToken?: "awsSessionToken";
+  _awsRegion?: "awsRegion";
+  _awsUseCrossRegionInference?: "awsUseCrossRegionInference";
+  _awsBedrockUsePromptCache?: "awsBedrockUsePromptCache";
+  _awsUseProfile?: "awsUseProfile";
+  _awsProfile?: "awsProfile";
+  _awsBedrockEndpoint?: "awsBedrockEndpoint";
+  _claudeCodePath?: "claudeCodePath";
+  _vertexProjectId?: "vertexProjectId";
+  _vertexRegion?: "vertexRegion";
+  _openAiBaseUrl?: "openAiBaseUrl";
+  _openAiApiKey?: "openAiApiKey";
+  _ollamaBaseUrl?: "ollamaBaseUrl";
+  _ollamaApiOptionsCtxNum?: "ollamaApiOptionsCtxNum";
+  _lmStudioBaseUrl?: "lmStudioBaseUrl";
+  _geminiApiKey?: "geminiApiKey";
+  _geminiBaseUrl?: "geminiBaseUrl";
+  _openAiNativeApiKey?: "openAiNativeApiKey";
+  _deepSeekApiKey?: "deepSeekApiKey";
+  _requestyApiKey?: "requestyApiKey";
+  _requestyBaseUrl?: "requestyBaseUrl";
+  _togetherApiKey?: "togetherApiKey";
+  _fireworksApiKey?: "fireworksApiKey";
+  _fireworksModelMaxCompletionTokens?: "fireworksModelMaxCompletionTokens";
+  _fireworksModelMaxTokens?: "fireworksModelMaxTokens";
+  _qwenApiKey?: "qwenApiKey";
+  _doubaoApiKey?: "doubaoApiKey";
+  _mistralApiKey?: "mistralApiKey";
+  _azureApiVersion?: "azureApiVersion";
+  _qwenApiLine?: "qwenApiLine";
+  _nebiusApiKey?: "nebiusApiKey";
+  _asksageApiUrl?: "asksageApiUrl";
+  _asksageApiKey?: "asksageApiKey";
+  _xaiApiKey?: "xaiApiKey";
+  _sambanovaApiKey?: "sambanovaApiKey";
+  _cerebrasApiKey?: "cerebrasApiKey";
+  _requestTimeoutMs?: "requestTimeoutMs";
+  _sapAiCoreClientId?: "sapAiCoreClientId";
+  _sapAiCoreClientSecret?: "sapAiCoreClientSecret";
+  _sapAiResourceGroup?: "sapAiResourceGroup";
+  _sapAiCoreTokenUrl?: "sapAiCoreTokenUrl";
+  _sapAiCoreBaseUrl?: "sapAiCoreBaseUrl";
+  _sapAiCoreUseOrchestrationMode?: "sapAiCoreUseOrchestrationMode";
+  _moonshotApiKey?: "moonshotApiKey";
+  _moonshotApiLine?: "moonshotApiLine";
+  _awsAuthentication?: "awsAuthentication";
+  _awsBedrockApiKey?: "awsBedrockApiKey";
+  _clineAccountId?: "clineAccountId";
+  _groqApiKey?: "groqApiKey";
+  _huggingFaceApiKey?: "huggingFaceApiKey";
+  _huaweiCloudMaasApiKey?: "huaweiCloudMaasApiKey";
+  _basetenApiKey?: "basetenApiKey";
+  _ollamaApiKey?: "ollamaApiKey";
+  _zaiApiKey?: "zaiApiKey";
+  _zaiApiLine?: "zaiApiLine";
+  _lmStudioMaxTokens?: "lmStudioMaxTokens";
+  _vercelAiGatewayApiKey?: "vercelAiGatewayApiKey";
+  _qwenCodeOauthPath?: "qwenCodeOauthPath";
+  _difyApiKey?: "difyApiKey";
+  _difyBaseUrl?: "difyBaseUrl";
+  _ocaBaseUrl?: "ocaBaseUrl";
+  _ocaApiKey?: "ocaApiKey";
+  _ocaRefreshToken?: "ocaRefreshToken";
+  _ocaMode?: "ocaMode";
+  _awsUseGlobalInference?: "awsUseGlobalInference";
+  _minimaxApiKey?: "minimaxApiKey";
+  _minimaxApiLine?: "minimaxApiLine";
+  _hicapModelId?: "hicapModelId";
+  _hicapApiKey?: "hicapApiKey";
+  _aihubmixApiKey?: "aihubmixApiKey";
+  _aihubmixBaseUrl?: "aihubmixBaseUrl";
+  _aihubmixAppCode?: "aihubmixAppCode";
+  _nousResearchApiKey?: "nousResearchApiKey";
+  _planModeApiProvider?: "planModeApiProvider";
+  _planModeApiModelId?: "planModeApiModelId";
+  _planModeThinkingBudgetTokens?: "planModeThinkingBudgetTokens";
+  _planModeReasoningEffort?: "planModeReasoningEffort";
+  _planModeVsCodeLmModelSelector?: "planModeVsCodeLmModelSelector";
+  _planModeAwsBedrockCustomSelected?: "planModeAwsBedrockCustomSelected";
+  _planModeAwsBedrockCustomModelBaseId?: "planModeAwsBedrockCustomModelBaseId";
+  _planModeOpenRouterModelId?: "planModeOpenRouterModelId";
+  _planModeOpenRouterModelInfo?: "planModeOpenRouterModelInfo";
+  _planModeOpenAiModelId?: "planModeOpenAiModelId";
+  _planModeOpenAiModelInfo?: "planModeOpenAiModelInfo";
+  _planModeOllamaModelId?: "planModeOllamaModelId";
+  _planModeLmStudioModelId?: "planModeLmStudioModelId";
+  _planModeLiteLlmModelId?: "planModeLiteLlmModelId";
+  _planModeLiteLlmModelInfo?: "planModeLiteLlmModelInfo";
+  _planModeRequestyModelId?: "planModeRequestyModelId";
+  _planModeRequestyModelInfo?: "planModeRequestyModelInfo";
+  _planModeTogetherModelId?: "planModeTogetherModelId";
+  _planModeFireworksModelId?: "planModeFireworksModelId";
+  _planModeSapAiCoreModelId?: "planModeSapAiCoreModelId";
+  _planModeSapAiCoreDeploymentId?: "planModeSapAiCoreDeploymentId";
+  _planModeGroqModelId?: "planModeGroqModelId";
+  _planModeGroqModelInfo?: "planModeGroqModelInfo";
+  _planModeHuggingFaceModelId?: "planModeHuggingFaceModelId";
+  _planModeHuggingFaceModelInfo?: "planModeHuggingFaceModelInfo";
+  _planModeHuaweiCloudMaasModelId?: "planModeHuaweiCloudMaasModelId";
+  _planModeHuaweiCloudMaasModelInfo?: "planModeHuaweiCloudMaasModelInfo";
+  _planModeBasetenModelId?: "planModeBasetenModelId";
+  _planModeBasetenModelInfo?: "planModeBasetenModelInfo";
+  _planModeVercelAiGatewayModelId?: "planModeVercelAiGatewayModelId";
+  _planModeVercelAiGatewayModelInfo?: "planModeVercelAiGatewayModelInfo";
+  _planModeOcaModelId?: "planModeOcaModelId";
+  _planModeOcaModelInfo?: "planModeOcaModelInfo";
+  _planModeHicapModelId?: "planModeHicapModelId";
+  _planModeHicapModelInfo?: "planModeHicapModelInfo";
+  _planModeAihubmixModelId?: "planModeAihubmixModelId";
+  _planModeAihubmixModelInfo?: "planModeAihubmixModelInfo";
+  _planModeNousResearchModelId?: "planModeNousResearchModelId";
+  _geminiPlanModeThinkingLevel?: "geminiPlanModeThinkingLevel";
+  _actModeApiProvider?: "actModeApiProvider";
+  _actModeApiModelId?: "actModeApiModelId";
+  _actModeThinkingBudgetTokens?: "actModeThinkingBudgetTokens";
+  _actModeReasoningEffort?: "actModeReasoningEffort";
+  _actModeVsCodeLmModelSelector?: "actModeVsCodeLmModelSelector";
+  _actModeAwsBedrockCustomSelected?: "actModeAwsBedrockCustomSelected";
+  _actModeAwsBedrockCustomModelBaseId?: "actModeAwsBedrockCustomModelBaseId";
+  _actModeOpenRouterModelId?: "actModeOpenRouterModelId";
+  _actModeOpenRouterModelInfo?: "actModeOpenRouterModelInfo";
+  _actModeOpenAiModelId?: "actModeOpenAiModelId";
+  _actModeOpenAiModelInfo?: "actModeOpenAiModelInfo";
+  _actModeOllamaModelId?: "actModeOllamaModelId";
+  _actModeLmStudioModelId?: "actModeLmStudioModelId";
+  _actModeLiteLlmModelId?: "actModeLiteLlmModelId";
+  _actModeLiteLlmModelInfo?: "actModeLiteLlmModelInfo";
+  _actModeRequestyModelId?: "actModeRequestyModelId";
+  _actModeRequestyModelInfo?: "actModeRequestyModelInfo";
+  _actModeTogetherModelId?: "actModeTogetherModelId";
+  _actModeFireworksModelId?: "actModeFireworksModelId";
+  _actModeSapAiCoreModelId?: "actModeSapAiCoreModelId";
+  _actModeSapAiCoreDeploymentId?: "actModeSapAiCoreDeploymentId";
+  _actModeGroqModelId?: "actModeGroqModelId";
+  _actModeGroqModelInfo?: "actModeGroqModelInfo";
+  _actModeHuggingFaceModelId?: "actModeHuggingFaceModelId";
+  _actModeHuggingFaceModelInfo?: "actModeHuggingFaceModelInfo";
+  _actModeHuaweiCloudMaasModelId?: "actModeHuaweiCloudMaasModelId";
+  _actModeHuaweiCloudMaasModelInfo?: "actModeHuaweiCloudMaasModelInfo";
+  _actModeBasetenModelId?: "actModeBasetenModelId";
+  _actModeBasetenModelInfo?: "actModeBasetenModelInfo";
+  _actModeVercelAiGatewayModelId?: "actModeVercelAiGatewayModelId";
+  _actModeVercelAiGatewayModelInfo?: "actModeVercelAiGatewayModelInfo";
+  _actModeOcaModelId?: "actModeOcaModelId";
+  _actModeOcaModelInfo?: "actModeOcaModelInfo";
+  _actModeHicapModelId?: "actModeHicapModelId";
+  _actModeHicapModelInfo?: "actModeHicapModelInfo";
+  _actModeAihubmixModelId?: "actModeAihubmixModelId";
+  _actModeAihubmixModelInfo?: "actModeAihubmixModelInfo";
+  _actModeNousResearchModelId?: "actModeNousResearchModelId";
+  _geminiActModeThinkingLevel?: "geminiActModeThinkingLevel";
+}
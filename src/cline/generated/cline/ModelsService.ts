@@ -0,0 +1,248 @@
+// Original file: proto/cline/models.proto
+
+import type * as grpc from "@grpc/grpc-js";
+import type { MethodDefinition } from "@grpc/proto-loader";
+import type {
+  EmptyRequest as _cline_EmptyRequest,
+  EmptyRequest__Output as _cline_EmptyRequest__Output,
+} from "../cline/EmptyRequest.js";
+import type {
+  OpenAiModelsRequest as _cline_OpenAiModelsRequest,
+  OpenAiModelsRequest__Output as _cline_OpenAiModelsRequest__Output,
+} from "../cline/OpenAiModelsRequest.js";
+import type {
+  OpenRouterCompatibleModelInfo as _cline_OpenRouterCompatibleModelInfo,
+  OpenRouterCompatibleModelInfo__Output as _cline_OpenRouterCompatibleModelInfo__Output,
+} from "../cline/OpenRouterCompatibleModelInfo.js";
+import type {
+  StringArray as _cline_StringArray,
+  StringArray__Output as _cline_StringArray__Output,
+} from "../cline/StringArray.js";
+
+export interface ModelsServiceClient extends grpc.Client {
+  refreshBasetenModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshBasetenModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshBasetenModelsRpc(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshBasetenModelsRpc(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+
+  refreshGroqModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshGroqModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshGroqModelsRpc(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshGroqModelsRpc(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+
+  refreshHuggingFaceModels(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshHuggingFaceModels(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshHuggingFaceModels(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshHuggingFaceModels(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+
+  refreshOpenAiModels(
+    argument: _cline_OpenAiModelsRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_StringArray__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshOpenAiModels(
+    argument: _cline_OpenAiModelsRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_StringArray__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshOpenAiModels(
+    argument: _cline_OpenAiModelsRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_StringArray__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshOpenAiModels(
+    argument: _cline_OpenAiModelsRequest,
+    callback: grpc.requestCallback<_cline_StringArray__Output>,
+  ): grpc.ClientUnaryCall;
+
+  refreshOpenRouterModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshOpenRouterModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshOpenRouterModelsRpc(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshOpenRouterModelsRpc(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+
+  refreshRequestyModels(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshRequestyModels(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshRequestyModels(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshRequestyModels(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+
+  refreshVercelAiGatewayModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshVercelAiGatewayModelsRpc(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshVercelAiGatewayModelsRpc(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  refreshVercelAiGatewayModelsRpc(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_OpenRouterCompatibleModelInfo__Output>,
+  ): grpc.ClientUnaryCall;
+}
+
+export interface ModelsServiceHandlers extends grpc.UntypedServiceImplementation {
+  refreshBasetenModelsRpc: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo
+  >;
+
+  refreshGroqModelsRpc: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo
+  >;
+
+  refreshHuggingFaceModels: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo
+  >;
+
+  refreshOpenAiModels: grpc.handleUnaryCall<_cline_OpenAiModelsRequest__Output, _cline_StringArray>;
+
+  refreshOpenRouterModelsRpc: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo
+  >;
+
+  refreshRequestyModels: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo
+  >;
+
+  refreshVercelAiGatewayModelsRpc: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo
+  >;
+}
+
+export interface ModelsServiceDefinition extends grpc.ServiceDefinition {
+  refreshBasetenModelsRpc: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_OpenRouterCompatibleModelInfo,
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo__Output
+  >;
+  refreshGroqModelsRpc: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_OpenRouterCompatibleModelInfo,
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo__Output
+  >;
+  refreshHuggingFaceModels: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_OpenRouterCompatibleModelInfo,
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo__Output
+  >;
+  refreshOpenAiModels: MethodDefinition<
+    _cline_OpenAiModelsRequest,
+    _cline_StringArray,
+    _cline_OpenAiModelsRequest__Output,
+    _cline_StringArray__Output
+  >;
+  refreshOpenRouterModelsRpc: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_OpenRouterCompatibleModelInfo,
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo__Output
+  >;
+  refreshRequestyModels: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_OpenRouterCompatibleModelInfo,
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo__Output
+  >;
+  refreshVercelAiGatewayModelsRpc: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_OpenRouterCompatibleModelInfo,
+    _cline_EmptyRequest__Output,
+    _cline_OpenRouterCompatibleModelInfo__Output
+  >;
+}
@@ -0,0 +1,20 @@
+// Original file: proto/cline/task.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+
+export interface NewTaskRequest {
+  metadata?: _cline_Metadata | null;
+  text?: string;
+  images?: string[];
+  files?: string[];
+}
+
+export interface NewTaskRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  text: string;
+  images: string[];
+  files: string[];
+}
@@ -0,0 +1,77 @@
+// Original file: proto/cline/models.proto
+
+import type {
+  ThinkingConfig as _cline_ThinkingConfig,
+  ThinkingConfig__Output as _cline_ThinkingConfig__Output,
+} from "../cline/ThinkingConfig.js";
+import type {
+  ApiFormat as _cline_ApiFormat,
+  ApiFormat__Output as _cline_ApiFormat__Output,
+} from "../cline/ApiFormat.js";
+import type { Long } from "@grpc/proto-loader";
+
+export interface OcaModelInfo {
+  maxTokens?: number | string | Long;
+  contextWindow?: number | string | Long;
+  supportsImages?: boolean;
+  supportsPromptCache?: boolean;
+  inputPrice?: number | string;
+  outputPrice?: number | string;
+  thinkingConfig?: _cline_ThinkingConfig | null;
+  cacheWritesPrice?: number | string;
+  cacheReadsPrice?: number | string;
+  description?: string;
+  temperature?: number | string;
+  surveyContent?: string;
+  surveyId?: string;
+  banner?: string;
+  modelName?: string;
+  apiFormat?: _cline_ApiFormat;
+  _maxTokens?: "maxTokens";
+  _contextWindow?: "contextWindow";
+  _supportsImages?: "supportsImages";
+  _inputPrice?: "inputPrice";
+  _outputPrice?: "outputPrice";
+  _thinkingConfig?: "thinkingConfig";
+  _cacheWritesPrice?: "cacheWritesPrice";
+  _cacheReadsPrice?: "cacheReadsPrice";
+  _description?: "description";
+  _temperature?: "temperature";
+  _surveyContent?: "surveyContent";
+  _surveyId?: "surveyId";
+  _banner?: "banner";
+  _apiFormat?: "apiFormat";
+}
+
+export interface OcaModelInfo__Output {
+  maxTokens?: number;
+  contextWindow?: number;
+  supportsImages?: boolean;
+  supportsPromptCache: boolean;
+  inputPrice?: number;
+  outputPrice?: number;
+  thinkingConfig?: _cline_ThinkingConfig__Output | null;
+  cacheWritesPrice?: number;
+  cacheReadsPrice?: number;
+  description?: string;
+  temperature?: number;
+  surveyContent?: string;
+  surveyId?: string;
+  banner?: string;
+  modelName: string;
+  apiFormat?: _cline_ApiFormat__Output;
+  _maxTokens?: "maxTokens";
+  _contextWindow?: "contextWindow";
+  _supportsImages?: "supportsImages";
+  _inputPrice?: "inputPrice";
+  _outputPrice?: "outputPrice";
+  _thinkingConfig?: "thinkingConfig";
+  _cacheWritesPrice?: "cacheWritesPrice";
+  _cacheReadsPrice?: "cacheReadsPrice";
+  _description?: "description";
+  _temperature?: "temperature";
+  _surveyContent?: "surveyContent";
+  _surveyId?: "surveyId";
+  _banner?: "banner";
+  _apiFormat?: "apiFormat";
+}
@@ -0,0 +1,18 @@
+// Original file: proto/cline/models.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+
+export interface OpenAiModelsRequest {
+  metadata?: _cline_Metadata | null;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface OpenAiModelsRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  baseUrl: string;
+  apiKey: string;
+}
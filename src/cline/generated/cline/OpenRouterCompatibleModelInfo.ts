@@ -0,0 +1,14 @@
+// Original file: proto/cline/models.proto
+
+import type {
+  OpenRouterModelInfo as _cline_OpenRouterModelInfo,
+  OpenRouterModelInfo__Output as _cline_OpenRouterModelInfo__Output,
+} from "../cline/OpenRouterModelInfo.js";
+
+export interface OpenRouterCompatibleModelInfo {
+  models?: { [key: string]: _cline_OpenRouterModelInfo };
+}
+
+export interface OpenRouterCompatibleModelInfo__Output {
+  models: { [key: string]: _cline_OpenRouterModelInfo__Output };
+}
@@ -0,0 +1,10 @@
+// Original file: proto/cline/state.proto
+
+export const PlanActMode = {
+  PLAN: "PLAN",
+  ACT: "ACT",
+} as const;
+
+export type PlanActMode = "PLAN" | 0 | "ACT" | 1;
+
+export type PlanActMode__Output = (typeof PlanActMode)[keyof typeof PlanActMode];
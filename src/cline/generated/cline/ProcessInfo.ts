@@ -0,0 +1,19 @@
+// Original file: proto/cline/state.proto
+
+import type { Long } from "@grpc/proto-loader";
+
+export interface ProcessInfo {
+  processId?: number;
+  version?: string;
+  uptimeMs?: number | string | Long;
+  _version?: "version";
+  _uptimeMs?: "uptimeMs";
+}
+
+export interface ProcessInfo__Output {
+  processId: number;
+  version?: string;
+  uptimeMs?: number;
+  _version?: "version";
+  _uptimeMs?: "uptimeMs";
+}
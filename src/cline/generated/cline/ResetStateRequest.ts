@@ -0,0 +1,18 @@
+// Original file: proto/cline/state.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+
+export interface ResetStateRequest {
+  metadata?: _cline_Metadata | null;
+  global?: boolean;
+  _global?: "global";
+}
+
+export interface ResetStateRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  global?: boolean;
+  _global?: "global";
+}
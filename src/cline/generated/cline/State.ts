@@ -0,0 +1,9 @@
+// Original file: proto/cline/state.proto
+
+export interface State {
+  stateJson?: string;
+}
+
+export interface State__Output {
+  stateJson: string;
+}
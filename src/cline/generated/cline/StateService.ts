@@ -0,0 +1,245 @@
+// Original file: proto/cline/state.proto
+
+import type * as grpc from "@grpc/grpc-js";
+import type { MethodDefinition } from "@grpc/proto-loader";
+import type {
+  AutoApprovalSettingsRequest as _cline_AutoApprovalSettingsRequest,
+  AutoApprovalSettingsRequest__Output as _cline_AutoApprovalSettingsRequest__Output,
+} from "../cline/AutoApprovalSettingsRequest.js";
+import type {
+  Boolean as _cline_Boolean,
+  Boolean__Output as _cline_Boolean__Output,
+} from "../cline/Boolean.js";
+import type {
+  Empty as _cline_Empty,
+  Empty__Output as _cline_Empty__Output,
+} from "../cline/Empty.js";
+import type {
+  EmptyRequest as _cline_EmptyRequest,
+  EmptyRequest__Output as _cline_EmptyRequest__Output,
+} from "../cline/EmptyRequest.js";
+import type {
+  ProcessInfo as _cline_ProcessInfo,
+  ProcessInfo__Output as _cline_ProcessInfo__Output,
+} from "../cline/ProcessInfo.js";
+import type {
+  ResetStateRequest as _cline_ResetStateRequest,
+  ResetStateRequest__Output as _cline_ResetStateRequest__Output,
+} from "../cline/ResetStateRequest.js";
+import type {
+  State as _cline_State,
+  State__Output as _cline_State__Output,
+} from "../cline/State.js";
+import type {
+  TogglePlanActModeRequest as _cline_TogglePlanActModeRequest,
+  TogglePlanActModeRequest__Output as _cline_TogglePlanActModeRequest__Output,
+} from "../cline/TogglePlanActModeRequest.js";
+import type {
+  UpdateSettingsRequest as _cline_UpdateSettingsRequest,
+  UpdateSettingsRequest__Output as _cline_UpdateSettingsRequest__Output,
+} from "../cline/UpdateSettingsRequest.js";
+
+export interface StateServiceClient extends grpc.Client {
+  getLatestState(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_State__Output>,
+  ): grpc.ClientUnaryCall;
+  getLatestState(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_State__Output>,
+  ): grpc.ClientUnaryCall;
+  getLatestState(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_State__Output>,
+  ): grpc.ClientUnaryCall;
+  getLatestState(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_State__Output>,
+  ): grpc.ClientUnaryCall;
+
+  getProcessInfo(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_ProcessInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  getProcessInfo(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_ProcessInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  getProcessInfo(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_ProcessInfo__Output>,
+  ): grpc.ClientUnaryCall;
+  getProcessInfo(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_ProcessInfo__Output>,
+  ): grpc.ClientUnaryCall;
+
+  resetState(
+    argument: _cline_ResetStateRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  resetState(
+    argument: _cline_ResetStateRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  resetState(
+    argument: _cline_ResetStateRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  resetState(
+    argument: _cline_ResetStateRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  subscribeToState(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_State__Output>;
+  subscribeToState(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_State__Output>;
+
+  togglePlanActModeProto(
+    argument: _cline_TogglePlanActModeRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+  togglePlanActModeProto(
+    argument: _cline_TogglePlanActModeRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+  togglePlanActModeProto(
+    argument: _cline_TogglePlanActModeRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+  togglePlanActModeProto(
+    argument: _cline_TogglePlanActModeRequest,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+
+  updateAutoApprovalSettings(
+    argument: _cline_AutoApprovalSettingsRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  updateAutoApprovalSettings(
+    argument: _cline_AutoApprovalSettingsRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  updateAutoApprovalSettings(
+    argument: _cline_AutoApprovalSettingsRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  updateAutoApprovalSettings(
+    argument: _cline_AutoApprovalSettingsRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  updateSettings(
+    argument: _cline_UpdateSettingsRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  updateSettings(
+    argument: _cline_UpdateSettingsRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  updateSettings(
+    argument: _cline_UpdateSettingsRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  updateSettings(
+    argument: _cline_UpdateSettingsRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+}
+
+export interface StateServiceHandlers extends grpc.UntypedServiceImplementation {
+  getLatestState: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_State>;
+
+  getProcessInfo: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_ProcessInfo>;
+
+  resetState: grpc.handleUnaryCall<_cline_ResetStateRequest__Output, _cline_Empty>;
+
+  subscribeToState: grpc.handleServerStreamingCall<_cline_EmptyRequest__Output, _cline_State>;
+
+  togglePlanActModeProto: grpc.handleUnaryCall<
+    _cline_TogglePlanActModeRequest__Output,
+    _cline_Boolean
+  >;
+
+  updateAutoApprovalSettings: grpc.handleUnaryCall<
+    _cline_AutoApprovalSettingsRequest__Output,
+    _cline_Empty
+  >;
+
+  updateSettings: grpc.handleUnaryCall<_cline_UpdateSettingsRequest__Output, _cline_Empty>;
+}
+
+export interface StateServiceDefinition extends grpc.ServiceDefinition {
+  getLatestState: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_State,
+    _cline_EmptyRequest__Output,
+    _cline_State__Output
+  >;
+  getProcessInfo: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_ProcessInfo,
+    _cline_EmptyRequest__Output,
+    _cline_ProcessInfo__Output
+  >;
+  resetState: MethodDefinition<
+    _cline_ResetStateRequest,
+    _cline_Empty,
+    _cline_ResetStateRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToState: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_State,
+    _cline_EmptyRequest__Output,
+    _cline_State__Output
+  >;
+  togglePlanActModeProto: MethodDefinition<
+    _cline_TogglePlanActModeRequest,
+    _cline_Boolean,
+    _cline_TogglePlanActModeRequest__Output,
+    _cline_Boolean__Output
+  >;
+  updateAutoApprovalSettings: MethodDefinition<
+    _cline_AutoApprovalSettingsRequest,
+    _cline_Empty,
+    _cline_AutoApprovalSettingsRequest__Output,
+    _cline_Empty__Output
+  >;
+  updateSettings: MethodDefinition<
+    _cline_UpdateSettingsRequest,
+    _cline_Empty,
+    _cline_UpdateSettingsRequest__Output,
+    _cline_Empty__Output
+  >;
+}
@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface String {
+  value?: string;
+}
+
+export interface String__Output {
+  value: string;
+}
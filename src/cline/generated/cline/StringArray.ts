@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface StringArray {
+  values?: string[];
+}
+
+export interface StringArray__Output {
+  values: string[];
+}
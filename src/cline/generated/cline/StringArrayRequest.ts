@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface StringArrayRequest {
+  value?: string[];
+}
+
+export interface StringArrayRequest__Output {
+  value: string[];
+}
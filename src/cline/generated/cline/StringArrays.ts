@@ -0,0 +1,11 @@
+// Original file: proto/cline/common.proto
+
+export interface StringArrays {
+  values1?: string[];
+  values2?: string[];
+}
+
+export interface StringArrays__Output {
+  values1: string[];
+  values2: string[];
+}
@@ -0,0 +1,9 @@
+// Original file: proto/cline/common.proto
+
+export interface StringRequest {
+  value?: string;
+}
+
+export interface StringRequest__Output {
+  value: string;
+}
@@ -0,0 +1,18 @@
+// Original file: proto/cline/task.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+
+export interface TaskFavoriteRequest {
+  metadata?: _cline_Metadata | null;
+  taskId?: string;
+  isFavorited?: boolean;
+}
+
+export interface TaskFavoriteRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  taskId: string;
+  isFavorited: boolean;
+}
@@ -0,0 +1,16 @@
+// Original file: proto/cline/task.proto
+
+import type {
+  TaskItem as _cline_TaskItem,
+  TaskItem__Output as _cline_TaskItem__Output,
+} from "../cline/TaskItem.js";
+
+export interface TaskHistoryArray {
+  tasks?: _cline_TaskItem[];
+  totalCount?: number;
+}
+
+export interface TaskHistoryArray__Output {
+  tasks: _cline_TaskItem__Output[];
+  totalCount: number;
+}
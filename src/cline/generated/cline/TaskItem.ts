@@ -0,0 +1,31 @@
+// Original file: proto/cline/task.proto
+
+import type { Long } from "@grpc/proto-loader";
+
+export interface TaskItem {
+  id?: string;
+  task?: string;
+  ts?: number | string | Long;
+  isFavorited?: boolean;
+  size?: number | string | Long;
+  totalCost?: number | string;
+  tokensIn?: number;
+  tokensOut?: number;
+  cacheWrites?: number;
+  cacheReads?: number;
+  modelId?: string;
+}
+
+export interface TaskItem__Output {
+  id: string;
+  task: string;
+  ts: number;
+  isFavorited: boolean;
+  size: number;
+  totalCost: number;
+  tokensIn: number;
+  tokensOut: number;
+  cacheWrites: number;
+  cacheReads: number;
+  modelId: string;
+}
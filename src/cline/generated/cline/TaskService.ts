@@ -0,0 +1,512 @@
+// Original file: proto/cline/task.proto
+
+import type * as grpc from "@grpc/grpc-js";
+import type { MethodDefinition } from "@grpc/proto-loader";
+import type {
+  AskResponseRequest as _cline_AskResponseRequest,
+  AskResponseRequest__Output as _cline_AskResponseRequest__Output,
+} from "../cline/AskResponseRequest.js";
+import type {
+  DeleteAllTaskHistoryCount as _cline_DeleteAllTaskHistoryCount,
+  DeleteAllTaskHistoryCount__Output as _cline_DeleteAllTaskHistoryCount__Output,
+} from "../cline/DeleteAllTaskHistoryCount.js";
+import type {
+  Empty as _cline_Empty,
+  Empty__Output as _cline_Empty__Output,
+} from "../cline/Empty.js";
+import type {
+  EmptyRequest as _cline_EmptyRequest,
+  EmptyRequest__Output as _cline_EmptyRequest__Output,
+} from "../cline/EmptyRequest.js";
+import type {
+  ExecuteQuickWinRequest as _cline_ExecuteQuickWinRequest,
+  ExecuteQuickWinRequest__Output as _cline_ExecuteQuickWinRequest__Output,
+} from "../cline/ExecuteQuickWinRequest.js";
+import type {
+  GetTaskHistoryRequest as _cline_GetTaskHistoryRequest,
+  GetTaskHistoryRequest__Output as _cline_GetTaskHistoryRequest__Output,
+} from "../cline/GetTaskHistoryRequest.js";
+import type {
+  Int64 as _cline_Int64,
+  Int64__Output as _cline_Int64__Output,
+} from "../cline/Int64.js";
+import type {
+  Int64Request as _cline_Int64Request,
+  Int64Request__Output as _cline_Int64Request__Output,
+} from "../cline/Int64Request.js";
+import type {
+  NewTaskRequest as _cline_NewTaskRequest,
+  NewTaskRequest__Output as _cline_NewTaskRequest__Output,
+} from "../cline/NewTaskRequest.js";
+import type {
+  String as _cline_String,
+  String__Output as _cline_String__Output,
+} from "../cline/String.js";
+import type {
+  StringArrayRequest as _cline_StringArrayRequest,
+  StringArrayRequest__Output as _cline_StringArrayRequest__Output,
+} from "../cline/StringArrayRequest.js";
+import type {
+  StringRequest as _cline_StringRequest,
+  StringRequest__Output as _cline_StringRequest__Output,
+} from "../cline/StringRequest.js";
+import type {
+  TaskFavoriteRequest as _cline_TaskFavoriteRequest,
+  TaskFavoriteRequest__Output as _cline_TaskFavoriteRequest__Output,
+} from "../cline/TaskFavoriteRequest.js";
+import type {
+  TaskHistoryArray as _cline_TaskHistoryArray,
+  TaskHistoryArray__Output as _cline_TaskHistoryArray__Output,
+} from "../cline/TaskHistoryArray.js";
+import type {
+  TaskResponse as _cline_TaskResponse,
+  TaskResponse__Output as _cline_TaskResponse__Output,
+} from "../cline/TaskResponse.js";
+
+export interface TaskServiceClient extends grpc.Client {
+  askResponse(
+    argument: _cline_AskResponseRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  askResponse(
+    argument: _cline_AskResponseRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  askResponse(
+    argument: _cline_AskResponseRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  askResponse(
+    argument: _cline_AskResponseRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  cancelBackgroundCommand(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  cancelBackgroundCommand(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  cancelBackgroundCommand(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  cancelBackgroundCommand(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  cancelTask(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  cancelTask(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  cancelTask(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  cancelTask(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  clearTask(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  clearTask(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  clearTask(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  clearTask(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  deleteAllTaskHistory(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_DeleteAllTaskHistoryCount__Output>,
+  ): grpc.ClientUnaryCall;
+  deleteAllTaskHistory(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_DeleteAllTaskHistoryCount__Output>,
+  ): grpc.ClientUnaryCall;
+  deleteAllTaskHistory(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_DeleteAllTaskHistoryCount__Output>,
+  ): grpc.ClientUnaryCall;
+  deleteAllTaskHistory(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_DeleteAllTaskHistoryCount__Output>,
+  ): grpc.ClientUnaryCall;
+
+  deleteTasksWithIds(
+    argument: _cline_StringArrayRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  deleteTasksWithIds(
+    argument: _cline_StringArrayRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  deleteTasksWithIds(
+    argument: _cline_StringArrayRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  deleteTasksWithIds(
+    argument: _cline_StringArrayRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  executeQuickWin(
+    argument: _cline_ExecuteQuickWinRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  executeQuickWin(
+    argument: _cline_ExecuteQuickWinRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  executeQuickWin(
+    argument: _cline_ExecuteQuickWinRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  executeQuickWin(
+    argument: _cline_ExecuteQuickWinRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  exportTaskWithId(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  exportTaskWithId(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  exportTaskWithId(
+    argument: _cline_StringRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  exportTaskWithId(
+    argument: _cline_StringRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  getTaskHistory(
+    argument: _cline_GetTaskHistoryRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_TaskHistoryArray__Output>,
+  ): grpc.ClientUnaryCall;
+  getTaskHistory(
+    argument: _cline_GetTaskHistoryRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_TaskHistoryArray__Output>,
+  ): grpc.ClientUnaryCall;
+  getTaskHistory(
+    argument: _cline_GetTaskHistoryRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_TaskHistoryArray__Output>,
+  ): grpc.ClientUnaryCall;
+  getTaskHistory(
+    argument: _cline_GetTaskHistoryRequest,
+    callback: grpc.requestCallback<_cline_TaskHistoryArray__Output>,
+  ): grpc.ClientUnaryCall;
+
+  getTotalTasksSize(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Int64__Output>,
+  ): grpc.ClientUnaryCall;
+  getTotalTasksSize(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Int64__Output>,
+  ): grpc.ClientUnaryCall;
+  getTotalTasksSize(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Int64__Output>,
+  ): grpc.ClientUnaryCall;
+  getTotalTasksSize(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_Int64__Output>,
+  ): grpc.ClientUnaryCall;
+
+  newTask(
+    argument: _cline_NewTaskRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  newTask(
+    argument: _cline_NewTaskRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  newTask(
+    argument: _cline_NewTaskRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  newTask(
+    argument: _cline_NewTaskRequest,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+
+  showTaskWithId(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_TaskResponse__Output>,
+  ): grpc.ClientUnaryCall;
+  showTaskWithId(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_TaskResponse__Output>,
+  ): grpc.ClientUnaryCall;
+  showTaskWithId(
+    argument: _cline_StringRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_TaskResponse__Output>,
+  ): grpc.ClientUnaryCall;
+  showTaskWithId(
+    argument: _cline_StringRequest,
+    callback: grpc.requestCallback<_cline_TaskResponse__Output>,
+  ): grpc.ClientUnaryCall;
+
+  taskCompletionViewChanges(
+    argument: _cline_Int64Request,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  taskCompletionViewChanges(
+    argument: _cline_Int64Request,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  taskCompletionViewChanges(
+    argument: _cline_Int64Request,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  taskCompletionViewChanges(
+    argument: _cline_Int64Request,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  taskFeedback(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  taskFeedback(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  taskFeedback(
+    argument: _cline_StringRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  taskFeedback(
+    argument: _cline_StringRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  toggleTaskFavorite(
+    argument: _cline_TaskFavoriteRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  toggleTaskFavorite(
+    argument: _cline_TaskFavoriteRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  toggleTaskFavorite(
+    argument: _cline_TaskFavoriteRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  toggleTaskFavorite(
+    argument: _cline_TaskFavoriteRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+}
+
+export interface TaskServiceHandlers extends grpc.UntypedServiceImplementation {
+  askResponse: grpc.handleUnaryCall<_cline_AskResponseRequest__Output, _cline_Empty>;
+
+  cancelBackgroundCommand: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_Empty>;
+
+  cancelTask: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_Empty>;
+
+  clearTask: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_Empty>;
+
+  deleteAllTaskHistory: grpc.handleUnaryCall<
+    _cline_EmptyRequest__Output,
+    _cline_DeleteAllTaskHistoryCount
+  >;
+
+  deleteTasksWithIds: grpc.handleUnaryCall<_cline_StringArrayRequest__Output, _cline_Empty>;
+
+  executeQuickWin: grpc.handleUnaryCall<_cline_ExecuteQuickWinRequest__Output, _cline_Empty>;
+
+  exportTaskWithId: grpc.handleUnaryCall<_cline_StringRequest__Output, _cline_Empty>;
+
+  getTaskHistory: grpc.handleUnaryCall<
+    _cline_GetTaskHistoryRequest__Output,
+    _cline_TaskHistoryArray
+  >;
+
+  getTotalTasksSize: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_Int64>;
+
+  newTask: grpc.handleUnaryCall<_cline_NewTaskRequest__Output, _cline_String>;
+
+  showTaskWithId: grpc.handleUnaryCall<_cline_StringRequest__Output, _cline_TaskResponse>;
+
+  taskCompletionViewChanges: grpc.handleUnaryCall<_cline_Int64Request__Output, _cline_Empty>;
+
+  taskFeedback: grpc.handleUnaryCall<_cline_StringRequest__Output, _cline_Empty>;
+
+  toggleTaskFavorite: grpc.handleUnaryCall<_cline_TaskFavoriteRequest__Output, _cline_Empty>;
+}
+
+export interface TaskServiceDefinition extends grpc.ServiceDefinition {
+  askResponse: MethodDefinition<
+    _cline_AskResponseRequest,
+    _cline_Empty,
+    _cline_AskResponseRequest__Output,
+    _cline_Empty__Output
+  >;
+  cancelBackgroundCommand: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  cancelTask: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  clearTask: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  deleteAllTaskHistory: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_DeleteAllTaskHistoryCount,
+    _cline_EmptyRequest__Output,
+    _cline_DeleteAllTaskHistoryCount__Output
+  >;
+  deleteTasksWithIds: MethodDefinition<
+    _cline_StringArrayRequest,
+    _cline_Empty,
+    _cline_StringArrayRequest__Output,
+    _cline_Empty__Output
+  >;
+  executeQuickWin: MethodDefinition<
+    _cline_ExecuteQuickWinRequest,
+    _cline_Empty,
+    _cline_ExecuteQuickWinRequest__Output,
+    _cline_Empty__Output
+  >;
+  exportTaskWithId: MethodDefinition<
+    _cline_StringRequest,
+    _cline_Empty,
+    _cline_StringRequest__Output,
+    _cline_Empty__Output
+  >;
+  getTaskHistory: MethodDefinition<
+    _cline_GetTaskHistoryRequest,
+    _cline_TaskHistoryArray,
+    _cline_GetTaskHistoryRequest__Output,
+    _cline_TaskHistoryArray__Output
+  >;
+  getTotalTasksSize: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Int64,
+    _cline_EmptyRequest__Output,
+    _cline_Int64__Output
+  >;
+  newTask: MethodDefinition<
+    _cline_NewTaskRequest,
+    _cline_String,
+    _cline_NewTaskRequest__Output,
+    _cline_String__Output
+  >;
+  showTaskWithId: MethodDefinition<
+    _cline_StringRequest,
+    _cline_TaskResponse,
+    _cline_StringRequest__Output,
+    _cline_TaskResponse__Output
+  >;
+  taskCompletionViewChanges: MethodDefinition<
+    _cline_Int64Request,
+    _cline_Empty,
+    _cline_Int64Request__Output,
+    _cline_Empty__Output
+  >;
+  taskFeedback: MethodDefinition<
+    _cline_StringRequest,
+    _cline_Empty,
+    _cline_StringRequest__Output,
+    _cline_Empty__Output
+  >;
+  toggleTaskFavorite: MethodDefinition<
+    _cline_TaskFavoriteRequest,
+    _cline_Empty,
+    _cline_TaskFavoriteRequest__Output,
+    _cline_Empty__Output
+  >;
+}
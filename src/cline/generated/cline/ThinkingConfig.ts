@@ -0,0 +1,17 @@
+// Original file: proto/cline/models.proto
+
+import type { Long } from "@grpc/proto-loader";
+
+export interface ThinkingConfig {
+  maxBudget?: number | string | Long;
+  outputPrice?: number | string;
+  _maxBudget?: "maxBudget";
+  _outputPrice?: "outputPrice";
+}
+
+export interface ThinkingConfig__Output {
+  maxBudget?: number;
+  outputPrice?: number;
+  _maxBudget?: "maxBudget";
+  _outputPrice?: "outputPrice";
+}
@@ -0,0 +1,28 @@
+// Original file: proto/cline/state.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+import type {
+  PlanActMode as _cline_PlanActMode,
+  PlanActMode__Output as _cline_PlanActMode__Output,
+} from "../cline/PlanActMode.js";
+import type {
+  ChatContent as _cline_ChatContent,
+  ChatContent__Output as _cline_ChatContent__Output,
+} from "../cline/ChatContent.js";
+
+export interface TogglePlanActModeRequest {
+  metadata?: _cline_Metadata | null;
+  mode?: _cline_PlanActMode;
+  chatContent?: _cline_ChatContent | null;
+  _chatContent?: "chatContent";
+}
+
+export interface TogglePlanActModeRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  mode: _cline_PlanActMode__Output;
+  chatContent?: _cline_ChatContent__Output | null;
+  _chatContent?: "chatContent";
+}
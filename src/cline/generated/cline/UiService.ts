@@ -0,0 +1,456 @@
+// Original file: proto/cline/ui.proto
+
+import type * as grpc from "@grpc/grpc-js";
+import type { MethodDefinition } from "@grpc/proto-loader";
+import type {
+  Boolean as _cline_Boolean,
+  Boolean__Output as _cline_Boolean__Output,
+} from "../cline/Boolean.js";
+import type {
+  BooleanRequest as _cline_BooleanRequest,
+  BooleanRequest__Output as _cline_BooleanRequest__Output,
+} from "../cline/BooleanRequest.js";
+import type {
+  ClineMessage as _cline_ClineMessage,
+  ClineMessage__Output as _cline_ClineMessage__Output,
+} from "../cline/ClineMessage.js";
+import type {
+  Empty as _cline_Empty,
+  Empty__Output as _cline_Empty__Output,
+} from "../cline/Empty.js";
+import type {
+  EmptyRequest as _cline_EmptyRequest,
+  EmptyRequest__Output as _cline_EmptyRequest__Output,
+} from "../cline/EmptyRequest.js";
+import type {
+  KeyValuePair as _cline_KeyValuePair,
+  KeyValuePair__Output as _cline_KeyValuePair__Output,
+} from "../cline/KeyValuePair.js";
+import type {
+  String as _cline_String,
+  String__Output as _cline_String__Output,
+} from "../cline/String.js";
+import type {
+  StringRequest as _cline_StringRequest,
+  StringRequest__Output as _cline_StringRequest__Output,
+} from "../cline/StringRequest.js";
+
+export interface UiServiceClient extends grpc.Client {
+  getWebviewHtml(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  getWebviewHtml(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  getWebviewHtml(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+  getWebviewHtml(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_String__Output>,
+  ): grpc.ClientUnaryCall;
+
+  initializeWebview(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  initializeWebview(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  initializeWebview(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  initializeWebview(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  onDidShowAnnouncement(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+  onDidShowAnnouncement(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+  onDidShowAnnouncement(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+  onDidShowAnnouncement(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_Boolean__Output>,
+  ): grpc.ClientUnaryCall;
+
+  openUrl(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  openUrl(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  openUrl(
+    argument: _cline_StringRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  openUrl(
+    argument: _cline_StringRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  openWalkthrough(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  openWalkthrough(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  openWalkthrough(
+    argument: _cline_EmptyRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+  openWalkthrough(
+    argument: _cline_EmptyRequest,
+    callback: grpc.requestCallback<_cline_Empty__Output>,
+  ): grpc.ClientUnaryCall;
+
+  scrollToSettings(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+  scrollToSettings(
+    argument: _cline_StringRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+  scrollToSettings(
+    argument: _cline_StringRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+  scrollToSettings(
+    argument: _cline_StringRequest,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+
+  setTerminalExecutionMode(
+    argument: _cline_BooleanRequest,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+  setTerminalExecutionMode(
+    argument: _cline_BooleanRequest,
+    metadata: grpc.Metadata,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+  setTerminalExecutionMode(
+    argument: _cline_BooleanRequest,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+  setTerminalExecutionMode(
+    argument: _cline_BooleanRequest,
+    callback: grpc.requestCallback<_cline_KeyValuePair__Output>,
+  ): grpc.ClientUnaryCall;
+
+  subscribeToAccountButtonClicked(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToAccountButtonClicked(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+
+  subscribeToAddToInput(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_String__Output>;
+  subscribeToAddToInput(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_String__Output>;
+
+  subscribeToChatButtonClicked(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToChatButtonClicked(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+
+  subscribeToDidBecomeVisible(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToDidBecomeVisible(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+
+  subscribeToFocusChatInput(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToFocusChatInput(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+
+  subscribeToHistoryButtonClicked(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToHistoryButtonClicked(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+
+  subscribeToMcpButtonClicked(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToMcpButtonClicked(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+
+  subscribeToPartialMessage(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_ClineMessage__Output>;
+  subscribeToPartialMessage(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_ClineMessage__Output>;
+
+  subscribeToRelinquishControl(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToRelinquishControl(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+
+  subscribeToSettingsButtonClicked(
+    argument: _cline_EmptyRequest,
+    metadata: grpc.Metadata,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+  subscribeToSettingsButtonClicked(
+    argument: _cline_EmptyRequest,
+    options?: grpc.CallOptions,
+  ): grpc.ClientReadableStream<_cline_Empty__Output>;
+}
+
+export interface UiServiceHandlers extends grpc.UntypedServiceImplementation {
+  getWebviewHtml: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_String>;
+
+  initializeWebview: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_Empty>;
+
+  onDidShowAnnouncement: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_Boolean>;
+
+  openUrl: grpc.handleUnaryCall<_cline_StringRequest__Output, _cline_Empty>;
+
+  openWalkthrough: grpc.handleUnaryCall<_cline_EmptyRequest__Output, _cline_Empty>;
+
+  scrollToSettings: grpc.handleUnaryCall<_cline_StringRequest__Output, _cline_KeyValuePair>;
+
+  setTerminalExecutionMode: grpc.handleUnaryCall<
+    _cline_BooleanRequest__Output,
+    _cline_KeyValuePair
+  >;
+
+  subscribeToAccountButtonClicked: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+
+  subscribeToAddToInput: grpc.handleServerStreamingCall<_cline_EmptyRequest__Output, _cline_String>;
+
+  subscribeToChatButtonClicked: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+
+  subscribeToDidBecomeVisible: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+
+  subscribeToFocusChatInput: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+
+  subscribeToHistoryButtonClicked: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+
+  subscribeToMcpButtonClicked: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+
+  subscribeToPartialMessage: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_ClineMessage
+  >;
+
+  subscribeToRelinquishControl: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+
+  subscribeToSettingsButtonClicked: grpc.handleServerStreamingCall<
+    _cline_EmptyRequest__Output,
+    _cline_Empty
+  >;
+}
+
+export interface UiServiceDefinition extends grpc.ServiceDefinition {
+  getWebviewHtml: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_String,
+    _cline_EmptyRequest__Output,
+    _cline_String__Output
+  >;
+  initializeWebview: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  onDidShowAnnouncement: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Boolean,
+    _cline_EmptyRequest__Output,
+    _cline_Boolean__Output
+  >;
+  openUrl: MethodDefinition<
+    _cline_StringRequest,
+    _cline_Empty,
+    _cline_StringRequest__Output,
+    _cline_Empty__Output
+  >;
+  openWalkthrough: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  scrollToSettings: MethodDefinition<
+    _cline_StringRequest,
+    _cline_KeyValuePair,
+    _cline_StringRequest__Output,
+    _cline_KeyValuePair__Output
+  >;
+  setTerminalExecutionMode: MethodDefinition<
+    _cline_BooleanRequest,
+    _cline_KeyValuePair,
+    _cline_BooleanRequest__Output,
+    _cline_KeyValuePair__Output
+  >;
+  subscribeToAccountButtonClicked: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToAddToInput: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_String,
+    _cline_EmptyRequest__Output,
+    _cline_String__Output
+  >;
+  subscribeToChatButtonClicked: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToDidBecomeVisible: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToFocusChatInput: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToHistoryButtonClicked: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToMcpButtonClicked: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToPartialMessage: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_ClineMessage,
+    _cline_EmptyRequest__Output,
+    _cline_ClineMessage__Output
+  >;
+  subscribeToRelinquishControl: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+  subscribeToSettingsButtonClicked: MethodDefinition<
+    _cline_EmptyRequest,
+    _cline_Empty,
+    _cline_EmptyRequest__Output,
+    _cline_Empty__Output
+  >;
+}
@@ -0,0 +1,40 @@
+// Original file: proto/cline/browser.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+import type {
+  Viewport as _cline_Viewport,
+  Viewport__Output as _cline_Viewport__Output,
+} from "../cline/Viewport.js";
+
+export interface UpdateBrowserSettingsRequest {
+  metadata?: _cline_Metadata | null;
+  viewport?: _cline_Viewport | null;
+  remoteBrowserHost?: string;
+  remoteBrowserEnabled?: boolean;
+  chromeExecutablePath?: string;
+  disableToolUse?: boolean;
+  customArgs?: string;
+  _remoteBrowserHost?: "remoteBrowserHost";
+  _remoteBrowserEnabled?: "remoteBrowserEnabled";
+  _chromeExecutablePath?: "chromeExecutablePath";
+  _disableToolUse?: "disableToolUse";
+  _customArgs?: "customArgs";
+}
+
+export interface UpdateBrowserSettingsRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  viewport: _cline_Viewport__Output | null;
+  remoteBrowserHost?: string;
+  remoteBrowserEnabled?: boolean;
+  chromeExecutablePath?: string;
+  disableToolUse?: boolean;
+  customArgs?: string;
+  _remoteBrowserHost?: "remoteBrowserHost";
+  _remoteBrowserEnabled?: "remoteBrowserEnabled";
+  _chromeExecutablePath?: "chromeExecutablePath";
+  _disableToolUse?: "disableToolUse";
+  _customArgs?: "customArgs";
+}
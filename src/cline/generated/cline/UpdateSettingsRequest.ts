@@ -0,0 +1,34 @@
+// Original file: proto/cline/state.proto
+
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "../cline/Metadata.js";
+import type {
+  ModelsApiConfiguration as _cline_ModelsApiConfiguration,
+  ModelsApiConfiguration__Output as _cline_ModelsApiConfiguration__Output,
+} from "../cline/ModelsApiConfiguration.js";
+import type {
+  PlanActMode as _cline_PlanActMode,
+  PlanActMode__Output as _cline_PlanActMode__Output,
+} from "../cline/PlanActMode.js";
+
+export interface UpdateSettingsRequest {
+  metadata?: _cline_Metadata | null;
+  apiConfiguration?: _cline_ModelsApiConfiguration | null;
+  mode?: _cline_PlanActMode;
+  yoloModeToggled?: boolean;
+  _apiConfiguration?: "apiConfiguration";
+  _mode?: "mode";
+  _yoloModeToggled?: "yoloModeToggled";
+}
+
+export interface UpdateSettingsRequest__Output {
+  metadata: _cline_Metadata__Output | null;
+  apiConfiguration?: _cline_ModelsApiConfiguration__Output | null;
+  mode?: _cline_PlanActMode__Output;
+  yoloModeToggled?: boolean;
+  _apiConfiguration?: "apiConfiguration";
+  _mode?: "mode";
+  _yoloModeToggled?: "yoloModeToggled";
+}
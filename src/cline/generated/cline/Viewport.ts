@@ -0,0 +1,11 @@
+// Original file: proto/cline/browser.proto
+
+export interface Viewport {
+  width?: number;
+  height?: number;
+}
+
+export interface Viewport__Output {
+  width: number;
+  height: number;
+}
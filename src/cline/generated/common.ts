@@ -0,0 +1,119 @@
+import type * as grpc from "@grpc/grpc-js";
+import type { EnumTypeDefinition, MessageTypeDefinition } from "@grpc/proto-loader";
+
+import type {
+  Boolean as _cline_Boolean,
+  Boolean__Output as _cline_Boolean__Output,
+} from "./cline/Boolean.js";
+import type {
+  BooleanRequest as _cline_BooleanRequest,
+  BooleanRequest__Output as _cline_BooleanRequest__Output,
+} from "./cline/BooleanRequest.js";
+import type {
+  BooleanResponse as _cline_BooleanResponse,
+  BooleanResponse__Output as _cline_BooleanResponse__Output,
+} from "./cline/BooleanResponse.js";
+import type {
+  Bytes as _cline_Bytes,
+  Bytes__Output as _cline_Bytes__Output,
+} from "./cline/Bytes.js";
+import type {
+  BytesRequest as _cline_BytesRequest,
+  BytesRequest__Output as _cline_BytesRequest__Output,
+} from "./cline/BytesRequest.js";
+import type {
+  Diagnostic as _cline_Diagnostic,
+  Diagnostic__Output as _cline_Diagnostic__Output,
+} from "./cline/Diagnostic.js";
+import type {
+  DiagnosticPosition as _cline_DiagnosticPosition,
+  DiagnosticPosition__Output as _cline_DiagnosticPosition__Output,
+} from "./cline/DiagnosticPosition.js";
+import type {
+  DiagnosticRange as _cline_DiagnosticRange,
+  DiagnosticRange__Output as _cline_DiagnosticRange__Output,
+} from "./cline/DiagnosticRange.js";
+import type {
+  Empty as _cline_Empty,
+  Empty__Output as _cline_Empty__Output,
+} from "./cline/Empty.js";
+import type {
+  EmptyRequest as _cline_EmptyRequest,
+  EmptyRequest__Output as _cline_EmptyRequest__Output,
+} from "./cline/EmptyRequest.js";
+import type {
+  FileDiagnostics as _cline_FileDiagnostics,
+  FileDiagnostics__Output as _cline_FileDiagnostics__Output,
+} from "./cline/FileDiagnostics.js";
+import type {
+  Int64 as _cline_Int64,
+  Int64__Output as _cline_Int64__Output,
+} from "./cline/Int64.js";
+import type {
+  Int64Request as _cline_Int64Request,
+  Int64Request__Output as _cline_Int64Request__Output,
+} from "./cline/Int64Request.js";
+import type {
+  KeyValuePair as _cline_KeyValuePair,
+  KeyValuePair__Output as _cline_KeyValuePair__Output,
+} from "./cline/KeyValuePair.js";
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "./cline/Metadata.js";
+import type {
+  String as _cline_String,
+  String__Output as _cline_String__Output,
+} from "./cline/String.js";
+import type {
+  StringArray as _cline_StringArray,
+  StringArray__Output as _cline_StringArray__Output,
+} from "./cline/StringArray.js";
+import type {
+  StringArrayRequest as _cline_StringArrayRequest,
+  StringArrayRequest__Output as _cline_StringArrayRequest__Output,
+} from "./cline/StringArrayRequest.js";
+import type {
+  StringArrays as _cline_StringArrays,
+  StringArrays__Output as _cline_StringArrays__Output,
+} from "./cline/StringArrays.js";
+import type {
+  StringRequest as _cline_StringRequest,
+  StringRequest__Output as _cline_StringRequest__Output,
+} from "./cline/StringRequest.js";
+
+type SubtypeConstructor<Constructor extends new (...args: any) => any, Subtype> = {
+  new (...args: ConstructorParameters<Constructor>): Subtype;
+};
+
+export interface ProtoGrpcType {
+  cline: {
+    Boolean: MessageTypeDefinition<_cline_Boolean, _cline_Boolean__Output>;
+    BooleanRequest: MessageTypeDefinition<_cline_BooleanRequest, _cline_BooleanRequest__Output>;
+    BooleanResponse: MessageTypeDefinition<_cline_BooleanResponse, _cline_BooleanResponse__Output>;
+    Bytes: MessageTypeDefinition<_cline_Bytes, _cline_Bytes__Output>;
+    BytesRequest: MessageTypeDefinition<_cline_BytesRequest, _cline_BytesRequest__Output>;
+    Diagnostic: MessageTypeDefinition<_cline_Diagnostic, _cline_Diagnostic__Output>;
+    DiagnosticPosition: MessageTypeDefinition<
+      _cline_DiagnosticPosition,
+      _cline_DiagnosticPosition__Output
+    >;
+    DiagnosticRange: MessageTypeDefinition<_cline_DiagnosticRange, _cline_DiagnosticRange__Output>;
+    DiagnosticSeverity: EnumTypeDefinition;
+    Empty: MessageTypeDefinition<_cline_Empty, _cline_Empty__Output>;
+    EmptyRequest: MessageTypeDefinition<_cline_EmptyRequest, _cline_EmptyRequest__Output>;
+    FileDiagnostics: MessageTypeDefinition<_cline_FileDiagnostics, _cline_FileDiagnostics__Output>;
+    Int64: MessageTypeDefinition<_cline_Int64, _cline_Int64__Output>;
+    Int64Request: MessageTypeDefinition<_cline_Int64Request, _cline_Int64Request__Output>;
+    KeyValuePair: MessageTypeDefinition<_cline_KeyValuePair, _cline_KeyValuePair__Output>;
+    Metadata: MessageTypeDefinition<_cline_Metadata, _cline_Metadata__Output>;
+    String: MessageTypeDefinition<_cline_String, _cline_String__Output>;
+    StringArray: MessageTypeDefinition<_cline_StringArray, _cline_StringArray__Output>;
+    StringArrayRequest: MessageTypeDefinition<
+      _cline_StringArrayRequest,
+      _cline_StringArrayRequest__Output
+    >;
+    StringArrays: MessageTypeDefinition<_cline_StringArrays, _cline_StringArrays__Output>;
+    StringRequest: MessageTypeDefinition<_cline_StringRequest, _cline_StringRequest__Output>;
+  };
+}
@@ -0,0 +1,270 @@
+import type * as grpc from "@grpc/grpc-js";
+import type { EnumTypeDefinition, MessageTypeDefinition } from "@grpc/proto-loader";
+
+import type {
+  AutoApprovalActions as _cline_AutoApprovalActions,
+  AutoApprovalActions__Output as _cline_AutoApprovalActions__Output,
+} from "./cline/AutoApprovalActions.js";
+import type {
+  AutoApprovalSettings as _cline_AutoApprovalSettings,
+  AutoApprovalSettings__Output as _cline_AutoApprovalSettings__Output,
+} from "./cline/AutoApprovalSettings.js";
+import type {
+  AutoApprovalSettingsRequest as _cline_AutoApprovalSettingsRequest,
+  AutoApprovalSettingsRequest__Output as _cline_AutoApprovalSettingsRequest__Output,
+} from "./cline/AutoApprovalSettingsRequest.js";
+import type {
+  Boolean as _cline_Boolean,
+  Boolean__Output as _cline_Boolean__Output,
+} from "./cline/Boolean.js";
+import type {
+  BooleanRequest as _cline_BooleanRequest,
+  BooleanRequest__Output as _cline_BooleanRequest__Output,
+} from "./cline/BooleanRequest.js";
+import type {
+  BooleanResponse as _cline_BooleanResponse,
+  BooleanResponse__Output as _cline_BooleanResponse__Output,
+} from "./cline/BooleanResponse.js";
+import type {
+  Bytes as _cline_Bytes,
+  Bytes__Output as _cline_Bytes__Output,
+} from "./cline/Bytes.js";
+import type {
+  BytesRequest as _cline_BytesRequest,
+  BytesRequest__Output as _cline_BytesRequest__Output,
+} from "./cline/BytesRequest.js";
+import type {
+  ChatContent as _cline_ChatContent,
+  ChatContent__Output as _cline_ChatContent__Output,
+} from "./cline/ChatContent.js";
+import type {
+  Diagnostic as _cline_Diagnostic,
+  Diagnostic__Output as _cline_Diagnostic__Output,
+} from "./cline/Diagnostic.js";
+import type {
+  DiagnosticPosition as _cline_DiagnosticPosition,
+  DiagnosticPosition__Output as _cline_DiagnosticPosition__Output,
+} from "./cline/DiagnosticPosition.js";
+import type {
+  DiagnosticRange as _cline_DiagnosticRange,
+  DiagnosticRange__Output as _cline_DiagnosticRange__Output,
+} from "./cline/DiagnosticRange.js";
+import type {
+  Empty as _cline_Empty,
+  Empty__Output as _cline_Empty__Output,
+} from "./cline/Empty.js";
+import type {
+  EmptyRequest as _cline_EmptyRequest,
+  EmptyRequest__Output as _cline_EmptyRequest__Output,
+} from "./cline/EmptyRequest.js";
+import type {
+  FileDiagnostics as _cline_FileDiagnostics,
+  FileDiagnostics__Output as _cline_FileDiagnostics__Output,
+} from "./cline/FileDiagnostics.js";
+import type {
+  Int64 as _cline_Int64,
+  Int64__Output as _cline_Int64__Output,
+} from "./cline/Int64.js";
+import type {
+  Int64Request as _cline_Int64Request,
+  Int64Request__Output as _cline_Int64Request__Output,
+} from "./cline/Int64Request.js";
+import type {
+  KeyValuePair as _cline_KeyValuePair,
+  KeyValuePair__Output as _cline_KeyValuePair__Output,
+} from "./cline/KeyValuePair.js";
+import type {
+  LanguageModelChatSelector as _cline_LanguageModelChatSelector,
+  LanguageModelChatSelector__Output as _cline_LanguageModelChatSelector__Output,
+} from "./cline/LanguageModelChatSelector.js";
+import type {
+  LiteLLMModelInfo as _cline_LiteLLMModelInfo,
+  LiteLLMModelInfo__Output as _cline_LiteLLMModelInfo__Output,
+} from "./cline/LiteLLMModelInfo.js";
+import type {
+  Metadata as _cline_Metadata,
+  Metadata__Output as _cline_Metadata__Output,
+} from "./cline/Metadata.js";
+import type {
+  ModelTier as _cline_ModelTier,
+  ModelTier__Output as _cline_ModelTier__Output,
+} from "./cline/ModelTier.js";
+import type {
+  ModelsApiConfiguration as _cline_ModelsApiConfiguration,
+  ModelsApiConfiguration__Output as _cline_ModelsApiConfiguration__Output,
+} from "./cline/ModelsApiConfiguration.js";
+import type {
+  ModelsServiceClient as _cline_ModelsServiceClient,
+  ModelsServiceDefinition as _cline_ModelsServiceDefinition,
+} from "./cline/ModelsService.js";
+import type {
+  OcaModelInfo as _cline_OcaModelInfo,
+  OcaModelInfo__Output as _cline_OcaModelInfo__Output,
+} from "./cline/OcaModelInfo.js";
+import type {
+  OpenAiCompatibleModelInfo as _cline_OpenAiCompatibleModelInfo,
+  OpenAiCompatibleModelInfo__Output as _cline_OpenAiCompatibleModelInfo__Output,
+} from "./cline/OpenAiCompatibleModelInfo.js";
+import type {
+  OpenAiModelsRequest as _cline_OpenAiModelsRequest,
+  OpenAiModelsRequest__Output as _cline_OpenAiModelsRequest__Output,
+} from "./cline/OpenAiModelsRequest.js";
+import type {
+  OpenRouterCompatibleModelInfo as _cline_OpenRouterCompatibleModelInfo,
+  OpenRouterCompatibleModelInfo__Output as _cline_OpenRouterCompatibleModelInfo__Output,
+} from "./cline/OpenRouterCompatibleModelInfo.js";
+import type {
+  OpenRouterModelInfo as _cline_OpenRouterModelInfo,
+  OpenRouterModelInfo__Output as _cline_OpenRouterModelInfo__Output,
+} from "./cline/OpenRouterModelInfo.js";
+import type {
+  ProcessInfo as _cline_ProcessInfo,
+  ProcessInfo__Output as _cline_ProcessInfo__Output,
+} from "./cline/ProcessInfo.js";
+import type {
+  ResetStateRequest as _cline_ResetStateRequest,
+  ResetStateRequest__Output as _cline_ResetStateRequest__Output,
+} from "./cline/ResetStateRequest.js";
+import type {
+  State as _cline_State,
+  State__Output as _cline_State__Output,
+} from "./cline/State.js";
+import type {
+  StateServiceClient as _cline_StateServiceClient,
+  StateServiceDefinition as _cline_StateServiceDefinition,
+} from "./cline/StateService.js";
+import type {
+  String as _cline_String,
+  String__Output as _cline_String__Output,
+} from "./cline/String.js";
+import type {
+  StringArray as _cline_StringArray,
+  StringArray__Output as _cline_StringArray__Output,
+} from "./cline/StringArray.js";
+import type {
+  StringArrayRequest as _cline_StringArrayRequest,
+  StringArrayRequest__Output as _cline_StringArrayRequest__Output,
+} from "./cline/StringArrayRequest.js";
+import type {
+  StringArrays as _cline_StringArrays,
+  StringArrays__Output as _cline_StringArrays__Output,
+} from "./cline/StringArrays.js";
+import type {
+  StringRequest as _cline_StringRequest,
+  StringRequest__Output as _cline_StringRequest__Output,
+} from "./cline/StringRequest.js";
+import type {
+  ThinkingConfig as _cline_ThinkingConfig,
+  ThinkingConfig__Output as _cline_ThinkingConfig__Output,
+} from "./cline/ThinkingConfig.js";
+import type {
+  TogglePlanActModeRequest as _cline_TogglePlanActModeRequest,
+  TogglePlanActModeRequest__Output as _cline_TogglePlanActModeRequest__Output,
+} from "./cline/TogglePlanActModeRequest.js";
+import type {
+  UpdateSettingsRequest as _cline_UpdateSettingsRequest,
+  UpdateSettingsRequest__Output as _cline_UpdateSettingsRequest__Output,
+} from "./cline/UpdateSettingsRequest.js";
+
+type SubtypeConstructor<Constructor extends new (...args: any) => any, Subtype> = {
+  new (...args: ConstructorParameters<Constructor>): Subtype;
+};
+
+export interface ProtoGrpcType {
+  cline: {
+    ApiFormat: EnumTypeDefinition;
+    ApiProvider: EnumTypeDefinition;
+    AutoApprovalActions: MessageTypeDefinition<
+      _cline_AutoApprovalActions,
+      _cline_AutoApprovalActions__Output
+    >;
+    AutoApprovalSettings: MessageTypeDefinition<
+      _cline_AutoApprovalSettings,
+      _cline_AutoApprovalSettings__Output
+    >;
+    AutoApprovalSettingsRequest: MessageTypeDefinition<
+      _cline_AutoApprovalSettingsRequest,
+      _cline_AutoApprovalSettingsRequest__Output
+    >;
+    Boolean: MessageTypeDefinition<_cline_Boolean, _cline_Boolean__Output>;
+    BooleanRequest: MessageTypeDefinition<_cline_BooleanRequest, _cline_BooleanRequest__Output>;
+    BooleanResponse: MessageTypeDefinition<_cline_BooleanResponse, _cline_BooleanResponse__Output>;
+    Bytes: MessageTypeDefinition<_cline_Bytes, _cline_Bytes__Output>;
+    BytesRequest: MessageTypeDefinition<_cline_BytesRequest, _cline_BytesRequest__Output>;
+    ChatContent: MessageTypeDefinition<_cline_ChatContent, _cline_ChatContent__Output>;
+    Diagnostic: MessageTypeDefinition<_cline_Diagnostic, _cline_Diagnostic__Output>;
+    DiagnosticPosition: MessageTypeDefinition<
+      _cline_DiagnosticPosition,
+      _cline_DiagnosticPosition__Output
+    >;
+    DiagnosticRange: MessageTypeDefinition<_cline_DiagnosticRange, _cline_DiagnosticRange__Output>;
+    DiagnosticSeverity: EnumTypeDefinition;
+    Empty: MessageTypeDefinition<_cline_Empty, _cline_Empty__Output>;
+    EmptyRequest: MessageTypeDefinition<_cline_EmptyRequest, _cline_EmptyRequest__Output>;
+    FileDiagnostics: MessageTypeDefinition<_cline_FileDiagnostics, _cline_FileDiagnostics__Output>;
+    Int64: MessageTypeDefinition<_cline_Int64, _cline_Int64__Output>;
+    Int64Request: MessageTypeDefinition<_cline_Int64Request, _cline_Int64Request__Output>;
+    KeyValuePair: MessageTypeDefinition<_cline_KeyValuePair, _cline_KeyValuePair__Output>;
+    LanguageModelChatSelector: MessageTypeDefinition<
+      _cline_LanguageModelChatSelector,
+      _cline_LanguageModelChatSelector__Output
+    >;
+    LiteLLMModelInfo: MessageTypeDefinition<
+      _cline_LiteLLMModelInfo,
+      _cline_LiteLLMModelInfo__Output
+    >;
+    Metadata: MessageTypeDefinition<_cline_Metadata, _cline_Metadata__Output>;
+    ModelTier: MessageTypeDefinition<_cline_ModelTier, _cline_ModelTier__Output>;
+    ModelsApiConfiguration: MessageTypeDefinition<
+      _cline_ModelsApiConfiguration,
+      _cline_ModelsApiConfiguration__Output
+    >;
+    ModelsService: SubtypeConstructor<typeof grpc.Client, _cline_ModelsServiceClient> & {
+      service: _cline_ModelsServiceDefinition;
+    };
+    OcaModelInfo: MessageTypeDefinition<_cline_OcaModelInfo, _cline_OcaModelInfo__Output>;
+    OpenAiCompatibleModelInfo: MessageTypeDefinition<
+      _cline_OpenAiCompatibleModelInfo,
+      _cline_OpenAiCompatibleModelInfo__Output
+    >;
+    OpenAiModelsRequest: MessageTypeDefinition<
+      _cline_OpenAiModelsRequest,
+      _cline_OpenAiModelsRequest__Output
+    >;
+    OpenRouterCompatibleModelInfo: MessageTypeDefinition<
+      _cline_OpenRouterCompatibleModelInfo,
+      _cline_OpenRouterCompatibleModelInfo__Output
+    >;
+    OpenRouterModelInfo: MessageTypeDefinition<
+      _cline_OpenRouterModelInfo,
+      _cline_OpenRouterModelInfo__Output
+    >;
+    PlanActMode: EnumTypeDefinition;
+    ProcessInfo: MessageTypeDefinition<_cline_ProcessInfo, _cline_ProcessInfo__Output>;
+    ResetStateRequest: MessageTypeDefinition<
+      _cline_ResetStateRequest,
+      _cline_ResetStateRequest__Output
+    >;
+    State: MessageTypeDefinition<_cline_State, _cline_State__Output>;
+    StateService: SubtypeConstructor<typeof grpc.Client, _cline_StateServiceClient> & {
+      service: _cline_StateServiceDefinition;
+    };
+    String: MessageTypeDefinition<_cline_String, _cline_String__Output>;
+    StringArray: MessageTypeDefinition<_cline_StringArray, _cline_StringArray__Output>;
+    StringArrayRequest: MessageTypeDefinition<
+      _cline_StringArrayRequest,
+      _cline_StringArrayRequest__Output
+    >;
+    StringArrays: MessageTypeDefinition<_cline_StringArrays, _cline_StringArrays__Output>;
+    StringRequest: MessageTypeDefinition<_cline_StringRequest, _cline_StringRequest__Output>;
+    ThinkingConfig: MessageTypeDefinition<_cline_ThinkingConfig, _cline_ThinkingConfig__Output>;
+    TogglePlanActModeRequest: MessageTypeDefinition<
+      _cline_TogglePlanActModeRequest,
+      _cline_TogglePlanActModeRequest__Output
+    >;
+    UpdateSettingsRequest: MessageTypeDefinition<
+      _cline_UpdateSettingsRequest,
+      _cline_UpdateSettingsRequest__Output
+    >;
+  };
+}
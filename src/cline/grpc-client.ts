@@ -7,13 +7,12 @@ import * as protoLoader from "@grpc/proto-loader";
 import * as path from "path";
 import * as fs from "fs";
 import { fileURLToPath } from "url";
-import {
-  ClineClient,
-  ClineMessage,
-  StateUpdate,
-  AsyncIterableStream,
-  OpenRouterModelsResponse,
-} from "./types.js";
+import { ClineClient, AsyncIterableStream, PromisifiedService, RpcCallOptions } from "./types.js";
+import type { ProtoGrpcType as TaskProto } from "./generated/task.js";
+import type { ProtoGrpcType as StateProto } from "./generated/state.js";
+import type { ProtoGrpcType as UiProto } from "./generated/ui.js";
+import type { ProtoGrpcType as ModelsProto } from "./generated/models.js";
+import type { ProtoGrpcType as BrowserProto } from "./generated/browser.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -40,7 +39,8 @@ function findProtoDir(): string {
 
 const PROTO_DIR = findProtoDir();
 
-// Proto loader options
+// Proto loader options - the generate:proto script passes the same ones, so the
+// generated types describe what the loader actually returns
 const PROTO_OPTIONS: protoLoader.Options = {
   keepCase: false,
   longs: Number,
@@ -50,37 +50,222 @@ const PROTO_OPTIONS: protoLoader.Options = {
   includeDirs: [PROTO_DIR],
 };
 
-// gRPC service clients
-interface GrpcServiceClient {
-  [key: string]: (...args: unknown[]) => unknown;
+// The cline package, with the services from every proto file
+type ClinePackage = TaskProto["cline"] &
+  StateProto["cline"] &
+  UiProto["cline"] &
+  ModelsProto["cline"] &
+  BrowserProto["cline"];
+
+const PROTO_FILES = ["task", "state", "ui", "models", "browser"].map((name) =>
+  path.join(PROTO_DIR, "cline", `${name}.proto`),
+);
+
+// Local instances come up within seconds - reconnect quickly instead of backing off
+// for up to two minutes as gRPC does by default
+const CHANNEL_OPTIONS: grpc.ChannelOptions = {
+  "grpc.initial_reconnect_backoff_ms": 250,
+  "grpc.max_reconnect_backoff_ms": 1000,
+};
+
+// Parsed on first use and kept for the life of the process
+let clinePackage: ClinePackage | null = null;
+
+// One channel per address and set of credentials, shared by every client and service
+// stub that connects the same way
+const channels = new Map<string, Map<string, grpc.Channel>>();
+
+function loadClinePackage(): ClinePackage {
+  if (!clinePackage) {
+    const packageDef = protoLoader.loadSync(PROTO_FILES, PROTO_OPTIONS);
+    clinePackage = (grpc.loadPackageDefinition(packageDef) as unknown as { cline: ClinePackage })
+      .cline;
+  }
+  return clinePackage;
+}
+
+function getChannel(address: string, tls?: ClineTlsOptions): grpc.Channel {
+  let byCredentials = channels.get(address);
+  if (!byCredentials) {
+    byCredentials = new Map();
+    channels.set(address, byCredentials);
+  }
+  const key = JSON.stringify(tls ?? null);
+  let channel = byCredentials.get(key);
+  if (!channel || channel.getConnectivityState(false) === grpc.connectivityState.SHUTDOWN) {
+    channel = new grpc.Channel(address, createCredentials(tls), CHANNEL_OPTIONS);
+    byCredentials.set(key, channel);
+  }
+  return channel;
 }
 
 /**
- * Load proto definition and create client
+ * Close the shared channels to an address, e.g. once its instance has been stopped
+ * Clients created afterwards open new ones
  */
-function loadProtoClient(
-  protoFile: string,
-  serviceName: string,
-  address: string,
-): GrpcServiceClient {
-  const packageDef = protoLoader.loadSync(protoFile, PROTO_OPTIONS);
-  const grpcObject = grpc.loadPackageDefinition(packageDef);
+export function closeClineChannel(address: string): void {
+  for (const channel of channels.get(address)?.values() ?? []) {
+    channel.close();
+  }
+  channels.delete(address);
+}
 
-  // Navigate to the service (cline.ServiceName)
-  const clinePackage = grpcObject.cline as Record<string, unknown>;
-  const ServiceClass = clinePackage[serviceName] as new (
-    address: string,
-    credentials: grpc.ChannelCredentials,
-  ) => GrpcServiceClient;
+export interface ClineClientOptions {
+  // Deadline for unary RPCs (default: 30 seconds, 0 disables). Streams have none.
+  deadlineMs?: number;
+  // Deadlines for specific RPCs, by name (e.g. { refreshOpenRouterModelsRpc: 60000 })
+  deadlines?: Record<string, number>;
+  // Extra attempts for read-only RPCs that fail with UNAVAILABLE or DEADLINE_EXCEEDED
+  // (default: 2)
+  retries?: number;
+  // Delay before the first retry, doubled for each one after it (default: 250 ms)
+  retryDelayMs?: number;
+  // Connect over TLS instead of plaintext
+  tls?: ClineTlsOptions;
+}
+
+/**
+ * TLS settings for a Cline instance that isn't on this machine
+ */
+export interface ClineTlsOptions {
+  // PEM file with the CA that signed the server's certificate (default: the system CAs)
+  caFile?: string;
+  // PEM files with a client certificate and its key, for servers that require one
+  certFile?: string;
+  keyFile?: string;
+  // Sent with every call as "authorization: Bearer <token>"
+  token?: string;
+}
+
+// host:port, with IPv6 hosts in brackets
+const HOST_PORT = /^([^/:[\]]+|\[[^\]]+\]):\d+$/;
+
+/**
+ * Parse an address given by the user into a gRPC target
+ * Accepts host:port, unix:/path/to/socket (or just the path) and tls://host:port;
+ * secure is true for the tls:// form
+ */
+export function parseClineAddress(value: string): { address: string; secure: boolean } {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("tls://")) {
+    const address = trimmed.slice("tls://".length);
+    if (HOST_PORT.test(address)) {
+      return { address, secure: true };
+    }
+  } else if (trimmed.startsWith("unix:") || trimmed.startsWith("/")) {
+    const socketPath = trimmed.replace(/^unix:(\/\/)?/, "");
+    if (socketPath.startsWith("/")) {
+      return { address: `unix:${socketPath}`, secure: false };
+    }
+  } else if (HOST_PORT.test(trimmed)) {
+    return { address: trimmed, secure: false };
+  }
+  throw new Error(
+    `Invalid Cline address "${value}" - expected host:port, unix:/path/to/socket or tls://host:port`,
+  );
+}
+
+function createCredentials(tls?: ClineTlsOptions): grpc.ChannelCredentials {
+  if (!tls) {
+    return grpc.credentials.createInsecure();
+  }
+  const read = (file?: string) => (file ? fs.readFileSync(file) : null);
+  const credentials = grpc.credentials.createSsl(
+    read(tls.caFile),
+    read(tls.keyFile),
+    read(tls.certFile),
+  );
+  if (!tls.token) {
+    return credentials;
+  }
+  const authorization = `Bearer ${tls.token}`;
+  return grpc.credentials.combineChannelCredentials(
+    credentials,
+    grpc.credentials.createFromMetadataGenerator((_params, callback) => {
+      const metadata = new grpc.Metadata();
+      metadata.set("authorization", authorization);
+      callback(null, metadata);
+    }),
+  );
+}
+
+const DEFAULT_DEADLINE_MS = 30 * 1000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+// RPCs that only read state, so a failed attempt can safely be repeated
+const IDEMPOTENT_RPCS = new Set([
+  "getLatestState",
+  "getProcessInfo",
+  "getTaskHistory",
+  "getTotalTasksSize",
+  "refreshOpenRouterModelsRpc",
+  "refreshOpenAiModels",
+  "refreshRequestyModels",
+  "refreshGroqModelsRpc",
+  "refreshHuggingFaceModels",
+  "refreshBasetenModelsRpc",
+  "refreshVercelAiGatewayModelsRpc",
+  "getBrowserConnectionInfo",
+  "getDetectedChromePath",
+]);
 
-  return new ServiceClass(address, grpc.credentials.createInsecure());
+/**
+ * A Cline RPC that failed
+ * Subclasses tell apart the failures callers handle differently
+ */
+export class ClineRpcError extends Error {
+  readonly rpc: string;
+  readonly code: grpc.status;
+
+  constructor(rpc: string, code: grpc.status, details: string) {
+    super(`${rpc} failed: ${details}`);
+    this.name = new.target.name;
+    this.rpc = rpc;
+    this.code = code;
+  }
+}
+
+// cline-core can't be reached - it isn't running, crashed, or the connection dropped
+export class ClineUnavailableError extends ClineRpcError {}
+
+// cline-core didn't answer before the call's deadline
+export class ClineDeadlineError extends ClineRpcError {}
+
+// cline-core answered with an error of its own
+export class ClineApplicationError extends ClineRpcError {}
+
+/**
+ * Wrap a gRPC failure in the matching ClineRpcError
+ * Errors that didn't come from gRPC are returned unchanged
+ */
+export function toClineRpcError(rpc: string, error: unknown): unknown {
+  const serviceError = error as Partial<grpc.ServiceError>;
+  if (!(error instanceof Error) || typeof serviceError.code !== "number") {
+    return error;
+  }
+  const details = serviceError.details || error.message;
+  switch (serviceError.code) {
+    case grpc.status.UNAVAILABLE:
+      return new ClineUnavailableError(rpc, serviceError.code, details);
+    case grpc.status.DEADLINE_EXCEEDED:
+      return new ClineDeadlineError(rpc, serviceError.code, details);
+    case grpc.status.CANCELLED:
+      return new ClineRpcError(rpc, serviceError.code, details);
+    default:
+      return new ClineApplicationError(rpc, serviceError.code, details);
+  }
 }
 
 /**
  * Convert gRPC server streaming call to AsyncIterable
+ * The call is cancelled when the consumer stops iterating (e.g. breaks out of
+ * for await) or the signal is aborted; a cancelled stream just ends.
  */
 function streamToAsyncIterable<T>(
+  rpc: string,
   callFn: () => grpc.ClientReadableStream<T>,
+  signal?: AbortSignal,
 ): AsyncIterableStream<T> {
   return {
     async *[Symbol.asyncIterator]() {
@@ -89,7 +274,13 @@ function streamToAsyncIterable<T>(
       const queue: T[] = [];
       let resolve: ((value: IteratorResult<T>) => void) | null = null;
       let done = false;
-      let error: Error | null = null;
+      let cancelled = false;
+      let error: unknown = null;
+
+      const cancel = () => {
+        cancelled = true;
+        stream.cancel();
+      };
 
       stream.on("data", (data: T) => {
         if (resolve) {
@@ -109,7 +300,9 @@ function streamToAsyncIterable<T>(
       });
 
       stream.on("error", (err: Error) => {
-        error = err;
+        if (!cancelled) {
+          error = toClineRpcError(rpc, err);
+        }
         done = true;
         if (resolve) {
           resolve({ value: undefined as unknown as T, done: true });
@@ -117,19 +310,33 @@ function streamToAsyncIterable<T>(
         }
       });
 
-      while (true) {
-        if (error) throw error;
+      if (signal?.aborted) {
+        cancel();
+      } else {
+        signal?.addEventListener("abort", cancel, { once: true });
+      }
 
-        if (queue.length > 0) {
-          yield queue.shift()!;
-        } else if (done) {
-          return;
-        } else {
-          const result = await new Promise<IteratorResult<T>>((res) => {
-            resolve = res;
-          });
-          if (result.done) return;
-          yield result.value;
+      try {
+        while (true) {
+          if (error) throw error;
+
+          if (queue.length > 0) {
+            yield queue.shift()!;
+          } else if (done) {
+            return;
+          } else {
+            const result = await new Promise<IteratorResult<T>>((res) => {
+              resolve = res;
+            });
+            if (error) throw error;
+            if (result.done) return;
+            yield result.value;
+          }
+        }
+      } finally {
+        signal?.removeEventListener("abort", cancel);
+        if (!done) {
+          cancel();
         }
       }
     },
@@ -137,164 +344,153 @@ function streamToAsyncIterable<T>(
 }
 
 /**
- * Promisify a unary gRPC call
+ * Make a unary call, retrying read-only RPCs that failed because cline-core was
+ * unreachable or slow
  */
-function promisifyUnary<TReq, TRes>(
-  client: GrpcServiceClient,
-  methodName: string,
-): (request: TReq) => Promise<TRes> {
-  return (request: TReq): Promise<TRes> => {
-    return new Promise((resolve, reject) => {
-      const method = client[methodName] as (
-        request: TReq,
-        callback: (error: Error | null, response: TRes) => void,
-      ) => void;
-
-      method.call(client, request, (error, response) => {
-        if (error) reject(error);
-        else resolve(response);
+async function callUnary(
+  rpc: string,
+  call: (...args: unknown[]) => grpc.ClientUnaryCall,
+  request: object,
+  deadlineMs: number,
+  retries: number,
+  retryDelayMs: number,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await new Promise((resolve, reject) => {
+        const callOptions: grpc.CallOptions =
+          deadlineMs > 0 ? { deadline: Date.now() + deadlineMs } : {};
+        const unaryCall = call(
+          request,
+          callOptions,
+          (error: grpc.ServiceError | null, response: unknown) => {
+            signal?.removeEventListener("abort", cancel);
+            if (error) reject(error);
+            else resolve(response);
+          },
+        );
+        const cancel = () => unaryCall.cancel();
+        if (signal?.aborted) {
+          cancel();
+        } else {
+          signal?.addEventListener("abort", cancel, { once: true });
+        }
       });
-    });
-  };
+    } catch (error) {
+      const rpcError = toClineRpcError(rpc, error);
+      const retryable =
+        rpcError instanceof ClineUnavailableError || rpcError instanceof ClineDeadlineError;
+      if (!retryable || attempt >= retries || signal?.aborted) {
+        throw rpcError;
+      }
+      await new Promise((res) => setTimeout(res, retryDelayMs * 2 ** attempt));
+    }
+  }
 }
 
 /**
- * Create a Cline gRPC client connected to the specified address
+ * Connect a generated service client and wrap each of its RPCs
+ * Whether an RPC streams comes from the service definition the proto loader built
  */
-export async function createClineClient(address: string): Promise<ClineClient> {
-  const protoDir = path.join(PROTO_DIR, "cline");
-
-  // Load service clients
-  const taskClient = loadProtoClient(path.join(protoDir, "task.proto"), "TaskService", address);
-
-  const stateClient = loadProtoClient(path.join(protoDir, "state.proto"), "StateService", address);
+function promisifyService<C extends grpc.Client>(
+  ServiceClass: (new (
+    address: string,
+    credentials: grpc.ChannelCredentials,
+    options?: grpc.ClientOptions,
+  ) => C) & {
+    service: grpc.ServiceDefinition;
+  },
+  channel: grpc.Channel,
+  options: ClineClientOptions,
+): PromisifiedService<C> {
+  // These credentials are unused - calls go through the shared channel and its own
+  const client = new ServiceClass(channel.getTarget(), grpc.credentials.createInsecure(), {
+    channelOverride: channel,
+  });
+  const rpcs = client as unknown as Record<string, (...args: unknown[]) => unknown>;
+  const service: Record<string, unknown> = {};
+
+  for (const [name, method] of Object.entries(ServiceClass.service)) {
+    const call = rpcs[name].bind(client);
+    const deadlineMs = options.deadlines?.[name] ?? options.deadlineMs ?? DEFAULT_DEADLINE_MS;
+    const retries = IDEMPOTENT_RPCS.has(name) ? (options.retries ?? DEFAULT_RETRIES) : 0;
+    const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+    service[name] = method.responseStream
+      ? (request: object = {}, callOptions: RpcCallOptions = {}) =>
+          streamToAsyncIterable(
+            name,
+            () => call(request) as grpc.ClientReadableStream<unknown>,
+            callOptions.signal,
+          )
+      : (request: object = {}, callOptions: RpcCallOptions = {}) =>
+          callUnary(
+            name,
+            call as (...args: unknown[]) => grpc.ClientUnaryCall,
+            request,
+            callOptions.deadlineMs ?? deadlineMs,
+            retries,
+            retryDelayMs,
+            callOptions.signal,
+          );
+  }
 
-  const uiClient = loadProtoClient(path.join(protoDir, "ui.proto"), "UiService", address);
+  return service as PromisifiedService<C>;
+}
 
-  const modelsClient = loadProtoClient(
-    path.join(protoDir, "models.proto"),
-    "ModelsService",
-    address,
-  );
+/**
+ * Create a Cline gRPC client connected to the specified address
+ */
+export async function createClineClient(
+  address: string,
+  options: ClineClientOptions = {},
+): Promise<ClineClient> {
+  const cline = loadClinePackage();
+  const channel = getChannel(address, options.tls);
 
   return {
-    Task: {
-      async newTask(request): Promise<string> {
-        const response = await promisifyUnary<typeof request, { value: string }>(
-          taskClient,
-          "newTask",
-        )(request);
-        return response.value;
-      },
-
-      async askResponse(request): Promise<void> {
-        await promisifyUnary<typeof request, Record<string, never>>(
-          taskClient,
-          "askResponse",
-        )(request);
-      },
-
-      async cancelTask(): Promise<void> {
-        await promisifyUnary<Record<string, never>, Record<string, never>>(
-          taskClient,
-          "cancelTask",
-        )({});
-      },
-    },
-
-    State: {
-      subscribeToState(): AsyncIterableStream<StateUpdate> {
-        return streamToAsyncIterable(() =>
-          (
-            stateClient.subscribeToState as (
-              req: Record<string, never>,
-            ) => grpc.ClientReadableStream<StateUpdate>
-          )({}),
-        );
-      },
-
-      async getLatestState(): Promise<StateUpdate> {
-        return promisifyUnary<Record<string, never>, StateUpdate>(
-          stateClient,
-          "getLatestState",
-        )({});
-      },
-
-      async togglePlanActModeProto(request): Promise<void> {
-        await promisifyUnary<typeof request, { value: boolean }>(
-          stateClient,
-          "togglePlanActModeProto",
-        )(request);
-      },
-
-      async updateAutoApprovalSettings(request): Promise<void> {
-        await promisifyUnary<typeof request, Record<string, never>>(
-          stateClient,
-          "updateAutoApprovalSettings",
-        )(request);
-      },
-
-      async updateSettings(request): Promise<void> {
-        await promisifyUnary<typeof request, Record<string, never>>(
-          stateClient,
-          "updateSettings",
-        )(request);
-      },
-
-      async getProcessInfo(): Promise<{ pid: number; address: string }> {
-        const response = await promisifyUnary<
-          Record<string, never>,
-          { processId: number; version?: string }
-        >(
-          stateClient,
-          "getProcessInfo",
-        )({});
-        return { pid: response.processId, address };
-      },
-    },
-
-    Ui: {
-      subscribeToPartialMessage(): AsyncIterableStream<ClineMessage> {
-        return streamToAsyncIterable(() =>
-          (
-            uiClient.subscribeToPartialMessage as (
-              req: Record<string, never>,
-            ) => grpc.ClientReadableStream<ClineMessage>
-          )({}),
-        );
-      },
-    },
-
-    Models: {
-      async refreshOpenRouterModels(): Promise<OpenRouterModelsResponse> {
-        return promisifyUnary<Record<string, never>, OpenRouterModelsResponse>(
-          modelsClient,
-          "refreshOpenRouterModelsRpc",
-        )({});
-      },
-    },
+    Task: promisifyService(cline.TaskService, channel, options),
+    State: promisifyService(cline.StateService, channel, options),
+    Ui: promisifyService(cline.UiService, channel, options),
+    Models: promisifyService(cline.ModelsService, channel, options),
+    Browser: promisifyService(cline.BrowserService, channel, options),
   };
 }
 
 /**
  * Wait for gRPC server to be ready
+ * Watches the shared channel for the address and credentials until it connects, rather
+ * than polling with calls. Gives up early (returning false) if the signal is aborted.
  */
 export async function waitForGrpcReady(
   address: string,
   timeoutMs: number = 30000,
+  signal?: AbortSignal,
+  tls?: ClineTlsOptions,
 ): Promise<boolean> {
-  const startTime = Date.now();
-
-  while (Date.now() - startTime < timeoutMs) {
-    try {
-      const client = await createClineClient(address);
-      await client.State.getProcessInfo();
-      return true;
-    } catch {
-      // Server not ready yet, wait and retry
-      await new Promise((resolve) => setTimeout(resolve, 500));
+  const channel = getChannel(address, tls);
+  const deadline = Date.now() + timeoutMs;
+
+  // Passing true makes an idle channel start connecting
+  let state = channel.getConnectivityState(true);
+  while (state !== grpc.connectivityState.READY) {
+    if (signal?.aborted || state === grpc.connectivityState.SHUTDOWN) {
+      return false;
     }
+    const changed = await new Promise<boolean>((resolve) => {
+      const onAbort = () => resolve(false);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      // Called with an error once the deadline passes without a change
+      channel.watchConnectivityState(state, deadline, (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(!error);
+      });
+    });
+    if (!changed) {
+      return false;
+    }
+    state = channel.getConnectivityState(true);
   }
-
-  return false;
+  return true;
 }
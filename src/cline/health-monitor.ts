@@ -0,0 +1,109 @@
+/**
+ * Health monitor - notices pooled Cline instances that have died
+ *
+ * Each instance is pinged with State.getProcessInfo on an interval. Instances that
+ * don't answer in time are handed to onDead, which restarts them and reopens the
+ * session's task.
+ */
+
+import { ClineClient } from "./types.js";
+import { ClineInstancePool } from "./instance-pool.js";
+
+export interface HealthMonitorOptions {
+  // How often instances are checked (default: 15 seconds, 0 disables the timer)
+  intervalMs?: number;
+  // How long an instance has to answer before it's considered dead (default: 5 seconds)
+  timeoutMs?: number;
+}
+
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+const DEFAULT_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * Check whether a Cline instance still answers gRPC calls
+ */
+export async function isInstanceAlive(
+  client: ClineClient,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    return await Promise.race([
+      client.State.getProcessInfo({}, { deadlineMs: timeoutMs }).then(() => true),
+      timeout,
+    ]);
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class ClineHealthMonitor {
+  private pool: ClineInstancePool;
+  private onDead: (sessionId: string) => Promise<unknown>;
+  private intervalMs: number;
+  private timeoutMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+
+  constructor(
+    pool: ClineInstancePool,
+    onDead: (sessionId: string) => Promise<unknown>,
+    options: HealthMonitorOptions = {},
+  ) {
+    this.pool = pool;
+    this.onDead = onDead;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.check().catch(() => {
+        // onDead reports its own failures
+      });
+    }, this.intervalMs);
+    // Don't keep the process alive just to check on instances
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every pooled instance and hand the dead ones to onDead
+   * Returns the IDs of the sessions whose instances were found dead
+   */
+  async check(): Promise<string[]> {
+    // A restart can take longer than the interval - don't pile up checks behind it
+    if (this.checking) {
+      return [];
+    }
+    this.checking = true;
+    try {
+      const dead: string[] = [];
+      for (const [sessionId, client] of this.pool.clients()) {
+        if (!(await isInstanceAlive(client, this.timeoutMs))) {
+          dead.push(sessionId);
+        }
+      }
+      for (const sessionId of dead) {
+        await this.onDead(sessionId);
+      }
+      return dead;
+    } finally {
+      this.checking = false;
+    }
+  }
+}
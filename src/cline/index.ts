@@ -5,9 +5,29 @@
 export { ClineAcpAgent, ClineAcpAgentOptions } from "./cline-acp-agent.js";
 export * from "./types.js";
 export * from "./conversion.js";
-export { createClineClient, waitForGrpcReady } from "./grpc-client.js";
+export {
+  createClineClient,
+  waitForGrpcReady,
+  closeClineChannel,
+  parseClineAddress,
+  ClineClientOptions,
+  ClineTlsOptions,
+  ClineRpcError,
+  ClineUnavailableError,
+  ClineDeadlineError,
+  ClineApplicationError,
+} from "./grpc-client.js";
 export {
   ClineProcessManager,
   ProcessManagerOptions,
+  StartInstanceOptions,
   startClineProcesses,
 } from "./process-manager.js";
+export { ClineInstancePool, InstancePoolOptions } from "./instance-pool.js";
+export { ClineHealthMonitor, HealthMonitorOptions, isInstanceAlive } from "./health-monitor.js";
+export {
+  checkClineVersion,
+  ClineCompatibility,
+  ClineVersionError,
+  SUPPORTED_CLINE_VERSIONS,
+} from "./compat.js";
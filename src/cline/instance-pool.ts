@@ -0,0 +1,198 @@
+/**
+ * Cline Instance Pool - Gives each ACP session its own Cline instance
+ *
+ * A Cline instance runs one task at a time, so sessions that share an instance
+ * cancel each other's work. The pool starts (or claims) an instance per session
+ * and stops instances that have been idle for too long.
+ */
+
+import { ClineClient, ClineInstance } from "./types.js";
+import { ClineProcessManager, StartInstanceOptions } from "./process-manager.js";
+import { ClineClientOptions, createClineClient } from "./grpc-client.js";
+
+export interface InstancePoolOptions {
+  // Stop a session's instance after this long without activity (default: 15 minutes, 0 disables)
+  idleTimeoutMs?: number;
+  // Deadlines and retries for the instances' clients
+  clientOptions?: ClineClientOptions;
+  // For testing: create clients without connecting over gRPC
+  createClient?: (address: string) => Promise<ClineClient>;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+interface PooledInstance {
+  instance: ClineInstance;
+  client: ClineClient;
+  // Working directory the instance was started in, for restarts
+  cwd: string;
+  lastActiveAt: number;
+  // Prompts in flight - busy instances are never reaped
+  busy: number;
+}
+
+export class ClineInstancePool {
+  private manager: ClineProcessManager;
+  private idleTimeoutMs: number;
+  private createClient: (address: string) => Promise<ClineClient>;
+  private entries = new Map<string, PooledInstance>();
+  private reapTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(manager: ClineProcessManager, options: InstancePoolOptions = {}) {
+    this.manager = manager;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.createClient =
+      options.createClient ?? ((address) => createClineClient(address, options.clientOptions));
+  }
+
+  /**
+   * Get the client for a session, starting an instance rooted in cwd if it has none
+   *
+   * @param options - Cancellation and progress reporting for the instance start
+   */
+  async acquire(
+    sessionId: string,
+    cwd: string,
+    options?: StartInstanceOptions,
+  ): Promise<ClineClient> {
+    const existing = this.entries.get(sessionId);
+    if (existing) {
+      existing.lastActiveAt = Date.now();
+      return existing.client;
+    }
+
+    const instance = await this.manager.startInstance(cwd, options);
+    const client = await this.createClient(instance.address);
+    this.entries.set(sessionId, { instance, client, cwd, lastActiveAt: Date.now(), busy: 0 });
+    this.startReaper();
+    return client;
+  }
+
+  /**
+   * Get the client for a session, if it currently has an instance
+   */
+  get(sessionId: string): ClineClient | undefined {
+    return this.entries.get(sessionId)?.client;
+  }
+
+  /**
+   * Get the instance backing a session
+   */
+  getInstance(sessionId: string): ClineInstance | undefined {
+    return this.entries.get(sessionId)?.instance;
+  }
+
+  /**
+   * Record activity on a session so its instance isn't reaped
+   */
+  touch(sessionId: string): void {
+    const entry = this.entries.get(sessionId);
+    if (entry) {
+      entry.lastActiveAt = Date.now();
+    }
+  }
+
+  /**
+   * Mark the start or end of a prompt on a session
+   */
+  setBusy(sessionId: string, busy: boolean): void {
+    const entry = this.entries.get(sessionId);
+    if (entry) {
+      entry.busy = Math.max(0, entry.busy + (busy ? 1 : -1));
+      entry.lastActiveAt = Date.now();
+    }
+  }
+
+  /**
+   * Replace a session's instance with a freshly started one (e.g. after it crashed)
+   * Returns the new client, or undefined if the session has no instance
+   */
+  async restart(
+    sessionId: string,
+    options?: StartInstanceOptions,
+  ): Promise<ClineClient | undefined> {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return undefined;
+
+    // Forget the old instance; killing it fails harmlessly if it's already gone
+    await this.manager.stopInstance(entry.instance.address);
+    const instance = await this.manager.startInstance(entry.cwd, options);
+    const client = await this.createClient(instance.address);
+    this.entries.set(sessionId, { ...entry, instance, client, lastActiveAt: Date.now() });
+    return client;
+  }
+
+  /**
+   * List each session's client
+   */
+  clients(): Array<[string, ClineClient]> {
+    return [...this.entries].map(([sessionId, entry]) => [sessionId, entry.client]);
+  }
+
+  /**
+   * Stop a session's instance
+   */
+  async release(sessionId: string): Promise<void> {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return;
+
+    this.entries.delete(sessionId);
+    await this.manager.stopInstance(entry.instance.address);
+    if (this.entries.size === 0) {
+      this.stopReaper();
+    }
+  }
+
+  /**
+   * Stop every pooled instance
+   */
+  async releaseAll(): Promise<void> {
+    for (const sessionId of [...this.entries.keys()]) {
+      await this.release(sessionId);
+    }
+    this.stopReaper();
+  }
+
+  /**
+   * Stop instances that have been idle longer than the timeout
+   * Returns the IDs of the sessions whose instances were stopped
+   */
+  async reapIdle(now: number = Date.now()): Promise<string[]> {
+    if (this.idleTimeoutMs <= 0) {
+      return [];
+    }
+
+    const reaped: string[] = [];
+    for (const [sessionId, entry] of this.entries) {
+      if (entry.busy === 0 && now - entry.lastActiveAt >= this.idleTimeoutMs) {
+        reaped.push(sessionId);
+      }
+    }
+    for (const sessionId of reaped) {
+      await this.release(sessionId);
+    }
+    return reaped;
+  }
+
+  private startReaper(): void {
+    if (this.reapTimer || this.idleTimeoutMs <= 0) {
+      return;
+    }
+    // Check at least once a minute, more often for short timeouts
+    const interval = Math.min(this.idleTimeoutMs, 60 * 1000);
+    this.reapTimer = setInterval(() => {
+      void this.reapIdle().catch(() => {
+        // Stopping an instance that already exited isn't worth surfacing
+      });
+    }, interval);
+    // Don't keep the process alive just to reap instances
+    this.reapTimer.unref?.();
+  }
+
+  private stopReaper(): void {
+    if (this.reapTimer) {
+      clearInterval(this.reapTimer);
+      this.reapTimer = null;
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Model catalog - lists the models a provider actually offers, for the ACP model picker
+ *
+ * Local servers (Ollama, LM Studio) are asked directly; hosted providers go through
+ * Cline's model RPCs. Results are cached for a while since listings rarely change and
+ * some providers are slow to answer. A static table is only used when a provider has
+ * no listing or it couldn't be fetched.
+ */
+
+import { ClineClient, OpenRouterModelsResponse } from "./types.js";
+
+export interface ModelOption {
+  modelId: string;
+  name: string;
+}
+
+export interface ModelCatalogOptions {
+  // How long a provider's listing is reused (default: 5 minutes)
+  ttlMs?: number;
+  // For testing: replace the HTTP client used for local model servers
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+// Local servers are either up or not - don't hold up session creation waiting for them
+const LOCAL_SERVER_TIMEOUT_MS = 3000;
+
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_LM_STUDIO_URL = "http://localhost:1234";
+const DEFAULT_LITELLM_URL = "http://localhost:4000";
+
+/**
+ * Last-resort model lists for providers without a listing endpoint
+ */
+const STATIC_MODELS: Record<string, ModelOption[]> = {
+  anthropic: [
+    { modelId: "claude-sonnet-4-20250514", name: "Claude Sonnet 4" },
+    { modelId: "claude-3-5-sonnet-20241022", name: "Claude 3.5 Sonnet" },
+    { modelId: "claude-3-5-haiku-20241022", name: "Claude 3.5 Haiku" },
+    { modelId: "claude-3-opus-20240229", name: "Claude 3 Opus" },
+  ],
+  openai: [
+    { modelId: "gpt-4o", name: "GPT-4o" },
+    { modelId: "gpt-4o-mini", name: "GPT-4o Mini" },
+    { modelId: "gpt-4-turbo", name: "GPT-4 Turbo" },
+    { modelId: "o1-preview", name: "O1 Preview" },
+    { modelId: "o1-mini", name: "O1 Mini" },
+  ],
+  openai_native: [
+    { modelId: "gpt-4o", name: "GPT-4o" },
+    { modelId: "gpt-4o-mini", name: "GPT-4o Mini" },
+    { modelId: "gpt-4-turbo", name: "GPT-4 Turbo" },
+    { modelId: "o1-preview", name: "O1 Preview" },
+    { modelId: "o1-mini", name: "O1 Mini" },
+  ],
+  gemini: [
+    { modelId: "gemini-2.0-flash-exp", name: "Gemini 2.0 Flash" },
+    { modelId: "gemini-1.5-pro", name: "Gemini 1.5 Pro" },
+    { modelId: "gemini-1.5-flash", name: "Gemini 1.5 Flash" },
+  ],
+  xai: [
+    { modelId: "grok-beta", name: "Grok Beta" },
+    { modelId: "grok-2-1212", name: "Grok 2" },
+  ],
+  deepseek: [
+    { modelId: "deepseek-chat", name: "DeepSeek Chat" },
+    { modelId: "deepseek-reasoner", name: "DeepSeek Reasoner" },
+  ],
+  mistral: [
+    { modelId: "mistral-large-latest", name: "Mistral Large" },
+    { modelId: "mistral-small-latest", name: "Mistral Small" },
+    { modelId: "codestral-latest", name: "Codestral" },
+  ],
+};
+
+/**
+ * Format model ID into a readable name
+ */
+export function formatModelName(modelId: string): string {
+  // Handle provider/model format (e.g., "anthropic/claude-sonnet-4")
+  const parts = modelId.split("/");
+  const name = parts[parts.length - 1];
+
+  // Convert kebab-case to Title Case
+  return name
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Get the static fallback list for a provider
+ */
+export function getStaticModels(provider: string): ModelOption[] {
+  return STATIC_MODELS[provider.toLowerCase()] ?? [];
+}
+
+/**
+ * Convert an OpenRouter-style model map to picker entries, sorted by name
+ */
+function fromModelInfoMap(response: OpenRouterModelsResponse | null | undefined): ModelOption[] {
+  return Object.entries(response?.models ?? {})
+    .map(([modelId, info]) => ({ modelId, name: info.name || formatModelName(modelId) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function fromModelIds(modelIds: string[]): ModelOption[] {
+  return modelIds.map((modelId) => ({ modelId, name: modelId }));
+}
+
+/**
+ * Fetch the model info listing from Cline for providers that have one
+ */
+async function fetchModelInfoMap(
+  clineClient: ClineClient,
+  provider: string,
+): Promise<OpenRouterModelsResponse | null> {
+  switch (provider) {
+    case "cline":
+    case "openrouter":
+      return clineClient.Models.refreshOpenRouterModelsRpc();
+    case "requesty":
+      return clineClient.Models.refreshRequestyModels();
+    case "groq":
+      return clineClient.Models.refreshGroqModelsRpc();
+    case "huggingface":
+      return clineClient.Models.refreshHuggingFaceModels();
+    case "baseten":
+      return clineClient.Models.refreshBasetenModelsRpc();
+    case "vercel_ai_gateway":
+      return clineClient.Models.refreshVercelAiGatewayModelsRpc();
+    default:
+      return null;
+  }
+}
+
+export class ModelCatalog {
+  private ttlMs: number;
+  private fetch: typeof fetch;
+  private cache = new Map<string, { models: ModelOption[]; expiresAt: number }>();
+
+  constructor(options: ModelCatalogOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  /**
+   * List a provider's models, using the cached listing if it's still fresh
+   *
+   * @param provider - Cline provider name, in any case (e.g. "ollama", "OPENROUTER")
+   * @param apiConfig - Cline's apiConfiguration, for base URLs and keys
+   */
+  async listModels(
+    clineClient: ClineClient,
+    provider: string,
+    apiConfig: Record<string, unknown> = {},
+  ): Promise<ModelOption[]> {
+    const normalized = provider.toLowerCase() || "cline";
+    const key = `${normalized}|${this.getBaseUrl(normalized, apiConfig) ?? ""}`;
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.models;
+    }
+
+    let models: ModelOption[] = [];
+    try {
+      models = await this.fetchModels(clineClient, normalized, apiConfig);
+    } catch {
+      // Provider unreachable or not configured - fall back below
+    }
+
+    if (models.length === 0) {
+      return getStaticModels(normalized);
+    }
+    this.cache.set(key, { models, expiresAt: Date.now() + this.ttlMs });
+    return models;
+  }
+
+  /**
+   * Get a model's info from its provider's listing, for providers that need it set
+   * alongside the model id. Always fetched fresh, since pricing and limits can change.
+   */
+  async getModelInfo(
+    clineClient: ClineClient,
+    provider: string,
+    modelId: string,
+  ): Promise<Record<string, unknown> | null> {
+    const response = await fetchModelInfoMap(clineClient, provider.toLowerCase() || "cline");
+    const info = response?.models?.[modelId];
+    return info ? (info as unknown as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Drop cached listings so the next request fetches fresh ones
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private getBaseUrl(provider: string, apiConfig: Record<string, unknown>): string | undefined {
+    const setting = (name: string) => (apiConfig[name] as string | undefined) || undefined;
+    switch (provider) {
+      case "ollama":
+        return setting("ollamaBaseUrl") ?? DEFAULT_OLLAMA_URL;
+      case "lmstudio":
+        return setting("lmStudioBaseUrl") ?? DEFAULT_LM_STUDIO_URL;
+      case "openai":
+        return setting("openAiBaseUrl");
+      case "litellm":
+        return setting("liteLlmBaseUrl") ?? DEFAULT_LITELLM_URL;
+      default:
+        return undefined;
+    }
+  }
+
+  private async fetchModels(
+    clineClient: ClineClient,
+    provider: string,
+    apiConfig: Record<string, unknown>,
+  ): Promise<ModelOption[]> {
+    const baseUrl = this.getBaseUrl(provider, apiConfig);
+
+    switch (provider) {
+      case "cline":
+      case "openrouter":
+      case "requesty":
+      case "groq":
+      case "huggingface":
+      case "baseten":
+      case "vercel_ai_gateway":
+        return fromModelInfoMap(await fetchModelInfoMap(clineClient, provider));
+
+      case "ollama": {
+        const data = await this.getJson(`${baseUrl}/api/tags`, apiConfig.ollamaApiKey);
+        const models = (data as { models?: Array<{ name: string }> }).models ?? [];
+        return fromModelIds(models.map((model) => model.name));
+      }
+
+      case "lmstudio": {
+        const data = await this.getJson(`${baseUrl}/v1/models`);
+        const models = (data as { data?: Array<{ id: string }> }).data ?? [];
+        return fromModelIds(models.map((model) => model.id));
+      }
+
+      case "openai":
+        if (!baseUrl) return [];
+        return fromModelIds(
+          (
+            await clineClient.Models.refreshOpenAiModels({
+              baseUrl,
+              apiKey: apiConfig.openAiApiKey as string | undefined,
+            })
+          ).values,
+        );
+
+      // LiteLLM proxies expose an OpenAI-compatible model listing
+      case "litellm":
+        return fromModelIds(
+          (
+            await clineClient.Models.refreshOpenAiModels({
+              baseUrl: `${baseUrl}/v1`,
+              apiKey: apiConfig.liteLlmApiKey as string | undefined,
+            })
+          ).values,
+        );
+
+      default:
+        return [];
+    }
+  }
+
+  private async getJson(url: string, apiKey?: unknown): Promise<unknown> {
+    const response = await this.fetch(url, {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      signal: AbortSignal.timeout(LOCAL_SERVER_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`${url} returned ${response.status}`);
+    }
+    return response.json();
+  }
+}
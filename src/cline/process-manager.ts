@@ -1,11 +1,15 @@
 /**
  * Cline Process Manager - Uses the cline CLI to manage instances
+ *
+ * CLI calls run as async child processes so starting an instance (which can take
+ * tens of seconds) never blocks the event loop, and with it all ACP traffic.
  */
 
-import { execSync } from "child_process";
+import { spawn } from "child_process";
 import * as fs from "fs";
 import { ClineInstance } from "./types.js";
-import { waitForGrpcReady } from "./grpc-client.js";
+import { closeClineChannel, createClineClient, waitForGrpcReady } from "./grpc-client.js";
+import { extractWorkspaceRoots, isWorkspaceRoot } from "./conversion.js";
 
 export interface ProcessManagerOptions {
   clinePath?: string;
@@ -14,6 +18,24 @@ export interface ProcessManagerOptions {
   useExisting?: boolean;
 }
 
+/**
+ * Options for a single startInstance call
+ */
+export interface StartInstanceOptions {
+  // Abort the start; a new instance that was already launched is killed
+  signal?: AbortSignal;
+  // Called with a short description of each startup step
+  onProgress?: (message: string) => void;
+}
+
+interface RunOptions {
+  cwd?: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Called with each line of stdout as it arrives
+  onLine?: (line: string) => void;
+}
+
 /**
  * Find cline binary path
  * Uses 'cline' from PATH - the system should have the correct version configured
@@ -68,9 +90,78 @@ function parseInstanceList(output: string): InstanceInfo[] {
   return instances;
 }
 
+/**
+ * Run the cline CLI and resolve with its stdout
+ * Rejects if it exits with an error, times out or the signal is aborted
+ */
+function runCline(clinePath: string, args: string[], options: RunOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const signals = [options.signal, options.timeoutMs && AbortSignal.timeout(options.timeoutMs)];
+    const signal = AbortSignal.any(signals.filter((s): s is AbortSignal => !!s));
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const child = spawn(clinePath, args, { cwd: options.cwd, stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let pending = "";
+
+    const onAbort = () => child.kill();
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => {
+      stdout += chunk;
+      pending += chunk;
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach((line) => options.onLine?.(line));
+    });
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => {
+      stderr += chunk;
+    });
+
+    child.on("error", (error) => {
+      signal.removeEventListener("abort", onAbort);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      signal.removeEventListener("abort", onAbort);
+      if (pending) {
+        options.onLine?.(pending);
+      }
+      if (signal.aborted) {
+        reject(signal.reason);
+      } else if (code !== 0) {
+        reject(new Error(`cline ${args.join(" ")} exited with ${code}: ${stderr.trim()}`));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * An instance tracked by the manager
+ */
+interface ManagedInstance {
+  instance: ClineInstance;
+  // Pre-existing instances are never killed by the manager
+  existing: boolean;
+}
+
 export class ClineProcessManager {
   private options: ProcessManagerOptions;
+  // Most recently started instance
   private instance: ClineInstance | null = null;
+  // Every instance started or claimed by this manager, keyed by address
+  private instances = new Map<string, ManagedInstance>();
+  // Existing instances a startInstance call has picked but not tracked yet, so
+  // concurrent calls don't claim the same one
+  private reserved = new Set<string>();
   private clinePath: string;
   private usingExistingInstance: boolean = false;
 
@@ -86,151 +177,238 @@ export class ClineProcessManager {
   /**
    * Get existing Cline instances
    */
-  getExistingInstances(): InstanceInfo[] {
+  async getExistingInstances(signal?: AbortSignal): Promise<InstanceInfo[]> {
     try {
-      const listOutput = execSync(`${this.clinePath} instance list --output-format plain`, {
-        encoding: "utf-8",
-      });
+      const listOutput = await runCline(
+        this.clinePath,
+        ["instance", "list", "--output-format", "plain"],
+        { timeoutMs: 10000, signal },
+      );
       return parseInstanceList(listOutput);
     } catch {
       return [];
     }
   }
 
+  /**
+   * Get the workspace roots a running instance is operating in
+   * Returns an empty list if the instance can't be reached
+   */
+  async getWorkspaceRoots(address: string): Promise<string[]> {
+    try {
+      const client = await createClineClient(address);
+      const state = await client.State.getLatestState();
+      return extractWorkspaceRoots(state.stateJson || "{}");
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Start or connect to a Cline instance
    * If useExisting is true and an instance is available, connects to it
    * Otherwise creates a new instance
+   * When cwd is given, only instances rooted in that directory are reused and
+   * new instances are started from it
+   * Instances this manager already handed out are never reused, so each call returns
+   * an instance of its own
    */
-  async startInstance(): Promise<ClineInstance> {
+  async startInstance(cwd?: string, options: StartInstanceOptions = {}): Promise<ClineInstance> {
+    const { signal } = options;
+    const progress = (message: string) => {
+      if (this.options.verbose) {
+        console.log(message);
+      }
+      options.onProgress?.(message);
+    };
+
     // Check for existing instances first if useExisting is enabled
     if (this.options.useExisting) {
-      const existingInstances = this.getExistingInstances();
+      progress("Looking for a running Cline instance...");
+      // Another call may have claimed some of these while they were being checked
+      const existingInstances = (await this.findReusableInstances(cwd, signal)).filter(
+        (i) => !this.isClaimed(i.address),
+      );
 
       if (existingInstances.length > 0) {
         // Prefer the default instance, otherwise use the first one
         const instance = existingInstances.find((i) => i.isDefault) || existingInstances[0];
+        this.reserved.add(instance.address);
 
-        if (this.options.verbose) {
-          console.log(`Using existing Cline instance at ${instance.address}`);
-        }
+        progress(`Connecting to Cline instance at ${instance.address}...`);
 
         // Verify the instance is reachable
-        const ready = await waitForGrpcReady(instance.address, 5000);
+        let ready: boolean;
+        try {
+          ready = await waitForGrpcReady(instance.address, 5000, signal);
+        } finally {
+          this.reserved.delete(instance.address);
+        }
         if (ready) {
-          this.usingExistingInstance = true;
-          this.instance = {
-            pid: instance.pid,
-            address: instance.address,
-            clineCorePid: instance.pid,
-            clineHostPid: instance.pid,
-          };
-          return this.instance;
-        } else if (this.options.verbose) {
-          console.log(
-            `Existing instance at ${instance.address} is not reachable, creating new one...`,
+          return this.trackInstance(
+            {
+              pid: instance.pid,
+              address: instance.address,
+              clineCorePid: instance.pid,
+              clineHostPid: instance.pid,
+            },
+            true,
           );
         }
+        signal?.throwIfAborted();
+        progress(`Cline instance at ${instance.address} is not reachable, starting a new one...`);
       }
     }
 
-    // Create a new instance
-    if (this.options.verbose) {
-      console.log("Creating new Cline instance...");
-    }
+    progress("Starting a new Cline instance...");
 
     // Create a new instance using cline CLI
     // Note: Do NOT pass --verbose to cline CLI as it causes failures
     const args = ["instance", "new", "--output-format", "plain"];
 
+    // Set as soon as the CLI prints it, so an aborted start can still kill the instance
+    let address: string | undefined;
+
     try {
-      const result = execSync(`${this.clinePath} ${args.join(" ")}`, {
-        encoding: "utf-8",
-        timeout: 30000,
+      // Cline uses the directory it's started from as its workspace root
+      // Output format:
+      //   Successfully started new instance:
+      //     Address: 127.0.0.1:61809
+      const result = await runCline(this.clinePath, args, {
+        cwd,
+        timeoutMs: 30000,
+        signal,
+        onLine: (line) => {
+          const match = line.match(/(localhost|127\.0\.0\.1):\d+/);
+          if (match && !address) {
+            address = match[0];
+            progress(`Cline instance started at ${address}`);
+          }
+        },
       });
 
       if (this.options.verbose) {
         console.log("Instance creation output:", result);
       }
-
-      // Parse the address from the output
-      // Output format:
-      //   Successfully started new instance:
-      //     Address: 127.0.0.1:61809
-      const addressMatch = result.match(/(localhost|127\.0\.0\.1):\d+/);
-      if (!addressMatch) {
+      if (!address) {
         throw new Error(`Could not parse instance address from output: ${result}`);
       }
 
-      const address = addressMatch[0];
-
       // Wait for gRPC server to be ready
-      if (this.options.verbose) {
-        console.log(`Waiting for services at ${address} to start...`);
-      }
-
-      const ready = await waitForGrpcReady(address, 30000);
+      progress(`Waiting for Cline services at ${address} to start...`);
+      const ready = await waitForGrpcReady(address, 30000, signal);
+      signal?.throwIfAborted();
       if (!ready) {
         throw new Error("Cline services failed to start within 30 seconds");
       }
 
-      if (this.options.verbose) {
-        console.log("Services started successfully!");
-      }
+      progress("Cline is ready");
 
       // Get the PID from instance list
-      const listOutput = execSync(`${this.clinePath} instance list --output-format plain`, {
-        encoding: "utf-8",
-      });
-
-      const instances = parseInstanceList(listOutput);
+      const instances = await this.getExistingInstances(signal);
       const instanceInfo = instances.find((i) => i.address === address);
       const pid = instanceInfo?.pid || 0;
 
-      this.usingExistingInstance = false;
-      this.instance = {
-        pid,
-        address,
-        clineCorePid: pid,
-        clineHostPid: pid, // In the new architecture, it's a single process
-      };
-
-      return this.instance;
+      return this.trackInstance(
+        {
+          pid,
+          address,
+          clineCorePid: pid,
+          clineHostPid: pid, // In the new architecture, it's a single process
+        },
+        false,
+      );
     } catch (error) {
+      // Don't leave a half-started instance running
+      if (address) {
+        await this.killInstance(address);
+      }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to create Cline instance: ${message}`);
     }
   }
 
   /**
-   * Stop the current instance
+   * Get the existing instances that can be reused for a working directory
+   * Without a cwd every instance qualifies
+   */
+  private async findReusableInstances(cwd?: string, signal?: AbortSignal): Promise<InstanceInfo[]> {
+    const instances = (await this.getExistingInstances(signal)).filter(
+      (i) => !this.isClaimed(i.address),
+    );
+    if (!cwd) {
+      return instances;
+    }
+
+    const matching: InstanceInfo[] = [];
+    for (const instance of instances) {
+      if (isWorkspaceRoot(await this.getWorkspaceRoots(instance.address), cwd)) {
+        matching.push(instance);
+      } else if (this.options.verbose) {
+        console.log(`Skipping Cline instance at ${instance.address}: not rooted in ${cwd}`);
+      }
+    }
+    return matching;
+  }
+
+  private isClaimed(address: string): boolean {
+    return this.instances.has(address) || this.reserved.has(address);
+  }
+
+  private trackInstance(instance: ClineInstance, existing: boolean): ClineInstance {
+    this.instances.set(instance.address, { instance, existing });
+    this.instance = instance;
+    this.usingExistingInstance = existing;
+    return instance;
+  }
+
+  /**
+   * Stop an instance (default: the most recently started one)
    * Only kills instances that were created by this manager, not pre-existing ones
    */
-  async stopInstance(): Promise<void> {
-    if (!this.instance) return;
+  async stopInstance(address: string | undefined = this.instance?.address): Promise<void> {
+    const managed = address ? this.instances.get(address) : undefined;
+    if (!managed) return;
+
+    this.instances.delete(managed.instance.address);
+    if (this.instance?.address === managed.instance.address) {
+      this.instance = null;
+      this.usingExistingInstance = false;
+    }
 
     // Don't kill instances we didn't create
-    if (this.usingExistingInstance) {
+    if (managed.existing) {
       if (this.options.verbose) {
         console.log("Not stopping pre-existing instance");
       }
-      this.instance = null;
       return;
     }
 
+    await this.killInstance(managed.instance.address);
+  }
+
+  private async killInstance(address: string): Promise<void> {
     try {
-      execSync(`${this.clinePath} instance kill ${this.instance.address}`, {
-        encoding: "utf-8",
-        timeout: 10000,
-      });
+      await runCline(this.clinePath, ["instance", "kill", address], { timeoutMs: 10000 });
     } catch {
       // Instance may have already exited
       if (this.options.verbose) {
         console.log("Instance may have already stopped");
       }
     }
+    closeClineChannel(address);
+  }
 
-    this.instance = null;
+  /**
+   * Stop every instance this manager started or claimed
+   */
+  async stopAllInstances(): Promise<void> {
+    for (const address of [...this.instances.keys()]) {
+      await this.stopInstance(address);
+    }
   }
 
   /**
@@ -247,11 +425,18 @@ export class ClineProcessManager {
     return this.instance;
   }
 
+  /**
+   * Get every instance this manager started or claimed
+   */
+  getInstances(): ClineInstance[] {
+    return [...this.instances.values()].map((managed) => managed.instance);
+  }
+
   /**
    * Check if an instance is running
    */
   isRunning(): boolean {
-    return this.instance !== null;
+    return this.instances.size > 0;
   }
 }
 
@@ -260,8 +445,9 @@ export class ClineProcessManager {
  */
 export async function startClineProcesses(
   options: ProcessManagerOptions = {},
+  cwd?: string,
 ): Promise<{ manager: ClineProcessManager; instance: ClineInstance }> {
   const manager = new ClineProcessManager(options);
-  const instance = await manager.startInstance();
+  const instance = await manager.startInstance(cwd);
   return { manager, instance };
 }
@@ -0,0 +1,303 @@
+/**
+ * Cline API providers - which settings hold each provider's credentials and models
+ *
+ * The ACP model picker lists models from every provider with credentials configured,
+ * using ids like "anthropic:claude-sonnet-4". Picking one switches the mode's provider
+ * and writes the model to the field that provider reads.
+ */
+
+export interface ProviderInfo {
+  // Lowercase ApiProvider value, used in model option ids (e.g. "openai_native")
+  id: string;
+  name: string;
+  // apiConfiguration fields that mean the provider is set up; any one is enough
+  credentials: string[];
+  // Provider-specific model field, after the mode prefix (e.g. "OllamaModelId" for
+  // planModeOllamaModelId). Providers without one only read <mode>ApiModelId.
+  modelField?: string;
+  // Model info field the provider also needs, filled from Cline's model listing
+  modelInfoField?: string;
+  // Works without credentials (local servers, CLI logins); they only change its settings
+  optionalCredentials?: boolean;
+}
+
+export const PROVIDERS: ProviderInfo[] = [
+  {
+    id: "cline",
+    name: "Cline",
+    credentials: ["clineApiKey", "clineAccountId"],
+    modelField: "OpenRouterModelId",
+    modelInfoField: "OpenRouterModelInfo",
+  },
+  {
+    id: "openrouter",
+    name: "OpenRouter",
+    credentials: ["openRouterApiKey"],
+    modelField: "OpenRouterModelId",
+    modelInfoField: "OpenRouterModelInfo",
+  },
+  { id: "anthropic", name: "Anthropic", credentials: ["apiKey"] },
+  {
+    id: "claude_code",
+    name: "Claude Code",
+    credentials: ["claudeCodePath"],
+    optionalCredentials: true,
+  },
+  {
+    id: "bedrock",
+    name: "AWS Bedrock",
+    credentials: ["awsAccessKey", "awsBedrockApiKey", "awsProfile"],
+  },
+  { id: "vertex", name: "GCP Vertex AI", credentials: ["vertexProjectId"] },
+  { id: "gemini", name: "Google Gemini", credentials: ["geminiApiKey"] },
+  { id: "openai_native", name: "OpenAI", credentials: ["openAiNativeApiKey"] },
+  {
+    id: "openai",
+    name: "OpenAI Compatible",
+    credentials: ["openAiBaseUrl"],
+    modelField: "OpenAiModelId",
+  },
+  {
+    id: "ollama",
+    name: "Ollama",
+    credentials: ["ollamaBaseUrl", "ollamaApiKey"],
+    modelField: "OllamaModelId",
+    optionalCredentials: true,
+  },
+  {
+    id: "lmstudio",
+    name: "LM Studio",
+    credentials: ["lmStudioBaseUrl"],
+    modelField: "LmStudioModelId",
+    optionalCredentials: true,
+  },
+  {
+    id: "litellm",
+    name: "LiteLLM",
+    credentials: ["liteLlmBaseUrl", "liteLlmApiKey"],
+    modelField: "LiteLlmModelId",
+    optionalCredentials: true,
+  },
+  {
+    id: "requesty",
+    name: "Requesty",
+    credentials: ["requestyApiKey"],
+    modelField: "RequestyModelId",
+    modelInfoField: "RequestyModelInfo",
+  },
+  {
+    id: "together",
+    name: "Together",
+    credentials: ["togetherApiKey"],
+    modelField: "TogetherModelId",
+  },
+  {
+    id: "fireworks",
+    name: "Fireworks",
+    credentials: ["fireworksApiKey"],
+    modelField: "FireworksModelId",
+  },
+  {
+    id: "groq",
+    name: "Groq",
+    credentials: ["groqApiKey"],
+    modelField: "GroqModelId",
+    modelInfoField: "GroqModelInfo",
+  },
+  {
+    id: "huggingface",
+    name: "Hugging Face",
+    credentials: ["huggingFaceApiKey"],
+    modelField: "HuggingFaceModelId",
+    modelInfoField: "HuggingFaceModelInfo",
+  },
+  {
+    id: "huawei_cloud_maas",
+    name: "Huawei Cloud MaaS",
+    credentials: ["huaweiCloudMaasApiKey"],
+    modelField: "HuaweiCloudMaasModelId",
+    modelInfoField: "HuaweiCloudMaasModelInfo",
+  },
+  {
+    id: "baseten",
+    name: "Baseten",
+    credentials: ["basetenApiKey"],
+    modelField: "BasetenModelId",
+    modelInfoField: "BasetenModelInfo",
+  },
+  {
+    id: "vercel_ai_gateway",
+    name: "Vercel AI Gateway",
+    credentials: ["vercelAiGatewayApiKey"],
+    modelField: "VercelAiGatewayModelId",
+    modelInfoField: "VercelAiGatewayModelInfo",
+  },
+  {
+    id: "sapaicore",
+    name: "SAP AI Core",
+    credentials: ["sapAiCoreClientId"],
+    modelField: "SapAiCoreModelId",
+  },
+  {
+    id: "oca",
+    name: "Oracle Code Assist",
+    credentials: ["ocaApiKey", "ocaRefreshToken"],
+    modelField: "OcaModelId",
+  },
+  {
+    id: "hicap",
+    name: "HiCap",
+    credentials: ["hicapApiKey"],
+    modelField: "HicapModelId",
+    modelInfoField: "HicapModelInfo",
+  },
+  {
+    id: "aihubmix",
+    name: "AIHubMix",
+    credentials: ["aihubmixApiKey"],
+    modelField: "AihubmixModelId",
+  },
+  {
+    id: "nousresearch",
+    name: "Nous Research",
+    credentials: ["nousResearchApiKey"],
+    modelField: "NousResearchModelId",
+  },
+  { id: "deepseek", name: "DeepSeek", credentials: ["deepSeekApiKey"] },
+  { id: "qwen", name: "Alibaba Qwen", credentials: ["qwenApiKey"] },
+  {
+    id: "qwen_code",
+    name: "Qwen Code",
+    credentials: ["qwenCodeOauthPath"],
+    optionalCredentials: true,
+  },
+  { id: "doubao", name: "Bytedance Doubao", credentials: ["doubaoApiKey"] },
+  { id: "mistral", name: "Mistral", credentials: ["mistralApiKey"] },
+  { id: "xai", name: "xAI", credentials: ["xaiApiKey"] },
+  { id: "nebius", name: "Nebius AI Studio", credentials: ["nebiusApiKey"] },
+  { id: "asksage", name: "AskSage", credentials: ["asksageApiKey"] },
+  { id: "sambanova", name: "SambaNova", credentials: ["sambanovaApiKey"] },
+  { id: "cerebras", name: "Cerebras", credentials: ["cerebrasApiKey"] },
+  { id: "moonshot", name: "Moonshot", credentials: ["moonshotApiKey"] },
+  { id: "zai", name: "Z AI", credentials: ["zaiApiKey"] },
+  { id: "minimax", name: "MiniMax", credentials: ["minimaxApiKey"] },
+  { id: "dify", name: "Dify", credentials: ["difyApiKey"] },
+];
+
+/**
+ * Look up a provider by its ApiProvider value, in any case
+ * An empty provider is Cline's default, CLINE
+ */
+export function getProvider(provider: string): ProviderInfo | undefined {
+  const id = provider.toLowerCase() || "cline";
+  return PROVIDERS.find((info) => info.id === id);
+}
+
+/**
+ * List the providers with credentials in Cline's apiConfiguration
+ */
+export function getConfiguredProviders(apiConfig: Record<string, unknown>): ProviderInfo[] {
+  return PROVIDERS.filter((provider) => provider.credentials.some((field) => !!apiConfig[field]));
+}
+
+/**
+ * Check whether a provider can be used with the given apiConfiguration
+ * Providers this table doesn't know are assumed to be set up
+ */
+export function hasCredentials(provider: string, apiConfig: Record<string, unknown>): boolean {
+  const info = getProvider(provider);
+  if (!info || info.optionalCredentials) {
+    return true;
+  }
+  return info.credentials.some((field) => !!apiConfig[field]);
+}
+
+/**
+ * Get the provider and model a mode is set to
+ */
+export function getModeModel(
+  apiConfig: Record<string, unknown>,
+  mode: "plan" | "act",
+): { provider: string; modelId: string | undefined } {
+  const provider = ((apiConfig[`${mode}ModeApiProvider`] as string) || "cline").toLowerCase();
+  const modelField = getProvider(provider)?.modelField;
+  const modelId =
+    (modelField && (apiConfig[`${mode}Mode${modelField}`] as string)) ||
+    (apiConfig[`${mode}ModeApiModelId`] as string) ||
+    (apiConfig.apiModelId as string) ||
+    undefined;
+  return { provider, modelId };
+}
+
+/**
+ * Build a model picker id, e.g. "ollama:qwen2.5-coder"
+ */
+export function toModelOptionId(provider: string, modelId: string): string {
+  return `${provider.toLowerCase()}:${modelId}`;
+}
+
+/**
+ * Get the picker id of the current mode's model from a Cline state JSON
+ */
+export function getCurrentModelOptionId(stateJson: string): string | undefined {
+  try {
+    const state = JSON.parse(stateJson);
+    const { provider, modelId } = getModeModel(
+      state.apiConfiguration || {},
+      state.mode === "act" ? "act" : "plan",
+    );
+    return modelId ? toModelOptionId(provider, modelId) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split a model picker id into provider and model
+ * Ids without a known provider prefix (e.g. "qwen2.5-coder:7b") are models of the
+ * current provider, so provider is undefined
+ */
+export function parseModelOptionId(optionId: string): {
+  provider: string | undefined;
+  modelId: string;
+} {
+  const separator = optionId.indexOf(":");
+  if (separator > 0) {
+    const provider = getProvider(optionId.slice(0, separator));
+    if (provider) {
+      return { provider: provider.id, modelId: optionId.slice(separator + 1) };
+    }
+  }
+  return { provider: undefined, modelId: optionId };
+}
+
+/**
+ * Build the apiConfiguration that switches one mode to a provider and model
+ */
+export function buildModeModelConfig(
+  mode: "plan" | "act",
+  provider: string,
+  modelId: string,
+  modelInfo: Record<string, unknown> | null = null,
+): Record<string, unknown> {
+  const prefix = `${mode}Mode`;
+  const info = getProvider(provider);
+
+  const config: Record<string, unknown> = {
+    // Cline expects uppercase ApiProvider enum values (e.g., "CLINE", not "cline")
+    // If provider is empty, default to CLINE since model list comes from OpenRouter
+    [`${prefix}ApiProvider`]: provider ? provider.toUpperCase() : "CLINE",
+    // Always set the generic model ID field
+    [`${prefix}ApiModelId`]: modelId,
+  };
+
+  if (info?.modelField) {
+    config[`${prefix}${info.modelField}`] = modelId;
+  }
+  // Providers with a model info field need BOTH modelId AND modelInfo
+  if (info?.modelInfoField && modelInfo) {
+    config[`${prefix}${info.modelInfoField}`] = modelInfo;
+  }
+
+  return config;
+}
@@ -0,0 +1,47 @@
+/**
+ * Slash commands - agent-side commands the client can offer in its prompt input
+ *
+ * Commands are advertised with available_commands_update and intercepted in prompt()
+ * before the text reaches Cline. Anything that isn't a registered command is passed
+ * through, so Cline's own slash commands (e.g. /newrule) keep working.
+ */
+
+import { AvailableCommand } from "@agentclientprotocol/sdk";
+
+/**
+ * What to do after a command ran
+ * - reply: show this text and end the turn
+ * - prompt: send this text to Cline as the user's message
+ */
+export type SlashCommandResult = { reply: string } | { prompt: string };
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  // Shown in the input while the user types the command's argument
+  hint?: string;
+  run(sessionId: string, args: string): Promise<SlashCommandResult>;
+}
+
+/**
+ * Split "/name args" into the command name and the rest of the text
+ * Returns null if the text isn't a slash command
+ */
+export function parseSlashCommand(text: string): { name: string; args: string } | null {
+  const match = /^\/([\w-]+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  return { name: match[1], args: (match[2] ?? "").trim() };
+}
+
+/**
+ * Describe commands in the form ACP clients expect
+ */
+export function toAvailableCommands(commands: SlashCommand[]): AvailableCommand[] {
+  return commands.map((command) => ({
+    name: command.name,
+    description: command.description,
+    input: command.hint ? { hint: command.hint } : null,
+  }));
+}
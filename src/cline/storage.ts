@@ -0,0 +1,295 @@
+/**
+ * Persistent storage for cline-acp - keeps small JSON files in the agent's data directory,
+ * plus the Cline settings files the agent writes to
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ApprovalRule, BudgetUsage, ClineMcpServerConfig } from "./types.js";
+
+/**
+ * Get the default data directory
+ * Can be overridden with CLINE_ACP_DATA_DIR (used by tests to avoid touching the home directory)
+ */
+export function getDefaultDataDir(): string {
+  return process.env.CLINE_ACP_DATA_DIR || path.join(os.homedir(), ".cline-acp");
+}
+
+/**
+ * Get the path of Cline's MCP settings file
+ * Cline keeps its data under CLINE_DIR (default: ~/.cline) and watches this file for changes
+ */
+export function getClineMcpSettingsPath(): string {
+  const clineDir = process.env.CLINE_DIR || path.join(os.homedir(), ".cline");
+  return path.join(clineDir, "data", "settings", "cline_mcp_settings.json");
+}
+
+/**
+ * Read a JSON file, returning the fallback if it doesn't exist or can't be parsed
+ */
+function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file, creating the parent directory if needed
+ * Writes to a temp file first so a crash never leaves a truncated file behind
+ */
+function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Stored mapping from an ACP session to the Cline task backing it
+ */
+export interface StoredSession {
+  taskId: string;
+  updatedAt: number;
+}
+
+/**
+ * Maps ACP session IDs to Cline task IDs so sessions can be reloaded after a restart
+ */
+export class ClineSessionStore {
+  private filePath: string;
+
+  constructor(dataDir: string = getDefaultDataDir()) {
+    this.filePath = path.join(dataDir, "sessions.json");
+  }
+
+  get(sessionId: string): StoredSession | undefined {
+    return readJsonFile<Record<string, StoredSession>>(this.filePath, {})[sessionId];
+  }
+
+  set(sessionId: string, session: Omit<StoredSession, "updatedAt">): void {
+    const sessions = readJsonFile<Record<string, StoredSession>>(this.filePath, {});
+    sessions[sessionId] = { ...session, updatedAt: Date.now() };
+    writeJsonFile(this.filePath, sessions);
+  }
+
+  delete(sessionId: string): void {
+    const sessions = readJsonFile<Record<string, StoredSession>>(this.filePath, {});
+    if (sessions[sessionId]) {
+      delete sessions[sessionId];
+      writeJsonFile(this.filePath, sessions);
+    }
+  }
+}
+
+/**
+ * Stores "Always Allow" rules per workspace
+ */
+export class ApprovalRuleStore {
+  private filePath: string;
+
+  constructor(dataDir: string = getDefaultDataDir()) {
+    this.filePath = path.join(dataDir, "approval-rules.json");
+  }
+
+  list(workspace: string): ApprovalRule[] {
+    return readJsonFile<Record<string, ApprovalRule[]>>(this.filePath, {})[workspace] ?? [];
+  }
+
+  add(workspace: string, rule: ApprovalRule): void {
+    const rules = readJsonFile<Record<string, ApprovalRule[]>>(this.filePath, {});
+    rules[workspace] = [...(rules[workspace] ?? []), rule];
+    writeJsonFile(this.filePath, rules);
+  }
+
+  /**
+   * Remove a rule, returning it if it existed
+   */
+  remove(workspace: string, ruleId: string): ApprovalRule | undefined {
+    const rules = readJsonFile<Record<string, ApprovalRule[]>>(this.filePath, {});
+    const removed = rules[workspace]?.find((rule) => rule.id === ruleId);
+    if (removed) {
+      rules[workspace] = rules[workspace].filter((rule) => rule.id !== ruleId);
+      writeJsonFile(this.filePath, rules);
+    }
+    return removed;
+  }
+}
+
+// Days of spending history kept for daily budgets
+const DAILY_USAGE_RETENTION_DAYS = 31;
+
+/**
+ * Spending per calendar day, across all sessions, so daily budgets survive restarts
+ */
+export class DailyUsageStore {
+  private filePath: string;
+
+  constructor(dataDir: string = getDefaultDataDir()) {
+    this.filePath = path.join(dataDir, "daily-usage.json");
+  }
+
+  get(day: string): BudgetUsage {
+    return (
+      readJsonFile<Record<string, BudgetUsage>>(this.filePath, {})[day] ?? { costUsd: 0, tokens: 0 }
+    );
+  }
+
+  /**
+   * Add spending to a day, returning the day's new total
+   */
+  add(day: string, usage: BudgetUsage): BudgetUsage {
+    const days = readJsonFile<Record<string, BudgetUsage>>(this.filePath, {});
+    const current = days[day] ?? { costUsd: 0, tokens: 0 };
+    days[day] = {
+      costUsd: current.costUsd + usage.costUsd,
+      tokens: current.tokens + usage.tokens,
+    };
+
+    // Days are YYYY-MM-DD, so sorting them as strings sorts them by date
+    const kept = Object.keys(days).sort().slice(-DAILY_USAGE_RETENTION_DAYS);
+    writeJsonFile(this.filePath, Object.fromEntries(kept.map((d) => [d, days[d]])));
+    return days[day];
+  }
+}
+
+/**
+ * Check if a process is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to another user
+    return (error as { code?: string }).code === "EPERM";
+  }
+}
+
+/**
+ * Cline's MCP settings file - shared by every Cline instance using the same data directory
+ * The pid of the agent that added each server is kept in the agent's data directory, so
+ * servers left behind by an agent that crashed can be told apart from a running one's.
+ */
+export class ClineMcpSettingsFile {
+  private filePath: string;
+  private ownersPath: string;
+  // Servers this instance added, the only ones it changes or removes
+  private owned = new Set<string>();
+
+  constructor(filePath: string = getClineMcpSettingsPath(), dataDir: string = getDefaultDataDir()) {
+    this.filePath = filePath;
+    this.ownersPath = path.join(dataDir, "mcp-servers.json");
+  }
+
+  list(): Record<string, ClineMcpServerConfig> {
+    return (
+      readJsonFile<{ mcpServers?: Record<string, ClineMcpServerConfig> }>(this.filePath, {})
+        .mcpServers ?? {}
+    );
+  }
+
+  /**
+   * Add servers, or update ones this instance added, leaving every other server alone
+   * Settings Cline adds to an entry (autoApprove, timeout, disabled) are kept.
+   * Returns the names that were added or updated, or an empty list without touching the
+   * file when nothing changed, since every write makes Cline restart its MCP connections
+   */
+  upsert(servers: Record<string, ClineMcpServerConfig>): string[] {
+    const settings = readJsonFile<{ mcpServers?: Record<string, ClineMcpServerConfig> }>(
+      this.filePath,
+      {},
+    );
+    const mcpServers = settings.mcpServers ?? {};
+
+    const changed: string[] = [];
+    for (const [name, server] of Object.entries(servers)) {
+      if (mcpServers[name] && !this.owned.has(name)) {
+        continue;
+      }
+      const existing = mcpServers[name]?.type === server.type ? mcpServers[name] : {};
+      const merged = { ...existing, ...server } as ClineMcpServerConfig;
+      this.owned.add(name);
+      if (JSON.stringify(merged) !== JSON.stringify(mcpServers[name])) {
+        mcpServers[name] = merged;
+        changed.push(name);
+      }
+    }
+
+    if (changed.length > 0) {
+      writeJsonFile(this.filePath, { ...settings, mcpServers });
+      this.setOwner(changed, process.pid);
+    }
+    return changed;
+  }
+
+  /**
+   * Remove servers this instance added
+   * Returns the names that were removed
+   */
+  remove(names: string[]): string[] {
+    const settings = readJsonFile<{ mcpServers?: Record<string, ClineMcpServerConfig> }>(
+      this.filePath,
+      {},
+    );
+    const mcpServers = settings.mcpServers ?? {};
+
+    const removed = names.filter((name) => this.owned.has(name) && name in mcpServers);
+    for (const name of removed) {
+      delete mcpServers[name];
+    }
+    names.forEach((name) => this.owned.delete(name));
+
+    if (removed.length > 0) {
+      writeJsonFile(this.filePath, { ...settings, mcpServers });
+      this.setOwner(removed, undefined);
+    }
+    return removed;
+  }
+
+  /**
+   * Remove servers an agent added but never took out again (it crashed or was killed)
+   * Only servers accepted by isAgentServer are considered, and those whose agent is
+   * still running are kept. Returns the names that were removed.
+   */
+  removeStale(isAgentServer: (name: string) => boolean): string[] {
+    const settings = readJsonFile<{ mcpServers?: Record<string, ClineMcpServerConfig> }>(
+      this.filePath,
+      {},
+    );
+    const mcpServers = settings.mcpServers ?? {};
+    const owners = readJsonFile<Record<string, number>>(this.ownersPath, {});
+
+    const stale = Object.keys(mcpServers).filter((name) => {
+      const owner = owners[name];
+      return (
+        isAgentServer(name) &&
+        !this.owned.has(name) &&
+        (owner === undefined || (owner !== process.pid && !isProcessAlive(owner)))
+      );
+    });
+    for (const name of stale) {
+      delete mcpServers[name];
+    }
+
+    if (stale.length > 0) {
+      writeJsonFile(this.filePath, { ...settings, mcpServers });
+      this.setOwner(stale, undefined);
+    }
+    return stale;
+  }
+
+  private setOwner(names: string[], pid: number | undefined): void {
+    const owners = readJsonFile<Record<string, number>>(this.ownersPath, {});
+    for (const name of names) {
+      if (pid === undefined) {
+        delete owners[name];
+      } else {
+        owners[name] = pid;
+      }
+    }
+    writeJsonFile(this.ownersPath, owners);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Command terminal mirror - shows Cline's command output in an ACP client terminal
+ *
+ * Cline runs commands itself, so the client terminal can't run the real command.
+ * Instead it runs a small follower process that prints Cline's output as we
+ * write it to a log file, and exits when the command is done. Output then
+ * streams live inside the editor's terminal widget.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AgentSideConnection, TerminalHandle } from "@agentclientprotocol/sdk";
+
+// Prints new log output as it's written, and exits once the exit file appears.
+// Runs as `node -e FOLLOWER_SCRIPT <log> <exit> <pid>` so it works wherever the agent's
+// node does, and records its pid so a follower that never exits can be stopped.
+const FOLLOWER_SCRIPT = `
+const fs = require("fs");
+const [log, exit, pid] = process.argv.slice(1);
+fs.writeFileSync(pid, String(process.pid));
+let pos = 0;
+const flush = () => {
+  let data = Buffer.alloc(0);
+  try { data = fs.readFileSync(log); } catch {}
+  if (data.length > pos) { process.stdout.write(data.subarray(pos)); pos = data.length; }
+};
+const tick = () => {
+  const done = fs.existsSync(exit);
+  flush();
+  if (done) { process.exitCode = Number(fs.readFileSync(exit, "utf8")) || 0; return; }
+  setTimeout(tick, 100);
+};
+tick();
+`;
+
+// How long finish() waits for the follower to drain its output before stopping it
+const FINISH_TIMEOUT_MS = 5000;
+
+export class CommandTerminalMirror {
+  readonly terminalId: string;
+  private terminal: TerminalHandle;
+  private dir: string;
+  private logPath: string;
+  private exitPath: string;
+  private pidPath: string;
+  private finished = false;
+  // Aborted by kill() so a finish() still waiting for the follower gives up
+  private stopWaiting = new AbortController();
+
+  private constructor(terminal: TerminalHandle, dir: string) {
+    this.terminal = terminal;
+    this.terminalId = terminal.id;
+    this.dir = dir;
+    this.logPath = path.join(dir, "output.log");
+    this.exitPath = path.join(dir, "exit");
+    this.pidPath = path.join(dir, "pid");
+  }
+
+  /**
+   * Create a client terminal that mirrors a command's output
+   *
+   * @param onStopped - Called if the terminal exits before the command finishes
+   *                    (the user stopped it from the editor)
+   */
+  static async start(
+    client: AgentSideConnection,
+    sessionId: string,
+    cwd: string,
+    onStopped: () => void,
+  ): Promise<CommandTerminalMirror> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-terminal-"));
+    const logPath = path.join(dir, "output.log");
+    fs.writeFileSync(logPath, "");
+
+    const terminal = await client.createTerminal({
+      sessionId,
+      command: process.execPath,
+      args: ["-e", FOLLOWER_SCRIPT, logPath, path.join(dir, "exit"), path.join(dir, "pid")],
+      cwd,
+    });
+    const mirror = new CommandTerminalMirror(terminal, dir);
+
+    void terminal
+      .waitForExit()
+      .then(() => {
+        if (!mirror.finished) {
+          mirror.finished = true;
+          onStopped();
+        }
+      })
+      .catch(() => {
+        // The terminal was released before it exited
+      });
+
+    return mirror;
+  }
+
+  /**
+   * Append command output to the terminal
+   */
+  append(text: string): void {
+    if (this.finished) return;
+    fs.appendFileSync(this.logPath, text.endsWith("\n") ? text : `${text}\n`);
+  }
+
+  /**
+   * Mark the command as done and release the terminal once it has printed everything
+   *
+   * Gives up after timeoutMs, or as soon as kill() is called, and stops the follower
+   * so a client that never reports the exit can't hold up the turn.
+   */
+  async finish(exitCode: number = 0, timeoutMs: number = FINISH_TIMEOUT_MS): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+    fs.writeFileSync(this.exitPath, String(exitCode));
+    try {
+      if (!(await this.waitForExit(timeoutMs))) {
+        this.killFollower();
+        await this.terminal.kill().catch(() => {});
+      }
+    } finally {
+      await this.release();
+    }
+  }
+
+  /**
+   * Stop mirroring without waiting for the output to drain (e.g. on cancel)
+   */
+  async kill(): Promise<void> {
+    this.finished = true;
+    this.stopWaiting.abort();
+    try {
+      await this.terminal.kill();
+    } finally {
+      await this.release();
+    }
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Wait for the terminal to exit
+   *
+   * @returns false if it timed out or kill() was called first
+   */
+  private async waitForExit(timeoutMs: number): Promise<boolean> {
+    const signal = this.stopWaiting.signal;
+    if (signal.aborted) return false;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+      return await Promise.race([
+        this.terminal.waitForExit().then(() => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), timeoutMs);
+          onAbort = () => resolve(false);
+          signal.addEventListener("abort", onAbort, { once: true });
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Stop the follower process directly, in case the client doesn't kill its terminal
+   */
+  private killFollower(): void {
+    try {
+      const pid = Number(fs.readFileSync(this.pidPath, "utf8"));
+      if (pid > 0) process.kill(pid);
+    } catch {
+      // The follower never started or has already exited
+    }
+  }
+
+  private async release(): Promise<void> {
+    try {
+      await this.terminal.release();
+    } catch {
+      // The client may have already released it
+    }
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+}
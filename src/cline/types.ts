@@ -1,9 +1,20 @@
 /**
- * Cline gRPC types - these will eventually be generated from proto files
- * For now, we define them manually based on the Cline proto definitions
+ * Cline types - the gRPC messages and services are generated from proto/cline/*.proto
+ * into ./generated (run `npm run generate:proto` after updating the protos). This file
+ * re-exports the ones the agent uses alongside the agent's own types.
  */
 
-// Cline message types from proto/cline/state.proto
+import type * as grpc from "@grpc/grpc-js";
+import type { TaskServiceClient } from "./generated/cline/TaskService.js";
+import type { StateServiceClient } from "./generated/cline/StateService.js";
+import type { UiServiceClient } from "./generated/cline/UiService.js";
+import type { ModelsServiceClient } from "./generated/cline/ModelsService.js";
+import type { BrowserServiceClient } from "./generated/cline/BrowserService.js";
+import type { State__Output as StateUpdate } from "./generated/cline/State.js";
+
+// Message types, ask types and say types as they appear in Cline's state JSON
+// Each matches the proto/cline/ui.proto enum value, lowercased and with any _SAY
+// suffix dropped (COMMAND_SAY is "command")
 export enum ClineMessageType {
   ASK = "ask",
   SAY = "say",
@@ -13,6 +24,7 @@ export enum ClineMessageType {
 export enum ClineAsk {
   FOLLOWUP = "followup",
   PLAN_MODE_RESPOND = "plan_mode_respond",
+  ACT_MODE_RESPOND = "act_mode_respond",
   TOOL = "tool",
   COMMAND = "command",
   COMMAND_OUTPUT = "command_output",
@@ -23,11 +35,17 @@ export enum ClineAsk {
   RESUME_TASK = "resume_task",
   RESUME_COMPLETED_TASK = "resume_completed_task",
   MISTAKE_LIMIT_REACHED = "mistake_limit_reached",
+  NEW_TASK = "new_task",
+  CONDENSE = "condense",
+  REPORT_BUG = "report_bug",
+  SUMMARIZE_TASK = "summarize_task",
+  // Not in ui.proto - older Cline versions only send it in the state JSON
   AUTO_APPROVAL_MAX_REQ_REACHED = "auto_approval_max_req_reached",
 }
 
 // Say types - when Cline is outputting information
 export enum ClineSay {
+  TASK = "task",
   TEXT = "text",
   REASONING = "reasoning",
   TOOL = "tool",
@@ -37,24 +55,27 @@ export enum ClineSay {
   API_REQ_STARTED = "api_req_started",
   API_REQ_FINISHED = "api_req_finished",
   API_REQ_RETRIED = "api_req_retried",
+  DELETED_API_REQS = "deleted_api_reqs",
+  SHELL_INTEGRATION_WARNING = "shell_integration_warning",
+  BROWSER_ACTION_LAUNCH = "browser_action_launch",
   BROWSER_ACTION = "browser_action",
   BROWSER_ACTION_RESULT = "browser_action_result",
   MCP_SERVER_REQUEST_STARTED = "mcp_server_request_started",
   MCP_SERVER_RESPONSE = "mcp_server_response",
-  TASK_COMPLETION_SUGGESTION = "task_completion_suggestion",
+  MCP_NOTIFICATION = "mcp_notification",
+  USE_MCP_SERVER = "use_mcp_server",
+  LOAD_MCP_DOCUMENTATION = "load_mcp_documentation",
   USER_FEEDBACK = "user_feedback",
   USER_FEEDBACK_DIFF = "user_feedback_diff",
   ERROR = "error",
-  DIFF = "diff",
+  ERROR_RETRY = "error_retry",
+  DIFF_ERROR = "diff_error",
+  CLINEIGNORE_ERROR = "clineignore_error",
+  CHECKPOINT_CREATED = "checkpoint_created",
+  INFO = "info",
   TASK_PROGRESS = "task_progress",
 }
 
-// Plan/Act mode - values must match proto enum names (uppercase)
-export enum PlanActMode {
-  PLAN = "PLAN",
-  ACT = "ACT",
-}
-
 // Plan mode response structure
 export interface ClinePlanModeResponse {
   response: string;
@@ -82,11 +103,14 @@ export interface ClineMessage {
   // Additional fields from proto
   planModeResponse?: ClinePlanModeResponse;
   askQuestion?: ClineAskQuestion;
+  // Model that produced the message (set on api_req_started by newer Cline versions)
+  modelInfo?: ClineMessageModelInfo;
 }
 
-// State update from StateService.subscribeToState
-export interface StateUpdate {
-  stateJson: string;
+export interface ClineMessageModelInfo {
+  providerId?: string;
+  modelId?: string;
+  mode?: string;
 }
 
 // Task response types
@@ -96,177 +120,82 @@ export enum AskResponseType {
   NO_BUTTON_CLICKED = "noButtonClicked",
 }
 
-// gRPC service request/response types
-// These match the proto definitions in proto/cline/task.proto
-export interface NewTaskRequest {
-  text: string;
-  images?: string[]; // File paths to images
-  files?: string[]; // File paths to attach
-}
-
-export interface AskResponseRequest {
-  responseType: AskResponseType | string;
-  text?: string;
-  images?: string[];
-}
-
-export type EmptyRequest = object;
-
-// Empty metadata message required by many Cline gRPC requests
-export type Metadata = object;
-
-export interface TogglePlanActModeRequest {
-  metadata: Metadata;
-  mode: PlanActMode;
-}
-
-export interface AutoApprovalActions {
-  readFiles?: boolean;
-  editFiles?: boolean;
-  executeAllCommands?: boolean;
-  executeCommands?: string[];
-  listFiles?: boolean;
-  searchFiles?: boolean;
-  useMcp?: boolean;
-  browserAction?: boolean;
-}
-
-export interface AutoApprovalSettingsRequest {
-  actions: AutoApprovalActions;
-}
-
-// API Provider enum - matches proto/cline/models.proto ApiProvider
-export enum ApiProvider {
-  ANTHROPIC = "ANTHROPIC",
-  OPENROUTER = "OPENROUTER",
-  BEDROCK = "BEDROCK",
-  VERTEX = "VERTEX",
-  OPENAI = "OPENAI",
-  OLLAMA = "OLLAMA",
-  LMSTUDIO = "LMSTUDIO",
-  GEMINI = "GEMINI",
-  OPENAI_NATIVE = "OPENAI_NATIVE",
-  REQUESTY = "REQUESTY",
-  TOGETHER = "TOGETHER",
-  DEEPSEEK = "DEEPSEEK",
-  QWEN = "QWEN",
-  DOUBAO = "DOUBAO",
-  MISTRAL = "MISTRAL",
-  VSCODE_LM = "VSCODE_LM",
-  CLINE = "CLINE",
-  LITELLM = "LITELLM",
-  NEBIUS = "NEBIUS",
-  FIREWORKS = "FIREWORKS",
-  ASKSAGE = "ASKSAGE",
-  XAI = "XAI",
-  SAMBANOVA = "SAMBANOVA",
-  CEREBRAS = "CEREBRAS",
-  GROQ = "GROQ",
-  SAPAICORE = "SAPAICORE",
-  CLAUDE_CODE = "CLAUDE_CODE",
-  MOONSHOT = "MOONSHOT",
-  HUGGINGFACE = "HUGGINGFACE",
-  HUAWEI_CLOUD_MAAS = "HUAWEI_CLOUD_MAAS",
-  BASETEN = "BASETEN",
-  ZAI = "ZAI",
-  VERCEL_AI_GATEWAY = "VERCEL_AI_GATEWAY",
-  QWEN_CODE = "QWEN_CODE",
-  DIFY = "DIFY",
-  OCA = "OCA",
-  MINIMAX = "MINIMAX",
-  HICAP = "HICAP",
-  AIHUBMIX = "AIHUBMIX",
-  NOUSRESEARCH = "NOUSRESEARCH",
-}
-
-// ModelsApiConfiguration - matches proto/cline/models.proto ModelsApiConfiguration
-// This is the full API configuration structure used in UpdateSettingsRequest
-// We only define the fields we currently use - the proto has 238+ fields
-export interface ModelsApiConfiguration {
-  // Global API configuration
-  apiKey?: string;
-  clineApiKey?: string;
-
-  // Provider-specific API keys
-  openRouterApiKey?: string;
-  xaiApiKey?: string;
-  openAiNativeApiKey?: string;
-  anthropicBaseUrl?: string;
-
-  // Plan mode configuration (fields 100-138 in proto)
-  planModeApiProvider?: ApiProvider | string;
-  planModeApiModelId?: string; // field 101 - generic model ID
-  planModeOpenRouterModelId?: string; // field 107 - OpenRouter/Cline provider model ID
-  planModeOpenRouterModelInfo?: OpenRouterModelInfo; // field 108 - OpenRouter model metadata
-  planModeOpenAiModelId?: string; // field 109 - OpenAI provider model ID
-  planModeOllamaModelId?: string; // field 111 - Ollama provider model ID
-  planModeGroqModelId?: string; // field 121 - Groq provider model ID
+// Kinds of "Always Allow" rules the agent can remember
+export type ApprovalRuleKind = "read" | "edit" | "execute" | "browser" | "mcp";
 
-  // Act mode configuration (fields 200-238 in proto)
-  actModeApiProvider?: ApiProvider | string;
-  actModeApiModelId?: string; // field 201 - generic model ID
-  actModeOpenRouterModelId?: string; // field 207 - OpenRouter/Cline provider model ID
-  actModeOpenRouterModelInfo?: OpenRouterModelInfo; // field 208 - OpenRouter model metadata
-  actModeOpenAiModelId?: string; // field 209 - OpenAI provider model ID
-  actModeOllamaModelId?: string; // field 211 - Ollama provider model ID
-  actModeGroqModelId?: string; // field 221 - Groq provider model ID
+// A persisted "Always Allow" rule
+export interface ApprovalRule {
+  id: string;
+  kind: ApprovalRuleKind;
+  // Execute rules only: when set, only commands starting with this prefix are allowed
+  commandPrefix?: string;
+  // Read and edit rules only: the rule covers files outside the workspace instead of in it
+  outsideWorkspace?: boolean;
+  createdAt: number;
 }
 
-export interface UpdateSettingsRequest {
-  apiConfiguration?: ModelsApiConfiguration;
-  mode?: PlanActMode;
-  yoloModeToggled?: boolean;
-}
+// Message types the agent sends and receives, generated from proto/cline/*.proto
+// Requests use the permissive input types, responses the __Output types with defaults filled in
+export { PlanActMode } from "./generated/cline/PlanActMode.js";
+export { ApiProvider } from "./generated/cline/ApiProvider.js";
+export type { Metadata } from "./generated/cline/Metadata.js";
+export type { EmptyRequest } from "./generated/cline/EmptyRequest.js";
+export type { StringRequest } from "./generated/cline/StringRequest.js";
+export type { NewTaskRequest } from "./generated/cline/NewTaskRequest.js";
+export type { AskResponseRequest } from "./generated/cline/AskResponseRequest.js";
+export type { GetTaskHistoryRequest } from "./generated/cline/GetTaskHistoryRequest.js";
+export type { TaskResponse__Output as TaskResponse } from "./generated/cline/TaskResponse.js";
+export type { TaskHistoryArray__Output as TaskHistoryResponse } from "./generated/cline/TaskHistoryArray.js";
+export type { State__Output as StateUpdate } from "./generated/cline/State.js";
+export type { ProcessInfo__Output as ProcessInfo } from "./generated/cline/ProcessInfo.js";
+export type { TogglePlanActModeRequest } from "./generated/cline/TogglePlanActModeRequest.js";
+export type { AutoApprovalActions } from "./generated/cline/AutoApprovalActions.js";
+export type { AutoApprovalSettingsRequest } from "./generated/cline/AutoApprovalSettingsRequest.js";
+export type { UpdateSettingsRequest } from "./generated/cline/UpdateSettingsRequest.js";
+export type { ModelsApiConfiguration } from "./generated/cline/ModelsApiConfiguration.js";
+export type { OpenAiModelsRequest } from "./generated/cline/OpenAiModelsRequest.js";
+export type { OpenRouterModelInfo__Output as OpenRouterModelInfo } from "./generated/cline/OpenRouterModelInfo.js";
+export type { OpenRouterCompatibleModelInfo__Output as OpenRouterModelsResponse } from "./generated/cline/OpenRouterCompatibleModelInfo.js";
+// ClineMessage as sent by UiService.subscribeToPartialMessage, with SCREAMING_CASE enums
+export type { ClineMessage__Output as ClineProtoMessage } from "./generated/cline/ClineMessage.js";
 
 // gRPC stream types
 export interface AsyncIterableStream<T> extends AsyncIterable<T> {
   [Symbol.asyncIterator](): AsyncIterator<T>;
 }
 
-// Cline gRPC services
-export interface TaskService {
-  newTask(request: NewTaskRequest): Promise<string>;
-  askResponse(request: AskResponseRequest): Promise<void>;
-  cancelTask(request: EmptyRequest): Promise<void>;
-}
-
-export interface StateService {
-  subscribeToState(request?: EmptyRequest): AsyncIterableStream<StateUpdate>;
-  getLatestState(request?: EmptyRequest): Promise<StateUpdate>;
-  togglePlanActModeProto(request: TogglePlanActModeRequest): Promise<void>;
-  updateAutoApprovalSettings(request: AutoApprovalSettingsRequest): Promise<void>;
-  updateSettings(request: UpdateSettingsRequest): Promise<void>;
-  getProcessInfo(request?: EmptyRequest): Promise<{ pid: number; address: string }>;
-}
-
-export interface UiService {
-  subscribeToPartialMessage(request?: EmptyRequest): AsyncIterableStream<ClineMessage>;
+// Options for a single Cline RPC
+export interface RpcCallOptions {
+  // Cancel the call; a cancelled stream just ends
+  signal?: AbortSignal;
+  // Deadline for this call, overriding the client's (unary RPCs only, 0 disables)
+  deadlineMs?: number;
 }
 
-// OpenRouter model info returned from ModelsService
-export interface OpenRouterModelInfo {
-  maxTokens?: number;
-  contextWindow?: number;
-  supportsImages?: boolean;
-  supportsPromptCache?: boolean;
-  inputPrice?: number;
-  outputPrice?: number;
-  cacheWritesPrice?: number;
-  cacheReadsPrice?: number;
-  description?: string;
-  name?: string;
-  temperature?: number;
-  supportsReasoning?: boolean;
-}
-
-// Response from refreshOpenRouterModelsRpc
-export interface OpenRouterModelsResponse {
-  models: Record<string, OpenRouterModelInfo>;
-}
+/**
+ * A generated gRPC service client with its callbacks and streams turned into
+ * promises (unary RPCs) and async iterables (server streaming RPCs)
+ */
+export type PromisifiedService<C extends grpc.Client> = {
+  [K in Exclude<keyof C, keyof grpc.Client>]: C[K] extends (
+    argument: infer Req,
+    callback: grpc.requestCallback<infer Res>,
+  ) => grpc.ClientUnaryCall
+    ? (request?: Req, options?: RpcCallOptions) => Promise<Res>
+    : C[K] extends (
+          argument: infer Req,
+          options?: grpc.CallOptions,
+        ) => grpc.ClientReadableStream<infer Res>
+      ? (request?: Req, options?: RpcCallOptions) => AsyncIterableStream<Res>
+      : never;
+};
 
-export interface ModelsService {
-  refreshOpenRouterModels(request?: EmptyRequest): Promise<OpenRouterModelsResponse>;
-}
+// Cline gRPC services
+export type TaskService = PromisifiedService<TaskServiceClient>;
+export type StateService = PromisifiedService<StateServiceClient>;
+export type UiService = PromisifiedService<UiServiceClient>;
+export type ModelsService = PromisifiedService<ModelsServiceClient>;
+export type BrowserService = PromisifiedService<BrowserServiceClient>;
 
 // Combined Cline client
 export interface ClineClient {
@@ -274,6 +203,7 @@ export interface ClineClient {
   State: StateService;
   Ui: UiService;
   Models: ModelsService;
+  Browser: BrowserService;
 }
 
 // Cline process instance
@@ -292,13 +222,23 @@ export interface ClineSession {
   partialStream: AsyncIterableStream<ClineMessage>;
   cancelled: boolean;
   mode: "plan" | "act";
+  cwd: string; // Working directory the client opened the session in
+  workspaceWarning?: string; // Shown on the first prompt when Cline runs in a different workspace
+  versionWarning?: string; // Shown on the first prompt when Cline's version is untested
   isTaskCreated?: boolean; // Track whether we've sent the first message to Cline
+  turnInProgress?: boolean; // A prompt turn is streaming Cline's responses
   // Cost tracking
   totalCost: number;
   totalTokensIn: number;
   totalTokensOut: number;
   totalCacheWrites: number;
   totalCacheReads: number;
+  turnUsage: ClineUsage; // Usage of the current (or last) prompt turn
+  usageByModel: Record<string, ClineUsage>; // Session usage split by the model that served it
+  // Budgets already warned about, and hard limits the user chose to go past
+  budgetWarned: Partial<Record<BudgetScope, boolean>>;
+  budgetOverridden: Partial<Record<BudgetScope, boolean>>;
+  budgetStopped?: boolean; // The current (or last) turn was stopped at a hard limit
 }
 
 // Cline prompt format - matches NewTaskRequest
@@ -308,6 +248,22 @@ export interface ClinePrompt {
   files?: string[]; // File paths to attach
 }
 
+// Server entry in Cline's MCP settings file (cline_mcp_settings.json)
+export type ClineMcpServerConfig =
+  | {
+      type: "stdio";
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+      disabled?: boolean;
+    }
+  | {
+      type: "sse" | "streamableHttp";
+      url: string;
+      headers?: Record<string, string>;
+      disabled?: boolean;
+    };
+
 // Tool info parsed from Cline messages
 export interface ClineToolInfo {
   type: string;
@@ -326,4 +282,39 @@ export interface ClineCostInfo {
   cacheWrites: number;
   cacheReads: number;
   cost: number;
+  modelId?: string; // Model that served the request, when Cline recorded it
+}
+
+// Spending budgets - limits that are left unset aren't enforced
+export type BudgetScope = "session" | "daily";
+
+export interface BudgetLimit {
+  costUsd?: number;
+  tokens?: number; // Input + output tokens
+}
+
+export interface BudgetScopeLimits {
+  soft?: BudgetLimit; // Crossing it shows a warning
+  hard?: BudgetLimit; // Crossing it stops the task until the user agrees to continue
+}
+
+export interface SpendingBudgets {
+  session?: BudgetScopeLimits;
+  daily?: BudgetScopeLimits; // Across all sessions, per local calendar day
+}
+
+// Spend counted against a budget
+export interface BudgetUsage {
+  costUsd: number;
+  tokens: number;
+}
+
+// Token and cost totals for a turn, a session or a single model
+export interface ClineUsage {
+  cost: number;
+  tokensIn: number;
+  tokensOut: number;
+  cacheWrites: number;
+  cacheReads: number;
+  requests: number;
 }
